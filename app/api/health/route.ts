@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { getActiveProviderName, getProviderNames } from '@/lib/openai';
 
 export async function GET() {
   try {
@@ -10,7 +11,8 @@ export async function GET() {
       geminiConfigured: !!process.env.GEMINI_API_KEY,
       openaiConfigured: !!process.env.OPENAI_API_KEY,
       apiKeyLength: process.env.GEMINI_API_KEY?.length || process.env.OPENAI_API_KEY?.length || 0,
-      llmProvider: process.env.GEMINI_API_KEY ? 'gemini' : process.env.OPENAI_API_KEY ? 'openai' : 'none'
+      llmProvider: getActiveProviderName(),
+      availableProviders: getProviderNames()
     };
 
     return NextResponse.json(health);
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { createAnalysisId, getAnalysisStore } from '@/lib/store';
+import { StoredAnalysis } from '@/lib/types';
+
+describe('GET /api/referee/[id]/export', () => {
+  const request = (id: string, query = 'format=md') => new NextRequest(`http://localhost:3000/api/referee/${id}/export?${query}`);
+
+  const cell = (score: number) => ({ score, confidence: 0.8 });
+
+  const save = async (): Promise<StoredAnalysis> => {
+    const id = createAnalysisId();
+    const record: StoredAnalysis = {
+      id,
+      analysis: {
+        matchup: { technology1: 'PostgreSQL', technology2: 'MongoDB' },
+        taleOfTheTape: {
+          speed: { tech1: 'Fast joins', tech2: 'Fast document reads' },
+          cost: { tech1: '$0 license', tech2: 'Atlas pricing' },
+          developerExperience: { tech1: 'SQL', tech2: 'Schema-less' },
+          scalability: { tech1: 'Vertical first', tech2: 'Sharding' },
+          maintainability: { tech1: 'Migrations', tech2: 'Schema drift' }
+        },
+        scores: {
+          speed: { tech1: cell(7), tech2: cell(8) },
+          cost: { tech1: cell(9), tech2: cell(5) },
+          developerExperience: { tech1: cell(8), tech2: cell(7) },
+          scalability: { tech1: cell(6), tech2: cell(9) },
+          maintainability: { tech1: cell(8), tech2: cell(6) }
+        },
+        scenarios: [],
+        hiddenTaxes: [{ technology: 'MongoDB', warning: 'Reporting pain', timeframe: '6 months', severity: 'medium', likelihood: 'high', mitigation: 'ETL jobs' }],
+        tieBreaker: 'Do you need ad-hoc joins?'
+      },
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      createdAt: '2024-05-01T12:00:00.000Z'
+    };
+    await getAnalysisStore().save(record);
+    return record;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('downloads a saved analysis as a Markdown ADR', async () => {
+    const { id } = await save();
+
+    const response = await GET(request(id), { params: { id } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/markdown; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="adr-postgresql-vs-mongodb.md"');
+    const markdown = await response.text();
+    expect(markdown).toContain('# ADR: PostgreSQL vs MongoDB');
+    expect(markdown).toContain('- **Source:** Tech Referee verdict (openai / gpt-4o-mini)');
+    expect(markdown).toContain(`- **Verdict:** /verdict/${id}`);
+    expect(markdown).toContain('1. PostgreSQL: 7.6/10');
+  });
+
+  it('ranks the contenders under the weights in the link', async () => {
+    const { id } = await save();
+
+    const response = await GET(request(id, 'format=md&weights=scalability:5,cost:0'), { params: { id } });
+
+    expect(await response.text()).toContain('Weighted by Cost ignored, Scalability ×5, the scores rank:\n\n1. MongoDB');
+  });
+
+  it('downloads a saved analysis as a PDF report', async () => {
+    const { id } = await save();
+
+    const response = await GET(request(id, 'format=pdf'), { params: { id } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="verdict-postgresql-vs-mongodb.pdf"');
+    const pdf = Buffer.from(await response.arrayBuffer()).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Model: openai / gpt-4o-mini) Tj');
+  });
+
+  it('rejects unknown formats and IDs', async () => {
+    const id = createAnalysisId();
+
+    const unsupported = await GET(request(id, 'format=docx'), { params: { id } });
+    expect(unsupported.status).toBe(400);
+    expect((await unsupported.json()).error.code).toBe('UNSUPPORTED_FORMAT');
+
+    const malformed = await GET(request('bad'), { params: { id: 'bad' } });
+    expect((await malformed.json()).error.code).toBe('INVALID_ANALYSIS_ID');
+
+    const missing = await GET(request(id), { params: { id } });
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.code).toBe('ANALYSIS_NOT_FOUND');
+  });
+
+  it('reports store failures as a server error', async () => {
+    const id = createAnalysisId();
+    jest.spyOn(getAnalysisStore(), 'get').mockRejectedValue(new Error('disk full') as never);
+
+    const response = await GET(request(id), { params: { id } });
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error.code).toBe('STORE_ERROR');
+  });
+});
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdrMarkdown, createPdfReport, EXPORT_FORMATS, EXPORT_TYPES, exportFilename, isExportFormat } from '@/lib/export';
+import { decodeWeights } from '@/lib/scoring';
+import { getAnalysisStore, isValidAnalysisId } from '@/lib/store';
+import { StoredAnalysisResponse } from '@/lib/types';
+
+/**
+ * Error response in the same shape as POST /api/referee
+ */
+function createErrorResponse(code: string, message: string, status: number, details?: string): NextResponse<StoredAnalysisResponse> {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+      timestamp: new Date().toISOString()
+    }
+  }, { status });
+}
+
+/**
+ * GET handler downloading a saved analysis as a Markdown ADR (`?format=md`)
+ * or a PDF report (`?format=pdf`), ranked under the slider weights in
+ * `?weights=`
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const format = request.nextUrl.searchParams.get('format') || 'md';
+  if (!isExportFormat(format)) {
+    return createErrorResponse(
+      'UNSUPPORTED_FORMAT',
+      `Cannot export as "${format}"`,
+      400,
+      `Supported formats: ${EXPORT_FORMATS.join(', ')}`
+    );
+  }
+
+  if (!isValidAnalysisId(params.id)) {
+    return createErrorResponse(
+      'INVALID_ANALYSIS_ID',
+      'Analysis ID is not valid',
+      400,
+      'IDs are 8-64 letters, numbers, hyphens or underscores, as returned in the "id" field of a verdict'
+    );
+  }
+
+  try {
+    const record = await getAnalysisStore().get(params.id);
+    if (!record) {
+      return createErrorResponse(
+        'ANALYSIS_NOT_FOUND',
+        'No saved analysis has this ID',
+        404,
+        'The link may be mistyped, or the analysis was saved by a different deployment'
+      );
+    }
+
+    const weights = decodeWeights(request.nextUrl.searchParams.get('weights') || undefined);
+    const analysis = { ...record.analysis, id: record.id };
+    const body = format === 'pdf'
+      ? createPdfReport(analysis, record, weights)
+      : createAdrMarkdown(analysis, record, weights);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': EXPORT_TYPES[format].contentType,
+        'Content-Disposition': `attachment; filename="${exportFilename(record.analysis, format)}"`
+      }
+    });
+  } catch (error) {
+    console.error('Failed to export analysis:', error);
+    return createErrorResponse(
+      'STORE_ERROR',
+      'Saved analyses are unavailable right now.',
+      500,
+      'Please try again. If the problem persists, contact support.'
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { createAnalysisId, getAnalysisStore } from '@/lib/store';
+import { StoredAnalysis } from '@/lib/types';
+
+describe('GET /api/referee/[id]', () => {
+  const request = (id: string) => new NextRequest(`http://localhost:3000/api/referee/${id}`);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns a saved analysis with its model and timestamp', async () => {
+    const id = createAnalysisId();
+    const record: StoredAnalysis = {
+      id,
+      analysis: {
+        id,
+        matchup: { technology1: 'PostgreSQL', technology2: 'MongoDB' },
+        taleOfTheTape: {
+          speed: { tech1: 'Fast joins', tech2: 'Fast document reads' },
+          cost: { tech1: '$0 license', tech2: 'Atlas pricing' },
+          developerExperience: { tech1: 'SQL', tech2: 'Schema-less' },
+          scalability: { tech1: 'Vertical first', tech2: 'Sharding' },
+          maintainability: { tech1: 'Migrations', tech2: 'Schema drift' }
+        },
+        scenarios: [],
+        hiddenTaxes: [{ technology: 'MongoDB', warning: 'Reporting pain', timeframe: '6 months', severity: 'medium', likelihood: 'high', mitigation: 'ETL jobs' }],
+        tieBreaker: 'Do you need ad-hoc joins?'
+      },
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      createdAt: '2024-05-01T12:00:00.000Z'
+    };
+    await getAnalysisStore().save(record);
+
+    const response = await GET(request(id), { params: { id } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, data: record });
+  });
+
+  it('distinguishes malformed IDs from unknown ones', async () => {
+    const malformed = await GET(request('bad'), { params: { id: 'bad' } });
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error.code).toBe('INVALID_ANALYSIS_ID');
+
+    const id = createAnalysisId();
+    const missing = await GET(request(id), { params: { id } });
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.code).toBe('ANALYSIS_NOT_FOUND');
+  });
+
+  it('reports store failures as a server error', async () => {
+    const id = createAnalysisId();
+    jest.spyOn(getAnalysisStore(), 'get').mockRejectedValue(new Error('disk full') as never);
+
+    const response = await GET(request(id), { params: { id } });
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error.code).toBe('STORE_ERROR');
+  });
+});
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisStore, isValidAnalysisId } from '@/lib/store';
+import { StoredAnalysisResponse } from '@/lib/types';
+
+/**
+ * Error response in the same shape as POST /api/referee
+ */
+function createErrorResponse(code: string, message: string, status: number, details?: string): NextResponse<StoredAnalysisResponse> {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+      timestamp: new Date().toISOString()
+    }
+  }, { status });
+}
+
+/**
+ * GET handler returning a saved analysis with its provider, model and timestamp
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<StoredAnalysisResponse>> {
+  if (!isValidAnalysisId(params.id)) {
+    return createErrorResponse(
+      'INVALID_ANALYSIS_ID',
+      'Analysis ID is not valid',
+      400,
+      'IDs are 8-64 letters, numbers, hyphens or underscores, as returned in the "id" field of a verdict'
+    );
+  }
+
+  try {
+    const record = await getAnalysisStore().get(params.id);
+    if (!record) {
+      return createErrorResponse(
+        'ANALYSIS_NOT_FOUND',
+        'No saved analysis has this ID',
+        404,
+        'The link may be mistyped, or the analysis was saved by a different deployment'
+      );
+    }
+
+    return NextResponse.json({ success: true, data: record });
+  } catch (error) {
+    console.error('Failed to load analysis:', error);
+    return createErrorResponse(
+      'STORE_ERROR',
+      'Saved analyses are unavailable right now.',
+      500,
+      'Please try again. If the problem persists, contact support.'
+    );
+  }
+}
@@ -3,7 +3,10 @@
  */
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 import fc from 'fast-check';
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getComparisonDimensions, UPGRADE_DIMENSIONS } from '@/lib/dimensions';
+import { parseSSEChunk } from '@/lib/sse';
+import { LATEST_PROMPT_FEATURES } from '@/lib/types';
 
 // Feature: tech-referee, Property 14: API error handling
 // **Validates: Requirements 5.2, 5.5**
@@ -11,6 +14,10 @@ import { NextRequest, NextResponse } from 'next/server';
 // Mock the OpenAI module
 jest.mock('@/lib/openai', () => ({
   callOpenAI: jest.fn(),
+  streamOpenAI: jest.fn(),
+  getProviderTimeoutMs: jest.fn(() => 30000),
+  getProviderCapabilities: () => null,
+  getProviderModel: () => ({ provider: 'gemini', model: 'gemini-2.5-flash' }),
   OpenAIError: class OpenAIError extends Error {
     constructor(message: string, public code: string, public details?: any) {
       super(message);
@@ -24,11 +31,77 @@ jest.mock('@/lib/openai', () => ({
 jest.mock('@/lib/prompts', () => ({
   createPromptPackage: jest.fn().mockReturnValue({
     isValid: true,
+    systemPrompt: 'test system prompt',
     userPrompt: 'test prompt',
+    promptVersion: '1',
     errors: []
-  })
+  }),
+  getPromptVersions: () => ['1', '2'],
+  createCorrectivePrompt: jest.fn(() => 'corrective prompt'),
+  createRepairPrompt: jest.fn(() => 'repair prompt'),
+  REFEREE_PROMPT_VERSION: '1'
 }));
 
+// Request builders and route loading shared by the describe blocks below
+const REACT_VS_VUE = { tech1: 'React', tech2: 'Vue' };
+const SVELTE_VS_SOLID = { tech1: 'Svelte', tech2: 'Solid' };
+
+/**
+ * A POST /api/referee request; `stream` asks for Server-Sent Events
+ */
+function createRequest(body: unknown = REACT_VS_VUE, { stream = false } = {}): NextRequest {
+  return new NextRequest('http://localhost:3000/api/referee', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'content-type': 'application/json',
+      ...(stream ? { 'accept': 'text/event-stream' } : {}),
+    },
+  });
+}
+
+/**
+ * The events of a streamed response, with their data parsed
+ */
+async function readEvents(response: Response) {
+  const { messages } = parseSSEChunk(await response.text());
+  return messages.map(message => ({ event: message.event, data: JSON.parse(message.data) }));
+}
+
+/**
+ * Settles only by rejecting once the signal aborts, like a stalled provider stream
+ */
+function waitForAbort(signal?: AbortSignal) {
+  return new Promise<never>((_, reject) => {
+    signal?.addEventListener('abort', () => reject(new Error('The operation was aborted')), { once: true });
+  });
+}
+
+/**
+ * Loads the route and its mocked modules before each test of the calling
+ * describe block, and restores spies after it
+ */
+function useRefereeRoute() {
+  const route = {} as {
+    POST: typeof import('./route').POST;
+    openai: jest.Mocked<typeof import('@/lib/openai')>;
+    prompts: jest.Mocked<typeof import('@/lib/prompts')>;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    route.POST = (await import('./route')).POST;
+    route.openai = jest.mocked(await import('@/lib/openai'));
+    route.prompts = jest.mocked(await import('@/lib/prompts'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  return route;
+}
+
 describe('API Error Handling Property Tests', () => {
   let POST: any;
   let openaiModule: any;
@@ -364,9 +437,10 @@ Do you have experienced React developers on your team?
       expect(analysis.scenarios[2].winner).toContain('Vue');
       
       // Verify hidden tax
-      expect(analysis.hiddenTax.technology).toBe('React');
-      expect(analysis.hiddenTax.warning).toContain('decision fatigue');
-      expect(analysis.hiddenTax.timeframe).toBe('6 months');
+      expect(analysis.hiddenTaxes).toHaveLength(1);
+      expect(analysis.hiddenTaxes[0].technology).toBe('React');
+      expect(analysis.hiddenTaxes[0].warning).toContain('decision fatigue');
+      expect(analysis.hiddenTaxes[0].timeframe).toBe('6 months');
       
       // Verify tie-breaker
       expect(analysis.tieBreaker).toContain('experienced React developers');
@@ -379,11 +453,11 @@ Do you have experienced React developers on your team?
 PostgreSQL vs MongoDB for database choice
 
 ### 2. 📊 The Tale of the Tape
-Speed | PostgreSQL: ACID compliance | MongoDB: Document flexibility
-Cost | PostgreSQL: Open source | MongoDB: Freemium model
-Developer Experience | PostgreSQL: SQL familiarity | MongoDB: JSON-like queries
+Durability | PostgreSQL: WAL with synchronous replicas | MongoDB: Journaled replica sets
+Consistency Model | PostgreSQL: Serializable transactions | MongoDB: Tunable read concerns
+Query Flexibility | PostgreSQL: Full SQL with joins | MongoDB: JSON-like queries
 Scalability | PostgreSQL: Vertical scaling | MongoDB: Horizontal sharding
-Maintainability | PostgreSQL: Schema enforcement | MongoDB: Schema flexibility
+Operational Cost | PostgreSQL: Open source | MongoDB: Freemium model
 
 ### 3. ⚖️ The Verdicts
 **Scenario A (The 'Move Fast' Team):** Which wins? MongoDB wins. Why? Rapid prototyping with flexible schema.
@@ -416,8 +490,8 @@ How important is strict data consistency for your use case?
       expect(responseData.success).toBe(true);
       expect(responseData.data.matchup.technology1).toBe('PostgreSQL');
       expect(responseData.data.matchup.technology2).toBe('MongoDB');
-      expect(responseData.data.hiddenTax.technology).toBe('MongoDB');
-      expect(responseData.data.hiddenTax.timeframe).toBe('1 year');
+      expect(responseData.data.hiddenTaxes[0].technology).toBe('MongoDB');
+      expect(responseData.data.hiddenTaxes[0].timeframe).toBe('1 year');
     });
 
     it('should trim whitespace from technology inputs', async () => {
@@ -661,6 +735,46 @@ Do you need to manage containers across multiple hosts?
       expect(responseData.error.code).toBe('INVALID_REQUEST_BODY');
       expect(responseData.error.message).toContain('valid JSON object');
     });
+
+    it('should suggest the catalog name for a misspelled technology', async () => {
+      // Arrange: Request with a typo in tech1
+      const mockRequest = new NextRequest('http://localhost:3000/api/referee', {
+        method: 'POST',
+        body: JSON.stringify({ tech1: 'Postgress', tech2: 'MongoDB' }),
+        headers: {
+          'content-type': 'application/json',
+        },
+      });
+
+      // Act
+      const response = await POST(mockRequest);
+      const responseData = await response.json();
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(responseData.error.code).toBe('INVALID_TECH1_FORMAT');
+      expect(responseData.error.details).toContain('Did you mean "PostgreSQL"?');
+      expect(responseData.error.suggestions).toEqual(['PostgreSQL']);
+    });
+
+    it.each(['Next', 'next', 'MSSQL'])('should accept %s rather than flag it as a typo', async (name) => {
+      // Arrange: A name close to a catalog name that other checks accept
+      const mockRequest = new NextRequest('http://localhost:3000/api/referee', {
+        method: 'POST',
+        body: JSON.stringify({ tech1: name, tech2: 'MongoDB' }),
+        headers: {
+          'content-type': 'application/json',
+        },
+      });
+
+      // Act
+      const response = await POST(mockRequest);
+      const responseData = await response.json();
+
+      // Assert
+      expect(responseData.error?.code).not.toBe('INVALID_TECH1_FORMAT');
+      expect(responseData.error?.suggestions).toBeUndefined();
+    });
   });
 
   describe('OpenAI API failure scenarios', () => {
@@ -977,7 +1091,7 @@ What matters more: ecosystem or simplicity?
       expect(responseData.data).toHaveProperty('matchup');
       expect(responseData.data).toHaveProperty('taleOfTheTape');
       expect(responseData.data).toHaveProperty('scenarios');
-      expect(responseData.data).toHaveProperty('hiddenTax');
+      expect(responseData.data).toHaveProperty('hiddenTaxes');
       expect(responseData.data).toHaveProperty('tieBreaker');
     });
   });
@@ -1083,9 +1197,9 @@ ${tieBreakerContent}
         expect(Array.isArray(analysis.scenarios)).toBe(true);
         expect(analysis.scenarios.length).toBe(3);
         
-        expect(analysis.hiddenTax).toBeDefined();
-        expect(analysis.hiddenTax.technology).toBeTruthy();
-        expect(analysis.hiddenTax.warning).toBeTruthy();
+        expect(analysis.hiddenTaxes.length).toBeGreaterThan(0);
+        expect(analysis.hiddenTaxes[0].technology).toBeTruthy();
+        expect(analysis.hiddenTaxes[0].warning).toBeTruthy();
         
         expect(analysis.tieBreaker).toBeDefined();
         expect(typeof analysis.tieBreaker).toBe('string');
@@ -1401,7 +1515,7 @@ What matters more: development speed or long-term maintainability?
         expect(analysis).toHaveProperty('matchup');
         expect(analysis).toHaveProperty('taleOfTheTape');
         expect(analysis).toHaveProperty('scenarios');
-        expect(analysis).toHaveProperty('hiddenTax');
+        expect(analysis).toHaveProperty('hiddenTaxes');
         expect(analysis).toHaveProperty('tieBreaker');
         
         // Validate data types are consistent
@@ -1422,4 +1536,973 @@ What matters more: development speed or long-term maintainability?
       }
     ), { numRuns: 100 });
   });
-});
\ No newline at end of file
+});
+// ============================================================================
+// Structured JSON Output Tests
+// ============================================================================
+
+describe('Structured JSON output mode', () => {
+  const route = useRefereeRoute();
+  const originalFormat = process.env.REFEREE_OUTPUT_FORMAT;
+
+  const structuredAnalysis = {
+    matchup: { technology1: 'react', technology2: 'vue' },
+    taleOfTheTape: {
+      speed: { tech1: 'Fast virtual DOM', tech2: 'Fine-grained reactivity' },
+      cost: { tech1: '$0 license cost', tech2: '$0 license cost' },
+      developerExperience: { tech1: 'Large ecosystem', tech2: 'Gentle learning curve' },
+      scalability: { tech1: 'Proven at Meta scale', tech2: 'Progressive adoption' },
+      maintainability: { tech1: 'Explicit state flow', tech2: 'Template-based clarity' }
+    },
+    scenarios: [
+      { name: 'Move Fast Team', winner: 'Vue', reasoning: 'Wins if the team is new to SPAs.', context: 'Two developers shipping an MVP.' },
+      { name: 'Scale Team', winner: 'React', reasoning: 'Wins if you need a deep hiring pool.', context: 'Fifty engineers across squads.' },
+      { name: 'Budget Team', winner: 'Vue', reasoning: 'Wins if training time is the main cost.', context: 'Agency with fixed-price projects.' }
+    ],
+    hiddenTaxes: [
+      {
+        technology: 'React',
+        warning: 'decision fatigue from picking state and routing libraries',
+        timeframe: '6 months',
+        severity: 'medium',
+        likelihood: 'high',
+        mitigation: 'Write down a default stack before the first sprint'
+      },
+      {
+        technology: 'Vue',
+        warning: 'a smaller hiring pool for senior engineers',
+        timeframe: '12 months',
+        severity: 'medium',
+        likelihood: 'medium',
+        mitigation: 'Budget onboarding time for React developers'
+      }
+    ],
+    tieBreaker: 'Do you already have React developers on staff?'
+  };
+
+  beforeEach(async () => {
+    process.env.REFEREE_OUTPUT_FORMAT = 'json';
+
+
+    route.openai.validateOpenAIConfig.mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    if (originalFormat === undefined) {
+      delete process.env.REFEREE_OUTPUT_FORMAT;
+    } else {
+      process.env.REFEREE_OUTPUT_FORMAT = originalFormat;
+    }
+  });
+
+  it('requests JSON output with the RefereeAnalysis schema and returns the parsed analysis', async () => {
+    route.openai.callOpenAI.mockResolvedValue('```json\n' + JSON.stringify(structuredAnalysis) + '\n```');
+
+    const response = await route.POST(createRequest());
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.success).toBe(true);
+    expect(responseData.data.matchup).toEqual({ technology1: 'React', technology2: 'Vue' });
+    expect(responseData.data.hiddenTaxes.map((tax: any) => tax.timeframe)).toEqual(['6 months', '12 months']);
+    expect(responseData.data.scenarios.map((s: any) => s.name)).toEqual(['Move Fast Team', 'Scale Team', 'Budget Team']);
+
+    const [, options] = route.openai.callOpenAI.mock.calls[0];
+    expect(options?.responseFormat).toBe('json');
+    expect(options?.responseSchema?.required).toContain('taleOfTheTape');
+  });
+
+  it('returns the scores behind the descriptors when the model gives them', async () => {
+    const scores = Object.fromEntries(Object.keys(structuredAnalysis.taleOfTheTape).map(key => [
+      key,
+      { tech1: { score: 8, confidence: 0.7 }, tech2: { score: 6, confidence: 0.9 } }
+    ]));
+    route.openai.callOpenAI.mockResolvedValue(JSON.stringify({ ...structuredAnalysis, scores }));
+
+    const responseData = await (await route.POST(createRequest())).json();
+
+    expect(responseData.data.scores).toEqual(scores);
+    const [, options] = route.openai.callOpenAI.mock.calls[0];
+    expect(options?.responseSchema?.properties?.scores.required).toContain('speed');
+  });
+
+  it('asks prompt versions with a single Hidden Tax for that shape and reads it back', async () => {
+    route.prompts.createPromptPackage.mockReturnValueOnce({
+      isValid: true,
+      systemPrompt: 'test system prompt',
+      userPrompt: 'test prompt',
+      promptVersion: '1',
+      features: { hiddenTaxPerContender: false, tapeScores: false },
+      errors: []
+    });
+    const { hiddenTaxes, ...legacy } = structuredAnalysis;
+    route.openai.callOpenAI.mockResolvedValue(JSON.stringify({
+      ...legacy,
+      hiddenTax: { technology: 'React', warning: hiddenTaxes[0].warning, timeframe: '6 months', impact: 'Slower onboarding' }
+    }));
+
+    const responseData = await (await route.POST(createRequest())).json();
+
+    const [, options] = route.openai.callOpenAI.mock.calls[0];
+    expect(options?.responseSchema?.required).toContain('hiddenTax');
+    expect(options?.responseSchema?.required).not.toContain('hiddenTaxes');
+    expect(options?.responseSchema?.properties).not.toHaveProperty('scores');
+    expect(responseData.success).toBe(true);
+    expect(responseData.data.hiddenTaxes).toEqual([{
+      technology: 'React',
+      warning: structuredAnalysis.hiddenTaxes[0].warning,
+      timeframe: '6 months'
+    }]);
+  });
+
+  it('reports schema violations with field paths', async () => {
+    const invalid = { ...structuredAnalysis, hiddenTaxes: [{ ...structuredAnalysis.hiddenTaxes[0], timeframe: '' }, structuredAnalysis.hiddenTaxes[1]] };
+    route.openai.callOpenAI.mockResolvedValue(JSON.stringify(invalid));
+
+    const response = await route.POST(createRequest());
+    const responseData = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(responseData.error.code).toBe('PARSING_ERROR');
+    expect(responseData.error.details).toContain('$.hiddenTaxes[0].timeframe');
+  });
+
+  it('streams JSON verdicts and sends their sections once the object parses', async () => {
+    const json = JSON.stringify(structuredAnalysis);
+    route.openai.streamOpenAI.mockImplementation(async function* () {
+      yield json.slice(0, 200);
+      yield json.slice(200);
+    });
+
+    const events = await readEvents(await route.POST(createRequest(REACT_VS_VUE, { stream: true })));
+
+    expect(events.filter(e => e.event !== 'progress').map(e => e.event)).toEqual([
+      'matchup', 'taleOfTheTape', 'scenario', 'scenario', 'scenario', 'hiddenTax', 'tieBreaker', 'done'
+    ]);
+    expect(events.find(e => e.event === 'hiddenTax')?.data.map((tax: any) => tax.technology)).toEqual(['React', 'Vue']);
+    expect(events[events.length - 1].data.tieBreaker).toBe(structuredAnalysis.tieBreaker);
+
+    const [, options] = route.openai.streamOpenAI.mock.calls[0];
+    expect(options?.responseFormat).toBe('json');
+    expect(options?.responseSchema?.required).toContain('taleOfTheTape');
+  });
+
+  it('falls back to the markdown parser when the model ignores JSON mode', async () => {
+    route.openai.callOpenAI.mockResolvedValue(`
+### 1. 🥊 The Matchup
+React vs Vue for frontend development
+
+### 2. 📊 The Tale of the Tape
+| Dimension | React | Vue |
+|---|---|---|
+| Speed | Fast virtual DOM | Optimized reactivity |
+| Cost | Free open source | Free open source |
+| Developer Experience | Large ecosystem | Gentle learning curve |
+| Scalability | Component composition | Progressive framework |
+| Maintainability | Explicit state flow | Template-based clarity |
+
+### 3. ⚖️ The Verdicts
+**Scenario A (The 'Move Fast' Team):** Which wins? Vue wins. Why? Less boilerplate for small teams.
+**Scenario B (The 'Scale' Team):** Which wins? React wins. Why? Deep hiring pool for large teams.
+**Scenario C (The 'Budget' Team):** Which wins? Vue wins. Why? Shorter onboarding for new hires.
+
+### 4. ⚠️ The "Hidden Tax"
+If you choose React, be prepared to pay the tax of decision fatigue in 6 months.
+
+### 5. 🏁 The Tie-Breaker
+Do you have experienced React developers on your team?
+    `.trim());
+
+    const response = await route.POST(createRequest());
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.success).toBe(true);
+    expect(responseData.data.taleOfTheTape.speed.tech1).toBe('Fast virtual DOM');
+  });
+});
+
+describe('Streaming (Server-Sent Events) mode', () => {
+  const route = useRefereeRoute();
+
+  const markdownChunks = [
+    '### 1. 🥊 The Matchup\nReact vs Vue for frontend development\n\n### 2. 📊 The Tale of the Tape\n',
+    '| Dimension | React | Vue |\n|---|---|---|\n| Speed | Fast virtual DOM | Optimized reactivity |\n',
+    '| Cost | Free open source | Free open source |\n| Developer Experience | Large ecosystem | Gentle learning curve |\n',
+    '| Scalability | Component composition | Progressive framework |\n| Maintainability | Explicit state flow | Template-based clarity |\n\n',
+    "### 3. ⚖️ The Verdicts\n**Scenario A (The 'Move Fast' Team):** Which wins? Vue wins. Why? Less boilerplate for small teams.\n",
+    "**Scenario B (The 'Scale' Team):** Which wins? React wins. Why? Deep hiring pool for large teams.\n",
+    "**Scenario C (The 'Budget' Team):** Which wins? Vue wins. Why? Shorter onboarding for new hires.\n\n",
+    '### 4. ⚠️ The "Hidden Tax"\nIf you choose React, be prepared to pay the tax of decision fatigue in 6 months.\n\n',
+    '### 5. 🏁 The Tie-Breaker\nDo you have experienced React developers on your team?'
+  ];
+
+  it('emits each section in order, then the complete analysis', async () => {
+    route.openai.streamOpenAI.mockImplementation(async function* () {
+      yield* markdownChunks;
+    });
+
+    const response = await route.POST(createRequest(REACT_VS_VUE, { stream: true }));
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const events = await readEvents(response);
+    const sectionEvents = events.filter(e => e.event !== 'progress').map(e => e.event);
+    expect(sectionEvents).toEqual([
+      'matchup', 'taleOfTheTape', 'scenario', 'scenario', 'scenario', 'hiddenTax', 'tieBreaker', 'done'
+    ]);
+
+    const progress = events.filter(e => e.event === 'progress').map(e => e.data.completed);
+    expect(progress).toEqual([0, 1, 2, 3, 4, 5]);
+
+    const done = events[events.length - 1];
+    expect(done.data.matchup).toEqual({ technology1: 'React', technology2: 'Vue' });
+    expect(done.data.tieBreaker).toContain('React developers');
+    expect(route.openai.callOpenAI).not.toHaveBeenCalled();
+  });
+
+  it('sends an error event when the provider fails mid-stream', async () => {
+    route.openai.streamOpenAI.mockImplementation(async function* () {
+      yield markdownChunks[0];
+      throw new route.openai.OpenAIError('Rate limit exceeded', 'rate_limit_exceeded');
+    });
+
+    const events = await readEvents(await route.POST(createRequest(REACT_VS_VUE, { stream: true })));
+
+    const error = events[events.length - 1];
+    expect(events.map(e => e.event)).toEqual(['progress', 'matchup', 'progress', 'error']);
+    expect(error.data.code).toBe('rate_limit_exceeded');
+    expect(error.data.timestamp).toBeDefined();
+  });
+
+  it('announces the category before streaming a category-specific Tale of the Tape', async () => {
+    route.openai.streamOpenAI.mockImplementation(async function* () {
+      yield '### 1. 🥊 The Matchup\nPostgreSQL vs MySQL for an order system\n\n### 2. 📊 The Tale of the Tape\n';
+      yield '| Dimension | PostgreSQL | MySQL |\n|---|---|---|\n| Durability | WAL with sync replicas | InnoDB redo log |\n';
+      yield '| Consistency Model | Serializable snapshots | Repeatable read default |\n| Query Flexibility | CTEs and JSONB | Simpler optimizer |\n';
+      yield '| Scalability | Read replicas | Mature sharding tools |\n| Operational Cost | $0 license | $0 license |\n\n';
+      yield markdownChunks.slice(4).join('');
+    });
+
+    const request = createRequest({ tech1: 'PostgreSQL', tech2: 'MySQL' }, { stream: true });
+    const events = (await readEvents(await route.POST(request))).filter(e => e.event !== 'progress');
+
+    expect(events.slice(0, 3).map(e => e.event)).toEqual(['matchup', 'category', 'taleOfTheTape']);
+    expect(events[1].data).toBe('database');
+    expect(events[2].data.durability).toEqual({ tech1: 'WAL with sync replicas', tech2: 'InnoDB redo log' });
+    expect(events[events.length - 1].data.category).toBe('database');
+  });
+
+  it('streams the Tale of the Tape scores after its descriptors', async () => {
+    route.openai.streamOpenAI.mockImplementation(async function* () {
+      yield markdownChunks[0];
+      yield '| Dimension | React | Vue |\n|---|---|---|\n| Speed | Fast virtual DOM (8/10, 70% confidence) | Optimized reactivity (8/10, 80% confidence) |\n';
+      yield '| Cost | $0 license (9/10, 90% confidence) | $0 license (9/10, 90% confidence) |\n| Developer Experience | Large ecosystem (8/10, 80% confidence) | Gentle learning curve (9/10, 70% confidence) |\n';
+      yield '| Scalability | Proven at Meta scale (9/10, 80% confidence) | Progressive adoption (7/10, 60% confidence) |\n| Maintainability | Explicit state flow (7/10, 60% confidence) | Template-based clarity (8/10, 60% confidence) |\n\n';
+      yield markdownChunks.slice(4).join('');
+    });
+
+    const events = (await readEvents(await route.POST(createRequest(REACT_VS_VUE, { stream: true })))).filter(e => e.event !== 'progress');
+
+    expect(events.slice(0, 3).map(e => e.event)).toEqual(['matchup', 'taleOfTheTape', 'scores']);
+    expect(events[1].data.speed).toEqual({ tech1: 'Fast virtual DOM', tech2: 'Optimized reactivity' });
+    expect(events[2].data.scalability).toEqual({ tech1: { score: 9, confidence: 0.8 }, tech2: { score: 7, confidence: 0.6 } });
+
+    const done = events[events.length - 1];
+    expect(done.data.taleOfTheTape.cost.tech1).toBe('$0 license');
+    expect(done.data.scores).toEqual(events[2].data);
+  });
+
+  it('stops the provider stream when the client disconnects', async () => {
+    route.openai.streamOpenAI.mockImplementation(async function* (_prompt, options) {
+      yield markdownChunks[0];
+      await waitForAbort(options?.signal);
+    });
+
+    const response = await route.POST(createRequest(REACT_VS_VUE, { stream: true }));
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    const [, options] = route.openai.streamOpenAI.mock.calls[0];
+    expect(options?.signal?.aborted).toBe(true);
+  });
+
+  it('stops the provider stream at the deadline even while no chunks arrive', async () => {
+    route.openai.getProviderTimeoutMs.mockReturnValueOnce(20);
+    route.openai.streamOpenAI.mockImplementation(async function* (_prompt, options) {
+      yield markdownChunks[0];
+      await waitForAbort(options?.signal);
+    });
+
+    const events = await readEvents(await route.POST(createRequest(REACT_VS_VUE, { stream: true })));
+
+    const error = events[events.length - 1];
+    expect(error.event).toBe('error');
+    expect(error.data.code).toBe('TIMEOUT_ERROR');
+  });
+
+  it('keeps JSON error responses for requests that fail validation', async () => {
+    const response = await route.POST(createRequest({ tech1: 'React' }, { stream: true }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).success).toBe(false);
+    expect(route.openai.streamOpenAI).not.toHaveBeenCalled();
+  });
+});
+
+describe('Multi-way comparisons', () => {
+  const route = useRefereeRoute();
+
+  it('parses one Tale of the Tape column and winner per contender', async () => {
+    route.openai.callOpenAI.mockResolvedValue(`
+### 1. 🥊 The Matchup
+PostgreSQL vs MongoDB vs DynamoDB for the primary datastore
+
+### 2. 📊 The Tale of the Tape
+| Dimension | PostgreSQL | MongoDB | DynamoDB |
+|---|---|---|---|
+| Durability | WAL and replicas | Journaled replica sets | Three-AZ replication |
+| Consistency Model | Serializable transactions | Tunable read concerns | Eventual by default |
+| Query Flexibility | Ad-hoc SQL joins | Aggregation pipeline | Key lookups only |
+| Scalability | Vertical first | Built-in sharding | Managed partitions |
+| Operational Cost | $0 license | Atlas pricing at scale | Pay per request |
+
+### 3. ⚖️ The Verdicts
+**Scenario A (The 'Move Fast' Team):** Which wins? MongoDB wins. Why? No migrations while the schema settles.
+**Scenario B (The 'Scale' Team):** Which wins? DynamoDB wins. Why? Predictable latency with no servers to run.
+**Scenario C (The 'Budget' Team):** Which wins? PostgreSQL wins. Why? Runs on the smallest managed instance.
+
+### 4. ⚠️ The "Hidden Tax"
+If you choose DynamoDB, be prepared to pay the tax of rigid access patterns in 6 months.
+
+### 5. 🏁 The Tie-Breaker
+Do you know your query patterns today?
+    `.trim());
+
+    const response = await route.POST(createRequest({ technologies: ['PostgreSQL', 'MongoDB', 'DynamoDB'] }));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.data.matchup).toEqual({
+      technology1: 'PostgreSQL',
+      technology2: 'MongoDB',
+      technologies: ['PostgreSQL', 'MongoDB', 'DynamoDB']
+    });
+    expect(responseData.data.category).toBe('database');
+    expect(responseData.data.taleOfTheTape.queryFlexibility).toEqual({
+      tech1: 'Ad-hoc SQL joins',
+      tech2: 'Aggregation pipeline',
+      tech3: 'Key lookups only'
+    });
+    expect(responseData.data.scenarios.map((s: any) => s.winner)).toEqual([
+      'MongoDB wins.', 'DynamoDB wins.', 'PostgreSQL wins.'
+    ]);
+    // The referee rated nothing, so no severity, likelihood or mitigation is made up
+    expect(responseData.data.hiddenTaxes).toEqual([
+      { technology: 'DynamoDB', warning: 'rigid access patterns', timeframe: '6 months' }
+    ]);
+  });
+
+  it('rejects contender lists outside the supported range', async () => {
+    const tooMany = await route.POST(createRequest({ technologies: ['React', 'Vue', 'Svelte', 'Angular', 'Solid', 'Qwik'] }));
+    expect(tooMany.status).toBe(400);
+    expect((await tooMany.json()).error.code).toBe('INVALID_TECHNOLOGIES');
+
+    const missingThird = await route.POST(createRequest({ technologies: ['React', 'Vue', ''] }));
+    expect(missingThird.status).toBe(400);
+    expect((await missingThird.json()).error.code).toBe('MISSING_TECH3');
+
+    expect(route.openai.callOpenAI).not.toHaveBeenCalled();
+  });
+});
+
+describe('Matchup constraints', () => {
+  const route = useRefereeRoute();
+
+  it('passes validated constraints to the prompt and echoes them on the analysis', async () => {
+    route.openai.callOpenAI.mockResolvedValue(`
+### 1. 🥊 The Matchup
+PostgreSQL vs MongoDB for a four-person team
+
+### 2. 📊 The Tale of the Tape
+| Dimension | PostgreSQL | MongoDB |
+|---|---|---|
+| Durability | WAL and replicas | Journaled replica sets |
+| Consistency Model | Serializable transactions | Tunable read concerns |
+| Query Flexibility | SQL fluency required | Schema-less start |
+| Scalability | Vertical first | Built-in sharding |
+| Operational Cost | $0 license | Atlas pricing at scale |
+
+### 3. ⚖️ The Verdicts
+**Scenario A (The 'Move Fast' Team):** Which wins? MongoDB wins. Why? No migrations while the schema settles.
+**Scenario B (The 'Scale' Team):** Which wins? PostgreSQL wins. Why? 2,500 RPS fits one primary with replicas.
+**Scenario C (The 'Budget' Team):** Which wins? PostgreSQL wins. Why? HIPAA-eligible managed hosting fits $1,500.
+
+### 4. ⚠️ The "Hidden Tax"
+If you choose MongoDB, be prepared to pay the tax of ad-hoc reporting in 6 months.
+
+### 5. 🏁 The Tie-Breaker
+Does your team already write SQL every day?
+    `.trim());
+
+    const response = await route.POST(createRequest({
+      tech1: 'PostgreSQL',
+      tech2: 'MongoDB',
+      constraints: { teamSize: '4', expectedRps: 2500, compliance: 'HIPAA', notes: '' }
+    }));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(route.prompts.createPromptPackage).toHaveBeenCalledWith('PostgreSQL', 'MongoDB', 'markdown', {
+      additionalTechnologies: [],
+      constraints: { teamSize: 4, expectedRps: 2500, compliance: ['HIPAA'] },
+      dimensions: getComparisonDimensions('database')
+    });
+    expect(responseData.data.constraints).toEqual({ teamSize: 4, expectedRps: 2500, compliance: ['HIPAA'] });
+  });
+
+  it('rejects out-of-range constraints before calling the LLM', async () => {
+    const response = await route.POST(createRequest({ tech1: 'React', tech2: 'Vue', constraints: { teamSize: -3 } }));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error.code).toBe('INVALID_CONSTRAINTS');
+    expect(responseData.error.details).toContain('constraints.teamSize');
+    expect(route.openai.callOpenAI).not.toHaveBeenCalled();
+  });
+});
+
+describe('Scenario personas', () => {
+  const route = useRefereeRoute();
+
+  const personas = [
+    { id: 'regulated', label: 'Regulated Enterprise', description: 'Audits every dependency', icon: 'shield', color: 'blue' },
+    { id: 'solo', label: 'Solo Maintainer', description: 'One person on call' }
+  ];
+
+  it('judges the requested personas and returns them with the analysis', async () => {
+    route.openai.callOpenAI.mockResolvedValue(`
+### 1. 🥊 The Matchup
+Angular vs React for a long-lived internal platform
+
+### 2. 📊 The Tale of the Tape
+| Dimension | Angular | React |
+|---|---|---|
+| Speed | Ahead-of-time compiled | Virtual DOM diffing |
+| Cost | $0 license | $0 license |
+| Developer Experience | Batteries included | Assemble your own stack |
+| Scalability | Opinionated modules | Depends on conventions |
+| Maintainability | Predictable upgrades | Library churn |
+
+### 3. ⚖️ The Verdicts
+**Scenario A (Regulated Enterprise):** Which wins? Angular wins. Why? One vendor-backed framework is easier to audit.
+**Scenario B (Solo Maintainer):** Which wins? React wins. Why? The largest pool of answers when you are alone on call.
+
+### 4. ⚠️ The "Hidden Tax"
+If you choose React, be prepared to pay the tax of dependency audits in 6 months.
+
+### 5. 🏁 The Tie-Breaker
+Does an auditor sign off on every dependency you add?
+    `.trim());
+
+    const response = await route.POST(createRequest({ tech1: 'Angular', tech2: 'React', scenarios: personas }));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(route.prompts.createPromptPackage).toHaveBeenCalledWith('Angular', 'React', 'markdown', expect.objectContaining({
+      scenarios: [personas[0], { ...personas[1], icon: 'target', color: 'gray' }]
+    }));
+    expect(responseData.data.scenarios.map((s: any) => [s.name, s.winner])).toEqual([
+      ['Regulated Enterprise', 'Angular wins.'],
+      ['Solo Maintainer', 'React wins.']
+    ]);
+    expect(responseData.data.scenarioPersonas).toHaveLength(2);
+  });
+
+  it('rejects invalid personas before calling the LLM', async () => {
+    const response = await route.POST(createRequest({ tech1: 'React', tech2: 'Vue', scenarios: [{ id: 'x', label: 'X' }] }));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error.code).toBe('INVALID_SCENARIOS');
+    expect(responseData.error.details).toContain('scenarios[0].description');
+    expect(route.openai.callOpenAI).not.toHaveBeenCalled();
+  });
+});
+
+describe('Saved analyses', () => {
+  const route = useRefereeRoute();
+
+  beforeEach(async () => {
+    route.openai.callOpenAI.mockResolvedValue(`
+### 1. 🥊 The Matchup
+React vs Vue for a dashboard rewrite
+
+### 2. 📊 The Tale of the Tape
+| Dimension | React | Vue |
+|---|---|---|
+| Speed | Virtual DOM diffing | Fine-grained reactivity |
+| Cost | $0 license | $0 license |
+| Developer Experience | Huge ecosystem | Gentle learning curve |
+| Scalability | Proven at Meta scale | Progressive adoption |
+| Maintainability | Explicit state flow | Single-file components |
+
+### 3. ⚖️ The Verdicts
+**Scenario A (The 'Move Fast' Team):** Which wins? Vue wins. Why? Templates are familiar to backend developers.
+**Scenario B (The 'Scale' Team):** Which wins? React wins. Why? The hiring pool is deeper than any other.
+**Scenario C (The 'Budget' Team):** Which wins? Vue wins. Why? Less time spent choosing libraries.
+
+### 4. ⚠️ The "Hidden Tax"
+If you choose React, be prepared to pay the tax of library churn in 6 months.
+
+### 5. 🏁 The Tie-Breaker
+Do you already have React developers on staff?
+    `.trim());
+  });
+
+  it('saves the verdict with its model and returns the permalink ID', async () => {
+    const { getAnalysisStore } = await import('@/lib/store');
+
+    const response = await route.POST(createRequest());
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.data.id).toEqual(expect.any(String));
+    expect(responseData.data.promptVersion).toBe('1');
+
+    const saved = await getAnalysisStore().get(responseData.data.id);
+    expect(saved).toEqual(expect.objectContaining({
+      id: responseData.data.id,
+      analysis: responseData.data,
+      provider: 'gemini',
+      model: 'gemini-2.5-flash'
+    }));
+  });
+
+  it('still returns the verdict when the store fails', async () => {
+    const { getAnalysisStore } = await import('@/lib/store');
+    jest.spyOn(getAnalysisStore(), 'save').mockRejectedValue(new Error('read-only file system') as never);
+
+    const response = await route.POST(createRequest());
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.data.tieBreaker).toBe('Do you already have React developers on staff?');
+    expect(responseData.data.id).toBeUndefined();
+  });
+});
+
+describe('Response cache', () => {
+  const route = useRefereeRoute();
+  const originalCache = process.env.REFEREE_CACHE;
+
+  beforeEach(async () => {
+    process.env.REFEREE_CACHE = 'on';
+    (await import('@/lib/cache')).clearResponseCache();
+    route.openai.callOpenAI.mockResolvedValue(`
+### 1. 🥊 The Matchup
+Svelte vs Solid for an embedded widget
+
+### 2. 📊 The Tale of the Tape
+| Dimension | Svelte | Solid |
+|---|---|---|
+| Speed | Compiled away | Fine-grained signals |
+| Cost | $0 license | $0 license |
+| Developer Experience | Single-file components | JSX with signals |
+| Scalability | SvelteKit conventions | Small ecosystem |
+| Maintainability | Runes migration | Stable primitives |
+
+### 3. ⚖️ The Verdicts
+**Scenario A (The 'Move Fast' Team):** Which wins? Svelte wins. Why? Less boilerplate for a first release.
+**Scenario B (The 'Scale' Team):** Which wins? Solid wins. Why? Predictable updates in large trees.
+**Scenario C (The 'Budget' Team):** Which wins? Svelte wins. Why? Smaller bundles on metered connections.
+
+### 4. ⚠️ The "Hidden Tax"
+If you choose Svelte, be prepared to pay the tax of the runes migration in 6 months.
+
+### 5. 🏁 The Tie-Breaker
+Does your team already write JSX?
+    `.trim());
+  });
+
+  afterEach(async () => {
+    process.env.REFEREE_CACHE = originalCache;
+    (await import('@/lib/cache')).clearResponseCache();
+  });
+
+  it('serves a repeated matchup from the cache in either order', async () => {
+    const first = await (await route.POST(createRequest({ tech1: 'Svelte', tech2: 'Solid' }))).json();
+    expect(first.cached).toBeUndefined();
+
+    const repeat = await (await route.POST(createRequest({ tech1: 'Solid', tech2: 'Svelte' }))).json();
+
+    expect(route.openai.callOpenAI).toHaveBeenCalledTimes(1);
+    expect(repeat.cached).toBe(true);
+    expect(repeat.cacheAgeSeconds).toBeGreaterThanOrEqual(0);
+    expect(repeat.data.matchup).toEqual({ technology1: 'Solid', technology2: 'Svelte' });
+    expect(repeat.data.taleOfTheTape.speed).toEqual({ tech1: 'Fine-grained signals', tech2: 'Compiled away' });
+  });
+
+  it('flags streamed cache hits before the verdict', async () => {
+    await route.POST(createRequest(SVELTE_VS_SOLID));
+
+    const events = await readEvents(await route.POST(createRequest(SVELTE_VS_SOLID, { stream: true })));
+
+    expect(route.openai.callOpenAI).toHaveBeenCalledTimes(1);
+    expect(events.map(event => event.event).slice(-2)).toEqual(['cache', 'done']);
+    expect(events[events.length - 2].data.cached).toBe(true);
+    expect(events[events.length - 2].data.cacheAgeSeconds).toBeGreaterThanOrEqual(0);
+    expect(events[events.length - 1].data.matchup).toEqual({ technology1: 'Svelte', technology2: 'Solid' });
+  });
+
+  it('calls the LLM again when the request bypasses the cache', async () => {
+    await route.POST(createRequest({ tech1: 'Svelte', tech2: 'Solid' }));
+    const bypassed = await (await route.POST(createRequest({ tech1: 'Svelte', tech2: 'Solid', bypassCache: true }))).json();
+
+    expect(route.openai.callOpenAI).toHaveBeenCalledTimes(2);
+    expect(bypassed.cached).toBeUndefined();
+
+    const invalid = await route.POST(createRequest({ tech1: 'Svelte', tech2: 'Solid', bypassCache: 'yes' }));
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error.code).toBe('INVALID_BYPASS_CACHE');
+  });
+});
+
+describe('Category mismatch', () => {
+  const route = useRefereeRoute();
+
+  beforeEach(async () => {
+    route.openai.callOpenAI.mockRejectedValue(new Error('LLM unavailable'));
+  });
+
+  it('rejects unrelated categories with alternatives for each side', async () => {
+    const response = await route.POST(createRequest({ tech1: 'Redis', tech2: 'tailwind' }));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error.code).toBe('CATEGORY_MISMATCH');
+    expect(responseData.error.message).toContain('Redis (database) and Tailwind CSS (styling library)');
+    expect(responseData.error.categoryMismatch).toEqual({
+      technologies: [{ name: 'Redis', category: 'database' }, { name: 'Tailwind CSS', category: 'styling' }],
+      conflict: [0, 1],
+      alternatives: [['PostgreSQL', 'MySQL', 'MariaDB'], ['Bootstrap', 'Bulma', 'Foundation']]
+    });
+    expect(route.openai.callOpenAI).not.toHaveBeenCalled();
+  });
+
+  it('compares them anyway when the request overrides the check', async () => {
+    await route.POST(createRequest({ tech1: 'Redis', tech2: 'Tailwind CSS', allowCategoryMismatch: true }));
+
+    expect(route.prompts.createPromptPackage).toHaveBeenCalledWith('Redis', 'Tailwind CSS', 'markdown', {
+      additionalTechnologies: [],
+      constraints: undefined,
+      allowCategoryMismatch: true
+    });
+    expect(route.openai.callOpenAI).toHaveBeenCalled();
+
+    const invalid = await route.POST(createRequest({ tech1: 'Redis', tech2: 'Tailwind CSS', allowCategoryMismatch: 'please' }));
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error.code).toBe('INVALID_ALLOW_CATEGORY_MISMATCH');
+  });
+});
+
+describe('Typo suggestions for accepted names', () => {
+  const route = useRefereeRoute();
+
+  const verdict = `
+### 1. 🥊 The Matchup
+MSSQL vs MongoDB for a reporting backend
+
+### 2. 📊 The Tale of the Tape
+| Dimension | MSSQL | MongoDB |
+|---|---|---|
+| Speed | Columnstore indexes | Fast document reads |
+| Cost | Per-core licensing | $0 community license |
+| Developer Experience | Mature tooling | Flexible documents |
+| Scalability | Scale up first | Built-in sharding |
+| Maintainability | Strict schemas | Schema drift |
+
+### 3. ⚖️ The Verdicts
+**Scenario A (The 'Move Fast' Team):** Which wins? MongoDB wins. Why? No migrations while the schema settles.
+**Scenario B (The 'Scale' Team):** Which wins? MSSQL wins. Why? Proven reporting at volume.
+**Scenario C (The 'Budget' Team):** Which wins? MongoDB wins. Why? No license fees.
+
+### 4. ⚠️ The "Hidden Tax"
+If you choose MSSQL, be prepared to pay the tax of license audits in 12 months.
+
+### 5. 🏁 The Tie-Breaker
+Do you already run Windows servers?
+`.trim();
+
+  it('judges a near-miss as sent and suggests the catalog names it may have meant', async () => {
+    route.openai.callOpenAI.mockResolvedValue(verdict);
+
+    const response = await route.POST(createRequest({ tech1: 'MSSQL', tech2: 'MongoDB' }));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.data.matchup).toEqual({ technology1: 'MSSQL', technology2: 'MongoDB' });
+    expect(responseData.suggestions).toEqual({ MSSQL: ['MySQL'] });
+  });
+
+  it('sends the suggestions with the streamed verdict', async () => {
+    route.openai.streamOpenAI.mockImplementation(async function* () {
+      yield verdict;
+    });
+
+    const events = await readEvents(await route.POST(createRequest({ tech1: 'MSSQL', tech2: 'MongoDB' }, { stream: true })));
+
+    const done = events[events.length - 1];
+    expect(done.event).toBe('done');
+    expect(done.data.suggestions).toEqual({ MSSQL: ['MySQL'] });
+  });
+
+  it('leaves suggestions out when every name is in the catalog', async () => {
+    route.openai.callOpenAI.mockResolvedValue(verdict.replace(/MSSQL/g, 'React').replace(/MongoDB/g, 'Vue'));
+
+    const responseData = await (await route.POST(createRequest(REACT_VS_VUE))).json();
+
+    expect(responseData.success).toBe(true);
+    expect(responseData).not.toHaveProperty('suggestions');
+  });
+});
+
+describe('Upgrade matchups', () => {
+  const route = useRefereeRoute();
+
+  beforeEach(async () => {
+    route.openai.callOpenAI.mockRejectedValue(new Error('LLM unavailable'));
+  });
+
+  it('judges two versions of one technology as an upgrade, older version first', async () => {
+    await route.POST(createRequest({ tech1: 'reactjs 19', tech2: 'React 18' }));
+
+    expect(route.prompts.createPromptPackage).toHaveBeenCalledWith('React 18', 'React 19', 'markdown', {
+      additionalTechnologies: [],
+      constraints: undefined,
+      dimensions: UPGRADE_DIMENSIONS,
+      upgrade: { technology: 'React', fromVersion: '18', toVersion: '19' }
+    });
+  });
+
+  it('expands a bare version to the first technology', async () => {
+    await route.POST(createRequest({ tech1: 'Python 3.8', tech2: '3.12' }));
+
+    expect(route.prompts.createPromptPackage).toHaveBeenCalledWith('Python 3.8', 'Python 3.12', 'markdown', expect.objectContaining({
+      upgrade: { technology: 'Python', fromVersion: '3.8', toVersion: '3.12' }
+    }));
+  });
+});
+
+describe('Prompt versions', () => {
+  const route = useRefereeRoute();
+
+  it('records the template version and sends its system prompt', async () => {
+    route.openai.callOpenAI.mockRejectedValue(new Error('LLM unavailable'));
+    route.prompts.createPromptPackage.mockReturnValueOnce({
+      isValid: true,
+      systemPrompt: 'version 2 system prompt',
+      userPrompt: 'version 2 prompt',
+      promptVersion: '2',
+      features: LATEST_PROMPT_FEATURES,
+      errors: []
+    });
+
+    await route.POST(createRequest({ tech1: 'React', tech2: 'Vue', promptVersion: '2' }));
+
+    expect(route.prompts.createPromptPackage).toHaveBeenCalledWith('React', 'Vue', 'markdown', {
+      additionalTechnologies: [],
+      constraints: undefined,
+      promptVersion: '2'
+    });
+    expect(route.openai.callOpenAI).toHaveBeenCalledWith('version 2 prompt', expect.objectContaining({
+      systemPrompt: 'version 2 system prompt'
+    }));
+  });
+
+  it('rejects versions that are not registered', async () => {
+    const response = await route.POST(createRequest({ tech1: 'React', tech2: 'Vue', promptVersion: '9' }));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error.code).toBe('INVALID_PROMPT_VERSION');
+    expect(responseData.error.message).toBe('promptVersion must be one of: 1, 2');
+    expect(route.prompts.createPromptPackage).not.toHaveBeenCalled();
+  });
+});
+
+describe('Guideline review', () => {
+  const route = useRefereeRoute();
+
+  const verdict = (hiddenTax: string, tieBreaker: string) => `
+### 1. 🥊 The Matchup
+Svelte vs Solid for an embedded widget
+
+### 2. 📊 The Tale of the Tape
+| Dimension | Svelte | Solid |
+|---|---|---|
+| Speed | Compiled away | Fine-grained signals |
+| Cost | $0 license | $0 license |
+| Developer Experience | Single-file components | JSX with signals |
+| Scalability | SvelteKit conventions | Small ecosystem |
+| Maintainability | Runes migration | Stable primitives |
+
+### 3. ⚖️ The Verdicts
+**Scenario A (The 'Move Fast' Team):** Which wins? Svelte wins. Why? Less boilerplate for a first release.
+**Scenario B (The 'Scale' Team):** Which wins? Solid wins. Why? Predictable updates in large trees.
+**Scenario C (The 'Budget' Team):** Which wins? Svelte wins. Why? Smaller bundles on metered connections.
+
+### 4. ⚠️ The "Hidden Tax"
+${hiddenTax}
+
+### 5. 🏁 The Tie-Breaker
+${tieBreaker}
+`.trim();
+
+  const compliant = verdict('If you choose Svelte, be prepared to pay the tax of the runes migration in 6 months.', 'Does your team already write JSX?');
+  const flawed = verdict('If you choose Svelte, be prepared to pay the tax of the runes migration eventually.', 'Does your team write JSX? Or templates?');
+
+  it('does not re-prompt a verdict that follows the guidelines', async () => {
+    route.openai.callOpenAI.mockResolvedValue(compliant);
+
+    const responseData = await (await route.POST(createRequest(SVELTE_VS_SOLID))).json();
+
+    expect(route.openai.callOpenAI).toHaveBeenCalledTimes(1);
+    expect(responseData.data.quality).toBeUndefined();
+  });
+
+  it('re-prompts once with the violations and keeps the corrected verdict', async () => {
+    route.openai.callOpenAI.mockResolvedValueOnce(flawed).mockResolvedValueOnce(compliant);
+
+    const responseData = await (await route.POST(createRequest(SVELTE_VS_SOLID))).json();
+
+    expect(route.openai.callOpenAI).toHaveBeenCalledTimes(2);
+    expect(route.openai.callOpenAI).toHaveBeenLastCalledWith('corrective prompt', expect.objectContaining({
+      systemPrompt: 'test system prompt'
+    }));
+    const [, response, violations] = route.prompts.createCorrectivePrompt.mock.calls[0];
+    expect(response).toBe(flawed);
+    expect(violations).toHaveLength(2);
+    expect(responseData.data.tieBreaker).toBe('Does your team already write JSX?');
+    expect(responseData.data.quality).toEqual({ warnings: [], reprompted: true });
+  });
+
+  it('keeps the original verdict with warnings when the correction does not help', async () => {
+    route.openai.callOpenAI.mockResolvedValueOnce(flawed).mockRejectedValueOnce(new Error('LLM unavailable'));
+
+    const responseData = await (await route.POST(createRequest(SVELTE_VS_SOLID))).json();
+
+    expect(route.openai.callOpenAI).toHaveBeenCalledTimes(2);
+    expect(responseData.success).toBe(true);
+    expect(responseData.data.tieBreaker).toBe('Does your team write JSX? Or templates?');
+    expect(responseData.data.quality.reprompted).toBe(true);
+    expect(responseData.data.quality.warnings.map((warning: any) => warning.rule)).toEqual([
+      'tieBreakerQuestion',
+      'hiddenTaxTimeframe'
+    ]);
+  });
+});
+
+describe('Response repair', () => {
+  const route = useRefereeRoute();
+  const originalAttempts = process.env.REFEREE_REPAIR_ATTEMPTS;
+
+  const parseable = `
+### 1. 🥊 The Matchup
+Svelte vs Solid for an embedded widget
+
+### 2. 📊 The Tale of the Tape
+| Dimension | Svelte | Solid |
+|---|---|---|
+| Speed | Compiled away | Fine-grained signals |
+| Cost | $0 license | $0 license |
+| Developer Experience | Single-file components | JSX with signals |
+| Scalability | SvelteKit conventions | Small ecosystem |
+| Maintainability | Runes migration | Stable primitives |
+
+### 3. ⚖️ The Verdicts
+**Scenario A (The 'Move Fast' Team):** Which wins? Svelte wins. Why? Less boilerplate for a first release.
+**Scenario B (The 'Scale' Team):** Which wins? Solid wins. Why? Predictable updates in large trees.
+**Scenario C (The 'Budget' Team):** Which wins? Svelte wins. Why? Smaller bundles on metered connections.
+
+### 4. ⚠️ The "Hidden Tax"
+If you choose Svelte, be prepared to pay the tax of the runes migration in 6 months.
+
+### 5. 🏁 The Tie-Breaker
+Does your team already write JSX?
+`.trim();
+  const unparseable = 'Svelte wins for small teams and Solid wins for large ones.';
+
+  beforeEach(async () => {
+    delete process.env.REFEREE_REPAIR_ATTEMPTS;
+  });
+
+  afterEach(() => {
+    if (originalAttempts === undefined) {
+      delete process.env.REFEREE_REPAIR_ATTEMPTS;
+    } else {
+      process.env.REFEREE_REPAIR_ATTEMPTS = originalAttempts;
+    }
+  });
+
+  it('asks the model to reformat an unparseable answer and records the attempt', async () => {
+    route.openai.callOpenAI.mockResolvedValueOnce(unparseable).mockResolvedValueOnce(parseable);
+
+    const response = await route.POST(createRequest(SVELTE_VS_SOLID));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.repairAttempts).toBe(1);
+    expect(responseData.data.tieBreaker).toBe('Does your team already write JSX?');
+    expect(route.prompts.createRepairPrompt).toHaveBeenCalledWith(
+      'test prompt',
+      unparseable,
+      expect.stringContaining('Failed to parse LLM response structure')
+    );
+    expect(route.openai.callOpenAI).toHaveBeenLastCalledWith('repair prompt', expect.objectContaining({
+      systemPrompt: 'test system prompt'
+    }));
+  });
+
+  it('gives up after the configured number of attempts', async () => {
+    process.env.REFEREE_REPAIR_ATTEMPTS = '2';
+    route.openai.callOpenAI.mockResolvedValue(unparseable);
+
+    const response = await route.POST(createRequest(SVELTE_VS_SOLID));
+    const responseData = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(route.openai.callOpenAI).toHaveBeenCalledTimes(3);
+    expect(responseData.error.code).toBe('PARSING_ERROR');
+    expect(responseData.error.repairAttempts).toBe(2);
+  });
+
+  it('reports streamed repairs on the done and error events', async () => {
+    route.openai.streamOpenAI.mockImplementation(async function* () {
+      yield unparseable;
+    });
+    route.openai.callOpenAI.mockResolvedValueOnce(parseable);
+
+    const repaired = await readEvents(await route.POST(createRequest(SVELTE_VS_SOLID, { stream: true })));
+
+    expect(repaired[repaired.length - 1].event).toBe('done');
+    expect(repaired[repaired.length - 1].data.repairAttempts).toBe(1);
+
+    route.openai.callOpenAI.mockResolvedValue(unparseable);
+    const failed = await readEvents(await route.POST(createRequest(SVELTE_VS_SOLID, { stream: true })));
+
+    expect(failed[failed.length - 1].event).toBe('error');
+    expect(failed[failed.length - 1].data).toEqual(expect.objectContaining({ code: 'PARSING_ERROR', repairAttempts: 1 }));
+  });
+
+  it('does not repair when repairs are turned off', async () => {
+    process.env.REFEREE_REPAIR_ATTEMPTS = '0';
+    route.openai.callOpenAI.mockResolvedValue(unparseable);
+
+    const response = await route.POST(createRequest(SVELTE_VS_SOLID));
+
+    expect(response.status).toBe(500);
+    expect(route.openai.callOpenAI).toHaveBeenCalledTimes(1);
+    expect(route.prompts.createRepairPrompt).not.toHaveBeenCalled();
+  });
+});
@@ -1,16 +1,60 @@
 import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import { callOpenAI, OpenAIError } from '@/lib/openai';
-import { createPromptPackage } from '@/lib/prompts';
+import {
+  callOpenAI,
+  getProviderCapabilities,
+  getProviderModel,
+  getProviderTimeoutMs,
+  OpenAIError,
+  streamOpenAI
+} from '@/lib/openai';
+import { createCorrectivePrompt, createPromptPackage, createRepairPrompt, getPromptVersions } from '@/lib/prompts';
+import { createRefereeAnalysisSchema } from '@/lib/schema';
+import { hasConstraints, validateConstraints } from '@/lib/constraints';
+import { getComparisonDimensions, selectComparisonCategory, UPGRADE_DIMENSIONS } from '@/lib/dimensions';
+import { buildCacheKey, CachedResponse, readCachedResponse, writeCachedResponse } from '@/lib/cache';
+import { getConfiguredScenarios, usesDefaultScenarios, validateScenarios } from '@/lib/scenarios';
+import {
+  buildMatchup,
+  parseHiddenTaxes,
+  parseLLMResponse,
+  parseScenarios,
+  parseStructuredResponse,
+  parseTaleOfTheTape
+} from '@/lib/parser';
+import { describeViolation, lintRefereeAnalysis } from '@/lib/guidelines';
+import { splitTapeScores } from '@/lib/scoring';
+import { formatSSE } from '@/lib/sse';
+import { detectUpgradeMatchup, expandVersionShorthand, getUpgradeContenders } from '@/lib/versions';
+import { createAnalysisId, getAnalysisStore } from '@/lib/store';
+import {
+  describeCategoryMismatch,
+  findCategoryMismatch,
+  isKnownTechnology,
+  normalizeTechnologyName,
+  suggestTechnologyNames
+} from '@/lib/technologies';
 import { 
+  OutputFormat,
+  RefereeStreamEvent,
+  RefereeStreamSection,
   RefereeRequest, 
   RefereeResponse, 
   RefereeAnalysis, 
   ApiError, 
   ErrorType,
+  ComparisonDimension,
   ComparisonMatrix,
-  ScenarioVerdict,
-  HiddenTax
+  GuidelineViolation,
+  MatchupConstraints,
+  PromptFeatures,
+  ScenarioPersona,
+  ScoreMatrix,
+  TechnologyCategory,
+  UpgradeMatchup,
+  contenderKey,
+  MAX_CONTENDERS,
+  MIN_CONTENDERS
 } from '@/lib/types';
 
 /**
@@ -20,7 +64,8 @@ function createErrorResponse(
   code: string,
   message: string,
   status: number = 500,
-  details?: any
+  details?: any,
+  extra: Pick<ApiError, 'categoryMismatch' | 'suggestions' | 'repairAttempts'> = {}
 ): NextResponse<RefereeResponse> {
   const errorId = randomUUID();
   const detailText = details ? (typeof details === 'string' ? details : JSON.stringify(details)) : undefined;
@@ -40,7 +85,8 @@ function createErrorResponse(
       code,
       message,
       details: detailText ? `${detailText} (errorId: ${errorId})` : `errorId: ${errorId}`,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      ...extra
     }
   }, { status });
 }
@@ -74,11 +120,71 @@ function checkRateLimit(clientId: string): boolean {
   return true;
 }
 
+/**
+ * Choose between JSON-structured output and the markdown parser.
+ * REFEREE_OUTPUT_FORMAT=auto (default) uses JSON when the provider supports it.
+ */
+function resolveOutputFormat(provider?: string): OutputFormat {
+  const configured = (process.env.REFEREE_OUTPUT_FORMAT || 'auto').trim().toLowerCase();
+
+  if (configured === 'markdown' || configured === 'json') {
+    return configured;
+  }
+
+  return getProviderCapabilities(provider)?.jsonMode ? 'json' : 'markdown';
+}
+
+/**
+ * Map OpenAI errors to appropriate HTTP status codes and user-friendly messages
+ */
+function describeOpenAIError(error: OpenAIError): {
+  status: number;
+  code: string;
+  message: string;
+  details?: string;
+} {
+  let status = 500;
+  let code = error.code;
+  let message = error.message;
+  let details: string | undefined = undefined;
+
+  if (error.code === 'insufficient_quota' || error.code === 'rate_limit_exceeded') {
+    status = 429;
+    message = 'Our AI service is currently experiencing high demand. Please try again in a few moments.';
+    details = 'This is a temporary issue. The service should be available again shortly.';
+  } else if (error.code === 'MISSING_API_KEY') {
+    status = 500;
+    code = 'SERVICE_ERROR';
+    message = 'Service configuration error. Our team has been notified.';
+    details = 'No LLM provider is configured in this deployment. Set GEMINI_API_KEY, OPENAI_API_KEY or LOCAL_LLM_BASE_URL (and optionally LLM_PROVIDER) in Vercel project environment variables and redeploy.';
+  } else if (error.code === 'UNKNOWN_PROVIDER') {
+    status = 400;
+    message = 'The requested analysis provider is not available.';
+    details = `Available providers: ${(error.details?.available || []).join(', ') || 'none'}`;
+  } else if (error.code === 'invalid_api_key') {
+    status = 500;
+    message = 'Service configuration error. Our team has been notified.';
+    code = 'SERVICE_ERROR';
+    details = 'Please try again later. If the problem persists, contact support.';
+  } else if (error.code === 'model_not_found') {
+    status = 500;
+    message = 'Analysis service temporarily unavailable. Please try again later.';
+    code = 'SERVICE_ERROR';
+    details = 'Our AI model is being updated. Service should resume shortly.';
+  } else if (error.code === 'context_length_exceeded') {
+    status = 400;
+    message = 'Technology comparison request is too complex to process.';
+    details = 'Please try using shorter, more common technology names.';
+  }
+
+  return { status, code, message, details };
+}
+
 /**
  * POST /api/referee - Generate technology comparison analysis
  * Enhanced with comprehensive error handling and rate limiting
  */
-export async function POST(request: NextRequest): Promise<NextResponse<RefereeResponse>> {
+export async function POST(request: NextRequest): Promise<NextResponse> {
   const startTime = Date.now();
   
   try {
@@ -120,16 +226,52 @@ export async function POST(request: NextRequest): Promise<NextResponse<RefereeRe
         body.error.code,
         body.error.message,
         400,
-        body.error.details
+        body.error.details,
+        body.error.suggestions ? { suggestions: body.error.suggestions } : {}
       );
     }
 
-    const { tech1, tech2 } = body.data;
-    console.log('Comparing technologies:', tech1, 'vs', tech2);
+    const { tech1, tech2, provider, constraints, bypassCache, allowCategoryMismatch, promptVersion } = body.data;
+    // Two versions of one product ("React 18" vs "React 19") are judged as an
+    // upgrade, with the version the team is on first
+    const requested = body.data.technologies || [tech1, tech2];
+    const upgrade = detectUpgradeMatchup(requested.map(normalizeTechnologyName)) || undefined;
+    const technologies = upgrade ? getUpgradeContenders(upgrade) : requested;
+    // Accepted names that still look like typos are judged as sent, with hints
+    const hints = suggestAcceptedNames(technologies);
+
+    // Refuse apples-vs-oranges matchups unless the caller insists
+    const mismatch = allowCategoryMismatch || upgrade ? null : findCategoryMismatch(technologies);
+    if (mismatch) {
+      console.log('Category mismatch:', describeCategoryMismatch(mismatch));
+      return createErrorResponse(
+        'CATEGORY_MISMATCH',
+        describeCategoryMismatch(mismatch),
+        400,
+        'Pick a suggested matchup, or send {"allowCategoryMismatch": true} to compare them anyway',
+        { categoryMismatch: mismatch }
+      );
+    }
+    const scenarios = body.data.scenarios || getConfiguredScenarios();
+    // Contenders that share a category are compared on that category's dimensions
+    const category = selectComparisonCategory(technologies);
+    const dimensions = selectDimensions(category, upgrade);
+    console.log('Comparing technologies:', technologies.join(' vs '), category ? `(${category})` : '', upgrade ? '(upgrade)' : '');
+
+    const streaming = acceptsEventStream(request);
 
     // Create and validate prompt package
-    console.log('Creating prompt package...');
-    const promptPackage = createPromptPackage(tech1, tech2);
+    const outputFormat = resolveOutputFormat(provider);
+    console.log(`Creating ${outputFormat} prompt package...`);
+    const promptPackage = createPromptPackage(technologies[0], technologies[1], outputFormat, {
+      additionalTechnologies: technologies.slice(2),
+      constraints,
+      ...(usesDefaultScenarios(scenarios) ? {} : { scenarios }),
+      ...(category || upgrade ? { dimensions } : {}),
+      ...(allowCategoryMismatch ? { allowCategoryMismatch } : {}),
+      ...(upgrade ? { upgrade } : {}),
+      ...(promptVersion ? { promptVersion } : {})
+    });
     if (!promptPackage.isValid) {
       console.log('Prompt validation failed:', promptPackage.errors);
       return createErrorResponse(
@@ -140,38 +282,117 @@ export async function POST(request: NextRequest): Promise<NextResponse<RefereeRe
       );
     }
 
-    // Call OpenAI API with timeout handling
+    // Repeated matchups (in any order) reuse the cached LLM response
+    const source = getProviderModel(provider);
+    const cacheKey = buildCacheKey({
+      technologies: technologies.map(normalizeTechnologyName),
+      constraints,
+      scenarios: usesDefaultScenarios(scenarios) ? undefined : scenarios,
+      outputFormat,
+      promptVersion: promptPackage.promptVersion,
+      model: source ? `${source.provider}/${source.model}` : provider || 'default'
+    });
+    const cached = bypassCache ? null : await readCachedResponse(cacheKey);
+    const judging: JudgingContext = { constraints, scenarios, category, upgrade, promptVersion: promptPackage.promptVersion };
+    if (cached) {
+      console.log(`Serving cached response (${cached.ageSeconds}s old) for ${technologies.join(' vs ')}`);
+    }
+
+    // Call OpenAI API with timeout handling (local providers get a longer budget)
+    const llmTimeoutMs = getProviderTimeoutMs(provider);
+    if (streaming) {
+      console.log('Streaming OpenAI API response...');
+      return createStreamingResponse({
+        prompt: promptPackage.userPrompt,
+        systemPrompt: promptPackage.systemPrompt,
+        technologies,
+        judging,
+        provider,
+        outputFormat,
+        features: promptPackage.features,
+        timeoutMs: llmTimeoutMs,
+        cacheKey,
+        cached: cached || undefined,
+        hints
+      });
+    }
+
+    if (cached) {
+      const analysis = outputFormat === 'json'
+        ? await parseStructuredResponse(cached.entry.response, cached.entry.technologies, scenarios, dimensions)
+        : await parseLLMResponse(cached.entry.response, cached.entry.technologies, scenarios, dimensions);
+      if (analysis.success) {
+        const data = reorderAnalysis(analysis.data, cached.entry.technologies, technologies);
+        const reviewed = recordQuality(data, lintRefereeAnalysis(data, cached.entry.response), false);
+        return NextResponse.json({
+          success: true,
+          data: await saveAnalysis(annotateAnalysis(reviewed, judging), provider),
+          cached: true,
+          cacheAgeSeconds: cached.ageSeconds,
+          ...hints
+        });
+      }
+      console.log('Cached response no longer parses, calling the LLM instead:', analysis.error);
+    }
+
     console.log('Calling OpenAI API...');
     const llmResponse = await Promise.race([
-      callOpenAI(promptPackage.userPrompt),
+      callOpenAI(promptPackage.userPrompt, {
+        provider,
+        systemPrompt: promptPackage.systemPrompt,
+        ...(outputFormat === 'json'
+          ? { responseFormat: 'json', responseSchema: createRefereeAnalysisSchema(technologies.length, scenarios, dimensions, promptPackage.features) }
+          : {})
+      }),
       new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Request timeout')), 30000)
+        setTimeout(() => reject(new Error('Request timeout')), llmTimeoutMs)
       )
     ]);
 
     console.log('OpenAI response received, length:', llmResponse.length);
 
-    // Parse and validate LLM response
+    const followUp: FollowUpRequest = {
+      prompt: promptPackage.userPrompt,
+      systemPrompt: promptPackage.systemPrompt,
+      provider,
+      outputFormat,
+      technologies,
+      scenarios,
+      dimensions,
+      features: promptPackage.features,
+      timeoutMs: llmTimeoutMs
+    };
+
+    // Parse and validate LLM response, asking the model to reformat it if needed
     console.log('Parsing LLM response...');
-    const analysis = await parseLLMResponse(llmResponse, tech1, tech2);
+    const { analysis, response: parsedResponse, repairAttempts } = await parseWithRepair(llmResponse, followUp);
     if (!analysis.success) {
       console.log('LLM response parsing failed:', analysis.error);
       return createErrorResponse(
         analysis.error.code,
         analysis.error.message,
         500,
-        analysis.error.details
+        analysis.error.details,
+        repairAttempts > 0 ? { repairAttempts } : {}
       );
     }
 
+    // Verdicts that break the referee guidelines get one chance to correct themselves
+    const reviewed = await reviewAnalysis(analysis.data, parsedResponse, followUp);
+
+    // Only responses that parsed are worth reusing
+    await writeCachedResponse(cacheKey, reviewed.response, technologies);
+
     // Log successful request (for monitoring)
     const duration = Date.now() - startTime;
-    console.log(`Successful analysis generated in ${duration}ms for ${tech1} vs ${tech2}`);
+    console.log(`Successful analysis generated in ${duration}ms for ${technologies.join(' vs ')}`);
 
-    // Return successful response
+    // Save the verdict so it can be linked, then return it
     return NextResponse.json({
       success: true,
-      data: analysis.data
+      data: await saveAnalysis(annotateAnalysis(reviewed.analysis, judging), provider),
+      ...(repairAttempts > 0 ? { repairAttempts } : {}),
+      ...hints
     });
 
   } catch (error) {
@@ -194,38 +415,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<RefereeRe
         details: error.details
       });
       
-      // Map OpenAI errors to appropriate HTTP status codes and user-friendly messages
-      let status = 500;
-      let code = error.code;
-      let message = error.message;
-      let details = undefined;
-
-      if (error.code === 'insufficient_quota' || error.code === 'rate_limit_exceeded') {
-        status = 429;
-        message = 'Our AI service is currently experiencing high demand. Please try again in a few moments.';
-        details = 'This is a temporary issue. The service should be available again shortly.';
-      } else if (error.code === 'MISSING_API_KEY') {
-        status = 500;
-        code = 'SERVICE_ERROR';
-        message = 'Service configuration error. Our team has been notified.';
-        details = 'OPENAI_API_KEY is not available in this deployment. Set it in Vercel project environment variables and redeploy.';
-      } else if (error.code === 'invalid_api_key') {
-        status = 500;
-        message = 'Service configuration error. Our team has been notified.';
-        code = 'SERVICE_ERROR';
-        details = 'Please try again later. If the problem persists, contact support.';
-      } else if (error.code === 'model_not_found') {
-        status = 500;
-        message = 'Analysis service temporarily unavailable. Please try again later.';
-        code = 'SERVICE_ERROR';
-        details = 'Our AI model is being updated. Service should resume shortly.';
-      } else if (error.code === 'context_length_exceeded') {
-        status = 400;
-        message = 'Technology comparison request is too complex to process.';
-        details = 'Please try using shorter, more common technology names.';
-      }
-
-      return createErrorResponse(code, message, status, details);
+      const described = describeOpenAIError(error);
+      return createErrorResponse(described.code, described.message, described.status, described.details);
     }
 
     // Handle timeout errors
@@ -292,6 +483,328 @@ export async function POST(request: NextRequest): Promise<NextResponse<RefereeRe
   }
 }
 
+// ============================================================================
+// Streaming (Server-Sent Events)
+// ============================================================================
+
+const STREAM_SECTIONS: RefereeStreamSection[] = ['matchup', 'taleOfTheTape', 'scenarios', 'hiddenTax', 'tieBreaker'];
+
+const STREAM_SECTION_LABELS: Record<RefereeStreamSection, string> = {
+  matchup: 'The Matchup',
+  taleOfTheTape: 'The Tale of the Tape',
+  scenarios: 'The Verdicts',
+  hiddenTax: 'The Hidden Tax',
+  tieBreaker: 'The Tie-Breaker'
+};
+
+/**
+ * Whether the client asked for the analysis as a Server-Sent Events stream
+ */
+function acceptsEventStream(request: NextRequest): boolean {
+  return (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Build the ApiError sent in a stream `error` event
+ */
+function toStreamError(error: unknown): ApiError {
+  const timestamp = new Date().toISOString();
+
+  if (error instanceof OpenAIError) {
+    const { code, message, details } = describeOpenAIError(error);
+    return { code, message, details, timestamp };
+  }
+
+  if (error instanceof Error && error.message === 'Request timeout') {
+    return {
+      code: 'TIMEOUT_ERROR',
+      message: 'The analysis request took too long to complete.',
+      details: 'This usually happens with very complex comparisons. Please try again with simpler technology names.',
+      timestamp
+    };
+  }
+
+  return {
+    code: 'INTERNAL_ERROR',
+    message: 'An unexpected error occurred while processing your request.',
+    details: process.env.NODE_ENV === 'development'
+      ? `Error details: ${error instanceof Error ? error.message : 'Unknown error'}`
+      : 'Please try again. If the problem persists, contact support.',
+    timestamp
+  };
+}
+
+/**
+ * Report that the section at `index` of STREAM_SECTIONS has been sent
+ */
+function sendSectionProgress(index: number, send: (event: RefereeStreamEvent) => void) {
+  const section = STREAM_SECTIONS[index];
+  send({
+    event: 'progress',
+    data: {
+      section,
+      completed: index + 1,
+      total: STREAM_SECTIONS.length,
+      message: `${STREAM_SECTION_LABELS[section]} is in`
+    }
+  });
+}
+
+/**
+ * Emit the sections of an analysis that only parses once complete, such as
+ * a JSON verdict, with the same events the markdown streamer sends
+ */
+function sendAnalysisSections(
+  analysis: RefereeAnalysis,
+  category: TechnologyCategory | undefined,
+  upgrade: UpgradeMatchup | undefined,
+  send: (event: RefereeStreamEvent) => void
+) {
+  STREAM_SECTIONS.forEach((section, index) => {
+    if (section === 'matchup') {
+      send({ event: 'matchup', data: analysis.matchup });
+      if (category) send({ event: 'category', data: category });
+      if (upgrade) send({ event: 'upgrade', data: upgrade });
+    } else if (section === 'taleOfTheTape') {
+      send({ event: 'taleOfTheTape', data: analysis.taleOfTheTape });
+      if (analysis.scores) send({ event: 'scores', data: analysis.scores });
+    } else if (section === 'scenarios') {
+      analysis.scenarios.forEach(scenario => send({ event: 'scenario', data: scenario }));
+    } else if (section === 'hiddenTax') {
+      send({ event: 'hiddenTax', data: analysis.hiddenTaxes });
+    } else {
+      send({ event: 'tieBreaker', data: analysis.tieBreaker });
+    }
+
+    sendSectionProgress(index, send);
+  });
+}
+
+/**
+ * Watch the accumulated markdown and emit each numbered section once the
+ * next section header (or the end of the stream) shows it is complete
+ */
+function createSectionStreamer(
+  technologies: string[],
+  scenarios: ScenarioPersona[],
+  category: TechnologyCategory | undefined,
+  upgrade: UpgradeMatchup | undefined,
+  send: (event: RefereeStreamEvent) => void
+) {
+  const dimensions = selectDimensions(category, upgrade);
+  let emitted = 0;
+
+  const emitSection = (index: number, content: string) => {
+    const section = STREAM_SECTIONS[index];
+
+    if (section === 'matchup') {
+      send({ event: 'matchup', data: buildMatchup(technologies) });
+      // Tells the client which rows the Tale of the Tape will have
+      if (category) send({ event: 'category', data: category });
+      if (upgrade) send({ event: 'upgrade', data: upgrade });
+    } else if (section === 'taleOfTheTape') {
+      const result = parseTaleOfTheTape(content, technologies, dimensions);
+      if (result.success) {
+        const { comparison, scores } = splitTapeScores(result.data, technologies.length, dimensions);
+        send({ event: 'taleOfTheTape', data: comparison });
+        if (scores) send({ event: 'scores', data: scores });
+      }
+    } else if (section === 'scenarios') {
+      const result = parseScenarios(content, technologies, scenarios);
+      if (result.success) result.data.forEach(scenario => send({ event: 'scenario', data: scenario }));
+    } else if (section === 'hiddenTax') {
+      const result = parseHiddenTaxes(content);
+      if (result.success) send({ event: 'hiddenTax', data: result.data });
+    } else if (content.trim()) {
+      send({ event: 'tieBreaker', data: content.trim() });
+    }
+
+    sendSectionProgress(index, send);
+  };
+
+  const advance = (text: string, final: boolean) => {
+    const headers = Array.from(text.matchAll(/^###\s*(\d+)\./gm)).map(match => ({
+      number: Number(match[1]),
+      start: match.index!
+    }));
+
+    while (emitted < STREAM_SECTIONS.length) {
+      const current = headers.find(header => header.number === emitted + 1);
+      if (!current) break;
+
+      const next = headers.find(header => header.start > current.start);
+      if (!next && !final) break;
+
+      const headerEnd = text.indexOf('\n', current.start);
+      const end = next ? next.start : text.length;
+      emitSection(emitted, headerEnd === -1 || headerEnd > end ? '' : text.slice(headerEnd + 1, end));
+      emitted++;
+    }
+  };
+
+  return {
+    update: (text: string) => advance(text, false),
+    finish: (text: string) => advance(text, true)
+  };
+}
+
+/**
+ * Everything a streamed analysis needs from the request
+ */
+interface StreamingRequest {
+  prompt: string;
+  systemPrompt?: string;
+  technologies: string[];
+  judging: JudgingContext;
+  provider?: string;
+  /** JSON verdicts are parsed, and their sections sent, once the stream ends */
+  outputFormat: OutputFormat;
+  features: PromptFeatures;
+  timeoutMs: number;
+  cacheKey: string;
+  /** A cached response for this matchup and its age, sent without calling the LLM */
+  cached?: { entry: CachedResponse; ageSeconds: number };
+  /** Typo suggestions for accepted names, sent with the `done` event */
+  hints: Pick<RefereeResponse, 'suggestions'>;
+}
+
+/**
+ * Stream the analysis as Server-Sent Events: sections are sent as soon as
+ * they parse, followed by a `done` event with the fully validated analysis
+ */
+function createStreamingResponse({
+  prompt,
+  systemPrompt,
+  technologies,
+  judging,
+  provider,
+  outputFormat,
+  features,
+  timeoutMs,
+  cacheKey,
+  cached,
+  hints
+}: StreamingRequest): NextResponse {
+  const { scenarios, category, upgrade } = judging;
+  const dimensions = selectDimensions(category, upgrade);
+  const encoder = new TextEncoder();
+  // Stops the LLM stream when the client disconnects or the deadline passes
+  const upstream = new AbortController();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = ({ event, data }: RefereeStreamEvent) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(formatSSE(event, data)));
+        }
+      };
+      const sections = createSectionStreamer(technologies, scenarios, category, upgrade, send);
+      const deadline = Date.now() + timeoutMs;
+      const deadlineTimer = setTimeout(() => upstream.abort(new Error('Request timeout')), timeoutMs);
+      let text = '';
+
+      try {
+        // Cached verdicts arrive complete, so skip straight to `done`
+        if (cached) {
+          const { entry, ageSeconds } = cached;
+          const analysis = outputFormat === 'json'
+            ? await parseStructuredResponse(entry.response, entry.technologies, scenarios, dimensions)
+            : await parseLLMResponse(entry.response, entry.technologies, scenarios, dimensions);
+          if (analysis.success) {
+            const data = reorderAnalysis(analysis.data, entry.technologies, technologies);
+            const reviewed = recordQuality(data, lintRefereeAnalysis(data, entry.response), false);
+            send({
+              event: 'progress',
+              data: { section: 'tieBreaker', completed: STREAM_SECTIONS.length, total: STREAM_SECTIONS.length, message: 'Served from the verdict cache' }
+            });
+            send({ event: 'cache', data: { cached: true, cacheAgeSeconds: ageSeconds } });
+            send({ event: 'done', data: { ...await saveAnalysis(annotateAnalysis(reviewed, judging), provider), ...hints } });
+            return;
+          }
+          console.log('Cached response no longer parses, calling the LLM instead:', analysis.error);
+        }
+
+        send({
+          event: 'progress',
+          data: { section: 'waiting', completed: 0, total: STREAM_SECTIONS.length, message: 'The referee is reviewing the matchup...' }
+        });
+
+        const json = outputFormat === 'json';
+        const chunks = streamOpenAI(prompt, {
+          provider,
+          systemPrompt,
+          signal: upstream.signal,
+          ...(json
+            ? { responseFormat: 'json', responseSchema: createRefereeAnalysisSchema(technologies.length, scenarios, dimensions, features) }
+            : {})
+        });
+        for await (const chunk of chunks) {
+          text += chunk;
+          if (!json) sections.update(text);
+        }
+        clearTimeout(deadlineTimer);
+        if (!json) sections.finish(text);
+
+        const followUp: FollowUpRequest = {
+          prompt,
+          systemPrompt,
+          provider,
+          outputFormat,
+          technologies,
+          scenarios,
+          dimensions,
+          features,
+          timeoutMs: Math.max(deadline - Date.now(), 0)
+        };
+        const { analysis, response, repairAttempts } = await parseWithRepair(text, followUp, (attempt, limit) => send({
+          event: 'progress',
+          data: { section: 'repairing', completed: STREAM_SECTIONS.length, total: STREAM_SECTIONS.length, message: `The referee is tidying up the verdict (attempt ${attempt} of ${limit})...` }
+        }));
+        const repaired = repairAttempts > 0 ? { repairAttempts } : {};
+        if (analysis.success) {
+          console.log(`Streamed analysis completed for ${technologies.join(' vs ')}`);
+          if (json) sendAnalysisSections(analysis.data, category, upgrade, send);
+          const reviewed = await reviewAnalysis(analysis.data, response, followUp, () => send({
+            event: 'progress',
+            data: { section: 'reviewing', completed: STREAM_SECTIONS.length, total: STREAM_SECTIONS.length, message: 'The referee is double-checking the verdict against the guidelines...' }
+          }));
+          await writeCachedResponse(cacheKey, reviewed.response, technologies);
+          send({ event: 'done', data: { ...await saveAnalysis(annotateAnalysis(reviewed.analysis, judging), provider), ...repaired, ...hints } });
+        } else {
+          console.log('Streamed response parsing failed:', analysis.error);
+          send({ event: 'error', data: { ...analysis.error, ...repaired } });
+        }
+      } catch (error) {
+        if (cancelled) {
+          console.log(`Client disconnected from the ${technologies.join(' vs ')} stream`);
+          return;
+        }
+        console.error('Streaming analysis failed:', error);
+        // Providers report the abort in their own words; the deadline is the cause
+        send({ event: 'error', data: toStreamError(upstream.signal.aborted ? upstream.signal.reason : error) });
+      } finally {
+        clearTimeout(deadlineTimer);
+        if (!cancelled) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+      upstream.abort();
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
 /**
  * Parse and validate request body with comprehensive input validation
  */
@@ -331,72 +844,170 @@ async function parseRequestBody(request: NextRequest): Promise<{
       };
     }
 
-    // Validate tech1 field
-    const tech1ValidationResult = validateTechnologyField(body.tech1, 'tech1');
-    if (!tech1ValidationResult.isValid) {
+    // Multi-way comparisons send a technologies array; two-way clients send tech1/tech2
+    if (body.technologies !== undefined && (
+      !Array.isArray(body.technologies) ||
+      body.technologies.length < MIN_CONTENDERS ||
+      body.technologies.length > MAX_CONTENDERS
+    )) {
       return {
         success: false,
         error: {
-          code: 'MISSING_TECH1',
-          message: tech1ValidationResult.message,
-          details: tech1ValidationResult.details,
+          code: 'INVALID_TECHNOLOGIES',
+          message: `technologies must be an array of ${MIN_CONTENDERS} to ${MAX_CONTENDERS} technology names`,
+          details: 'Expected format: {"technologies": ["PostgreSQL", "MongoDB", "DynamoDB"]}',
           timestamp: new Date().toISOString()
         }
       };
     }
 
-    // Validate tech2 field
-    const tech2ValidationResult = validateTechnologyField(body.tech2, 'tech2');
-    if (!tech2ValidationResult.isValid) {
+    const candidates: unknown[] = body.technologies !== undefined ? body.technologies : [body.tech1, body.tech2];
+    const fields: string[] = [];
+
+    // Validate each technology field (tech1, tech2, ...)
+    for (let index = 0; index < candidates.length; index++) {
+      const fieldName = `tech${index + 1}`;
+      const validationResult = validateTechnologyField(candidates[index], fieldName);
+      if (!validationResult.isValid) {
+        return {
+          success: false,
+          error: {
+            code: `MISSING_${fieldName.toUpperCase()}`,
+            message: validationResult.message,
+            details: validationResult.details,
+            timestamp: new Date().toISOString()
+          }
+        };
+      }
+      fields.push(validationResult.value.trim());
+    }
+
+    // "Python 3.8 vs 3.12": a bare version belongs to the first contender's product
+    const trimmed = expandVersionShorthand(fields);
+
+    // Additional business logic validation
+    const lowered = trimmed.map(tech => tech.toLowerCase());
+    const duplicate = trimmed.find((_, index) => lowered.indexOf(lowered[index]) !== index);
+    if (duplicate !== undefined) {
       return {
         success: false,
         error: {
-          code: 'MISSING_TECH2',
-          message: tech2ValidationResult.message,
-          details: tech2ValidationResult.details,
+          code: 'DUPLICATE_TECHNOLOGIES',
+          message: trimmed.length === MIN_CONTENDERS
+            ? 'Please provide two different technologies for comparison'
+            : 'Please provide different technologies for comparison',
+          details: trimmed.length === MIN_CONTENDERS
+            ? `Both technologies resolve to the same value: "${duplicate}"`
+            : `"${duplicate}" appears more than once`,
           timestamp: new Date().toISOString()
         }
       };
     }
 
-    const tech1Trimmed = tech1ValidationResult.value!.trim();
-    const tech2Trimmed = tech2ValidationResult.value!.trim();
+    // Validate technology name format
+    for (let index = 0; index < trimmed.length; index++) {
+      const fieldName = `tech${index + 1}`;
+      const formatResult = validateTechnologyFormat(trimmed[index], fieldName);
+      if (!formatResult.isValid) {
+        return {
+          success: false,
+          error: {
+            code: `INVALID_${fieldName.toUpperCase()}_FORMAT`,
+            message: formatResult.message,
+            details: formatResult.details,
+            timestamp: new Date().toISOString(),
+            ...(formatResult.suggestions ? { suggestions: formatResult.suggestions } : {})
+          }
+        };
+      }
+    }
+
+    // Validate optional constraints (team size, load, budget, stack, compliance, notes)
+    let constraints: MatchupConstraints | undefined;
+    if (body.constraints !== undefined && body.constraints !== null) {
+      const constraintsResult = validateConstraints(body.constraints);
+      if (!constraintsResult.success) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_CONSTRAINTS',
+            message: constraintsResult.error.message,
+            details: `Field: ${constraintsResult.error.field}. Expected format: {"constraints": {"teamSize": 5, "expectedRps": 200, "monthlyBudget": 500, "existingStack": ["Node.js"], "compliance": ["GDPR"], "notes": "..."}}`,
+            timestamp: new Date().toISOString()
+          }
+        };
+      }
+      if (hasConstraints(constraintsResult.data)) {
+        constraints = constraintsResult.data;
+      }
+    }
 
-    // Additional business logic validation
-    if (tech1Trimmed.toLowerCase() === tech2Trimmed.toLowerCase()) {
+    // Validate optional scenario personas (defaults come from server configuration)
+    let scenarios: ScenarioPersona[] | undefined;
+    if (body.scenarios !== undefined && body.scenarios !== null) {
+      const scenariosResult = validateScenarios(body.scenarios);
+      if (!scenariosResult.success) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_SCENARIOS',
+            message: scenariosResult.error.message,
+            details: `Field: ${scenariosResult.error.field}. Expected format: {"scenarios": [{"id": "regulated-enterprise", "label": "Regulated Enterprise", "description": "...", "icon": "shield", "color": "blue"}]}`,
+            timestamp: new Date().toISOString()
+          }
+        };
+      }
+      scenarios = scenariosResult.data;
+    }
+
+    // Validate optional cache bypass
+    if (body.bypassCache !== undefined && typeof body.bypassCache !== 'boolean') {
       return {
         success: false,
         error: {
-          code: 'DUPLICATE_TECHNOLOGIES',
-          message: 'Please provide two different technologies for comparison',
-          details: `Both technologies resolve to the same value: "${tech1Trimmed}"`,
+          code: 'INVALID_BYPASS_CACHE',
+          message: 'bypassCache must be true or false',
+          details: 'Send {"bypassCache": true} to skip cached verdicts and ask the LLM again',
           timestamp: new Date().toISOString()
         }
       };
     }
 
-    // Validate technology name format
-    const tech1FormatResult = validateTechnologyFormat(tech1Trimmed, 'tech1');
-    if (!tech1FormatResult.isValid) {
+    // Validate optional category mismatch override
+    if (body.allowCategoryMismatch !== undefined && typeof body.allowCategoryMismatch !== 'boolean') {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_ALLOW_CATEGORY_MISMATCH',
+          message: 'allowCategoryMismatch must be true or false',
+          details: 'Send {"allowCategoryMismatch": true} to compare technologies from unrelated categories',
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+
+    // Validate optional prompt template version
+    if (body.promptVersion !== undefined &&
+        (typeof body.promptVersion !== 'string' || !getPromptVersions().includes(body.promptVersion))) {
       return {
         success: false,
         error: {
-          code: 'INVALID_TECH1_FORMAT',
-          message: tech1FormatResult.message,
-          details: tech1FormatResult.details,
+          code: 'INVALID_PROMPT_VERSION',
+          message: `promptVersion must be one of: ${getPromptVersions().join(', ')}`,
+          details: 'Omit promptVersion to use the active prompt templates',
           timestamp: new Date().toISOString()
         }
       };
     }
 
-    const tech2FormatResult = validateTechnologyFormat(tech2Trimmed, 'tech2');
-    if (!tech2FormatResult.isValid) {
+    // Validate optional provider override
+    if (body.provider !== undefined && (typeof body.provider !== 'string' || body.provider.trim().length === 0)) {
       return {
         success: false,
         error: {
-          code: 'INVALID_TECH2_FORMAT',
-          message: tech2FormatResult.message,
-          details: tech2FormatResult.details,
+          code: 'INVALID_PROVIDER',
+          message: 'provider field must be a non-empty string',
+          details: 'Omit provider to use the server default, or pass a provider name such as "gemini" or "openai"',
           timestamp: new Date().toISOString()
         }
       };
@@ -405,8 +1016,15 @@ async function parseRequestBody(request: NextRequest): Promise<{
     return {
       success: true,
       data: {
-        tech1: tech1Trimmed,
-        tech2: tech2Trimmed
+        tech1: trimmed[0],
+        tech2: trimmed[1],
+        technologies: trimmed,
+        ...(constraints ? { constraints } : {}),
+        ...(scenarios ? { scenarios } : {}),
+        ...(body.bypassCache ? { bypassCache: true } : {}),
+        ...(body.allowCategoryMismatch ? { allowCategoryMismatch: true } : {}),
+        ...(body.promptVersion !== undefined ? { promptVersion: body.promptVersion } : {}),
+        ...(body.provider !== undefined ? { provider: body.provider.trim() } : {})
       }
     };
 
@@ -500,6 +1118,7 @@ function validateTechnologyFormat(value: string, fieldName: string): {
   isValid: false;
   message: string;
   details: string;
+  suggestions?: string[];
 } {
   // Check minimum length (with exception for 'C' programming language)
   if (value.length < 2 && value.toLowerCase() !== 'c') {
@@ -576,7 +1195,8 @@ function validateTechnologyFormat(value: string, fieldName: string): {
     return {
       isValid: false,
       message: `${fieldName} does not appear to be a valid technology name`,
-      details: technologyValidation.reason
+      details: technologyValidation.reason,
+      ...(technologyValidation.suggestions ? { suggestions: technologyValidation.suggestions } : {})
     };
   }
 
@@ -586,86 +1206,54 @@ function validateTechnologyFormat(value: string, fieldName: string): {
 }
 
 /**
- * Comprehensive technology name validation
+ * Catalog names that accepted technologies look like misspellings of,
+ * left out when none of them do
+ */
+function suggestAcceptedNames(technologies: string[]): Pick<RefereeResponse, 'suggestions'> {
+  const suggestions = Object.fromEntries(technologies
+    .map(name => [name, suggestTechnologyNames(name)] as const)
+    .filter(([, names]) => names.length > 0));
+  return Object.keys(suggestions).length > 0 ? { suggestions } : {};
+}
+
+/**
+ * Technology name validation, offering catalog names for rejected names
+ * that look like typos of them
  */
 function validateTechnologyName(name: string): {
   isValid: boolean;
   reason: string;
+  suggestions?: string[];
+} {
+  const validation = checkTechnologyName(name);
+  if (validation.isValid) {
+    return validation;
+  }
+
+  // Only names nothing else accepts are treated as misspellings
+  const suggestions = suggestTechnologyNames(name);
+  if (suggestions.length > 0) {
+    return {
+      isValid: false,
+      reason: `"${name}" is not a technology we recognize. Did you mean ${suggestions.map(suggestion => `"${suggestion}"`).join(' or ')}?`,
+      suggestions
+    };
+  }
+
+  return validation;
+}
+
+/**
+ * Comprehensive technology name validation
+ */
+function checkTechnologyName(name: string): {
+  isValid: boolean;
+  reason: string;
 } {
   const lowerName = name.toLowerCase().trim();
   
-  // Known technology categories and patterns
-  const knownTechnologies = new Set([
-    // Programming Languages
-    'javascript', 'js', 'typescript', 'ts', 'python', 'py', 'java', 'c#', 'csharp', 'c++', 'cpp', 
-    'c', 'go', 'golang', 'rust', 'php', 'ruby', 'swift', 'kotlin', 'scala', 'r', 'matlab',
-    'perl', 'lua', 'haskell', 'erlang', 'elixir', 'clojure', 'f#', 'fsharp', 'dart', 'julia',
-    
-    // Frontend Frameworks/Libraries
-    'react', 'reactjs', 'react.js', 'vue', 'vuejs', 'vue.js', 'angular', 'angularjs', 'angular.js',
-    'svelte', 'ember', 'emberjs', 'ember.js', 'backbone', 'backbonejs', 'backbone.js', 'jquery',
-    'alpine', 'alpinejs', 'alpine.js', 'lit', 'stencil', 'preact', 'solid', 'solidjs',
-    
-    // Backend Frameworks
-    'express', 'expressjs', 'express.js', 'fastify', 'koa', 'koajs', 'koa.js', 'nestjs', 'nest.js',
-    'django', 'flask', 'fastapi', 'spring', 'spring boot', 'springboot', 'laravel', 'symfony',
-    'rails', 'ruby on rails', 'sinatra', 'asp.net', 'aspnet', '.net', 'dotnet', 'gin', 'echo',
-    'fiber', 'actix', 'rocket', 'warp', 'axum',
-    
-    // Databases
-    'mysql', 'postgresql', 'postgres', 'sqlite', 'mongodb', 'mongo', 'redis', 'cassandra',
-    'dynamodb', 'couchdb', 'couchbase', 'neo4j', 'influxdb', 'elasticsearch', 'solr',
-    'mariadb', 'oracle', 'sql server', 'sqlserver', 'firestore', 'supabase', 'planetscale',
-    
-    // Cloud Providers
-    'aws', 'amazon web services', 'gcp', 'google cloud', 'google cloud platform', 'azure',
-    'microsoft azure', 'digitalocean', 'linode', 'vultr', 'heroku', 'vercel', 'netlify',
-    'cloudflare', 'firebase', 'railway', 'render',
-    
-    // DevOps/Tools
-    'docker', 'kubernetes', 'k8s', 'jenkins', 'github actions', 'gitlab ci', 'circleci',
-    'travis ci', 'terraform', 'ansible', 'puppet', 'chef', 'vagrant', 'helm', 'istio',
-    'prometheus', 'grafana', 'elk', 'elasticsearch', 'logstash', 'kibana', 'datadog',
-    'new relic', 'newrelic', 'splunk',
-    
-    // Build Tools/Bundlers
-    'webpack', 'vite', 'rollup', 'parcel', 'esbuild', 'swc', 'babel', 'gulp', 'grunt',
-    'npm', 'yarn', 'pnpm', 'bower', 'maven', 'gradle', 'cmake', 'make',
-    
-    // Testing
-    'jest', 'mocha', 'chai', 'jasmine', 'cypress', 'playwright', 'selenium', 'puppeteer',
-    'testing library', 'enzyme', 'vitest', 'ava', 'tape', 'qunit',
-    
-    // Mobile Development
-    'react native', 'flutter', 'ionic', 'cordova', 'phonegap', 'xamarin', 'unity',
-    'android', 'ios', 'swift ui', 'swiftui', 'uikit',
-    
-    // CSS/Styling
-    'tailwind', 'tailwindcss', 'bootstrap', 'bulma', 'foundation', 'materialize',
-    'semantic ui', 'ant design', 'material ui', 'chakra ui', 'styled components',
-    'emotion', 'sass', 'scss', 'less', 'stylus', 'postcss',
-    
-    // State Management
-    'redux', 'mobx', 'zustand', 'recoil', 'jotai', 'valtio', 'xstate', 'vuex', 'pinia',
-    
-    // Runtime Environments
-    'node', 'nodejs', 'node.js', 'deno', 'bun', 'browser', 'electron', 'tauri',
-    
-    // Game Development
-    'unity', 'unreal', 'unreal engine', 'godot', 'construct', 'gamemaker', 'phaser',
-    
-    // Data Science/ML
-    'tensorflow', 'pytorch', 'scikit-learn', 'pandas', 'numpy', 'jupyter', 'anaconda',
-    'r studio', 'rstudio', 'tableau', 'power bi', 'powerbi', 'spark', 'hadoop',
-    
-    // CMS/E-commerce
-    'wordpress', 'drupal', 'joomla', 'shopify', 'magento', 'woocommerce', 'prestashop',
-    'strapi', 'contentful', 'sanity', 'ghost', 'jekyll', 'hugo', 'gatsby', 'next.js', 'nextjs',
-    'nuxt', 'nuxtjs', 'nuxt.js', 'gridsome', 'sapper', 'sveltekit'
-  ]);
-
-  // Check if it's a known technology
-  if (knownTechnologies.has(lowerName)) {
+  // Check if it's in the technology catalog
+  if (isKnownTechnology(lowerName)) {
     return { isValid: true, reason: '' };
   }
 
@@ -691,17 +1279,6 @@ function validateTechnologyName(name: string): {
     }
   }
 
-  // Check for partial matches with known technologies (fuzzy matching)
-  for (const tech of knownTechnologies) {
-    // Check if the input contains a known technology name
-    if (lowerName.includes(tech) || tech.includes(lowerName)) {
-      // Additional validation to avoid false positives
-      if (Math.abs(lowerName.length - tech.length) <= 3) {
-        return { isValid: true, reason: '' };
-      }
-    }
-  }
-
   // Check against common English words that are definitely not technologies
   const commonWords = new Set([
     // Common nouns
@@ -824,7 +1401,7 @@ function validateTechnologyName(name: string): {
     }
 
     // Check for very short unknown names (likely gibberish) - with exception for 'C'
-    if (name.length < 4 && !knownTechnologies.has(lowerName) && lowerName !== 'c') {
+    if (name.length < 4 && !isKnownTechnology(lowerName) && lowerName !== 'c') {
       return {
         isValid: false,
         reason: `"${name}" is too short and not a recognized technology. Please use full technology names like "React", "Vue", "Go", "PHP", etc.`
@@ -861,888 +1438,262 @@ function validateTechnologyName(name: string): {
 }
 
 /**
- * Handle unsupported HTTP methods
+ * How a matchup was judged, recorded on the analysis it produced
  */
-export async function GET(): Promise<NextResponse> {
-  return createErrorResponse(
-    'METHOD_NOT_ALLOWED',
-    'GET method is not supported for this endpoint',
-    405,
-    'This endpoint only accepts POST requests with JSON body containing tech1 and tech2 fields'
-  );
+interface JudgingContext {
+  constraints?: MatchupConstraints;
+  scenarios: ScenarioPersona[];
+  /** Shared category with its own dimensions, if any */
+  category?: TechnologyCategory;
+  /** Set when two versions of one product are being weighed */
+  upgrade?: UpgradeMatchup;
+  promptVersion?: string;
 }
 
-export async function PUT(): Promise<NextResponse> {
-  return createErrorResponse(
-    'METHOD_NOT_ALLOWED',
-    'PUT method is not supported for this endpoint',
-    405,
-    'This endpoint only accepts POST requests with JSON body containing tech1 and tech2 fields'
-  );
+/**
+ * Record the constraints, custom personas, dimension category, upgrade and
+ * prompt version an analysis was judged with
+ */
+function annotateAnalysis(
+  analysis: RefereeAnalysis,
+  { constraints, scenarios, category, upgrade, promptVersion }: JudgingContext
+): RefereeAnalysis {
+  return {
+    ...analysis,
+    ...(constraints ? { constraints } : {}),
+    ...(usesDefaultScenarios(scenarios) ? {} : { scenarioPersonas: scenarios }),
+    ...(category ? { category } : {}),
+    ...(upgrade ? { upgrade } : {}),
+    ...(promptVersion ? { promptVersion } : {})
+  };
 }
 
-export async function DELETE(): Promise<NextResponse> {
-  return createErrorResponse(
-    'METHOD_NOT_ALLOWED',
-    'DELETE method is not supported for this endpoint',
-    405,
-    'This endpoint only accepts POST requests with JSON body containing tech1 and tech2 fields'
-  );
+/**
+ * Everything needed to ask the model about the same analysis again
+ */
+interface FollowUpRequest {
+  prompt: string;
+  systemPrompt?: string;
+  provider?: string;
+  outputFormat: OutputFormat;
+  technologies: string[];
+  scenarios: ScenarioPersona[];
+  dimensions: ComparisonDimension[];
+  /** What the prompt asked for, shaping the JSON response schema */
+  features?: PromptFeatures;
+  timeoutMs: number;
 }
 
-export async function PATCH(): Promise<NextResponse> {
-  return createErrorResponse(
-    'METHOD_NOT_ALLOWED',
-    'PATCH method is not supported for this endpoint',
-    405,
-    'This endpoint only accepts POST requests with JSON body containing tech1 and tech2 fields'
-  );
+/**
+ * Send a follow-up prompt with the same provider, system prompt, output
+ * format and time limit as the original request
+ */
+async function askAgain(
+  followUp: string,
+  { systemPrompt, provider, outputFormat, technologies, scenarios, dimensions, features, timeoutMs }: FollowUpRequest
+): Promise<string> {
+  return Promise.race([
+    callOpenAI(followUp, {
+      provider,
+      systemPrompt,
+      ...(outputFormat === 'json'
+        ? { responseFormat: 'json', responseSchema: createRefereeAnalysisSchema(technologies.length, scenarios, dimensions, features) }
+        : {})
+    }),
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
+    )
+  ]);
 }
-async function parseLLMResponse(response: string, tech1: string, tech2: string): Promise<{
-  success: true;
-  data: RefereeAnalysis;
-} | {
-  success: false;
-  error: ApiError;
-}> {
-  // Validate input parameters
-  if (!response || typeof response !== 'string' || response.trim().length === 0) {
-    return {
-      success: false,
-      error: {
-        code: 'PARSING_ERROR',
-        message: 'LLM response is empty or invalid',
-        details: 'Response must be a non-empty string',
-        timestamp: new Date().toISOString()
-      }
-    };
-  }
 
-  if (!tech1 || !tech2 || tech1.trim().length === 0 || tech2.trim().length === 0) {
-    return {
-      success: false,
-      error: {
-        code: 'PARSING_ERROR',
-        message: 'Technology names are invalid',
-        details: 'Both tech1 and tech2 must be non-empty strings',
-        timestamp: new Date().toISOString()
-      }
-    };
-  }
-
-  try {
-    // Extract sections using regex patterns
-    const sections = extractSections(response);
-    
-    if (!sections.success) {
-      return {
-        success: false,
-        error: {
-          code: 'PARSING_ERROR',
-          message: 'Failed to parse LLM response structure',
-          details: sections.error,
-          timestamp: new Date().toISOString()
-        }
-      };
-    }
-
-    // Parse Tale of the Tape
-    const taleOfTheTape = parseTaleOfTheTape(sections.data.taleOfTheTape, tech1, tech2);
-    if (!taleOfTheTape.success) {
-      return {
-        success: false,
-        error: {
-          code: 'PARSING_ERROR',
-          message: 'Failed to parse Tale of the Tape section',
-          details: taleOfTheTape.error,
-          timestamp: new Date().toISOString()
-        }
-      };
-    }
-
-    // Parse Scenarios
-    const scenarios = parseScenarios(sections.data.verdicts, tech1, tech2);
-    if (!scenarios.success) {
-      return {
-        success: false,
-        error: {
-          code: 'PARSING_ERROR',
-          message: 'Failed to parse Verdicts section',
-          details: scenarios.error,
-          timestamp: new Date().toISOString()
-        }
-      };
-    }
-
-    // Parse Hidden Tax
-    const hiddenTax = parseHiddenTax(sections.data.hiddenTax);
-    if (!hiddenTax.success) {
-      return {
-        success: false,
-        error: {
-          code: 'PARSING_ERROR',
-          message: 'Failed to parse Hidden Tax section',
-          details: hiddenTax.error,
-          timestamp: new Date().toISOString()
-        }
-      };
-    }
-
-    // Extract tie-breaker
-    const tieBreaker = sections.data.tieBreaker.trim();
-    if (!tieBreaker) {
-      return {
-        success: false,
-        error: {
-          code: 'PARSING_ERROR',
-          message: 'Tie-breaker question is missing or empty',
-          timestamp: new Date().toISOString()
-        }
-      };
-    }
-
-    // Construct final analysis
-    const analysis: RefereeAnalysis = {
-      matchup: {
-        technology1: tech1,
-        technology2: tech2
-      },
-      taleOfTheTape: taleOfTheTape.data,
-      scenarios: scenarios.data,
-      hiddenTax: hiddenTax.data,
-      tieBreaker
-    };
+/**
+ * Parse a response with the parser for the request's output format
+ */
+function parseResponse(response: string, { outputFormat, technologies, scenarios, dimensions }: FollowUpRequest) {
+  return outputFormat === 'json'
+    ? parseStructuredResponse(response, technologies, scenarios, dimensions)
+    : parseLLMResponse(response, technologies, scenarios, dimensions);
+}
 
-    return {
-      success: true,
-      data: analysis
-    };
+// Reformatting requests per unparseable response when none are configured
+const DEFAULT_REPAIR_ATTEMPTS = 1;
 
-  } catch (error) {
-    return {
-      success: false,
-      error: {
-        code: 'PARSING_ERROR',
-        message: 'Unexpected error parsing LLM response',
-        details: error instanceof Error ? error.message : 'Unknown parsing error',
-        timestamp: new Date().toISOString()
-      }
-    };
-  }
+/**
+ * How many times an unparseable response is sent back to be reformatted,
+ * from REFEREE_REPAIR_ATTEMPTS (0 turns repair off)
+ */
+function getRepairAttemptLimit(): number {
+  const configured = Number.parseInt(process.env.REFEREE_REPAIR_ATTEMPTS || '', 10);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_REPAIR_ATTEMPTS;
 }
 
 /**
- * Extract main sections from LLM response
+ * Parse a response and, while the parser rejects it, send it back with the
+ * parser's error and ask for it to be reformatted, up to the repair limit.
+ * Returns the last parse result, the response it came from and how many
+ * repairs were asked for.
  */
-function extractSections(response: string): {
-  success: true;
-  data: {
-    matchup: string;
-    taleOfTheTape: string;
-    verdicts: string;
-    hiddenTax: string;
-    tieBreaker: string;
-  };
-} | {
-  success: false;
-  error: string;
-} {
-  try {
-    // Validate input
-    if (!response || typeof response !== 'string') {
-      return {
-        success: false,
-        error: 'Response is not a valid string'
-      };
-    }
-
-    const trimmedResponse = response.trim();
-    if (trimmedResponse.length === 0) {
-      return {
-        success: false,
-        error: 'Response is empty'
-      };
-    }
-
-    console.log('Extracting sections from response, length:', trimmedResponse.length);
-    console.log('Response preview:', trimmedResponse.substring(0, 500));
-    
-    // Define section patterns with more flexible matching
-    const patterns = {
-      matchup: /###\s*1\.[\s\S]*?(?:🥊\s*)?The\s+Matchup\s*\n?([\s\S]*?)(?=###\s*2\.|###\s*\d+\.|$)/i,
-      taleOfTheTape: /###\s*2\.[\s\S]*?(?:📊\s*)?The\s+Tale\s+of\s+the\s+Tape\s*\n?([\s\S]*?)(?=###\s*3\.|###\s*\d+\.|$)/i,
-      verdicts: /###\s*3\.[\s\S]*?(?:⚖️\s*)?The\s+Verdicts\s*\n?([\s\S]*?)(?=###\s*4\.|###\s*\d+\.|$)/i,
-      hiddenTax: /###\s*4\.[\s\S]*?(?:⚠️\s*)?The\s+"?Hidden\s+Tax"?\s*\n?([\s\S]*?)(?=###\s*5\.|###\s*\d+\.|$)/i,
-      tieBreaker: /###\s*5\.[\s\S]*?(?:🏁\s*)?The\s+Tie-?Breaker\s*\n?([\s\S]*?)$/i
-    };
-
-    const sections: Record<string, string> = {};
-
-    for (const [key, pattern] of Object.entries(patterns)) {
-      try {
-        const match = trimmedResponse.match(pattern);
-        if (!match || !match[1] || match[1].trim().length === 0) {
-          console.log(`Failed to match section: ${key}`);
-          console.log(`Pattern: ${pattern}`);
-          console.log(`Looking for section in: ${trimmedResponse.substring(0, 1000)}`);
-
-          const looseFallbacks: Record<string, RegExp> = {
-            matchup: /(?:🥊|Matchup)[\s\S]*?(?:\n|\r\n)([\s\S]*?)(?=###\s*2\.|$)/i,
-            taleOfTheTape: /(?:📊|Tale of the Tape)[\s\S]*?(?:\n|\r\n)([\s\S]*?)(?=###\s*3\.|$)/i,
-            verdicts: /(?:⚖️|Verdicts)[\s\S]*?(?:\n|\r\n)([\s\S]*?)(?=###\s*4\.|$)/i,
-            hiddenTax: /(?:⚠️|Hidden Tax)[\s\S]*?(?:\n|\r\n)([\s\S]*?)(?=###\s*5\.|$)/i,
-            tieBreaker: /(?:🏁|Tie-?Breaker)[\s\S]*?(?:\n|\r\n)([\s\S]*?)$/i
-          };
-
-          const fallbackMatch = trimmedResponse.match(looseFallbacks[key]);
-          if (fallbackMatch && fallbackMatch[1] && fallbackMatch[1].trim().length > 0) {
-            sections[key] = fallbackMatch[1].trim();
-            console.log(`Recovered section ${key} using fallback parser, length: ${sections[key].length}`);
-            continue;
-          }
-
-          // Final fallback: use the whole response for sections that can be
-          // recovered later by downstream parsers, instead of failing the request.
-          if (key === 'verdicts' || key === 'hiddenTax') {
-            sections[key] = trimmedResponse;
-            console.log(`Using full response fallback for ${key}`);
-            continue;
-          }
+async function parseWithRepair(
+  response: string,
+  request: FollowUpRequest,
+  onRepair?: (attempt: number, limit: number) => void
+): Promise<{ analysis: Awaited<ReturnType<typeof parseResponse>>; response: string; repairAttempts: number }> {
+  const limit = getRepairAttemptLimit();
+  let analysis = await parseResponse(response, request);
+  let repairAttempts = 0;
+
+  while (!analysis.success && repairAttempts < limit) {
+    repairAttempts++;
+    const parseError = [analysis.error.message, analysis.error.details].filter(Boolean).join(': ');
+    console.log(`Response did not parse (${parseError}), repair attempt ${repairAttempts} of ${limit}`);
+    onRepair?.(repairAttempts, limit);
 
-          if (key === 'tieBreaker') {
-            const questionMatches = trimmedResponse.match(/[^?]*\?/g);
-            const lastQuestion = questionMatches?.length ? questionMatches[questionMatches.length - 1].trim() : '';
-            if (lastQuestion) {
-              sections[key] = lastQuestion;
-              console.log(`Recovered tieBreaker from last question: ${lastQuestion}`);
-              continue;
-            }
-          }
-          
-          return {
-            success: false,
-            error: `Missing or empty section: ${key}. Response preview: ${trimmedResponse.substring(0, 200)}`
-          };
-        }
-        sections[key] = match[1].trim();
-        console.log(`Successfully extracted section: ${key}, length: ${sections[key].length}`);
-      } catch (regexError) {
-        console.error(`Regex error for section ${key}:`, regexError);
-        return {
-          success: false,
-          error: `Failed to parse section ${key}: ${regexError instanceof Error ? regexError.message : 'Unknown regex error'}`
-        };
-      }
+    try {
+      const repaired = await askAgain(createRepairPrompt(request.prompt, response, parseError), request);
+      response = repaired;
+      analysis = await parseResponse(repaired, request);
+    } catch (error) {
+      // Keep the parse error of the last response we have
+      console.error('Repair re-prompt failed:', error);
+      break;
     }
-
-    return {
-      success: true,
-      data: {
-        matchup: sections.matchup,
-        taleOfTheTape: sections.taleOfTheTape,
-        verdicts: sections.verdicts,
-        hiddenTax: sections.hiddenTax,
-        tieBreaker: sections.tieBreaker
-      }
-    };
-
-  } catch (error) {
-    console.error('Section extraction error:', error);
-    return {
-      success: false,
-      error: `Section extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-    };
   }
+
+  return { analysis, response, repairAttempts };
 }
 
 /**
- * Parse Tale of the Tape section into ComparisonMatrix
+ * Lint a parsed verdict against the referee guidelines and, when it breaks
+ * any, re-prompt once with the violations listed. The corrected answer is
+ * kept only if it parses and breaks fewer guidelines; whatever is left is
+ * reported in the quality block. Returns the response the analysis came from.
  */
-function parseTaleOfTheTape(content: string, tech1: string, tech2: string): {
-  success: true;
-  data: ComparisonMatrix;
-} | {
-  success: false;
-  error: string;
-} {
-  try {
-    // Validate inputs
-    if (!content || typeof content !== 'string') {
-      return {
-        success: false,
-        error: 'Tale of the Tape content is not a valid string'
-      };
-    }
-
-    const trimmedContent = content.trim();
-    if (trimmedContent.length === 0) {
-      return {
-        success: false,
-        error: 'Tale of the Tape content is empty'
-      };
-    }
-
-    if (!tech1 || !tech2 || tech1.trim().length === 0 || tech2.trim().length === 0) {
-      return {
-        success: false,
-        error: 'Technology names are invalid for Tale of the Tape parsing'
-      };
-    }
-
-    console.log('Parsing Tale of the Tape content:', trimmedContent.substring(0, 1000));
-    
-    const dimensions = ['Speed', 'Cost', 'Developer Experience', 'Scalability', 'Maintainability'];
-    const comparison: Partial<ComparisonMatrix> = {};
-
-    // First, try to parse as a markdown table
-    const tableMatch = trimmedContent.match(/\|[^|]*\|[^|]*\|[^|]*\|/g);
-    if (tableMatch && tableMatch.length > 2) {
-      console.log('Found markdown table with', tableMatch.length, 'rows');
-      
-      // Skip header and separator rows, process data rows
-      for (let i = 2; i < tableMatch.length; i++) {
-        const row = tableMatch[i];
-        console.log('Processing table row:', row);
-        
-        // Extract cells from the row
-        const cells = row.split('|').map(cell => cell.trim()).filter(cell => cell);
-        
-        if (cells.length >= 3) {
-          const dimensionName = cells[0];
-          const value1 = cells[1];
-          const value2 = cells[2];
-          
-          console.log(`Table row: ${dimensionName} | ${value1} | ${value2}`);
-          
-          // Find matching dimension
-          const matchingDimension = dimensions.find(dim => 
-            dimensionName.toLowerCase().includes(dim.toLowerCase()) ||
-            dim.toLowerCase().includes(dimensionName.toLowerCase())
-          );
-          
-          if (matchingDimension) {
-            const dimensionKeyMap: Record<string, keyof ComparisonMatrix> = {
-              'speed': 'speed',
-              'cost': 'cost',
-              'developer experience': 'developerExperience',
-              'scalability': 'scalability',
-              'maintainability': 'maintainability'
-            };
-            
-            const key = dimensionKeyMap[matchingDimension.toLowerCase()];
-            if (key) {
-              (comparison as any)[key] = {
-                tech1: value1,
-                tech2: value2
-              };
-              console.log(`Mapped ${matchingDimension} to ${key}:`, { tech1: value1, tech2: value2 });
-            }
-          }
-        }
-      }
-    }
+async function reviewAnalysis(
+  analysis: RefereeAnalysis,
+  response: string,
+  request: FollowUpRequest,
+  onReprompt?: () => void
+): Promise<{ analysis: RefereeAnalysis; response: string }> {
+  const violations = lintRefereeAnalysis(analysis, response);
+  if (violations.length === 0) {
+    return { analysis, response };
+  }
 
-    // If table parsing didn't work or didn't find all dimensions, try line-by-line parsing
-    if (Object.keys(comparison).length < 5) {
-      console.log('Table parsing incomplete, trying line-by-line parsing');
-      
-      for (const dimension of dimensions) {
-        if (comparison[dimension.toLowerCase().replace(/\s+/g, '') as keyof ComparisonMatrix]) {
-          continue; // Already found this dimension
-        }
-        
-        console.log(`Looking for dimension: ${dimension}`);
-        
-        // Try multiple patterns to match different formats
-        const patterns = [
-          // Pattern 1: | Speed | value1 | value2 |
-          new RegExp(`\\|\\s*${dimension}\\s*\\|\\s*([^|]+?)\\s*\\|\\s*([^|]+?)\\s*\\|`, 'i'),
-          // Pattern 2: Speed: value1 | value2
-          new RegExp(`${dimension}\\s*[:|]\\s*([^|\\n]+?)\\s*\\|\\s*([^|\\n]+?)(?=\\n|$)`, 'i'),
-          // Pattern 3: Speed | value1 | value2
-          new RegExp(`${dimension}\\s*\\|\\s*([^|]+?)\\s*\\|\\s*([^|]+?)(?=\\n|$)`, 'i'),
-          // Pattern 4: **Speed** | value1 | value2
-          new RegExp(`\\*\\*${dimension}\\*\\*\\s*\\|\\s*([^|]+?)\\s*\\|\\s*([^|]+?)(?=\\n|$)`, 'i'),
-          // Pattern 5: Speed - value1 vs value2
-          new RegExp(`${dimension}\\s*[-:]\\s*([^\\n]+?)\\s+vs\\s+([^\\n]+?)(?=\\n|$)`, 'i'),
-          // Pattern 6: More flexible line-based matching
-          new RegExp(`${dimension}[^\\n]*?([A-Za-z0-9$][^|\\n]*?)\\s*[|\\s]+([A-Za-z0-9$][^|\\n]*?)(?=\\n|$)`, 'i')
-        ];
-        
-        let match = null;
-        
-        for (let i = 0; i < patterns.length; i++) {
-          try {
-            match = trimmedContent.match(patterns[i]);
-            if (match && match[1] && match[2] && match[1].trim().length > 0 && match[2].trim().length > 0) {
-              console.log(`Found match for ${dimension} using pattern ${i}: "${match[1].trim()}" vs "${match[2].trim()}"`);
-              break;
-            }
-          } catch (patternError) {
-            console.error(`Pattern ${i} error for dimension ${dimension}:`, patternError);
-            continue;
-          }
-        }
-        
-        if (match && match[1] && match[2]) {
-          // Map dimension names to the correct ComparisonMatrix keys
-          const dimensionKeyMap: Record<string, keyof ComparisonMatrix> = {
-            'speed': 'speed',
-            'cost': 'cost',
-            'developerexperience': 'developerExperience',
-            'developer experience': 'developerExperience',
-            'scalability': 'scalability',
-            'maintainability': 'maintainability'
-          };
-          
-          const normalizedKey = dimension.toLowerCase().replace(/\s+/g, '');
-          const key = dimensionKeyMap[normalizedKey] || dimensionKeyMap[dimension.toLowerCase()];
-          
-          if (key) {
-            (comparison as any)[key] = {
-              tech1: match[1].trim().replace(/^\*\*|\*\*$/g, ''), // Remove markdown bold
-              tech2: match[2].trim().replace(/^\*\*|\*\*$/g, '')
-            };
-          }
-        }
+  console.log(`Verdict broke ${violations.length} guideline(s), asking the referee to correct it`);
+  onReprompt?.();
+  try {
+    const corrected = await askAgain(createCorrectivePrompt(request.prompt, response, violations.map(describeViolation)), request);
+    const reparsed = await parseResponse(corrected, request);
+    if (reparsed.success) {
+      const remaining = lintRefereeAnalysis(reparsed.data, corrected);
+      if (remaining.length < violations.length) {
+        return { analysis: recordQuality(reparsed.data, remaining, true), response: corrected };
       }
+      console.log('Corrected verdict was no improvement, keeping the original');
+    } else {
+      console.log('Corrected verdict did not parse, keeping the original:', reparsed.error);
     }
-
-    // Check what we found
-    console.log('Final comparison object:', comparison);
-    console.log('Keys found:', Object.keys(comparison));
-
-    // Validate all required fields are present
-    if (!comparison.speed || !comparison.cost || !comparison.developerExperience || 
-        !comparison.scalability || !comparison.maintainability) {
-      
-      const missing = [];
-      if (!comparison.speed) missing.push('Speed');
-      if (!comparison.cost) missing.push('Cost');
-      if (!comparison.developerExperience) missing.push('Developer Experience');
-      if (!comparison.scalability) missing.push('Scalability');
-      if (!comparison.maintainability) missing.push('Maintainability');
-      
-      console.log('Missing dimensions:', missing);
-      
-      return {
-        success: false,
-        error: `Missing comparison data for: ${missing.join(', ')}. Found: ${Object.keys(comparison).join(', ')}. Content: ${trimmedContent.substring(0, 500)}`
-      };
-    }
-
-    console.log('Successfully parsed Tale of the Tape:', comparison);
-    return {
-      success: true,
-      data: comparison as ComparisonMatrix
-    };
-
   } catch (error) {
-    console.error('Tale of the Tape parsing error:', error);
-    return {
-      success: false,
-      error: `Tale of the Tape parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-    };
+    // A failed correction still leaves a usable verdict
+    console.error('Corrective re-prompt failed:', error);
   }
+
+  return { analysis: recordQuality(analysis, violations, true), response };
 }
 
 /**
- * Parse Verdicts section into ScenarioVerdict array
+ * Attach the guideline review, left off verdicts that were clean first time
  */
-function parseScenarios(content: string, tech1?: string, tech2?: string): {
-  success: true;
-  data: ScenarioVerdict[];
-} | {
-  success: false;
-  error: string;
-} {
-  try {
-    // Validate input
-    if (!content || typeof content !== 'string') {
-      return {
-        success: false,
-        error: 'Verdicts content is not a valid string'
-      };
-    }
-
-    const trimmedContent = content.trim();
-    if (trimmedContent.length === 0) {
-      return {
-        success: false,
-        error: 'Verdicts content is empty'
-      };
-    }
-
-    console.log('Parsing Verdicts content:', trimmedContent.substring(0, 800));
-    
-    const scenarios: ScenarioVerdict[] = [];
-    const scenarioNames: Array<'Move Fast Team' | 'Scale Team' | 'Budget Team'> = [
-      'Move Fast Team', 'Scale Team', 'Budget Team'
-    ];
-
-    for (const name of scenarioNames) {
-      console.log(`Looking for scenario: ${name}`);
-      
-      // Try multiple patterns to match different scenario formats
-      const patterns = [
-        // Pattern 1: **Scenario A (The 'Move Fast' Team):**
-        new RegExp(`\\*\\*Scenario [ABC] \\(The '${name.replace(' Team', '')}' Team\\):\\*\\*\\s*([\\s\\S]*?)(?=\\*\\*Scenario|$)`, 'i'),
-        // Pattern 2: **Scenario A (The "Move Fast" Team):**
-        new RegExp(`\\*\\*Scenario [ABC] \\(The "${name.replace(' Team', '')}" Team\\):\\*\\*\\s*([\\s\\S]*?)(?=\\*\\*Scenario|$)`, 'i'),
-        // Pattern 3: ### Scenario A (The 'Move Fast' Team)
-        new RegExp(`###\\s*Scenario [ABC] \\(The '${name.replace(' Team', '')}' Team\\)\\s*([\\s\\S]*?)(?=###|$)`, 'i'),
-        // Pattern 4: **Scenario A: The 'Move Fast' Team**
-        new RegExp(`\\*\\*Scenario [ABC]:\\s*The '${name.replace(' Team', '')}' Team\\*\\*\\s*([\\s\\S]*?)(?=\\*\\*Scenario|$)`, 'i'),
-        // Pattern 5: More flexible - just look for the team name
-        new RegExp(`(?:Scenario [ABC]|\\*\\*.*?).*?${name.replace(' Team', '')}.*?Team.*?([\\s\\S]*?)(?=(?:Scenario [ABC]|\\*\\*.*?Team)|$)`, 'i'),
-        // Pattern 6: Very flexible - just the team type
-        new RegExp(`${name.replace(' Team', '')}.*?Team.*?([\\s\\S]*?)(?=(?:Scale|Budget|Move Fast).*?Team|$)`, 'i')
-      ];
-      
-      let match = null;
-      
-      for (let i = 0; i < patterns.length; i++) {
-        try {
-          match = trimmedContent.match(patterns[i]);
-          if (match && match[1] && match[1].trim().length > 10) {
-            console.log(`Found scenario ${name} using pattern ${i}`);
-            break;
-          }
-        } catch (patternError) {
-          console.error(`Pattern ${i} error for scenario ${name}:`, patternError);
-          continue;
-        }
-      }
-      
-      if (!match || !match[1]) {
-        console.log(`No match found for ${name}. Searching for team name in content...`);
-        const teamType = name.replace(' Team', '');
-        const teamIndex = trimmedContent.toLowerCase().indexOf(teamType.toLowerCase());
-        if (teamIndex >= 0) {
-          const start = Math.max(0, teamIndex - 100);
-          const end = Math.min(trimmedContent.length, teamIndex + 300);
-          console.log(`Found "${teamType}" at position ${teamIndex}. Context:`, trimmedContent.substring(start, end));
-        }
-        
-        return {
-          success: false,
-          error: `Missing scenario: ${name}. Content preview: ${trimmedContent.substring(0, 400)}`
-        };
-      }
-
-      const scenarioContent = match[1].trim();
-      console.log(`Scenario content for ${name}:`, scenarioContent.substring(0, 200));
-      
-      // Extract winner and reasoning with more flexible patterns
-      let winnerMatch = null;
-      let reasoningMatch = null;
-
-      try {
-        // Try multiple patterns to extract winner information
-        const winnerPatterns = [
-          // Standard format: "Which wins? Technology wins."
-          /Which wins\?\s*([^.!?\n]*[.!?])/i,
-          // Alternative: "Winner: Technology" or "Technology wins"
-          /(?:Winner|wins?):\s*([^.\n]+)/i,
-          /([A-Za-z][A-Za-z0-9\s.+-]*)\s+wins/i,
-          // More flexible: "Technology could be seen as the winner"
-          /([A-Za-z][A-Za-z0-9\s.+-]*)\s+(?:could be seen as|is|would be)\s+(?:the\s+)?winner/i,
-          // Even more flexible: "Technology is better" or "go with Technology"
-          /(?:go with|choose|pick|use)\s+([A-Za-z][A-Za-z0-9\s.+-]*)/i,
-          /([A-Za-z][A-Za-z0-9\s.+-]*)\s+(?:is|would be)\s+(?:better|preferred|recommended)/i,
-          // Last resort: look for technology names mentioned prominently
-          /\b([A-Za-z][A-Za-z0-9\s.+-]{2,})\b.*(?:advantage|benefit|better|superior|preferred)/i
-        ];
-
-        for (const pattern of winnerPatterns) {
-          winnerMatch = scenarioContent.match(pattern);
-          if (winnerMatch && winnerMatch[1] && winnerMatch[1].trim().length > 0) {
-            console.log(`Found winner using pattern: ${pattern}`, winnerMatch[1]);
-            break;
-          }
-        }
-
-        // Try to extract reasoning
-        const reasoningPatterns = [
-          // Standard format: "Why? Reason here"
-          /Why\?\s*([^]*?)(?=Which wins|$)/i,
-          // Alternative: "Reason:" or "Because"
-          /(?:Reason|Because):\s*([^]*?)$/i,
-          // More flexible: extract everything after winner statement
-          /(?:wins?|winner|better|preferred)\.?\s*([^]*?)$/i,
-          // If no clear pattern, use the whole content as reasoning
-          /([^]*)/
-        ];
-
-        for (const pattern of reasoningPatterns) {
-          reasoningMatch = scenarioContent.match(pattern);
-          if (reasoningMatch && reasoningMatch[1] && reasoningMatch[1].trim().length > 10) {
-            console.log(`Found reasoning using pattern: ${pattern}`);
-            break;
-          }
-        }
-
-        // If we still don't have reasoning, use the scenario content
-        if (!reasoningMatch || !reasoningMatch[1] || reasoningMatch[1].trim().length < 10) {
-          reasoningMatch = [scenarioContent, scenarioContent] as RegExpMatchArray;
-        }
-
-      } catch (extractionError) {
-        console.error(`Error extracting winner/reasoning for ${name}:`, extractionError);
-        return {
-          success: false,
-          error: `Failed to extract winner/reasoning for ${name}: ${extractionError instanceof Error ? extractionError.message : 'Unknown error'}`
-        };
-      }
-      
-      if (!winnerMatch || !winnerMatch[1] || winnerMatch[1].trim().length === 0) {
-        console.log(`Could not extract winner from scenario content: ${scenarioContent}`);
-        
-        // Try a fallback approach - look for technology names in the content
-        if (!tech1 || !tech2) {
-          return {
-            success: false,
-            error: `Could not determine winner for ${name} - technology names not available. Content: ${scenarioContent.substring(0, 200)}`
-          };
-        }
-        
-        const tech1Lower = tech1.toLowerCase();
-        const tech2Lower = tech2.toLowerCase();
-        const contentLower = scenarioContent.toLowerCase();
-        
-        let fallbackWinner = '';
-        
-        // Check which technology is mentioned more prominently or in a positive context
-        const tech1Mentions = (contentLower.match(new RegExp(tech1Lower, 'g')) || []).length;
-        const tech2Mentions = (contentLower.match(new RegExp(tech2Lower, 'g')) || []).length;
-        
-        // Look for positive context around technology names
-        const positiveWords = ['winner', 'better', 'preferred', 'advantage', 'superior', 'recommended', 'choose', 'go with'];
-        
-        for (const word of positiveWords) {
-          const tech1Context = contentLower.includes(`${tech1Lower} ${word}`) || contentLower.includes(`${word} ${tech1Lower}`);
-          const tech2Context = contentLower.includes(`${tech2Lower} ${word}`) || contentLower.includes(`${word} ${tech2Lower}`);
-          
-          if (tech1Context && !tech2Context) {
-            fallbackWinner = tech1;
-            break;
-          } else if (tech2Context && !tech1Context) {
-            fallbackWinner = tech2;
-            break;
-          }
-        }
-        
-        // If still no clear winner, use the technology mentioned more frequently
-        if (!fallbackWinner) {
-          if (tech1Mentions > tech2Mentions) {
-            fallbackWinner = tech1;
-          } else if (tech2Mentions > tech1Mentions) {
-            fallbackWinner = tech2;
-          } else {
-            // Last resort: extract the first technology name mentioned
-            const techPattern = new RegExp(`\\b(${tech1Lower}|${tech2Lower})\\b`, 'i');
-            const firstMention = scenarioContent.match(techPattern);
-            fallbackWinner = firstMention ? firstMention[1] : tech1; // Default to tech1 if all else fails
-          }
-        }
-        
-        if (fallbackWinner) {
-          console.log(`Using fallback winner for ${name}: ${fallbackWinner}`);
-          winnerMatch = [scenarioContent, fallbackWinner] as RegExpMatchArray;
-        } else {
-          return {
-            success: false,
-            error: `Could not determine winner for ${name}. Content: ${scenarioContent.substring(0, 200)}`
-          };
-        }
-      }
-      
-      if (!reasoningMatch || !reasoningMatch[1] || reasoningMatch[1].trim().length === 0) {
-        console.log(`Could not extract reasoning from scenario content: ${scenarioContent}`);
-        // Use the entire scenario content as reasoning if we can't parse it better
-        reasoningMatch = [scenarioContent, scenarioContent.trim()] as RegExpMatchArray;
-      }
-
-      const winner = winnerMatch[1].trim();
-      const reasoning = reasoningMatch[1].trim();
-      
-      console.log(`Extracted for ${name}: Winner="${winner}", Reasoning="${reasoning.substring(0, 100)}..."`);
-
-      scenarios.push({
-        name,
-        winner,
-        reasoning,
-        context: `${name} scenario analysis`
-      });
-    }
+function recordQuality(analysis: RefereeAnalysis, warnings: GuidelineViolation[], reprompted: boolean): RefereeAnalysis {
+  return warnings.length > 0 || reprompted ? { ...analysis, quality: { warnings, reprompted } } : analysis;
+}
 
-    if (scenarios.length !== 3) {
-      console.log(`Expected 3 scenarios, found ${scenarios.length}`);
-      return {
-        success: false,
-        error: `Expected 3 scenarios, found ${scenarios.length}. Found scenarios: ${scenarios.map(s => s.name).join(', ')}`
-      };
-    }
+/**
+ * Tale of the Tape rows: the upgrade set, a shared category's own set, or
+ * the general five
+ */
+function selectDimensions(category?: TechnologyCategory, upgrade?: UpgradeMatchup): ComparisonDimension[] {
+  return upgrade ? UPGRADE_DIMENSIONS : getComparisonDimensions(category);
+}
 
-    console.log('Successfully parsed all scenarios:', scenarios.map(s => s.name));
-    return {
-      success: true,
-      data: scenarios
-    };
+/**
+ * Save a finished analysis under a new permalink ID. A store failure only
+ * costs the permalink, so the verdict is still returned without an ID.
+ */
+async function saveAnalysis(analysis: RefereeAnalysis, provider?: string): Promise<RefereeAnalysis> {
+  const id = createAnalysisId();
+  const saved: RefereeAnalysis = { ...analysis, id };
+  const source = getProviderModel(provider);
 
+  try {
+    await getAnalysisStore().save({
+      id,
+      analysis: saved,
+      provider: source?.provider || provider || 'unknown',
+      model: source?.model || 'unknown',
+      createdAt: new Date().toISOString()
+    });
+    return saved;
   } catch (error) {
-    console.error('Scenarios parsing error:', error);
-    return {
-      success: false,
-      error: `Scenarios parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-    };
+    console.error('Failed to save analysis:', error);
+    return analysis;
   }
 }
 
 /**
- * Parse Hidden Tax section into HiddenTax object
+ * Re-map an analysis parsed in the order a cached response used onto the
+ * order of this request (the cache key ignores order)
  */
-function parseHiddenTax(content: string): {
-  success: true;
-  data: HiddenTax;
-} | {
-  success: false;
-  error: string;
-} {
-  try {
-    // Validate input
-    if (!content || typeof content !== 'string') {
-      return {
-        success: false,
-        error: 'Hidden Tax content is not a valid string'
-      };
-    }
-
-    const trimmedContent = content.trim();
-    if (trimmedContent.length === 0) {
-      return {
-        success: false,
-        error: 'Hidden Tax content is empty'
-      };
-    }
-
-    // Extract hidden tax information with more flexible patterns
-    let taxMatch = null;
-    
-    // Try the standard pattern first
-    try {
-      taxMatch = trimmedContent.match(/If you choose\s+([^,]+),\s*be prepared to pay the tax of\s+([^.]+)\s+in\s+([^.]+)/i);
-    } catch (regexError) {
-      console.error('Regex error in Hidden Tax parsing:', regexError);
-      return {
-        success: false,
-        error: `Hidden Tax regex failed: ${regexError instanceof Error ? regexError.message : 'Unknown regex error'}`
-      };
-    }
-    
-    if (!taxMatch || !taxMatch[1] || !taxMatch[2] || !taxMatch[3]) {
-      // Try alternative patterns
-      const alternativePatterns = [
-        // Pattern with different punctuation
-        /If you choose\s+([^,]+),?\s*be prepared to pay the tax of\s+([^.!?]+)[.!?]?\s*in\s+([^.!?]+)/i,
-        // Pattern without "in timeframe"
-        /If you choose\s+([^,]+),?\s*be prepared to pay the tax of\s+([^.!?]+)/i,
-        // More flexible pattern
-        /choose\s+([^,]+).*?tax.*?of\s+([^.!?\n]+).*?in\s+([^.!?\n]+)/i,
-        // Even more flexible - just look for "tax of X"
-        /tax\s+of\s+([^.!?\n]+)(?:\s+in\s+([^.!?\n]+))?/i,
-        // Look for technology name and consequence
-        /([A-Za-z][A-Za-z0-9\s.+-]+).*?(?:tax|cost|downside|problem).*?([^.!?\n]+)/i
-      ];
-
-      for (let i = 0; i < alternativePatterns.length; i++) {
-        try {
-          taxMatch = trimmedContent.match(alternativePatterns[i]);
-          if (taxMatch && taxMatch[1] && taxMatch[2]) {
-            console.log(`Found Hidden Tax using alternative pattern ${i}`);
-            
-            // For patterns that don't capture timeframe, set a default
-            if (!taxMatch[3] && i < 4) {
-              taxMatch[3] = '6 months'; // Default timeframe
-            }
-            break;
-          }
-        } catch (patternError) {
-          console.error(`Alternative pattern ${i} error:`, patternError);
-          continue;
-        }
-      }
-    }
-
-    if (!taxMatch || !taxMatch[1] || !taxMatch[2]) {
-      // Last resort: try to extract any technology name and warning from the content
-      console.log('Attempting fallback Hidden Tax parsing...');
-      
-      // Look for any technology name mentioned
-      const techPattern = /\b([A-Za-z][A-Za-z0-9\s.+-]{2,20})\b/g;
-      const techMatches = Array.from(trimmedContent.matchAll(techPattern));
-      
-      // Look for warning-like content
-      const warningPattern = /(complexity|maintenance|learning curve|cost|overhead|difficulty|challenge|problem|issue|burden)[^.!?\n]*/i;
-      const warningMatch = trimmedContent.match(warningPattern);
-      
-      if (techMatches.length > 0 && warningMatch) {
-        const technology = techMatches[0][1].trim();
-        const warning = warningMatch[0].trim();
-        const timeframe = '6 months'; // Default timeframe
-        
-        console.log(`Fallback Hidden Tax extraction: ${technology} -> ${warning}`);
-        
-        return {
-          success: true,
-          data: {
-            technology,
-            warning,
-            timeframe,
-            impact: `${warning} expected in ${timeframe}`
-          }
-        };
-      }
-      
-      return {
-        success: false,
-        error: `Hidden Tax format does not match expected pattern. Content: ${trimmedContent.substring(0, 200)}`
-      };
-    }
+function reorderAnalysis(analysis: RefereeAnalysis, from: string[], to: string[]): RefereeAnalysis {
+  const fromKeys = from.map(tech => normalizeTechnologyName(tech).toLowerCase());
+  const sourceIndexes = to.map(tech => fromKeys.indexOf(normalizeTechnologyName(tech).toLowerCase()));
+  const reorder = <T>(row: Record<string, T>) =>
+    Object.fromEntries(sourceIndexes.map((source, index) => [contenderKey(index), row[contenderKey(source)]]));
+  const taleOfTheTape = Object.fromEntries(
+    Object.entries(analysis.taleOfTheTape).map(([dimension, descriptors]) => [dimension, reorder(descriptors)])
+  ) as unknown as ComparisonMatrix;
+  const scores = analysis.scores && Object.fromEntries(
+    Object.entries(analysis.scores).map(([dimension, row]) => [dimension, reorder(row)])
+  ) as unknown as ScoreMatrix;
+
+  return { ...analysis, matchup: buildMatchup(to), taleOfTheTape, ...(scores ? { scores } : {}) };
+}
 
-    const technology = taxMatch[1].trim();
-    const warning = taxMatch[2].trim();
-    const timeframe = taxMatch[3] ? taxMatch[3].trim() : '6 months'; // Default timeframe
+/**
+ * Handle unsupported HTTP methods
+ */
+export async function GET(): Promise<NextResponse> {
+  return createErrorResponse(
+    'METHOD_NOT_ALLOWED',
+    'GET method is not supported for this endpoint',
+    405,
+    'This endpoint only accepts POST requests with JSON body containing tech1 and tech2 fields'
+  );
+}
 
-    // Validate extracted values
-    if (technology.length === 0) {
-      return {
-        success: false,
-        error: 'Technology name is empty in Hidden Tax'
-      };
-    }
+export async function PUT(): Promise<NextResponse> {
+  return createErrorResponse(
+    'METHOD_NOT_ALLOWED',
+    'PUT method is not supported for this endpoint',
+    405,
+    'This endpoint only accepts POST requests with JSON body containing tech1 and tech2 fields'
+  );
+}
 
-    if (warning.length === 0) {
-      return {
-        success: false,
-        error: 'Warning text is empty in Hidden Tax'
-      };
-    }
-    
-    return {
-      success: true,
-      data: {
-        technology,
-        warning,
-        timeframe,
-        impact: `${warning} expected in ${timeframe}`
-      }
-    };
+export async function DELETE(): Promise<NextResponse> {
+  return createErrorResponse(
+    'METHOD_NOT_ALLOWED',
+    'DELETE method is not supported for this endpoint',
+    405,
+    'This endpoint only accepts POST requests with JSON body containing tech1 and tech2 fields'
+  );
+}
 
-  } catch (error) {
-    return {
-      success: false,
-      error: `Hidden tax parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-    };
-  }
-}
\ No newline at end of file
+export async function PATCH(): Promise<NextResponse> {
+  return createErrorResponse(
+    'METHOD_NOT_ALLOWED',
+    'PATCH method is not supported for this endpoint',
+    405,
+    'This endpoint only accepts POST requests with JSON body containing tech1 and tech2 fields'
+  );
+}
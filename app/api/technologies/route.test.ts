@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+
+describe('GET /api/technologies', () => {
+  const request = (search: string) => new NextRequest(`http://localhost:3000/api/technologies${search}`);
+
+  it('returns prefix matches with category labels', async () => {
+    const response = await GET(request('?q=postg'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data[0]).toEqual({ name: 'PostgreSQL', category: 'database', categoryLabel: 'database' });
+  });
+
+  it('matches aliases and tolerates typos', async () => {
+    const alias = await (await GET(request('?q=k8s'))).json();
+    expect(alias.data[0]).toEqual({ name: 'Kubernetes', category: 'devops', categoryLabel: 'DevOps tool', matchedAlias: 'k8s' });
+
+    const typo = await (await GET(request('?q=kubrn'))).json();
+    expect(typo.data.map((match: any) => match.name)).toContain('Kubernetes');
+  });
+
+  it('ranks the requested category first and honours the limit', async () => {
+    const body = await (await GET(request('?q=re&category=database&limit=3'))).json();
+
+    expect(body.data).toHaveLength(3);
+    expect(body.data[0]).toMatchObject({ name: 'Redis', category: 'database' });
+  });
+
+  it('rejects unknown categories and out-of-range limits', async () => {
+    const category = await GET(request('?q=re&category=spreadsheets'));
+    expect(category.status).toBe(400);
+    expect((await category.json()).error.code).toBe('INVALID_CATEGORY');
+
+    const limit = await GET(request('?q=re&limit=500'));
+    expect(limit.status).toBe(400);
+    expect((await limit.json()).error.code).toBe('INVALID_LIMIT');
+  });
+
+  it.each(['toString', 'constructor'])('rejects the inherited object key %s as a category', async (category) => {
+    const response = await GET(request(`?q=re&category=${category}`));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe('INVALID_CATEGORY');
+  });
+});
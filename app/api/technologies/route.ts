@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchTechnologies, TECHNOLOGY_CATEGORY_LABELS } from '@/lib/technologies';
+import { TechnologyCategory, TechnologySearchResponse } from '@/lib/types';
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 20;
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Error response in the same shape as POST /api/referee
+ */
+function createErrorResponse(code: string, message: string, details: string): NextResponse<TechnologySearchResponse> {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+      timestamp: new Date().toISOString()
+    }
+  }, { status: 400 });
+}
+
+/**
+ * GET handler for typeahead: `q` is the partly typed name, `category`
+ * ranks that category first and `limit` caps the results (default 8)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<TechnologySearchResponse>> {
+  const params = request.nextUrl.searchParams;
+  const query = params.get('q') || '';
+  const category = params.get('category');
+  const limitParam = params.get('limit');
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return createErrorResponse(
+      'INVALID_QUERY',
+      `q must be ${MAX_QUERY_LENGTH} characters or less`,
+      'Send the technology name typed so far, e.g. /api/technologies?q=postg'
+    );
+  }
+
+  if (category !== null && !Object.prototype.hasOwnProperty.call(TECHNOLOGY_CATEGORY_LABELS, category)) {
+    return createErrorResponse(
+      'INVALID_CATEGORY',
+      `Unknown category "${category}"`,
+      `Valid categories: ${Object.keys(TECHNOLOGY_CATEGORY_LABELS).join(', ')}`
+    );
+  }
+
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return createErrorResponse(
+      'INVALID_LIMIT',
+      `limit must be a whole number from 1 to ${MAX_LIMIT}`,
+      `Omit limit to get up to ${DEFAULT_LIMIT} suggestions`
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: searchTechnologies(query, {
+      limit,
+      ...(category ? { category: category as TechnologyCategory } : {})
+    })
+  });
+}
@@ -5,8 +5,104 @@ import MatchupInput from '@/components/MatchupInput';
 import LoadingState from '@/components/LoadingState';
 import VerdictDisplay from '@/components/VerdictDisplay';
 import ErrorNotification from '@/components/ErrorNotification';
-import { RefereeAnalysis, RefereeResponse, AppError, ErrorType } from '@/lib/types';
+import {
+  RefereeAnalysis,
+  RefereeResponse,
+  RefereeStreamEvent,
+  RefereeStreamProgress,
+  PartialRefereeAnalysis,
+  MatchupSubmitOptions,
+  AppError,
+  ErrorType
+} from '@/lib/types';
 import { retryFetch } from '@/lib/retry';
+import { readSSEStream } from '@/lib/sse';
+import { normalizeTechnologyName } from '@/lib/technologies';
+
+// Section labels in the order the referee streams them
+const STREAM_STAGES = [
+  'The Matchup',
+  'The Tale of the Tape',
+  'The Verdicts',
+  'The Hidden Tax',
+  'The Tie-Breaker'
+];
+
+/**
+ * Fold one streamed event into the partial analysis shown while streaming
+ */
+function applyStreamEvent(
+  partial: PartialRefereeAnalysis | null,
+  event: RefereeStreamEvent
+): PartialRefereeAnalysis | null {
+  switch (event.event) {
+    case 'matchup':
+      return { scenarios: [], ...partial, matchup: event.data };
+    case 'category':
+      return partial && { ...partial, category: event.data };
+    case 'upgrade':
+      return partial && { ...partial, upgrade: event.data };
+    case 'taleOfTheTape':
+      return partial && { ...partial, taleOfTheTape: event.data };
+    case 'scores':
+      return partial && { ...partial, scores: event.data };
+    case 'scenario':
+      return partial && { ...partial, scenarios: [...partial.scenarios, event.data] };
+    case 'hiddenTax':
+      return partial && { ...partial, hiddenTaxes: event.data };
+    case 'tieBreaker':
+      return partial && { ...partial, tieBreaker: event.data };
+    default:
+      return partial;
+  }
+}
+
+/**
+ * A verdict from the API, flagged when it was served from the response cache
+ */
+type ApiResult = { analysis: RefereeAnalysis } & Pick<RefereeResponse, 'cached' | 'cacheAgeSeconds'>;
+
+/**
+ * How long ago a cached verdict was first judged, in words
+ */
+function describeCacheAge(seconds: number): string {
+  if (seconds < 60) {
+    return 'less than a minute ago';
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+}
+
+/**
+ * The structured CATEGORY_MISMATCH error inside a rejected request, if that
+ * is what the API sent back
+ */
+function readCategoryMismatchError(err: AppError): AppError | null {
+  if (err.code !== 'CLIENT_ERROR' || typeof err.details?.body !== 'string') {
+    return null;
+  }
+
+  try {
+    const body: RefereeResponse = JSON.parse(err.details.body);
+    if (body.error?.code !== 'CATEGORY_MISMATCH' || !body.error.categoryMismatch) {
+      return null;
+    }
+    return new AppError(
+      ErrorType.VALIDATION_ERROR,
+      body.error.message,
+      body.error.code,
+      body.error,
+      new Date(),
+      false
+    );
+  } catch {
+    return null;
+  }
+}
 
 /**
  * Main page component that orchestrates the complete user flow
@@ -14,94 +110,48 @@ import { retryFetch } from '@/lib/retry';
  */
 export default function Home() {
   const [analysis, setAnalysis] = useState<RefereeAnalysis | null>(null);
+  const [cacheAgeSeconds, setCacheAgeSeconds] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<AppError | null>(null);
-  const [lastRequest, setLastRequest] = useState<{ tech1: string; tech2: string } | null>(null);
-
-  /**
-   * Technology name normalization and alias support
-   * Requirements 1.5: Handle common technology aliases and variations
-   */
-  const normalizeTechnologyName = (tech: string): string => {
-    const aliases: Record<string, string> = {
-      // JavaScript frameworks
-      'reactjs': 'React',
-      'react.js': 'React',
-      'vuejs': 'Vue',
-      'vue.js': 'Vue',
-      'angularjs': 'Angular',
-      'angular.js': 'Angular',
-      'nextjs': 'Next.js',
-      'next.js': 'Next.js',
-      'nuxtjs': 'Nuxt.js',
-      'nuxt.js': 'Nuxt.js',
-      
-      // Databases
-      'postgresql': 'PostgreSQL',
-      'postgres': 'PostgreSQL',
-      'mysql': 'MySQL',
-      'mongodb': 'MongoDB',
-      'mongo': 'MongoDB',
-      'redis': 'Redis',
-      
-      // Cloud providers
-      'aws': 'Amazon Web Services',
-      'amazon web services': 'Amazon Web Services',
-      'gcp': 'Google Cloud Platform',
-      'google cloud': 'Google Cloud Platform',
-      'azure': 'Microsoft Azure',
-      'microsoft azure': 'Microsoft Azure',
-      
-      // Programming languages
-      'js': 'JavaScript',
-      'javascript': 'JavaScript',
-      'ts': 'TypeScript',
-      'typescript': 'TypeScript',
-      'py': 'Python',
-      'python': 'Python',
-      'java': 'Java',
-      'c#': 'C#',
-      'csharp': 'C#',
-      'go': 'Go',
-      'golang': 'Go',
-      'rust': 'Rust',
-      'php': 'PHP',
-      'ruby': 'Ruby',
-      
-      // Tools and platforms
-      'docker': 'Docker',
-      'kubernetes': 'Kubernetes',
-      'k8s': 'Kubernetes',
-      'jenkins': 'Jenkins',
-      'github actions': 'GitHub Actions',
-      'gitlab ci': 'GitLab CI',
-      'terraform': 'Terraform',
-      'ansible': 'Ansible'
-    };
-
-    const normalized = tech.toLowerCase().trim();
-    return aliases[normalized] || tech.trim();
-  };
+  const [lastRequest, setLastRequest] = useState<{ tech1: string; tech2: string; options?: MatchupSubmitOptions } | null>(null);
+  const [partialAnalysis, setPartialAnalysis] = useState<PartialRefereeAnalysis | null>(null);
+  const [streamProgress, setStreamProgress] = useState<RefereeStreamProgress | null>(null);
 
   /**
    * Enhanced API call with retry logic and better error handling
    * Requirements 5.2, 5.5: Retry logic and user-friendly error messages
+   * Sections are streamed over Server-Sent Events and reported via onEvent;
+   * a plain JSON response is still accepted. Either way, cache hits come back
+   * flagged with the cached verdict's age.
    */
-  const makeApiCall = useCallback(async (tech1: string, tech2: string): Promise<RefereeAnalysis> => {
+  const makeApiCall = useCallback(async (
+    tech1: string,
+    tech2: string,
+    options: MatchupSubmitOptions,
+    onEvent: (event: RefereeStreamEvent) => void
+  ): Promise<ApiResult> => {
     try {
       // Normalize technology names
       const normalizedTech1 = normalizeTechnologyName(tech1);
       const normalizedTech2 = normalizeTechnologyName(tech2);
+      const additional = options.additionalTechnologies || [];
 
       // Make API request with retry logic
       const response = await retryFetch('/api/referee', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({
           tech1: normalizedTech1,
-          tech2: normalizedTech2
+          tech2: normalizedTech2,
+          // Multi-way comparisons send the full contender list
+          ...(additional.length > 0 ? {
+            technologies: [normalizedTech1, normalizedTech2, ...additional.map(normalizeTechnologyName)]
+          } : {}),
+          ...(options.constraints ? { constraints: options.constraints } : {}),
+          ...(options.allowCategoryMismatch ? { allowCategoryMismatch: true } : {})
         }),
       }, {
         maxAttempts: 3,
@@ -111,6 +161,42 @@ export default function Home() {
         }
       });
 
+      const contentType = response.headers.get('content-type') || '';
+      if (contentType.includes('text/event-stream') && response.body) {
+        let cacheHit: Omit<ApiResult, 'analysis'> = {};
+        for await (const message of readSSEStream(response.body)) {
+          const event = { event: message.event, data: JSON.parse(message.data) } as RefereeStreamEvent;
+
+          if (event.event === 'done') {
+            return { analysis: event.data, ...cacheHit };
+          }
+          if (event.event === 'cache') {
+            cacheHit = event.data;
+            continue;
+          }
+          if (event.event === 'error') {
+            throw new AppError(
+              ErrorType.API_ERROR,
+              event.data.message || 'Failed to get analysis',
+              event.data.code || 'API_ERROR',
+              event.data,
+              new Date(),
+              true
+            );
+          }
+          onEvent(event);
+        }
+
+        throw new AppError(
+          ErrorType.API_ERROR,
+          'The analysis stream ended before the verdict was complete.',
+          'STREAM_INTERRUPTED',
+          undefined,
+          new Date(),
+          true
+        );
+      }
+
       const data: RefereeResponse = await response.json();
 
       if (!data.success || !data.data) {
@@ -124,13 +210,13 @@ export default function Home() {
         );
       }
 
-      return data.data;
+      return { analysis: data.data, cached: data.cached, cacheAgeSeconds: data.cacheAgeSeconds };
 
     } catch (err) {
       console.error('API call failed:', err);
       
       if (err instanceof AppError) {
-        throw err;
+        throw readCategoryMismatchError(err) || err;
       }
       
       // Handle different error types
@@ -160,17 +246,27 @@ export default function Home() {
    * Handle form submission with enhanced error handling
    * Requirements 1.3: Handle loading states and error conditions
    */
-  const handleSubmit = useCallback(async (tech1: string, tech2: string) => {
+  const handleSubmit = useCallback(async (tech1: string, tech2: string, options: MatchupSubmitOptions = {}) => {
     setLoading(true);
     setError(null);
     setAnalysis(null);
+    setCacheAgeSeconds(null);
+    setPartialAnalysis(null);
+    setStreamProgress(null);
     
     // Store request for retry functionality
-    setLastRequest({ tech1, tech2 });
+    setLastRequest({ tech1, tech2, options });
 
     try {
-      const result = await makeApiCall(tech1, tech2);
-      setAnalysis(result);
+      const result = await makeApiCall(tech1, tech2, options, (event) => {
+        if (event.event === 'progress') {
+          setStreamProgress(event.data);
+        } else {
+          setPartialAnalysis((partial) => applyStreamEvent(partial, event));
+        }
+      });
+      setAnalysis(result.analysis);
+      setCacheAgeSeconds(result.cached ? result.cacheAgeSeconds ?? 0 : null);
       setError(null); // Clear any previous errors
     } catch (err) {
       if (err instanceof AppError) {
@@ -187,6 +283,8 @@ export default function Home() {
       }
     } finally {
       setLoading(false);
+      setPartialAnalysis(null);
+      setStreamProgress(null);
     }
   }, [makeApiCall]);
 
@@ -195,7 +293,27 @@ export default function Home() {
    */
   const handleRetry = useCallback(async () => {
     if (lastRequest) {
-      await handleSubmit(lastRequest.tech1, lastRequest.tech2);
+      await handleSubmit(lastRequest.tech1, lastRequest.tech2, lastRequest.options);
+    }
+  }, [lastRequest, handleSubmit]);
+
+  /**
+   * Run a suggested matchup from a category mismatch, keeping the constraints
+   */
+  const handleSelectMatchup = useCallback(async (technologies: string[]) => {
+    const [tech1, tech2, ...additional] = technologies;
+    await handleSubmit(tech1, tech2, {
+      ...(additional.length > 0 ? { additionalTechnologies: additional } : {}),
+      ...(lastRequest?.options?.constraints ? { constraints: lastRequest.options.constraints } : {})
+    });
+  }, [lastRequest, handleSubmit]);
+
+  /**
+   * Repeat the rejected matchup, accepting the category mismatch
+   */
+  const handleCompareAnyway = useCallback(async () => {
+    if (lastRequest) {
+      await handleSubmit(lastRequest.tech1, lastRequest.tech2, { ...lastRequest.options, allowCategoryMismatch: true });
     }
   }, [lastRequest, handleSubmit]);
 
@@ -211,6 +329,7 @@ export default function Home() {
    */
   const handleReset = useCallback(() => {
     setAnalysis(null);
+    setCacheAgeSeconds(null);
     setError(null);
     setLoading(false);
     setLastRequest(null);
@@ -223,6 +342,8 @@ export default function Home() {
         error={error}
         onDismiss={handleErrorDismiss}
         onRetry={error?.retryable ? handleRetry : undefined}
+        onSelectMatchup={handleSelectMatchup}
+        onCompareAnyway={handleCompareAnyway}
         position="top"
       />
 
@@ -239,22 +360,40 @@ export default function Home() {
           </div>
         )}
 
-        {/* Show loading state */}
+        {/* Show loading state, with sections rendered as they stream in */}
         {loading && (
           <div className="max-w-5xl mx-auto animate-scale-in">
-            <LoadingState />
+            <LoadingState
+              message={streamProgress?.message}
+              progress={streamProgress ? Math.round((streamProgress.completed / streamProgress.total) * 100) : 0}
+              stages={streamProgress ? STREAM_STAGES.map((label, index) => ({
+                label,
+                complete: index < streamProgress.completed
+              })) : undefined}
+            />
+          </div>
+        )}
+
+        {loading && partialAnalysis && (
+          <div className="max-w-8xl mx-auto mt-8 lg:mt-12">
+            <VerdictDisplay analysis={partialAnalysis} streaming />
           </div>
         )}
 
         {/* Show analysis results with staggered animations */}
         {analysis && !loading && (
           <div className="max-w-8xl mx-auto">
+            {cacheAgeSeconds !== null && (
+              <p role="status" className="text-center text-sm text-gray-400 mb-4 print:hidden">
+                Served from the verdict cache, first judged {describeCacheAge(cacheAgeSeconds)}.
+              </p>
+            )}
             <div className="animate-fade-in">
-              <VerdictDisplay analysis={analysis} />
+              <VerdictDisplay analysis={analysis} analysisId={analysis.id} />
             </div>
             
             {/* Enhanced back to input button */}
-            <div className="text-center mt-8 lg:mt-12 animate-fade-in animate-delay-500">
+            <div className="text-center mt-8 lg:mt-12 animate-fade-in animate-delay-500 print:hidden">
               <button
                 onClick={handleReset}
                 className="group inline-flex items-center gap-2 px-6 sm:px-8 py-3 sm:py-4 bg-gradient-to-r from-gray-700 to-gray-600 hover:from-gray-600 hover:to-gray-500 text-white rounded-lg transition-all duration-300 font-medium text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-gray-500 hover-lift animate-glow"
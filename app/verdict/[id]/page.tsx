@@ -0,0 +1,89 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import VerdictDisplay from '@/components/VerdictDisplay';
+import { decodeWeights } from '@/lib/scoring';
+import { getAnalysisStore, isValidAnalysisId } from '@/lib/store';
+import { getContenders, StoredAnalysis } from '@/lib/types';
+
+// Saved verdicts are read from the store on every request
+export const dynamic = 'force-dynamic';
+
+interface VerdictPageProps {
+  params: { id: string };
+  searchParams?: { weights?: string | string[] };
+}
+
+/**
+ * Load a saved analysis, or null for unknown or malformed IDs
+ */
+async function loadAnalysis(id: string): Promise<StoredAnalysis | null> {
+  return isValidAnalysisId(id) ? getAnalysisStore().get(id) : null;
+}
+
+export async function generateMetadata({ params }: VerdictPageProps): Promise<Metadata> {
+  const record = await loadAnalysis(params.id);
+  if (!record) {
+    return { title: 'Verdict not found - Tech Referee' };
+  }
+
+  const contenders = getContenders(record.analysis.matchup);
+  return {
+    title: `${contenders.join(' vs ')} - Tech Referee Verdict`,
+    description: record.analysis.tieBreaker
+  };
+}
+
+/**
+ * Permalink page rendering a saved verdict with its matchup metadata,
+ * starting from the slider weights in the link
+ */
+export default async function VerdictPage({ params, searchParams }: VerdictPageProps) {
+  const record = await loadAnalysis(params.id);
+  if (!record) {
+    notFound();
+  }
+
+  const savedAt = new Date(record.createdAt);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-12">
+        <div className="max-w-8xl mx-auto">
+          <dl className="flex flex-wrap justify-center gap-x-6 gap-y-1 text-xs sm:text-sm text-gray-400 animate-fade-in">
+            <div className="flex gap-1">
+              <dt>Matchup:</dt>
+              <dd className="text-gray-300">{getContenders(record.analysis.matchup).join(' vs ')}</dd>
+            </div>
+            <div className="flex gap-1">
+              <dt>Model:</dt>
+              <dd className="text-gray-300">{record.provider} / {record.model}</dd>
+            </div>
+            <div className="flex gap-1">
+              <dt>Judged:</dt>
+              <dd className="text-gray-300">
+                <time dateTime={record.createdAt}>{savedAt.toUTCString()}</time>
+              </dd>
+            </div>
+          </dl>
+
+          <VerdictDisplay
+            analysis={record.analysis}
+            analysisId={record.id}
+            weights={decodeWeights(searchParams?.weights)}
+          />
+
+          <div className="mt-8 lg:mt-12 text-center animate-fade-in animate-delay-300 print:hidden">
+            <Link
+              href="/"
+              className="group inline-flex items-center gap-2 px-6 sm:px-8 py-3 sm:py-4 bg-gradient-to-r from-gray-700 to-gray-600 hover:from-gray-600 hover:to-gray-500 text-white rounded-lg transition-all duration-300 font-medium text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-gray-500 hover-lift"
+            >
+              Compare Different Technologies
+              <span className="transition-transform duration-300 group-hover:translate-x-1">→</span>
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -296,4 +296,58 @@ describe('SuccessNotification', () => {
 
     expect(onDismiss).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+});
+describe('ErrorNotification category mismatch', () => {
+  const mismatchError = () => new AppError(
+    ErrorType.VALIDATION_ERROR,
+    'Redis (database) and Tailwind CSS (styling library) solve different problems',
+    'CATEGORY_MISMATCH',
+    {
+      code: 'CATEGORY_MISMATCH',
+      message: 'Redis (database) and Tailwind CSS (styling library) solve different problems',
+      timestamp: new Date().toISOString(),
+      categoryMismatch: {
+        technologies: [{ name: 'Redis', category: 'database' }, { name: 'Tailwind CSS', category: 'styling' }],
+        conflict: [0, 1],
+        alternatives: [['PostgreSQL', 'MongoDB'], ['Bootstrap']]
+      }
+    },
+    new Date(),
+    false
+  );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('offers each suggested matchup as a one-click replacement', () => {
+    const onSelectMatchup = jest.fn();
+    render(<ErrorNotification error={mismatchError()} onSelectMatchup={onSelectMatchup} />);
+
+    expect(screen.getByRole('button', { name: /Redis vs PostgreSQL/ })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Redis vs MongoDB/ })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Tailwind CSS vs Bootstrap/ }));
+
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+    expect(onSelectMatchup).toHaveBeenCalledWith(['Tailwind CSS', 'Bootstrap']);
+  });
+
+  it('lets the user compare the original technologies anyway', () => {
+    const onCompareAnyway = jest.fn();
+    render(<ErrorNotification error={mismatchError()} onCompareAnyway={onCompareAnyway} />);
+
+    expect(screen.queryByRole('button', { name: /Redis vs/ })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Compare them anyway' }));
+
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+    expect(onCompareAnyway).toHaveBeenCalled();
+  });
+});
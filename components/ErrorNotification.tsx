@@ -1,18 +1,36 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { AlertTriangle, X, RefreshCw, Info, AlertCircle, CheckCircle } from 'lucide-react';
-import { AppError, ErrorType } from '@/lib/types';
+import { AlertTriangle, X, RefreshCw, Info, AlertCircle, CheckCircle, ArrowRight } from 'lucide-react';
+import { ApiError, AppError, ErrorType } from '@/lib/types';
 
 export interface ErrorNotificationProps {
   error: AppError | null;
   onDismiss?: () => void;
   onRetry?: () => void;
+  /** Run one of the matchups suggested by a CATEGORY_MISMATCH error */
+  onSelectMatchup?: (technologies: string[]) => void;
+  /** Repeat a CATEGORY_MISMATCH request, comparing the technologies anyway */
+  onCompareAnyway?: () => void;
   autoHide?: boolean;
   autoHideDelay?: number;
   position?: 'top' | 'bottom';
 }
 
+/**
+ * Two-way matchups pairing each contender with a same-category alternative
+ */
+function getSuggestedMatchups(error: AppError): string[][] {
+  const mismatch = (error.details as ApiError | undefined)?.categoryMismatch;
+  if (error.code !== 'CATEGORY_MISMATCH' || !mismatch) {
+    return [];
+  }
+
+  return mismatch.technologies.flatMap((technology, index) =>
+    (mismatch.alternatives[index] || []).map(alternative => [technology.name, alternative])
+  );
+}
+
 /**
  * Error Notification Component
  * 
@@ -25,6 +43,8 @@ export default function ErrorNotification({
   error,
   onDismiss,
   onRetry,
+  onSelectMatchup,
+  onCompareAnyway,
   autoHide = false,
   autoHideDelay = 5000,
   position = 'top'
@@ -63,6 +83,16 @@ export default function ErrorNotification({
     onRetry?.();
   };
 
+  const handleSelectMatchup = (technologies: string[]) => {
+    handleDismiss();
+    onSelectMatchup?.(technologies);
+  };
+
+  const handleCompareAnyway = () => {
+    handleDismiss();
+    onCompareAnyway?.();
+  };
+
   if (!error || !isVisible) {
     return null;
   }
@@ -405,6 +435,13 @@ export default function ErrorNotification({
           'Avoid abbreviations unless commonly used'
         ];
       
+      case 'CATEGORY_MISMATCH':
+        return [
+          'Compare technologies that solve the same problem',
+          'Pick one of the suggested matchups below',
+          'Examples: "Redis vs MongoDB", "Tailwind CSS vs Bootstrap"'
+        ];
+      
       case 'DUPLICATE_TECHNOLOGIES':
         return [
           'Choose two different technologies to compare',
@@ -433,6 +470,7 @@ export default function ErrorNotification({
 
   const styling = getErrorStyling(error.type);
   const { title, message, hints } = getUserFriendlyMessage(error);
+  const suggestedMatchups = onSelectMatchup ? getSuggestedMatchups(error) : [];
   const Icon = styling.icon;
 
   const positionClasses = position === 'top' 
@@ -491,6 +529,45 @@ export default function ErrorNotification({
               </div>
             )}
 
+            {/* Comparable matchups for a category mismatch */}
+            {error.code === 'CATEGORY_MISMATCH' && (suggestedMatchups.length > 0 || onCompareAnyway) && (
+              <div className="mt-3">
+                {suggestedMatchups.length > 0 && (
+                  <>
+                    <p className={`text-xs font-medium ${styling.titleColor} mb-2`}>
+                      Try a fair fight instead:
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {suggestedMatchups.map(technologies => (
+                        <button
+                          key={technologies.join(' vs ')}
+                          type="button"
+                          onClick={() => handleSelectMatchup(technologies)}
+                          className={`
+                            inline-flex items-center gap-1 px-2.5 py-1 rounded-full
+                            bg-white/15 hover:bg-white/25 transition-colors
+                            text-xs font-medium ${styling.textColor}
+                          `}
+                        >
+                          {technologies.join(' vs ')}
+                          <ArrowRight className="w-3 h-3" />
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+                {onCompareAnyway && (
+                  <button
+                    type="button"
+                    onClick={handleCompareAnyway}
+                    className={`mt-2 text-xs underline ${styling.textColor} hover:opacity-80`}
+                  >
+                    Compare them anyway
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Development details */}
             {process.env.NODE_ENV === 'development' && error.details && (
               <details className="mt-2">
@@ -0,0 +1,33 @@
+// Unit tests for ExportButtons component
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import ExportButtons from './ExportButtons';
+
+describe('ExportButtons Component', () => {
+  test('should download the saved verdict as a Markdown ADR', () => {
+    render(<ExportButtons analysisId="3f2a9c1e-1111-2222-3333-444455556666" />);
+
+    const link = screen.getByRole('link', { name: 'Download ADR (Markdown)' });
+    expect(link).toHaveAttribute('href', '/api/referee/3f2a9c1e-1111-2222-3333-444455556666/export?format=md');
+    expect(link).toHaveAttribute('download');
+  });
+
+  test('should export under the adjusted weights', () => {
+    render(<ExportButtons analysisId="3f2a9c1e-1111-2222-3333-444455556666" weights={{ cost: 0 }} />);
+
+    expect(screen.getByRole('link', { name: 'Download ADR (Markdown)' }))
+      .toHaveAttribute('href', '/api/referee/3f2a9c1e-1111-2222-3333-444455556666/export?format=md&weights=cost:0');
+  });
+
+  test('should download a PDF report and print the page', () => {
+    const print = jest.spyOn(window, 'print').mockImplementation(() => {});
+    render(<ExportButtons analysisId="3f2a9c1e-1111-2222-3333-444455556666" />);
+
+    expect(screen.getByRole('link', { name: 'Download PDF' }))
+      .toHaveAttribute('href', '/api/referee/3f2a9c1e-1111-2222-3333-444455556666/export?format=pdf');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Print' }));
+    expect(print).toHaveBeenCalled();
+    print.mockRestore();
+  });
+});
@@ -0,0 +1,35 @@
+'use client';
+
+import React from 'react';
+import { FileDown, Printer } from 'lucide-react';
+import { ExportButtonsProps } from '@/lib/types';
+import { exportPath } from '@/lib/export';
+
+const BUTTON_CLASSES = 'inline-flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-600 text-gray-300 hover:text-white hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 transition-colors duration-300';
+
+/**
+ * ExportButtons Component
+ *
+ * Download links for a saved verdict, as a Markdown ADR to commit next to
+ * the code it decides or as a PDF report for stakeholders, plus a button
+ * that prints the page in its light print layout. Exports rank the
+ * contenders under the current slider `weights`.
+ */
+export default function ExportButtons({ analysisId, weights = {} }: ExportButtonsProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+      <a href={exportPath(analysisId, 'md', weights)} download className={BUTTON_CLASSES}>
+        <FileDown className="w-4 h-4" aria-hidden="true" />
+        Download ADR (Markdown)
+      </a>
+      <a href={exportPath(analysisId, 'pdf', weights)} download className={BUTTON_CLASSES}>
+        <FileDown className="w-4 h-4" aria-hidden="true" />
+        Download PDF
+      </a>
+      <button type="button" onClick={() => window.print()} className={BUTTON_CLASSES}>
+        <Printer className="w-4 h-4" aria-hidden="true" />
+        Print
+      </button>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import * as fc from 'fast-check';
 import HiddenTaxWarning from './HiddenTaxWarning';
-import { HiddenTax } from '@/lib/types';
+import { HiddenTax, TAX_LEVELS } from '@/lib/types';
 
 // ============================================================================
 // Fast-check Arbitraries (Generators)
@@ -39,18 +39,20 @@ const timeframeArb = fc.oneof(
 );
 
 /**
- * Generator for impact descriptions
+ * Generator for mitigation steps
  */
-const impactArb = fc.string({ minLength: 10, maxLength: 150 }).filter(s => s.trim().length >= 10);
+const mitigationArb = fc.string({ minLength: 10, maxLength: 150 }).filter(s => s.trim().length >= 10);
 
 /**
  * Generator for complete HiddenTax objects
  */
-const hiddenTaxArb: fc.Arbitrary<HiddenTax> = fc.record({
+const hiddenTaxArb: fc.Arbitrary<Required<HiddenTax>> = fc.record({
   technology: technologyArb,
   warning: warningArb,
   timeframe: timeframeArb,
-  impact: impactArb,
+  severity: fc.constantFrom(...TAX_LEVELS),
+  likelihood: fc.constantFrom(...TAX_LEVELS),
+  mitigation: mitigationArb,
 });
 
 // ============================================================================
@@ -64,7 +66,7 @@ describe('HiddenTaxWarning Properties', () => {
     test('For any completed analysis, a specific Hidden Tax warning should be included that identifies potential downsides', () => {
       fc.assert(
         fc.property(hiddenTaxArb, (hiddenTax) => {
-          render(<HiddenTaxWarning warning={hiddenTax} />);
+          render(<HiddenTaxWarning taxes={[hiddenTax]} />);
           
           // Test that the component renders the warning section
           expect(screen.getByText('The "Hidden Tax"')).toBeInTheDocument();
@@ -92,7 +94,7 @@ describe('HiddenTaxWarning Properties', () => {
     test('Hidden tax warning should be visually distinct and prominent', () => {
       fc.assert(
         fc.property(hiddenTaxArb, (hiddenTax) => {
-          render(<HiddenTaxWarning warning={hiddenTax} />);
+          render(<HiddenTaxWarning taxes={[hiddenTax]} />);
           
           // Test that warning uses appropriate warning colors
           const mainContainer = screen.getByText('The "Hidden Tax"').closest('div');
@@ -122,15 +124,15 @@ describe('HiddenTaxWarning Properties', () => {
     test('For any Hidden Tax warning, the text should contain specific timeframes and actionable impact descriptions', () => {
       fc.assert(
         fc.property(hiddenTaxArb, (hiddenTax) => {
-          render(<HiddenTaxWarning warning={hiddenTax} />);
+          render(<HiddenTaxWarning taxes={[hiddenTax]} />);
           
           // Test that timeframe is displayed in the "When" section
           expect(screen.getByText('When')).toBeInTheDocument();
           expect(screen.getByText(hiddenTax.timeframe)).toBeInTheDocument();
           
-          // Test that impact is displayed in the "Impact" section
-          expect(screen.getByText('Impact')).toBeInTheDocument();
-          expect(screen.getByText(hiddenTax.impact)).toBeInTheDocument();
+          // Test that the mitigation is displayed in the "Mitigation" section
+          expect(screen.getByText('Mitigation')).toBeInTheDocument();
+          expect(screen.getByText(hiddenTax.mitigation)).toBeInTheDocument();
           
           // Test that timeframe contains time-bound indicators
           const timeframeLower = hiddenTax.timeframe.toLowerCase();
@@ -149,38 +151,38 @@ describe('HiddenTaxWarning Properties', () => {
           );
           expect(hasTimeBound).toBe(true);
           
-          // Test that both timeframe and impact are non-empty and meaningful
+          // Test that both timeframe and mitigation are non-empty and meaningful
           expect(hiddenTax.timeframe.trim().length).toBeGreaterThan(0);
-          expect(hiddenTax.impact.trim().length).toBeGreaterThan(0);
+          expect(hiddenTax.mitigation.trim().length).toBeGreaterThan(0);
           
           // Test that actionable guidance is provided
-          expect(screen.getByText(/Factor this cost into your decision timeline/)).toBeInTheDocument();
+          expect(screen.getByText(/Factor these costs into your decision timeline/)).toBeInTheDocument();
         }),
         { numRuns: 100 }
       );
     });
 
-    test('Timeframe and impact should be displayed in separate, clearly labeled sections', () => {
+    test('Timeframe and mitigation should be displayed in separate, clearly labeled sections', () => {
       fc.assert(
         fc.property(hiddenTaxArb, (hiddenTax) => {
-          render(<HiddenTaxWarning warning={hiddenTax} />);
+          render(<HiddenTaxWarning taxes={[hiddenTax]} />);
           
-          // Test that "When" and "Impact" labels are present and distinct
+          // Test that "When" and "Mitigation" labels are present and distinct
           const whenLabel = screen.getByText('When');
-          const impactLabel = screen.getByText('Impact');
+          const mitigationLabel = screen.getByText('Mitigation');
           
           expect(whenLabel).toBeInTheDocument();
-          expect(impactLabel).toBeInTheDocument();
+          expect(mitigationLabel).toBeInTheDocument();
           
-          // Test that timeframe and impact are in different containers
+          // Test that timeframe and mitigation are in different containers
           const timeframeContainer = screen.getByText(hiddenTax.timeframe).closest('div');
-          const impactContainer = screen.getByText(hiddenTax.impact).closest('div');
+          const mitigationContainer = screen.getByText(hiddenTax.mitigation).closest('div');
           
-          expect(timeframeContainer).not.toBe(impactContainer);
+          expect(timeframeContainer).not.toBe(mitigationContainer);
           
           // Test that containers have appropriate styling
           expect(timeframeContainer).toHaveClass('border-yellow-500/20');
-          expect(impactContainer).toHaveClass('border-red-500/20');
+          expect(mitigationContainer).toHaveClass('border-green-500/20');
         }),
         { numRuns: 100 }
       );
@@ -191,22 +193,75 @@ describe('HiddenTaxWarning Properties', () => {
     test('Component should handle all required HiddenTax properties', () => {
       fc.assert(
         fc.property(hiddenTaxArb, (hiddenTax) => {
-          render(<HiddenTaxWarning warning={hiddenTax} />);
+          render(<HiddenTaxWarning taxes={[hiddenTax]} />);
           
-          // Test that all four required properties are displayed
+          // Test that all required properties are displayed
           expect(screen.getByText(hiddenTax.technology)).toBeInTheDocument();
           expect(screen.getByText(hiddenTax.warning)).toBeInTheDocument();
           expect(screen.getByText(hiddenTax.timeframe)).toBeInTheDocument();
-          expect(screen.getByText(hiddenTax.impact)).toBeInTheDocument();
+          expect(screen.getByText(hiddenTax.mitigation)).toBeInTheDocument();
+          expect(screen.getByText(/ severity$/)).toBeInTheDocument();
+          expect(screen.getByText(/ likelihood$/)).toBeInTheDocument();
           
           // Test that the component structure is complete
           expect(screen.getByText('The "Hidden Tax"')).toBeInTheDocument();
           expect(screen.getByText('Be Prepared For This Cost')).toBeInTheDocument();
           expect(screen.getByText('When')).toBeInTheDocument();
-          expect(screen.getByText('Impact')).toBeInTheDocument();
+          expect(screen.getByText('Mitigation')).toBeInTheDocument();
         }),
         { numRuns: 100 }
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('One tax per contender', () => {
+    const taxes: HiddenTax[] = [
+      { technology: 'PostgreSQL', warning: 'Lock contention during migrations', timeframe: 'in 6 months', severity: 'medium', likelihood: 'low', mitigation: 'Use online schema change tooling' },
+      { technology: 'MongoDB', warning: 'Schema drift across services', timeframe: 'in 12 months', severity: 'high', likelihood: 'medium', mitigation: 'Validate documents with JSON Schema' }
+    ];
+
+    test('Each contender gets its own card with severity, likelihood and mitigation', () => {
+      render(<HiddenTaxWarning taxes={taxes} />);
+
+      expect(screen.getAllByRole('alert')).toHaveLength(2);
+      expect(screen.getByRole('alert', { name: 'Hidden tax of PostgreSQL' })).toHaveTextContent('Lock contention during migrations');
+      expect(screen.getByRole('alert', { name: 'Hidden tax of MongoDB' })).toHaveTextContent('Schema drift across services');
+      expect(screen.getByText('High severity')).toHaveClass('text-red-300');
+      expect(screen.getByText('Low likelihood')).toHaveClass('text-green-300');
+      expect(screen.getByText('Validate documents with JSON Schema')).toBeInTheDocument();
+    });
+
+    test('Levels and mitigation the referee did not give are left out', () => {
+      render(<HiddenTaxWarning taxes={[{ technology: 'React', warning: 'Library churn', timeframe: 'in 6 months' }]} />);
+
+      expect(screen.queryByText(/ severity$/)).not.toBeInTheDocument();
+      expect(screen.queryByText(/ likelihood$/)).not.toBeInTheDocument();
+      expect(screen.queryByText('Mitigation')).not.toBeInTheDocument();
+    });
+
+    test('The cards sit side by side on wider screens', () => {
+      const { container } = render(<HiddenTaxWarning taxes={taxes} />);
+
+      expect(container.querySelector('.md\\:grid-cols-2')).toContainElement(screen.getByRole('alert', { name: 'Hidden tax of MongoDB' }));
+    });
+  });
+
+  describe('Upgrade framing', () => {
+    test('An upgrade weighs the cost of staying on the old version against the cost of moving', () => {
+      render(
+        <HiddenTaxWarning
+          taxes={[
+            { technology: 'React 18', warning: 'Libraries drop React 18 support', timeframe: 'in 12 months', severity: 'high', likelihood: 'high', mitigation: 'Pin dependency majors' },
+            { technology: 'React 19', warning: 'Ref and context API changes', timeframe: 'in 2 sprints', severity: 'medium', likelihood: 'medium', mitigation: 'Run the React 19 codemods' }
+          ]}
+          upgrade={{ technology: 'React', fromVersion: '18', toVersion: '19' }}
+        />
+      );
+
+      expect(screen.getByText('Staying Behind vs. Moving On')).toBeInTheDocument();
+      expect(screen.getByText('What it costs to stay on React 18, and what it costs to move to 19')).toBeInTheDocument();
+      expect(screen.getByText('Run the React 19 codemods')).toBeInTheDocument();
+      expect(screen.queryByText('The "Hidden Tax"')).not.toBeInTheDocument();
+    });
+  });
+});
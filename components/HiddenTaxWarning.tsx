@@ -1,117 +1,156 @@
 'use client';
 
 import React from 'react';
-import { HiddenTaxWarningProps } from '@/lib/types';
-import { AlertTriangle, Clock, Target } from 'lucide-react';
+import { HiddenTaxWarningProps, TaxLevel } from '@/lib/types';
+import { AlertTriangle, Clock, ShieldCheck, Target } from 'lucide-react';
+
+// Badge colors per severity and likelihood, low to high
+const LEVEL_STYLES: Record<TaxLevel, string> = {
+  low: 'bg-green-900/50 border-green-500/40 text-green-300',
+  medium: 'bg-yellow-900/50 border-yellow-500/40 text-yellow-300',
+  high: 'bg-red-900/50 border-red-500/40 text-red-300'
+};
+
+const LEVEL_LABELS: Record<TaxLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High'
+};
+
+// Side-by-side columns by tax count; three or more wrap on smaller screens
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 md:grid-cols-2',
+  3: 'grid-cols-1 md:grid-cols-2 xl:grid-cols-3',
+  4: 'grid-cols-1 md:grid-cols-2'
+};
 
 /**
  * HiddenTaxWarning Component
- * 
+ *
  * Displays prominent warnings about potential downsides and hidden costs of technology choices.
  * Uses warning colors and prominent positioning to ensure visibility.
  * Implements Requirements 4.1, 4.3, 4.4 from the Tech Referee specification.
+ * Each contender's tax gets its own card, side by side, with whichever of
+ * severity, likelihood and mitigation the referee gave. For an `upgrade`, the taxes are the cost of
+ * staying on the old version and the cost of moving to the new one.
  */
-export default function HiddenTaxWarning({ warning }: HiddenTaxWarningProps) {
-  
+export default function HiddenTaxWarning({ taxes, upgrade }: HiddenTaxWarningProps) {
+
   return (
     <div className="w-full">
       {/* Header */}
       <div className="mb-4 lg:mb-6 animate-fade-in">
         <h2 id="warning-heading" className="text-xl sm:text-2xl lg:text-3xl font-bold text-white mb-2 flex items-center gap-2">
           <span className="text-yellow-400 animate-pulse-slow" role="img" aria-label="Warning sign">⚠️</span>
-          The &ldquo;Hidden Tax&rdquo;
+          {upgrade ? <>Staying Behind vs. Moving On</> : <>The &ldquo;Hidden Tax&rdquo;</>}
         </h2>
         <p className="text-gray-400 text-sm sm:text-base lg:text-lg">
-          The specific downside you should prepare for with your choice
+          {upgrade
+            ? `What it costs to stay on ${upgrade.technology} ${upgrade.fromVersion}, and what it costs to move to ${upgrade.toVersion}`
+            : 'The specific downside you should prepare for with each option'}
         </p>
       </div>
 
-      {/* Warning Card */}
-      <div 
-        className="relative gradient-border hover-lift animate-fade-in animate-delay-200"
-        role="alert"
-        aria-labelledby="warning-heading"
-      >
-        <div className="bg-gradient-to-r from-yellow-900/30 to-red-900/30 rounded-lg p-4 sm:p-6 lg:p-8 shadow-xl">
-          {/* Warning Icon Background */}
-          <div className="absolute top-3 sm:top-4 right-3 sm:right-4 opacity-10 animate-pulse-slow" aria-hidden="true">
-            <AlertTriangle className="w-12 h-12 sm:w-16 sm:h-16 text-yellow-400" />
-          </div>
-
-          {/* Technology Badge */}
-          <div className="mb-4 lg:mb-6 animate-fade-in animate-delay-300">
-            <div className="inline-flex items-center gap-2 bg-yellow-900/50 border border-yellow-500/30 rounded-full px-3 sm:px-4 py-1 sm:py-2 animate-glow">
-              <Target className="w-3 h-3 sm:w-4 sm:h-4 text-yellow-400 animate-pulse" aria-hidden="true" />
-              <span className="text-yellow-300 font-semibold text-xs sm:text-sm uppercase tracking-wide">
-                {warning.technology}
-              </span>
-            </div>
-          </div>
-
-          {/* Main Warning Content */}
-          <div className="mb-4 lg:mb-6 animate-fade-in animate-delay-500">
-            <div className="flex items-start gap-3 mb-3 lg:mb-4">
-              <div className="flex-shrink-0 mt-1 animate-pulse-slow" aria-hidden="true">
-                <AlertTriangle className="w-5 h-5 sm:w-6 sm:h-6 text-yellow-400" />
+      {/* Warning Cards */}
+      <div className={`grid ${GRID_COLUMNS[taxes.length] || GRID_COLUMNS[4]} gap-4 lg:gap-6`}>
+        {taxes.map((tax, index) => (
+          <div
+            key={`${tax.technology}-${index}`}
+            className="relative gradient-border hover-lift animate-fade-in animate-delay-200"
+            role="alert"
+            aria-label={`Hidden tax of ${tax.technology}`}
+          >
+            <div className="h-full bg-gradient-to-r from-yellow-900/30 to-red-900/30 rounded-lg p-4 sm:p-6 shadow-xl">
+              {/* Warning Icon Background */}
+              <div className="absolute top-3 sm:top-4 right-3 sm:right-4 opacity-10 animate-pulse-slow" aria-hidden="true">
+                <AlertTriangle className="w-12 h-12 sm:w-16 sm:h-16 text-yellow-400" />
               </div>
-              <div className="flex-1 min-w-0">
-                <h3 className="text-yellow-300 font-bold text-base sm:text-lg lg:text-xl mb-2">
-                  Be Prepared For This Cost
-                </h3>
-                <p className="text-white text-sm sm:text-base lg:text-lg leading-relaxed">
-                  {warning.warning}
-                </p>
+
+              {/* Technology, Severity and Likelihood */}
+              <div className="flex flex-wrap items-center gap-2 mb-4 animate-fade-in animate-delay-300">
+                <div className="inline-flex items-center gap-2 bg-yellow-900/50 border border-yellow-500/30 rounded-full px-3 sm:px-4 py-1 sm:py-2 animate-glow">
+                  <Target className="w-3 h-3 sm:w-4 sm:h-4 text-yellow-400 animate-pulse" aria-hidden="true" />
+                  <span className="text-yellow-300 font-semibold text-xs sm:text-sm uppercase tracking-wide">
+                    {tax.technology}
+                  </span>
+                </div>
+                {tax.severity && (
+                  <span className={`border rounded-full px-3 py-1 text-xs font-semibold ${LEVEL_STYLES[tax.severity]}`}>
+                    {LEVEL_LABELS[tax.severity]} severity
+                  </span>
+                )}
+                {tax.likelihood && (
+                  <span className={`border rounded-full px-3 py-1 text-xs font-semibold ${LEVEL_STYLES[tax.likelihood]}`}>
+                    {LEVEL_LABELS[tax.likelihood]} likelihood
+                  </span>
+                )}
               </div>
-            </div>
-          </div>
 
-          {/* Timeframe and Impact */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 lg:gap-4 mb-4 lg:mb-6">
-            {/* Timeframe */}
-            <div className="bg-gray-900/50 border border-yellow-500/20 rounded-lg p-3 sm:p-4 hover-lift animate-fade-in animate-delay-300">
-              <div className="flex items-center gap-2 mb-2">
-                <Clock className="w-3 h-3 sm:w-4 sm:h-4 text-yellow-400 animate-pulse" aria-hidden="true" />
-                <span className="text-yellow-300 font-semibold text-xs sm:text-sm uppercase tracking-wide">
-                  When
-                </span>
+              {/* Main Warning Content */}
+              <div className="flex items-start gap-3 mb-4 animate-fade-in animate-delay-500">
+                <div className="flex-shrink-0 mt-1 animate-pulse-slow" aria-hidden="true">
+                  <AlertTriangle className="w-5 h-5 sm:w-6 sm:h-6 text-yellow-400" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-yellow-300 font-bold text-base sm:text-lg mb-2">
+                    Be Prepared For This Cost
+                  </h3>
+                  <p className="text-white text-sm sm:text-base leading-relaxed">
+                    {tax.warning}
+                  </p>
+                </div>
               </div>
-              <p className="text-white text-xs sm:text-sm lg:text-base font-medium">
-                {warning.timeframe}
-              </p>
-            </div>
 
-            {/* Impact */}
-            <div className="bg-gray-900/50 border border-red-500/20 rounded-lg p-3 sm:p-4 hover-lift animate-fade-in animate-delay-500">
-              <div className="flex items-center gap-2 mb-2">
-                <Target className="w-3 h-3 sm:w-4 sm:h-4 text-red-400 animate-pulse" aria-hidden="true" />
-                <span className="text-red-300 font-semibold text-xs sm:text-sm uppercase tracking-wide">
-                  Impact
-                </span>
+              {/* Timeframe and Mitigation */}
+              <div className="grid grid-cols-1 gap-3">
+                <div className="bg-gray-900/50 border border-yellow-500/20 rounded-lg p-3 sm:p-4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Clock className="w-3 h-3 sm:w-4 sm:h-4 text-yellow-400" aria-hidden="true" />
+                    <span className="text-yellow-300 font-semibold text-xs sm:text-sm uppercase tracking-wide">
+                      When
+                    </span>
+                  </div>
+                  <p className="text-white text-xs sm:text-sm lg:text-base font-medium">
+                    {tax.timeframe}
+                  </p>
+                </div>
+
+                {tax.mitigation && (
+                  <div className="bg-gray-900/50 border border-green-500/20 rounded-lg p-3 sm:p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                      <ShieldCheck className="w-3 h-3 sm:w-4 sm:h-4 text-green-400" aria-hidden="true" />
+                      <span className="text-green-300 font-semibold text-xs sm:text-sm uppercase tracking-wide">
+                        Mitigation
+                      </span>
+                    </div>
+                    <p className="text-white text-xs sm:text-sm lg:text-base font-medium">
+                      {tax.mitigation}
+                    </p>
+                  </div>
+                )}
               </div>
-              <p className="text-white text-xs sm:text-sm lg:text-base font-medium">
-                {warning.impact}
-              </p>
             </div>
           </div>
+        ))}
+      </div>
 
-          {/* Call to Action */}
-          <div className="pt-3 lg:pt-4 border-t border-yellow-500/20 animate-fade-in animate-delay-500">
-            <div className="flex items-start gap-2 text-yellow-300">
-              <AlertTriangle className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0 mt-0.5 animate-pulse-slow" aria-hidden="true" />
-              <span className="text-xs sm:text-sm lg:text-base font-medium leading-relaxed">
-                Plan ahead: Factor this cost into your decision timeline and budget
-              </span>
-            </div>
-          </div>
-        </div>
+      {/* Call to Action */}
+      <div className="mt-4 flex items-start gap-2 text-yellow-300 animate-fade-in animate-delay-500">
+        <AlertTriangle className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0 mt-0.5 animate-pulse-slow" aria-hidden="true" />
+        <span className="text-xs sm:text-sm lg:text-base font-medium leading-relaxed">
+          Plan ahead: Factor these costs into your decision timeline and budget
+        </span>
       </div>
 
       {/* Footer Note */}
       <div className="mt-3 lg:mt-4 text-center animate-fade-in animate-delay-500">
         <p className="text-gray-500 text-xs sm:text-sm lg:text-base">
-          Every technology choice has trade-offs. This is the specific cost of your recommended option.
+          {upgrade
+            ? 'Postponing an upgrade is a choice too. Weigh the cost that keeps growing while you wait against the cost of moving.'
+            : 'Every technology choice has trade-offs. These are the specific costs of each option.'}
         </p>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
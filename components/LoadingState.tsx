@@ -9,10 +9,12 @@ import { LoadingStateProps } from '@/lib/types';
  * 
  * Provides an engaging loading experience with progressive messages and smooth animations.
  * Implements Requirements 6.3 from the Tech Referee specification.
+ * When an analysis streams, `stages` lists the sections received so far.
  */
 export default function LoadingState({ 
   message, 
-  progress = 0 
+  progress = 0,
+  stages
 }: LoadingStateProps) {
   const [currentMessageIndex, setCurrentMessageIndex] = useState(0);
   const [displayedMessage, setDisplayedMessage] = useState('');
@@ -161,6 +163,25 @@ export default function LoadingState({
           )}
         </div>
 
+        {/* Streamed section checklist */}
+        {stages && stages.length > 0 && (
+          <ul className="mb-6 lg:mb-8 space-y-2 text-left max-w-xs mx-auto animate-fade-in" aria-label="Analysis sections">
+            {stages.map((stage) => (
+              <li key={stage.label} className="flex items-center gap-2 text-xs sm:text-sm">
+                {stage.complete ? (
+                  <CheckCircle className="w-4 h-4 text-green-400" aria-hidden="true" />
+                ) : (
+                  <Loader2 className="w-4 h-4 text-gray-500 animate-spin" aria-hidden="true" />
+                )}
+                <span className={stage.complete ? 'text-gray-200' : 'text-gray-500'}>
+                  {stage.label}
+                  <span className="sr-only">{stage.complete ? ' (received)' : ' (pending)'}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Enhanced Animated Dots */}
         <div className="flex justify-center space-x-2 mb-4 lg:mb-6 animate-fade-in animate-delay-500" aria-hidden="true">
           {[0, 1, 2].map((index) => (
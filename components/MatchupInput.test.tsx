@@ -2,7 +2,7 @@
 // Feature: tech-referee, Property 1: Input validation consistency
 
 import * as fc from 'fast-check';
-import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, cleanup, act } from '@testing-library/react';
 import MatchupInput from './MatchupInput';
 
 // ============================================================================
@@ -662,4 +662,165 @@ describe('MatchupInput Property Tests', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Multi-way comparisons', () => {
+    test('should submit extra contenders after the first two', () => {
+      const onSubmit = jest.fn();
+      render(<MatchupInput onSubmit={onSubmit} />);
+
+      fireEvent.change(screen.getByLabelText('First Technology'), { target: { value: 'PostgreSQL' } });
+      fireEvent.change(screen.getByLabelText('Second Technology'), { target: { value: 'MongoDB' } });
+      fireEvent.click(screen.getByRole('button', { name: /add another technology/i }));
+      fireEvent.change(screen.getByLabelText('Third Technology'), { target: { value: ' DynamoDB ' } });
+      fireEvent.click(screen.getByRole('button', { name: /get the verdict/i }));
+
+      expect(onSubmit).toHaveBeenCalledWith('PostgreSQL', 'MongoDB', { additionalTechnologies: ['DynamoDB'] });
+    });
+
+    test('should reject a repeated contender and stop adding at five', () => {
+      const onSubmit = jest.fn();
+      render(<MatchupInput onSubmit={onSubmit} />);
+
+      fireEvent.change(screen.getByLabelText('First Technology'), { target: { value: 'React' } });
+      fireEvent.change(screen.getByLabelText('Second Technology'), { target: { value: 'Vue' } });
+      const addButton = screen.getByRole('button', { name: /add another technology/i });
+      fireEvent.click(addButton);
+      fireEvent.click(addButton);
+      fireEvent.click(addButton);
+
+      expect(screen.queryByRole('button', { name: /add another technology/i })).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /remove fifth technology/i }));
+      fireEvent.click(screen.getByRole('button', { name: /remove fourth technology/i }));
+      fireEvent.change(screen.getByLabelText('Third Technology'), { target: { value: 'react' } });
+      fireEvent.blur(screen.getByLabelText('Third Technology'));
+
+      expect(screen.getByText('This technology is already in the matchup')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /get the verdict/i })).toBeDisabled();
+    });
+  });
+
+  describe('Constraints', () => {
+    test('should submit cleaned constraints alongside the matchup', () => {
+      const onSubmit = jest.fn();
+      render(<MatchupInput onSubmit={onSubmit} />);
+
+      fireEvent.change(screen.getByLabelText('First Technology'), { target: { value: 'PostgreSQL' } });
+      fireEvent.change(screen.getByLabelText('Second Technology'), { target: { value: 'MongoDB' } });
+      fireEvent.click(screen.getByRole('button', { name: /add constraints/i }));
+      fireEvent.change(screen.getByLabelText('Team size'), { target: { value: '4' } });
+      fireEvent.change(screen.getByLabelText('Compliance (comma-separated)'), { target: { value: 'HIPAA, , SOC 2' } });
+      fireEvent.click(screen.getByRole('button', { name: /get the verdict/i }));
+
+      expect(onSubmit).toHaveBeenCalledWith('PostgreSQL', 'MongoDB', {
+        constraints: { teamSize: 4, compliance: ['HIPAA', 'SOC 2'] }
+      });
+    });
+
+    test('should block submission while a constraint is out of range', () => {
+      const onSubmit = jest.fn();
+      render(<MatchupInput onSubmit={onSubmit} />);
+
+      fireEvent.change(screen.getByLabelText('First Technology'), { target: { value: 'React' } });
+      fireEvent.change(screen.getByLabelText('Second Technology'), { target: { value: 'Vue' } });
+      fireEvent.click(screen.getByRole('button', { name: /add constraints/i }));
+      fireEvent.change(screen.getByLabelText('Team size'), { target: { value: '2.5' } });
+      fireEvent.blur(screen.getByLabelText('Team size'));
+
+      expect(screen.getByText(/team size must be a whole number/i)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /get the verdict/i })).toBeDisabled();
+    });
+  });
+
+  describe('Typo suggestions', () => {
+    test('should offer a "did you mean" chip for a likely misspelling', () => {
+      const onSubmit = jest.fn();
+      render(<MatchupInput onSubmit={onSubmit} />);
+
+      fireEvent.change(screen.getByLabelText('First Technology'), { target: { value: 'Postgress' } });
+      fireEvent.change(screen.getByLabelText('Second Technology'), { target: { value: 'MongoDB' } });
+      fireEvent.blur(screen.getByLabelText('First Technology'));
+
+      expect(screen.getByLabelText('First Technology')).not.toHaveAttribute('aria-invalid', 'true');
+      fireEvent.click(screen.getByRole('button', { name: 'Did you mean PostgreSQL?' }));
+
+      expect(screen.getByLabelText('First Technology')).toHaveValue('PostgreSQL');
+      expect(screen.queryByRole('button', { name: /did you mean/i })).not.toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: /get the verdict/i }));
+      expect(onSubmit).toHaveBeenCalledWith('PostgreSQL', 'MongoDB');
+    });
+
+    test('should let a name be kept as typed', () => {
+      const onSubmit = jest.fn();
+      render(<MatchupInput onSubmit={onSubmit} />);
+
+      fireEvent.change(screen.getByLabelText('First Technology'), { target: { value: 'MSSQL' } });
+      fireEvent.change(screen.getByLabelText('Second Technology'), { target: { value: 'MongoDB' } });
+      fireEvent.blur(screen.getByLabelText('First Technology'));
+
+      expect(screen.getByRole('button', { name: 'Did you mean MySQL?' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /get the verdict/i })).toBeEnabled();
+      fireEvent.click(screen.getByRole('button', { name: 'Use MSSQL as typed' }));
+
+      expect(screen.queryByRole('button', { name: /did you mean/i })).not.toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: /get the verdict/i }));
+      expect(onSubmit).toHaveBeenCalledWith('MSSQL', 'MongoDB');
+    });
+
+    test('should hold the first submit on an unreviewed typo and send the second', () => {
+      const onSubmit = jest.fn();
+      render(<MatchupInput onSubmit={onSubmit} />);
+
+      fireEvent.change(screen.getByLabelText('First Technology'), { target: { value: 'Postgress' } });
+      fireEvent.change(screen.getByLabelText('Second Technology'), { target: { value: 'MongoDB' } });
+      fireEvent.click(screen.getByRole('button', { name: /get the verdict/i }));
+
+      expect(onSubmit).not.toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: 'Did you mean PostgreSQL?' })).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /get the verdict/i }));
+      expect(onSubmit).toHaveBeenCalledWith('Postgress', 'MongoDB');
+    });
+
+    test.each(['Next', 'next'])('should accept %s without blocking submission', (name) => {
+      const onSubmit = jest.fn();
+      render(<MatchupInput onSubmit={onSubmit} />);
+
+      fireEvent.change(screen.getByLabelText('First Technology'), { target: { value: name } });
+      fireEvent.change(screen.getByLabelText('Second Technology'), { target: { value: 'MongoDB' } });
+      fireEvent.blur(screen.getByLabelText('First Technology'));
+      fireEvent.click(screen.getByRole('button', { name: /get the verdict/i }));
+
+      expect(onSubmit).toHaveBeenCalledWith(name, 'MongoDB');
+    });
+  });
+
+  describe('Typeahead', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should rank the first technology\'s category first in the second field', async () => {
+      jest.useFakeTimers();
+      global.fetch = jest.fn().mockResolvedValue({
+        json: async () => ({
+          success: true,
+          data: [{ name: 'MongoDB', category: 'database', categoryLabel: 'database' }]
+        })
+      }) as jest.Mock;
+      render(<MatchupInput onSubmit={jest.fn()} />);
+
+      fireEvent.change(screen.getByLabelText('First Technology'), { target: { value: 'PostgreSQL' } });
+      fireEvent.blur(screen.getByLabelText('First Technology'));
+      fireEvent.change(screen.getByLabelText('Second Technology'), { target: { value: 'mo' } });
+      await act(async () => {
+        jest.advanceTimersByTime(200);
+      });
+
+      expect(global.fetch).toHaveBeenLastCalledWith('/api/technologies?q=mo&category=database');
+      fireEvent.mouseDown(screen.getByRole('option', { name: /MongoDB/ }));
+      expect(screen.getByLabelText('Second Technology')).toHaveValue('MongoDB');
+    });
+  });
+});
+
@@ -1,13 +1,44 @@
 'use client';
 
 import React, { useState, FormEvent } from 'react';
-import { Zap, ArrowRight } from 'lucide-react';
-import { MatchupInputProps, ValidationResult, ValidationError } from '@/lib/types';
+import { Zap, ArrowRight, Plus, X, SlidersHorizontal, ChevronDown } from 'lucide-react';
+import {
+  MatchupInputProps,
+  MatchupSubmitOptions,
+  ValidationResult,
+  ValidationError,
+  MAX_CONTENDERS
+} from '@/lib/types';
+import { hasConstraints, validateConstraints } from '@/lib/constraints';
+import { findTechnology, suggestTechnologyNames } from '@/lib/technologies';
+import TechnologyCombobox from './TechnologyCombobox';
+
+const ORDINAL_LABELS = ['First', 'Second', 'Third', 'Fourth', 'Fifth'];
+
+type ConstraintField = 'teamSize' | 'expectedRps' | 'monthlyBudget' | 'existingStack' | 'compliance' | 'notes';
+
+const EMPTY_CONSTRAINTS: Record<ConstraintField, string> = {
+  teamSize: '',
+  expectedRps: '',
+  monthlyBudget: '',
+  existingStack: '',
+  compliance: '',
+  notes: ''
+};
+
+const CONSTRAINT_INPUTS: { field: Exclude<ConstraintField, 'notes'>; label: string; placeholder: string; numeric: boolean }[] = [
+  { field: 'teamSize', label: 'Team size', placeholder: 'e.g., 4', numeric: true },
+  { field: 'expectedRps', label: 'Expected requests/second', placeholder: 'e.g., 2500', numeric: true },
+  { field: 'monthlyBudget', label: 'Monthly budget (USD)', placeholder: 'e.g., 1500', numeric: true },
+  { field: 'existingStack', label: 'Existing stack (comma-separated)', placeholder: 'e.g., Node.js, AWS', numeric: false },
+  { field: 'compliance', label: 'Compliance (comma-separated)', placeholder: 'e.g., HIPAA, SOC 2', numeric: false }
+];
 
 /**
  * MatchupInput Component
  * 
  * Captures user input for technology comparison with validation and loading states.
+ * Up to three more contenders can be added for a multi-way comparison.
  * Implements Requirements 1.1, 1.2, 1.4 from the Tech Referee specification.
  */
 export default function MatchupInput({ 
@@ -18,14 +49,26 @@ export default function MatchupInput({
 }: MatchupInputProps) {
   const [tech1, setTech1] = useState(initialValues?.tech1 || '');
   const [tech2, setTech2] = useState(initialValues?.tech2 || '');
+  const [extras, setExtras] = useState<string[]>([]);
   const [errors, setErrors] = useState<ValidationError[]>([]);
-  const [touched, setTouched] = useState({ tech1: false, tech2: false });
+  const [touched, setTouched] = useState<Record<string, boolean>>({ tech1: false, tech2: false });
+  const [showConstraints, setShowConstraints] = useState(false);
+  const [constraintValues, setConstraintValues] = useState(EMPTY_CONSTRAINTS);
+  // Lowercased names the user chose to keep despite a typo suggestion
+  const [keptAsTyped, setKeptAsTyped] = useState<string[]>([]);
+  // Lowercased names whose typo suggestion already held back one submit
+  const [heldTypos, setHeldTypos] = useState<string[]>([]);
 
   /**
    * Validates technology inputs according to requirements
    * Requirements 1.2, 1.4: Validate non-empty inputs and provide feedback
    */
-  const validateInputs = (technology1: string, technology2: string): ValidationResult => {
+  const validateInputs = (
+    technology1: string,
+    technology2: string,
+    additional: string[] = extras,
+    kept: string[] = keptAsTyped
+  ): ValidationResult => {
     const validationErrors: ValidationError[] = [];
 
     // Check if tech1 is empty or only whitespace
@@ -55,8 +98,49 @@ export default function MatchupInput({
       });
     }
 
+    // Extra contenders must be filled in and distinct from every other entry
+    additional.forEach((technology, index) => {
+      const field = `tech${index + 3}`;
+      const earlier = [technology1, technology2, ...additional.slice(0, index)]
+        .map(name => name.trim().toLowerCase());
+
+      if (!technology.trim()) {
+        validationErrors.push({
+          field,
+          message: `${ORDINAL_LABELS[index + 2]} technology is required`,
+          code: 'REQUIRED_FIELD'
+        });
+      } else if (earlier.includes(technology.trim().toLowerCase())) {
+        validationErrors.push({
+          field,
+          message: 'This technology is already in the matchup',
+          code: 'DUPLICATE_TECHNOLOGIES'
+        });
+      }
+    });
+
+    // Otherwise valid names that look like misspellings of catalog names;
+    // these hold back the first submit but never make the form invalid
+    [technology1, technology2, ...additional].forEach((technology, index) => {
+      const field = `tech${index + 1}`;
+      const [suggestion] = kept.includes(technology.trim().toLowerCase()) ? [] : suggestTechnologyNames(technology);
+      if (suggestion && !validationErrors.some(error => error.field === field || error.field === 'both')) {
+        validationErrors.push({
+          field,
+          message: `Did you mean ${suggestion}?`,
+          code: 'POSSIBLE_TYPO'
+        });
+      }
+    });
+
+    // Constraints are optional but must be in range when supplied
+    const constraints = validateConstraints(constraintValues);
+    if (!constraints.success) {
+      validationErrors.push(constraints.error);
+    }
+
     return {
-      isValid: validationErrors.length === 0,
+      isValid: validationErrors.every(error => error.code === 'POSSIBLE_TYPO'),
       errors: validationErrors
     };
   };
@@ -69,24 +153,119 @@ export default function MatchupInput({
     e.preventDefault();
     
     // Mark all fields as touched for validation display
-    setTouched({ tech1: true, tech2: true });
+    setTouched(Object.fromEntries(
+      [
+        'tech1',
+        'tech2',
+        ...extras.map((_, index) => `tech${index + 3}`),
+        ...Object.keys(EMPTY_CONSTRAINTS).map(field => `constraints.${field}`)
+      ].map(field => [field, true])
+    ));
     
     const validation = validateInputs(tech1, tech2);
     setErrors(validation.errors);
 
+    // Hold the first submit on typo hints the user has not dealt with yet;
+    // the chips are now visible and a second submit keeps the names as typed
+    const values = [tech1, tech2, ...extras];
+    const unreviewed = validation.errors
+      .filter(error => error.code === 'POSSIBLE_TYPO')
+      .map(error => values[Number(error.field.replace('tech', '')) - 1].trim().toLowerCase())
+      .filter(name => !heldTypos.includes(name));
+    if (unreviewed.length > 0) {
+      setHeldTypos([...heldTypos, ...unreviewed]);
+      return;
+    }
+
     if (validation.isValid && !loading && !disabled) {
       // Normalize technology names (trim whitespace)
       const normalizedTech1 = tech1.trim();
       const normalizedTech2 = tech2.trim();
       
-      onSubmit(normalizedTech1, normalizedTech2);
+      const options: MatchupSubmitOptions = {};
+      if (extras.length > 0) {
+        options.additionalTechnologies = extras.map(extra => extra.trim());
+      }
+      const constraints = validateConstraints(constraintValues);
+      if (constraints.success && hasConstraints(constraints.data)) {
+        options.constraints = constraints.data;
+      }
+
+      if (Object.keys(options).length > 0) {
+        onSubmit(normalizedTech1, normalizedTech2, options);
+      } else {
+        onSubmit(normalizedTech1, normalizedTech2);
+      }
+    }
+  };
+
+  /**
+   * Updates a constraint input; values are validated on blur and submit
+   */
+  const updateConstraint = (field: ConstraintField, value: string) => {
+    setConstraintValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  /**
+   * Adds an empty contender input, up to MAX_CONTENDERS in total
+   */
+  const addContender = () => {
+    if (extras.length + 2 < MAX_CONTENDERS) {
+      setExtras(prev => [...prev, '']);
     }
   };
 
+  /**
+   * Removes an extra contender and re-validates the remaining inputs
+   */
+  const removeContender = (index: number) => {
+    const remaining = extras.filter((_, i) => i !== index);
+    setExtras(remaining);
+    setTouched(prev => {
+      const next: Record<string, boolean> = { tech1: prev.tech1, tech2: prev.tech2 };
+      remaining.forEach((_, i) => {
+        const sourceIndex = i >= index ? i + 1 : i;
+        next[`tech${i + 3}`] = !!prev[`tech${sourceIndex + 3}`];
+      });
+      return next;
+    });
+    setErrors(validateInputs(tech1, tech2, remaining).errors);
+  };
+
+  /**
+   * Updates the value of an extra contender
+   */
+  const updateContender = (index: number, value: string) => {
+    setExtras(prev => prev.map((extra, i) => (i === index ? value : extra)));
+  };
+
+  /**
+   * Replaces a misspelled technology with a suggested catalog name
+   */
+  const applySuggestion = (field: string, suggestion: string) => {
+    const values = [tech1, tech2, ...extras];
+    values[Number(field.replace('tech', '')) - 1] = suggestion;
+    const [nextTech1, nextTech2, ...nextExtras] = values;
+
+    setTech1(nextTech1);
+    setTech2(nextTech2);
+    setExtras(nextExtras);
+    setErrors(validateInputs(nextTech1, nextTech2, nextExtras).errors);
+  };
+
+  /**
+   * Dismisses the typo suggestions for a field, keeping the name as typed
+   */
+  const keepAsTyped = (value: string) => {
+    const kept = [...keptAsTyped, value.trim().toLowerCase()];
+    setKeptAsTyped(kept);
+    setErrors(validateInputs(tech1, tech2, extras, kept).errors);
+  };
+
   /**
    * Handles input blur events for validation feedback
    */
-  const handleBlur = (field: 'tech1' | 'tech2') => {
+  const handleBlur = (field: string) => {
     setTouched(prev => ({ ...prev, [field]: true }));
     
     // Validate on blur if field has been touched
@@ -97,8 +276,8 @@ export default function MatchupInput({
   /**
    * Gets error message for a specific field
    */
-  const getFieldError = (field: 'tech1' | 'tech2'): string | undefined => {
-    const fieldError = errors.find(error => error.field === field);
+  const getFieldError = (field: string): string | undefined => {
+    const fieldError = errors.find(error => error.field === field && error.code !== 'POSSIBLE_TYPO');
     
     if (fieldError && touched[field]) {
       return fieldError.message;
@@ -107,7 +286,57 @@ export default function MatchupInput({
     return undefined;
   };
 
+  /**
+   * Catalog names to offer for a touched field that looks misspelled
+   */
+  const getFieldSuggestions = (field: string, value: string): string[] => {
+    const isTypo = errors.some(error => error.field === field && error.code === 'POSSIBLE_TYPO');
+    return isTypo && touched[field] ? suggestTechnologyNames(value) : [];
+  };
+
+  /**
+   * The field's error message, or "Did you mean ...?" chips for a likely typo
+   */
+  const renderFieldError = (field: string, value: string) => {
+    const suggestions = getFieldSuggestions(field, value);
+    if (suggestions.length > 0) {
+      return (
+        <div id={`${field}-error`} className="mt-1 flex flex-wrap gap-2 animate-fade-in" role="status">
+          {suggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => applySuggestion(field, suggestion)}
+              disabled={loading || disabled}
+              className="px-3 py-1 rounded-full text-sm bg-yellow-400/10 border border-yellow-400/40 text-yellow-300 hover:bg-yellow-400/20 focus:outline-none focus:ring-2 focus:ring-yellow-400 transition-colors duration-300"
+            >
+              Did you mean {suggestion}?
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => keepAsTyped(value)}
+            disabled={loading || disabled}
+            className="px-3 py-1 rounded-full text-sm border border-gray-600 text-gray-300 hover:text-white hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 transition-colors duration-300"
+          >
+            Use {value.trim()} as typed
+          </button>
+        </div>
+      );
+    }
+
+    const fieldError = getFieldError(field);
+    return fieldError && (
+      <p id={`${field}-error`} className="mt-1 text-sm text-red-400 animate-fade-in" role="alert">
+        {fieldError}
+      </p>
+    );
+  };
+
   const isFormValid = validateInputs(tech1, tech2).isValid;
+  // Once the first contender is known, later fields list its category first
+  const firstCategory = findTechnology(tech1)?.category;
+  const notesError = getFieldError('constraints.notes');
 
   return (
     <div className="w-full max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -144,27 +373,23 @@ export default function MatchupInput({
                   >
                     First Technology
                   </label>
-                  <input
+                  <TechnologyCombobox
                     id="tech1"
-                    type="text"
                     value={tech1}
-                    onChange={(e) => setTech1(e.target.value)}
+                    onChange={setTech1}
                     onBlur={() => handleBlur('tech1')}
                     disabled={loading || disabled}
                     placeholder="e.g., React, PostgreSQL, AWS"
-                    aria-describedby={getFieldError('tech1') ? 'tech1-error' : undefined}
-                    aria-invalid={!!getFieldError('tech1')}
+                    exclude={[tech2, ...extras]}
+                    describedBy={getFieldError('tech1') ? 'tech1-error' : undefined}
+                    invalid={!!getFieldError('tech1')}
                     className={`w-full px-4 py-3 lg:py-4 bg-gray-900 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all duration-300 text-base hover:border-gray-500 ${
                       getFieldError('tech1') 
                         ? 'border-red-500 focus:ring-red-400 animate-pulse' 
                         : 'border-gray-600'
                     } ${loading || disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
                   />
-                  {getFieldError('tech1') && (
-                    <p id="tech1-error" className="mt-1 text-sm text-red-400 animate-fade-in" role="alert">
-                      {getFieldError('tech1')}
-                    </p>
-                  )}
+                  {renderFieldError('tech1', tech1)}
                 </div>
 
                 {/* Technology 2 Input */}
@@ -175,28 +400,170 @@ export default function MatchupInput({
                   >
                     Second Technology
                   </label>
-                  <input
+                  <TechnologyCombobox
                     id="tech2"
-                    type="text"
                     value={tech2}
-                    onChange={(e) => setTech2(e.target.value)}
+                    onChange={setTech2}
                     onBlur={() => handleBlur('tech2')}
                     disabled={loading || disabled}
                     placeholder="e.g., Vue, MongoDB, Azure"
-                    aria-describedby={getFieldError('tech2') ? 'tech2-error' : undefined}
-                    aria-invalid={!!getFieldError('tech2')}
+                    preferredCategory={firstCategory}
+                    exclude={[tech1, ...extras]}
+                    describedBy={getFieldError('tech2') ? 'tech2-error' : undefined}
+                    invalid={!!getFieldError('tech2')}
                     className={`w-full px-4 py-3 lg:py-4 bg-gray-900 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all duration-300 text-base hover:border-gray-500 ${
                       getFieldError('tech2') 
                         ? 'border-red-500 focus:ring-red-400 animate-pulse' 
                         : 'border-gray-600'
                     } ${loading || disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
                   />
-                  {getFieldError('tech2') && (
-                    <p id="tech2-error" className="mt-1 text-sm text-red-400 animate-fade-in" role="alert">
-                      {getFieldError('tech2')}
-                    </p>
-                  )}
+                  {renderFieldError('tech2', tech2)}
+                </div>
+              </div>
+
+              {/* Additional contenders for multi-way comparisons */}
+              {extras.length > 0 && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6">
+                  {extras.map((extra, index) => {
+                    const field = `tech${index + 3}`;
+                    const fieldError = getFieldError(field);
+                    return (
+                      <div key={field} className="space-y-2 animate-fade-in">
+                        <label 
+                          htmlFor={field} 
+                          className="block text-sm font-medium text-gray-300 mb-2"
+                        >
+                          {ORDINAL_LABELS[index + 2]} Technology
+                        </label>
+                        <div className="flex gap-2">
+                          <div className="flex-1">
+                            <TechnologyCombobox
+                              id={field}
+                              value={extra}
+                              onChange={(value) => updateContender(index, value)}
+                              onBlur={() => handleBlur(field)}
+                              disabled={loading || disabled}
+                              placeholder="e.g., DynamoDB, Svelte, GCP"
+                              preferredCategory={firstCategory}
+                              exclude={[tech1, tech2, ...extras.filter((_, i) => i !== index)]}
+                              describedBy={fieldError ? `${field}-error` : undefined}
+                              invalid={!!fieldError}
+                              className={`w-full px-4 py-3 lg:py-4 bg-gray-900 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all duration-300 text-base hover:border-gray-500 ${
+                                fieldError 
+                                  ? 'border-red-500 focus:ring-red-400' 
+                                  : 'border-gray-600'
+                              } ${loading || disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+                            />
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => removeContender(index)}
+                            disabled={loading || disabled}
+                            aria-label={`Remove ${ORDINAL_LABELS[index + 2].toLowerCase()} technology`}
+                            className="px-3 rounded-lg border border-gray-600 text-gray-400 hover:text-white hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 transition-colors duration-300"
+                          >
+                            <X className="w-4 h-4" aria-hidden="true" />
+                          </button>
+                        </div>
+                        {renderFieldError(field, extra)}
+                      </div>
+                    );
+                  })}
                 </div>
+              )}
+
+              {extras.length + 2 < MAX_CONTENDERS && (
+                <div className="text-center">
+                  <button
+                    type="button"
+                    onClick={addContender}
+                    disabled={loading || disabled}
+                    className="inline-flex items-center gap-1 text-sm text-yellow-400 hover:text-yellow-300 focus:outline-none focus:ring-2 focus:ring-yellow-400 rounded px-2 py-1 transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Plus className="w-4 h-4" aria-hidden="true" />
+                    Add another technology
+                  </button>
+                </div>
+              )}
+
+              {/* Optional constraints describing the team's situation */}
+              <div className="border-t border-gray-700 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowConstraints(prev => !prev)}
+                  aria-expanded={showConstraints}
+                  aria-controls="matchup-constraints"
+                  className="inline-flex items-center gap-2 text-sm text-gray-300 hover:text-white focus:outline-none focus:ring-2 focus:ring-yellow-400 rounded px-2 py-1 transition-colors duration-300"
+                >
+                  <SlidersHorizontal className="w-4 h-4 text-yellow-400" aria-hidden="true" />
+                  Add constraints (optional)
+                  <ChevronDown
+                    className={`w-4 h-4 transition-transform duration-300 ${showConstraints ? 'rotate-180' : ''}`}
+                    aria-hidden="true"
+                  />
+                </button>
+
+                {showConstraints && (
+                  <div id="matchup-constraints" className="mt-4 space-y-4 animate-fade-in">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {CONSTRAINT_INPUTS.map(({ field, label, placeholder, numeric }) => {
+                        const id = `constraint-${field}`;
+                        const fieldError = getFieldError(`constraints.${field}`);
+                        return (
+                          <div key={field} className="space-y-1">
+                            <label htmlFor={id} className="block text-sm font-medium text-gray-300">
+                              {label}
+                            </label>
+                            <input
+                              id={id}
+                              type="text"
+                              inputMode={numeric ? 'numeric' : undefined}
+                              value={constraintValues[field]}
+                              onChange={(e) => updateConstraint(field, e.target.value)}
+                              onBlur={() => handleBlur(`constraints.${field}`)}
+                              disabled={loading || disabled}
+                              placeholder={placeholder}
+                              aria-describedby={fieldError ? `${id}-error` : undefined}
+                              aria-invalid={!!fieldError}
+                              className={`w-full px-3 py-2 bg-gray-900 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all duration-300 text-sm ${
+                                fieldError ? 'border-red-500' : 'border-gray-600'
+                              }`}
+                            />
+                            {fieldError && (
+                              <p id={`${id}-error`} className="text-sm text-red-400" role="alert">
+                                {fieldError}
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <div className="space-y-1">
+                      <label htmlFor="constraint-notes" className="block text-sm font-medium text-gray-300">
+                        Anything else the referee should know
+                      </label>
+                      <textarea
+                        id="constraint-notes"
+                        rows={2}
+                        value={constraintValues.notes}
+                        onChange={(e) => updateConstraint('notes', e.target.value)}
+                        onBlur={() => handleBlur('constraints.notes')}
+                        disabled={loading || disabled}
+                        placeholder="e.g., Mostly read-heavy reporting, team knows SQL well"
+                        aria-describedby={notesError ? 'constraint-notes-error' : undefined}
+                        aria-invalid={!!notesError}
+                        className={`w-full px-3 py-2 bg-gray-900 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all duration-300 text-sm ${
+                          notesError ? 'border-red-500' : 'border-gray-600'
+                        }`}
+                      />
+                      {notesError && (
+                        <p id="constraint-notes-error" className="text-sm text-red-400" role="alert">
+                          {notesError}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Enhanced VS Divider */}
@@ -243,7 +610,9 @@ export default function MatchupInput({
             )}
           </button>
           <p id="submit-help" className="mt-2 text-sm text-gray-500">
-            Compare any two technologies to get objective analysis
+            {extras.length > 0
+              ? `Compare ${extras.length + 2} technologies to get objective analysis`
+              : 'Compare any two technologies to get objective analysis'}
           </p>
         </div>
 
@@ -0,0 +1,53 @@
+// Unit tests for RadarChart component
+
+import { render, screen, within } from '@testing-library/react';
+import RadarChart from './RadarChart';
+import { GENERAL_DIMENSIONS } from '@/lib/dimensions';
+import { ScoreMatrix } from '@/lib/types';
+
+describe('RadarChart Component', () => {
+  const scores: ScoreMatrix = {
+    speed: { tech1: { score: 10, confidence: 0.8 }, tech2: { score: 5, confidence: 0.6 } },
+    cost: { tech1: { score: 8, confidence: 0.9 }, tech2: { score: 8, confidence: 0.9 } },
+    developerExperience: { tech1: { score: 8.5, confidence: 0.7 }, tech2: { score: 5, confidence: 0.7 } },
+    scalability: { tech1: { score: 6, confidence: 0.6 }, tech2: { score: 9, confidence: 0.8 } },
+    maintainability: { tech1: { score: 6, confidence: 0.6 }, tech2: { score: 8, confidence: 0.7 } }
+  };
+
+  test('should describe the chart for assistive technology', () => {
+    render(<RadarChart dimensions={GENERAL_DIMENSIONS} technologies={['React', 'Vue']} scores={scores} />);
+
+    expect(screen.getByRole('img', {
+      name: 'Radar chart of React, Vue scored 1 to 10 on Speed, Cost, Developer Experience, Scalability, Maintainability'
+    })).toBeInTheDocument();
+  });
+
+  test('should plot one shape per contender with a point per dimension', () => {
+    const { container } = render(<RadarChart dimensions={GENERAL_DIMENSIONS} technologies={['React', 'Vue']} scores={scores} />);
+
+    const react = container.querySelector('[data-contender="React"]') as SVGGElement;
+    expect(react.querySelectorAll('circle')).toHaveLength(5);
+    // A top score on the first axis reaches the outer ring, straight up from the center
+    expect(react.querySelector('polygon')?.getAttribute('points')?.split(' ')[0]).toBe('320,60');
+    expect(container.querySelector('[data-contender="Vue"]')).toBeInTheDocument();
+    expect(screen.getByText('Vue', { selector: 'figcaption span' })).toBeInTheDocument();
+  });
+
+  test('should offer the scores as a table', () => {
+    render(<RadarChart dimensions={GENERAL_DIMENSIONS} technologies={['React', 'Vue']} scores={scores} />);
+
+    const table = screen.getByRole('table', { name: 'Scores out of 10 by dimension' });
+    const row = within(table).getByRole('row', { name: /Developer Experience/ });
+    expect(within(row).getAllByRole('cell').map(cell => cell.textContent)).toEqual(['8.5', '5']);
+  });
+
+  test('should highlight the deciding axes', () => {
+    const { container } = render(
+      <RadarChart dimensions={GENERAL_DIMENSIONS} technologies={['React', 'Vue']} scores={scores} decidingDimensions={['speed']} />
+    );
+
+    const labels = Array.from(container.querySelectorAll('text'));
+    expect(labels.find(label => label.textContent === 'Speed')).toHaveClass('fill-yellow-300');
+    expect(labels.find(label => label.textContent === 'Cost')).toHaveClass('fill-gray-300');
+  });
+});
@@ -0,0 +1,159 @@
+'use client';
+
+import React from 'react';
+import { contenderKey, RadarChartProps } from '@/lib/types';
+import { formatScore, SCORE_LIMITS } from '@/lib/scoring';
+
+// Chart geometry in viewBox units; the wide margins leave room for the axis labels
+const WIDTH = 640;
+const HEIGHT = 420;
+const CENTER = { x: WIDTH / 2, y: HEIGHT / 2 };
+const RADIUS = 150;
+const RINGS = [2, 4, 6, 8, 10];
+
+// Outline, fill and legend swatch per contender, spelled out so Tailwind can see them
+const CONTENDER_STYLES = [
+  { shape: 'stroke-yellow-400 fill-yellow-400/20', dot: 'fill-yellow-400', swatch: 'bg-yellow-400' },
+  { shape: 'stroke-blue-400 fill-blue-400/20', dot: 'fill-blue-400', swatch: 'bg-blue-400' },
+  { shape: 'stroke-green-400 fill-green-400/20', dot: 'fill-green-400', swatch: 'bg-green-400' },
+  { shape: 'stroke-purple-400 fill-purple-400/20', dot: 'fill-purple-400', swatch: 'bg-purple-400' },
+  { shape: 'stroke-orange-400 fill-orange-400/20', dot: 'fill-orange-400', swatch: 'bg-orange-400' }
+];
+
+/**
+ * Where a score lands on an axis; the first axis points straight up and
+ * the rest follow clockwise
+ */
+function radarPoint(axis: number, axisCount: number, score: number): { x: number; y: number } {
+  const angle = (2 * Math.PI * axis) / axisCount - Math.PI / 2;
+  const distance = (RADIUS * score) / SCORE_LIMITS.maxScore;
+  return {
+    x: Math.round((CENTER.x + distance * Math.cos(angle)) * 100) / 100,
+    y: Math.round((CENTER.y + distance * Math.sin(angle)) * 100) / 100
+  };
+}
+
+function toPoints(points: { x: number; y: number }[]): string {
+  return points.map(({ x, y }) => `${x},${y}`).join(' ');
+}
+
+// Labels left of the center end at their anchor, labels right of it start there
+function labelAnchor(x: number): 'start' | 'middle' | 'end' {
+  return Math.abs(x - CENTER.x) < 1 ? 'middle' : x < CENTER.x ? 'end' : 'start';
+}
+
+/**
+ * RadarChart Component
+ *
+ * Plots every contender's 1-10 scores on one SVG spider chart, one axis per
+ * Tale of the Tape dimension. Axes in `decidingDimensions` are labelled in
+ * the highlight color. Screen readers get the same scores as a table.
+ */
+export default function RadarChart({ dimensions, technologies, scores, decidingDimensions = [] }: RadarChartProps) {
+  const axisCount = dimensions.length;
+
+  return (
+    <figure className="w-full">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full max-w-2xl mx-auto h-auto"
+        role="img"
+        aria-labelledby="radar-chart-title"
+      >
+        <title id="radar-chart-title">
+          {`Radar chart of ${technologies.join(', ')} scored 1 to 10 on ${dimensions.map(dimension => dimension.label).join(', ')}`}
+        </title>
+
+        {/* Rings and Axes */}
+        <g className="stroke-gray-600 fill-none" aria-hidden="true">
+          {RINGS.map(ring => (
+            <polygon
+              key={ring}
+              points={toPoints(dimensions.map((_, axis) => radarPoint(axis, axisCount, ring)))}
+              strokeWidth={ring === SCORE_LIMITS.maxScore ? 1.5 : 0.75}
+            />
+          ))}
+          {dimensions.map((dimension, axis) => {
+            const end = radarPoint(axis, axisCount, SCORE_LIMITS.maxScore);
+            return <line key={dimension.key} x1={CENTER.x} y1={CENTER.y} x2={end.x} y2={end.y} strokeWidth={0.75} />;
+          })}
+        </g>
+
+        {/* Axis Labels */}
+        <g fontSize={14} aria-hidden="true">
+          {dimensions.map((dimension, axis) => {
+            const anchor = radarPoint(axis, axisCount, SCORE_LIMITS.maxScore + 1.5);
+            return (
+              <text
+                key={dimension.key}
+                x={anchor.x}
+                y={anchor.y}
+                textAnchor={labelAnchor(anchor.x)}
+                dominantBaseline="middle"
+                className={decidingDimensions.includes(dimension.key) ? 'fill-yellow-300 font-semibold' : 'fill-gray-300'}
+              >
+                {dimension.label}
+              </text>
+            );
+          })}
+        </g>
+
+        {/* Contender Shapes */}
+        {technologies.map((technology, contenderIndex) => {
+          const style = CONTENDER_STYLES[contenderIndex % CONTENDER_STYLES.length];
+          const points = dimensions.map((dimension, axis) =>
+            radarPoint(axis, axisCount, scores[dimension.key][contenderKey(contenderIndex)].score)
+          );
+          return (
+            <g key={technology} data-contender={technology}>
+              <polygon points={toPoints(points)} className={style.shape} strokeWidth={2} strokeLinejoin="round" />
+              {points.map((point, axis) => (
+                <circle key={dimensions[axis].key} cx={point.x} cy={point.y} r={3.5} className={style.dot}>
+                  <title>
+                    {`${technology}, ${dimensions[axis].label}: ${formatScore(scores[dimensions[axis].key][contenderKey(contenderIndex)].score)}/10`}
+                  </title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <figcaption className="mt-4 flex flex-wrap justify-center gap-x-6 gap-y-2 text-sm text-gray-300">
+        {technologies.map((technology, contenderIndex) => (
+          <span key={technology} className="inline-flex items-center gap-2">
+            <span
+              className={`w-3 h-3 rounded-sm ${CONTENDER_STYLES[contenderIndex % CONTENDER_STYLES.length].swatch}`}
+              aria-hidden="true"
+            />
+            {technology}
+          </span>
+        ))}
+      </figcaption>
+
+      {/* Table Fallback */}
+      <table className="sr-only">
+        <caption>Scores out of 10 by dimension</caption>
+        <thead>
+          <tr>
+            <th scope="col">Dimension</th>
+            {technologies.map(technology => (
+              <th key={technology} scope="col">{technology}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {dimensions.map(dimension => (
+            <tr key={dimension.key}>
+              <th scope="row">{dimension.label}</th>
+              {technologies.map((technology, contenderIndex) => (
+                <td key={technology}>{formatScore(scores[dimension.key][contenderKey(contenderIndex)].score)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </figure>
+  );
+}
@@ -3,7 +3,7 @@
 
 import { render, screen } from '@testing-library/react';
 import ScenarioCards from './ScenarioCards';
-import { ScenarioVerdict } from '@/lib/types';
+import { ScenarioPersona, ScenarioVerdict } from '@/lib/types';
 
 describe('ScenarioCards Component', () => {
   const mockScenarios: ScenarioVerdict[] = [
@@ -311,4 +311,78 @@ describe('ScenarioCards Component', () => {
       expect(gridContainer).toHaveClass('grid');
     });
   });
-});
\ No newline at end of file
+
+  describe('Multi-way comparisons', () => {
+    test('should show each winner against the rest of the field and tally wins', () => {
+      render(<ScenarioCards scenarios={mockScenarios} technologies={['React', 'Angular', 'Svelte']} />);
+
+      expect(screen.getAllByText('over Angular, Svelte')).toHaveLength(2);
+      expect(screen.getByText('over React, Svelte')).toBeInTheDocument();
+
+      const tally = screen.getByRole('list', { name: 'Scenario wins per technology' });
+      expect(tally).toHaveTextContent('React: 2 wins');
+      expect(tally).toHaveTextContent('Angular: 1 win');
+      expect(tally).toHaveTextContent('Svelte: 0 wins');
+    });
+
+    test('should not show the tally for two-way comparisons', () => {
+      render(<ScenarioCards scenarios={mockScenarios} technologies={['React', 'Angular']} />);
+
+      expect(screen.queryByRole('list', { name: 'Scenario wins per technology' })).not.toBeInTheDocument();
+      expect(screen.queryByText(/^over /)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Custom personas', () => {
+    const personas: ScenarioPersona[] = [
+      { id: 'regulated', label: 'Regulated Enterprise', description: 'Audits every dependency', icon: 'shield', color: 'blue' },
+      { id: 'solo', label: 'Solo Maintainer', description: 'One person on call', icon: 'user', color: 'pink' }
+    ];
+
+    test('should style each card with its persona color and name the personas in the footer', () => {
+      render(
+        <ScenarioCards
+          personas={personas}
+          scenarios={[
+            { name: 'Regulated Enterprise', winner: 'Angular', reasoning: 'Wins if long-term support contracts matter', context: 'Bank' },
+            { name: 'Solo Maintainer', winner: 'React', reasoning: 'Wins if hiring help later is likely', context: 'Side project' }
+          ]}
+        />
+      );
+
+      expect(screen.getByText('Regulated Enterprise').closest('article')).toHaveClass('bg-blue-900/20', 'focus-within:ring-blue-400');
+      expect(screen.getByText('Solo Maintainer').closest('article')).toHaveClass('bg-pink-900/20');
+      expect(screen.getByText(/Regulated Enterprise vs\. Solo Maintainer/)).toBeInTheDocument();
+    });
+
+    test('should fall back to a neutral card for an unknown scenario', () => {
+      render(
+        <ScenarioCards
+          personas={personas}
+          scenarios={[{ name: 'Mystery Team', winner: 'Vue', reasoning: 'Wins if nobody knows why', context: 'Unknown' }]}
+        />
+      );
+
+      expect(screen.getByText('Mystery Team').closest('article')).toHaveClass('bg-gray-900/20');
+    });
+  });
+
+  describe('Weighted score picks', () => {
+    test('should show what the scores favour for each persona next to the verdict', () => {
+      render(
+        <ScenarioCards
+          scenarios={mockScenarios}
+          technologies={['React', 'Angular']}
+          recommendations={[
+            { persona: 'Move Fast Team', technology: 'React', score: 7.43, totals: [] },
+            { persona: 'Scale Team', technology: 'React', score: 6, totals: [] }
+          ]}
+        />
+      );
+
+      expect(screen.getByLabelText('By the numbers for Move Fast Team')).toHaveTextContent('React · 7.4/10');
+      expect(screen.getByLabelText('By the numbers for Scale Team')).toHaveTextContent('React · 6/10');
+      expect(screen.queryByLabelText('By the numbers for Budget Team')).not.toBeInTheDocument();
+    });
+  });
+});
@@ -1,60 +1,84 @@
 'use client';
 
 import React from 'react';
-import { ScenarioCardsProps, ScenarioVerdict } from '@/lib/types';
-import { Zap, TrendingUp, DollarSign, Trophy, Target } from 'lucide-react';
+import { ScenarioCardsProps, ScenarioColor, ScenarioIcon } from '@/lib/types';
+import { DEFAULT_SCENARIOS, getScenarioShortName, usesDefaultScenarios } from '@/lib/scenarios';
+import { formatScore } from '@/lib/scoring';
+import {
+  Zap,
+  TrendingUp,
+  DollarSign,
+  Shield,
+  User,
+  Users,
+  Database,
+  Trophy,
+  Target,
+  BarChart3,
+  LucideIcon
+} from 'lucide-react';
+
+const SCENARIO_ICON_COMPONENTS: Record<ScenarioIcon, LucideIcon> = {
+  'zap': Zap,
+  'trending-up': TrendingUp,
+  'dollar-sign': DollarSign,
+  'shield': Shield,
+  'user': User,
+  'users': Users,
+  'database': Database,
+  'target': Target
+};
+
+// Full class names so Tailwind keeps them in the build
+const SCENARIO_COLOR_CLASSES: Record<ScenarioColor, {
+  bgColor: string;
+  borderColor: string;
+  iconColor: string;
+  accentColor: string;
+  ringColor: string;
+}> = {
+  yellow: { bgColor: 'bg-yellow-900/20', borderColor: 'border-yellow-500/30', iconColor: 'text-yellow-400', accentColor: 'text-yellow-300', ringColor: 'focus-within:ring-yellow-400' },
+  purple: { bgColor: 'bg-purple-900/20', borderColor: 'border-purple-500/30', iconColor: 'text-purple-400', accentColor: 'text-purple-300', ringColor: 'focus-within:ring-purple-400' },
+  green: { bgColor: 'bg-green-900/20', borderColor: 'border-green-500/30', iconColor: 'text-green-400', accentColor: 'text-green-300', ringColor: 'focus-within:ring-green-400' },
+  blue: { bgColor: 'bg-blue-900/20', borderColor: 'border-blue-500/30', iconColor: 'text-blue-400', accentColor: 'text-blue-300', ringColor: 'focus-within:ring-blue-400' },
+  red: { bgColor: 'bg-red-900/20', borderColor: 'border-red-500/30', iconColor: 'text-red-400', accentColor: 'text-red-300', ringColor: 'focus-within:ring-red-400' },
+  orange: { bgColor: 'bg-orange-900/20', borderColor: 'border-orange-500/30', iconColor: 'text-orange-400', accentColor: 'text-orange-300', ringColor: 'focus-within:ring-orange-400' },
+  pink: { bgColor: 'bg-pink-900/20', borderColor: 'border-pink-500/30', iconColor: 'text-pink-400', accentColor: 'text-pink-300', ringColor: 'focus-within:ring-pink-400' },
+  gray: { bgColor: 'bg-gray-900/20', borderColor: 'border-gray-500/30', iconColor: 'text-gray-400', accentColor: 'text-gray-300', ringColor: 'focus-within:ring-gray-400' }
+};
 
 /**
  * ScenarioCards Component
  * 
- * Displays three scenario-based verdicts (Move Fast, Scale, Budget teams) with winners
- * and reasoning. All scenarios are visible simultaneously for easy comparison.
+ * Displays scenario-based verdicts (by default the Move Fast, Scale and Budget teams)
+ * with winners and reasoning. All scenarios are visible simultaneously for easy comparison.
+ * Each persona supplies its own icon and color; unknown scenarios fall back to a neutral card.
+ * For multi-way comparisons each winner is shown against the rest of the field.
+ * When `recommendations` are given, each card also shows the contender the
+ * weighted scores favour for that persona.
  * Implements Requirements 3.1, 3.2, 3.5 from the Tech Referee specification.
  */
-export default function ScenarioCards({ scenarios }: ScenarioCardsProps) {
+export default function ScenarioCards({ scenarios, technologies = [], personas = DEFAULT_SCENARIOS, recommendations = [] }: ScenarioCardsProps) {
+  const multiWay = technologies.length > 2;
+
+  /**
+   * The contender a free-text winner refers to, if exactly one matches
+   */
+  const getWinningContender = (winner: string): string | undefined => {
+    const matches = technologies.filter(tech => winner.toLowerCase().includes(tech.toLowerCase()));
+    return matches.length === 1 ? matches[0] : undefined;
+  };
   
   /**
-   * Gets the appropriate icon and styling for each scenario type
+   * Gets the icon and styling of the persona a scenario belongs to
    */
-  const getScenarioConfig = (scenarioName: ScenarioVerdict['name']) => {
-    switch (scenarioName) {
-      case 'Move Fast Team':
-        return {
-          icon: <Zap className="w-5 h-5 sm:w-6 sm:h-6" />,
-          color: 'yellow',
-          bgColor: 'bg-yellow-900/20',
-          borderColor: 'border-yellow-500/30',
-          iconColor: 'text-yellow-400',
-          accentColor: 'text-yellow-300'
-        };
-      case 'Scale Team':
-        return {
-          icon: <TrendingUp className="w-5 h-5 sm:w-6 sm:h-6" />,
-          color: 'purple',
-          bgColor: 'bg-purple-900/20',
-          borderColor: 'border-purple-500/30',
-          iconColor: 'text-purple-400',
-          accentColor: 'text-purple-300'
-        };
-      case 'Budget Team':
-        return {
-          icon: <DollarSign className="w-5 h-5 sm:w-6 sm:h-6" />,
-          color: 'green',
-          bgColor: 'bg-green-900/20',
-          borderColor: 'border-green-500/30',
-          iconColor: 'text-green-400',
-          accentColor: 'text-green-300'
-        };
-      default:
-        return {
-          icon: <Target className="w-5 h-5 sm:w-6 sm:h-6" />,
-          color: 'gray',
-          bgColor: 'bg-gray-900/20',
-          borderColor: 'border-gray-500/30',
-          iconColor: 'text-gray-400',
-          accentColor: 'text-gray-300'
-        };
-    }
+  const getScenarioConfig = (scenarioName: string) => {
+    const persona = personas.find(candidate => candidate.label === scenarioName);
+    const Icon = SCENARIO_ICON_COMPONENTS[persona?.icon || 'target'];
+    return {
+      icon: <Icon className="w-5 h-5 sm:w-6 sm:h-6" />,
+      ...SCENARIO_COLOR_CLASSES[persona?.color || 'gray']
+    };
   };
 
   return (
@@ -74,11 +98,14 @@ export default function ScenarioCards({ scenarios }: ScenarioCardsProps) {
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 lg:gap-6">
         {scenarios.map((scenario, index) => {
           const config = getScenarioConfig(scenario.name);
+          const winner = scenario.winner.replace(/\*/g, '').trim();
+          const winningContender = multiWay ? getWinningContender(winner) : undefined;
+          const recommendation = recommendations.find(candidate => candidate.persona === scenario.name);
           
           return (
             <article
               key={scenario.name}
-              className={`relative ${config.bgColor} ${config.borderColor} border rounded-lg p-4 sm:p-6 hover:border-opacity-50 transition-all duration-300 hover:scale-[1.02] focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-offset-gray-900 focus-within:ring-${config.color}-400 hover-lift animate-fade-in`}
+              className={`relative ${config.bgColor} ${config.borderColor} border rounded-lg p-4 sm:p-6 hover:border-opacity-50 transition-all duration-300 hover:scale-[1.02] focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-offset-gray-900 ${config.ringColor} hover-lift animate-fade-in`}
               style={{ animationDelay: `${index * 200}ms` }}
               tabIndex={0}
               role="article"
@@ -108,8 +135,13 @@ export default function ScenarioCards({ scenarios }: ScenarioCardsProps) {
                   </span>
                 </div>
                 <div className={`${config.accentColor} font-bold text-xl sm:text-2xl lg:text-3xl mb-3 break-words animate-glow`}>
-                  {scenario.winner.replace(/\*/g, '').trim()}
+                  {winner}
                 </div>
+                {winningContender && (
+                  <p className="text-gray-400 text-xs sm:text-sm">
+                    over {technologies.filter(tech => tech !== winningContender).join(', ')}
+                  </p>
+                )}
               </div>
 
               {/* Reasoning Section */}
@@ -122,6 +154,22 @@ export default function ScenarioCards({ scenarios }: ScenarioCardsProps) {
                 </p>
               </div>
 
+              {/* Weighted Score Pick */}
+              {recommendation && (
+                <div
+                  className="mt-4 pt-3 border-t border-gray-700/60 flex items-center justify-between gap-2"
+                  aria-label={`By the numbers for ${scenario.name}`}
+                >
+                  <span className="flex items-center gap-1 text-gray-400 text-xs sm:text-sm font-medium uppercase tracking-wide">
+                    <BarChart3 className="w-3 h-3 sm:w-4 sm:h-4" aria-hidden="true" />
+                    By the numbers
+                  </span>
+                  <span className={`${config.accentColor} font-semibold text-xs sm:text-sm`}>
+                    {recommendation.technology} · {formatScore(recommendation.score)}/10
+                  </span>
+                </div>
+              )}
+
               {/* Enhanced Scenario Number Badge */}
               <div className="absolute top-3 sm:top-4 right-3 sm:right-4 opacity-30 animate-pulse-slow" aria-hidden="true">
                 <div className={`w-6 h-6 sm:w-8 sm:h-8 rounded-full ${config.bgColor} ${config.borderColor} border-2 flex items-center justify-center`}>
@@ -138,10 +186,31 @@ export default function ScenarioCards({ scenarios }: ScenarioCardsProps) {
         })}
       </div>
 
+      {/* Scenario wins per contender (multi-way comparisons) */}
+      {multiWay && (
+        <ul className="mt-4 lg:mt-6 flex flex-wrap justify-center gap-2 sm:gap-3" aria-label="Scenario wins per technology">
+          {technologies.map(tech => {
+            const wins = scenarios.filter(scenario => getWinningContender(scenario.winner) === tech).length;
+            return (
+              <li
+                key={tech}
+                className={`px-3 py-1 rounded-full border text-xs sm:text-sm ${
+                  wins > 0 ? 'border-yellow-500/40 text-yellow-300' : 'border-gray-600 text-gray-400'
+                }`}
+              >
+                {tech}: {wins} {wins === 1 ? 'win' : 'wins'}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
       {/* Footer Note */}
       <div className="mt-4 lg:mt-6 text-center">
         <p className="text-gray-500 text-xs sm:text-sm lg:text-base">
-          Each scenario considers different priorities: speed vs. scale vs. cost optimization
+          {usesDefaultScenarios(personas)
+            ? 'Each scenario considers different priorities: speed vs. scale vs. cost optimization'
+            : `Each scenario considers different priorities: ${personas.map(persona => getScenarioShortName(persona.label)).join(' vs. ')}`}
         </p>
       </div>
     </div>
@@ -0,0 +1,34 @@
+// Unit tests for ShareLink component
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import ShareLink from './ShareLink';
+
+describe('ShareLink Component', () => {
+  const writeText = jest.fn();
+
+  beforeEach(() => {
+    writeText.mockReset().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+  });
+
+  test('should link to the verdict permalink', () => {
+    render(<ShareLink analysisId="3f2a9c1e-1111-2222-3333-444455556666" />);
+
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/verdict/3f2a9c1e-1111-2222-3333-444455556666');
+  });
+
+  test('should copy the absolute permalink', async () => {
+    render(<ShareLink analysisId="3f2a9c1e-1111-2222-3333-444455556666" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy link' }));
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Link copied' })).toBeInTheDocument());
+    expect(writeText).toHaveBeenCalledWith(`${window.location.origin}/verdict/3f2a9c1e-1111-2222-3333-444455556666`);
+  });
+
+  test('should carry adjusted weights in the permalink', () => {
+    render(<ShareLink analysisId="3f2a9c1e-1111-2222-3333-444455556666" weights={{ speed: 2, cost: 0, scalability: 1 }} />);
+
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/verdict/3f2a9c1e-1111-2222-3333-444455556666?weights=speed:2,cost:0');
+  });
+});
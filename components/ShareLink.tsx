@@ -0,0 +1,60 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Link2, Check } from 'lucide-react';
+import { ShareLinkProps } from '@/lib/types';
+import { encodeWeights } from '@/lib/scoring';
+
+/**
+ * ShareLink Component
+ * 
+ * Shows the permalink of a saved verdict with a button that copies it,
+ * so the result can be pasted into a design doc. Adjusted slider weights
+ * travel in the `weights` query parameter.
+ */
+export default function ShareLink({ analysisId, weights = {} }: ShareLinkProps) {
+  const [copied, setCopied] = useState(false);
+  const [origin, setOrigin] = useState('');
+  const encodedWeights = encodeWeights(weights);
+  const path = `/verdict/${analysisId}${encodedWeights ? `?weights=${encodedWeights}` : ''}`;
+
+  // window is only available after hydration
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(`${origin}${path}`);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy permalink:', error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center justify-center gap-2 text-sm">
+      <a
+        href={path}
+        className="inline-flex items-center gap-1 text-gray-400 hover:text-yellow-300 underline-offset-4 hover:underline focus:outline-none focus:ring-2 focus:ring-yellow-400 rounded px-1 break-all"
+      >
+        <Link2 className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+        {origin}{path}
+      </a>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-600 text-gray-300 hover:text-white hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 transition-colors duration-300"
+      >
+        {copied ? <Check className="w-4 h-4 text-green-400" aria-hidden="true" /> : null}
+        {copied ? 'Link copied' : 'Copy link'}
+      </button>
+    </div>
+  );
+}
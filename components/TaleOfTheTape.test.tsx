@@ -1,9 +1,10 @@
 // Unit tests for TaleOfTheTape component
 // Feature: tech-referee, Requirements 2.1, 2.2
 
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import TaleOfTheTape from './TaleOfTheTape';
-import { ComparisonMatrix } from '@/lib/types';
+import { ComparisonMatrix, ScoreMatrix } from '@/lib/types';
+import { getComparisonDimensions } from '@/lib/dimensions';
 
 describe('TaleOfTheTape Component', () => {
   const mockComparison: ComparisonMatrix = {
@@ -348,4 +349,129 @@ describe('TaleOfTheTape Component', () => {
       expect(screen.getByText(/100K\+ users/)).toBeInTheDocument();
     });
   });
-});
\ No newline at end of file
+
+  describe('Multi-way comparisons', () => {
+    test('should render one column per contender', () => {
+      const threeWay = (tech1: string, tech2: string, tech3: string) => ({ tech1, tech2, tech3 });
+      render(
+        <TaleOfTheTape
+          comparison={{
+            speed: threeWay('Fast joins', 'Fast document reads', 'Single-digit ms at any scale'),
+            cost: threeWay('$0 license', 'Atlas pricing', 'Pay per request'),
+            developerExperience: threeWay('SQL fluency', 'Schema-less start', 'Access-pattern modelling'),
+            scalability: threeWay('Vertical first', 'Built-in sharding', 'Managed partitions'),
+            maintainability: threeWay('Strict migrations', 'Schema drift risk', 'Single-table design debt')
+          }}
+          technology1="PostgreSQL"
+          technology2="MongoDB"
+          technologies={['PostgreSQL', 'MongoDB', 'DynamoDB']}
+        />
+      );
+
+      expect(screen.getByText('3-way comparison across key dimensions')).toBeInTheDocument();
+      expect(screen.getByTitle('DynamoDB')).toBeInTheDocument();
+      expect(screen.getByText('Single-digit ms at any scale')).toBeInTheDocument();
+      expect(screen.getByText('Single-table design debt')).toBeInTheDocument();
+    });
+  });
+
+  describe('Category dimensions', () => {
+    test('should render the rows of the dimension set it is given', () => {
+      const dimensions = getComparisonDimensions('database');
+      render(
+        <TaleOfTheTape
+          comparison={Object.fromEntries(dimensions.map(dimension => [
+            dimension.key,
+            { tech1: `PostgreSQL ${dimension.key}`, tech2: `MySQL ${dimension.key}` }
+          ]))}
+          technology1="PostgreSQL"
+          technology2="MySQL"
+          dimensions={dimensions}
+        />
+      );
+
+      expect(screen.getByText('Consistency Model')).toBeInTheDocument();
+      expect(screen.getByText('Transactions, isolation and consistency guarantees')).toBeInTheDocument();
+      expect(screen.getByText('MySQL queryFlexibility')).toBeInTheDocument();
+      expect(screen.queryByText('Developer Experience')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Scores', () => {
+    // React leads on speed and DX, Angular on everything else
+    const scores: ScoreMatrix = {
+      speed: { tech1: { score: 9, confidence: 0.8 }, tech2: { score: 5, confidence: 0.6 } },
+      cost: { tech1: { score: 8, confidence: 0.9 }, tech2: { score: 8, confidence: 0.9 } },
+      developerExperience: { tech1: { score: 8, confidence: 0.7 }, tech2: { score: 5, confidence: 0.7 } },
+      scalability: { tech1: { score: 6, confidence: 0.6 }, tech2: { score: 9, confidence: 0.8 } },
+      maintainability: { tech1: { score: 6, confidence: 0.6 }, tech2: { score: 8, confidence: 0.7 } }
+    };
+
+    test('should show each score as a bar with its confidence', () => {
+      render(<TaleOfTheTape comparison={mockComparison} technology1={technology1} technology2={technology2} scores={scores} />);
+
+      const bar = screen.getByRole('meter', { name: 'Speed score for React' });
+      expect(bar).toHaveAttribute('aria-valuenow', '9');
+      expect(bar).toHaveAttribute('aria-valuetext', '9 out of 10, 80% confidence');
+      // Five rows plus the weighted total
+      expect(screen.getAllByRole('meter', { name: /score for Angular$/ })).toHaveLength(6);
+      expect(screen.getByText('Scores run from 1 to 10, where 10 is the strongest on that dimension')).toBeInTheDocument();
+    });
+
+    test('should total the scores and re-rank when the weights change', () => {
+      const { rerender } = render(
+        <TaleOfTheTape comparison={mockComparison} technology1={technology1} technology2={technology2} scores={scores} />
+      );
+      expect(screen.getByRole('meter', { name: 'Weighted score for React' })).toHaveAttribute('aria-valuenow', '7.4');
+      expect(screen.getByRole('meter', { name: 'Weighted score for Angular' })).toHaveAttribute('aria-valuenow', '7');
+
+      rerender(
+        <TaleOfTheTape
+          comparison={mockComparison}
+          technology1={technology1}
+          technology2={technology2}
+          scores={scores}
+          weights={{ speed: 0, developerExperience: 0 }}
+        />
+      );
+      expect(screen.getByRole('meter', { name: 'Weighted score for React' })).toHaveAttribute('aria-valuenow', '6.7');
+      expect(screen.getByRole('meter', { name: 'Weighted score for Angular' })).toHaveAttribute('aria-valuenow', '8.3');
+    });
+
+    test('should mark the rows that decide the lead', () => {
+      render(
+        <TaleOfTheTape
+          comparison={mockComparison}
+          technology1={technology1}
+          technology2={technology2}
+          scores={scores}
+          decidingDimensions={['speed', 'developerExperience']}
+        />
+      );
+
+      expect(screen.getAllByText('Decides the lead')).toHaveLength(2);
+    });
+
+    test('should switch between the table and a radar chart', () => {
+      render(<TaleOfTheTape comparison={mockComparison} technology1={technology1} technology2={technology2} scores={scores} />);
+      expect(screen.getByRole('button', { name: 'Table' })).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Radar' }));
+      expect(screen.getByRole('img', { name: /^Radar chart of React, Angular/ })).toBeInTheDocument();
+      expect(screen.queryByRole('meter')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Table' }));
+      expect(screen.queryByRole('img', { name: /^Radar chart/ })).not.toBeInTheDocument();
+      expect(screen.getByRole('meter', { name: 'Speed score for React' })).toBeInTheDocument();
+    });
+
+    test('should leave out bars and totals when the scores are missing or incomplete', () => {
+      const withoutSpeed = Object.fromEntries(Object.entries(scores).filter(([key]) => key !== 'speed')) as ScoreMatrix;
+      render(<TaleOfTheTape comparison={mockComparison} technology1={technology1} technology2={technology2} scores={withoutSpeed} />);
+
+      expect(screen.queryByRole('meter')).not.toBeInTheDocument();
+      expect(screen.queryByLabelText('Weighted scores')).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Radar' })).not.toBeInTheDocument();
+    });
+  });
+});
@@ -1,56 +1,141 @@
 'use client';
 
-import React from 'react';
-import { TaleOfTheTapeProps } from '@/lib/types';
-import { Zap, DollarSign, Code, TrendingUp, Wrench } from 'lucide-react';
+import React, { useState } from 'react';
+import { contenderKey, DimensionIcon, isScoreMatrix, TaleOfTheTapeProps } from '@/lib/types';
+import { GENERAL_DIMENSIONS } from '@/lib/dimensions';
+import { formatScore, pickLeader, scoreContenders } from '@/lib/scoring';
+import RadarChart from './RadarChart';
+import {
+  Zap,
+  DollarSign,
+  Code,
+  TrendingUp,
+  Wrench,
+  Shield,
+  GitMerge,
+  Search,
+  Globe,
+  Lock,
+  Package,
+  Palette,
+  Layers,
+  Bug,
+  Cpu,
+  Clock,
+  Users,
+  Table2,
+  Radar,
+  LucideIcon
+} from 'lucide-react';
+
+const DIMENSION_ICONS: Record<DimensionIcon, LucideIcon> = {
+  'zap': Zap,
+  'dollar-sign': DollarSign,
+  'code': Code,
+  'trending-up': TrendingUp,
+  'wrench': Wrench,
+  'shield': Shield,
+  'git-merge': GitMerge,
+  'search': Search,
+  'globe': Globe,
+  'lock': Lock,
+  'package': Package,
+  'palette': Palette,
+  'layers': Layers,
+  'bug': Bug,
+  'cpu': Cpu,
+  'clock': Clock,
+  'users': Users
+};
+
+// Icon colors by row, so every dimension set keeps the same palette
+const ROW_ICON_COLORS = ['text-yellow-400', 'text-green-400', 'text-blue-400', 'text-purple-400', 'text-orange-400'];
+
+// Grid classes per contender count, spelled out so Tailwind can see them
+const LAYOUTS: Record<number, { row: string; span: string; values: string }> = {
+  2: { row: 'lg:grid-cols-3', span: 'lg:col-span-2', values: 'sm:grid-cols-2' },
+  3: { row: 'lg:grid-cols-4', span: 'lg:col-span-3', values: 'sm:grid-cols-3' },
+  4: { row: 'lg:grid-cols-5', span: 'lg:col-span-4', values: 'sm:grid-cols-2 lg:grid-cols-4' },
+  5: { row: 'lg:grid-cols-6', span: 'lg:col-span-5', values: 'sm:grid-cols-2 lg:grid-cols-5' }
+};
+
+// Score bar colors by band: 1-3, 4-6 and 7-10
+const SCORE_BAR_COLORS = {
+  low: 'bg-red-400',
+  medium: 'bg-yellow-400',
+  high: 'bg-green-400'
+};
+
+function scoreBand(score: number): keyof typeof SCORE_BAR_COLORS {
+  return score >= 7 ? 'high' : score >= 4 ? 'medium' : 'low';
+}
+
+/**
+ * A 1-10 score as a bar with its value and confidence underneath
+ */
+function ScoreBar({ label, score, confidence }: { label: string; score: number; confidence: number }) {
+  const percent = Math.round(confidence * 100);
+  return (
+    <div className="mt-2">
+      <div
+        className="h-1.5 w-full bg-gray-700 rounded-full overflow-hidden"
+        role="meter"
+        aria-label={label}
+        aria-valuemin={1}
+        aria-valuemax={10}
+        aria-valuenow={Math.round(score * 10) / 10}
+        aria-valuetext={`${formatScore(score)} out of 10, ${percent}% confidence`}
+      >
+        <div className={`h-full rounded-full ${SCORE_BAR_COLORS[scoreBand(score)]}`} style={{ width: `${score * 10}%` }} />
+      </div>
+      <div className="mt-1 flex justify-between gap-2 text-gray-400 text-xs">
+        <span>{formatScore(score)}/10</span>
+        <span>{percent}% confidence</span>
+      </div>
+    </div>
+  );
+}
+
+type TapeView = 'table' | 'radar';
+
+const VIEW_OPTIONS: { view: TapeView; label: string; icon: LucideIcon }[] = [
+  { view: 'table', label: 'Table', icon: Table2 },
+  { view: 'radar', label: 'Radar', icon: Radar }
+];
+
+const VALUE_DELAYS = ['animate-delay-100', 'animate-delay-200', 'animate-delay-300', 'animate-delay-300', 'animate-delay-500'];
 
 /**
  * TaleOfTheTape Component
  * 
  * Renders a structured comparison table showing Speed, Cost, Developer Experience, 
  * Scalability, and Maintainability with specific descriptors and high contrast styling.
+ * Renders one column per contender for multi-way comparisons, and the
+ * category's own rows when `dimensions` is given. With `scores`, each
+ * descriptor gets a 1-10 bar and the table ends with a weighted total per
+ * contender, recomputed whenever `weights` change. Rows listed in
+ * `decidingDimensions` are highlighted as the ones deciding the lead.
+ * Scored comparisons can switch between the table and a radar chart.
  * Implements Requirements 2.1, 2.2 from the Tech Referee specification.
  */
 export default function TaleOfTheTape({ 
   comparison, 
   technology1, 
-  technology2 
+  technology2,
+  technologies,
+  dimensions = GENERAL_DIMENSIONS,
+  scores,
+  weights,
+  decidingDimensions = []
 }: TaleOfTheTapeProps) {
+  const contenders = technologies && technologies.length > 2 ? technologies : [technology1, technology2];
+  const layout = LAYOUTS[contenders.length] || LAYOUTS[2];
+  const scored = isScoreMatrix(scores, contenders.length, dimensions) ? scores : undefined;
+  const totals = scored ? scoreContenders(scored, contenders, dimensions, weights) : [];
+  const leader = totals.length > 0 ? pickLeader(totals) : undefined;
+  const [view, setView] = useState<TapeView>('table');
+  const showRadar = scored !== undefined && view === 'radar';
   
-  // Comparison dimensions with their icons and labels
-  const dimensions = [
-    {
-      key: 'speed' as keyof typeof comparison,
-      label: 'Speed',
-      icon: <Zap className="w-4 h-4 sm:w-5 sm:h-5 text-yellow-400" />,
-      description: 'Development velocity and performance'
-    },
-    {
-      key: 'cost' as keyof typeof comparison,
-      label: 'Cost',
-      icon: <DollarSign className="w-4 h-4 sm:w-5 sm:h-5 text-green-400" />,
-      description: 'Financial investment and operational expenses'
-    },
-    {
-      key: 'developerExperience' as keyof typeof comparison,
-      label: 'Developer Experience',
-      icon: <Code className="w-4 h-4 sm:w-5 sm:h-5 text-blue-400" />,
-      description: 'Learning curve and development ergonomics'
-    },
-    {
-      key: 'scalability' as keyof typeof comparison,
-      label: 'Scalability',
-      icon: <TrendingUp className="w-4 h-4 sm:w-5 sm:h-5 text-purple-400" />,
-      description: 'Growth handling and performance at scale'
-    },
-    {
-      key: 'maintainability' as keyof typeof comparison,
-      label: 'Maintainability',
-      icon: <Wrench className="w-4 h-4 sm:w-5 sm:h-5 text-orange-400" />,
-      description: 'Long-term code health and updates'
-    }
-  ];
-
   return (
     <div className="w-full">
       {/* Header */}
@@ -60,100 +145,166 @@ export default function TaleOfTheTape({
           The Tale of the Tape
         </h2>
         <p className="text-gray-400 text-sm sm:text-base lg:text-lg">
-          Head-to-head comparison across key dimensions
+          {contenders.length > 2 ? `${contenders.length}-way` : 'Head-to-head'} comparison across key dimensions
         </p>
       </div>
 
+      {/* View Toggle */}
+      {scored && (
+        <div className="mb-4 flex justify-end print:hidden">
+          <div className="inline-flex rounded-lg border border-gray-600 overflow-hidden" role="group" aria-label="Tale of the Tape view">
+            {VIEW_OPTIONS.map(({ view: option, label, icon: Icon }) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                aria-pressed={view === option}
+                className={`inline-flex items-center gap-1 px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-inset focus:ring-yellow-400 transition-colors duration-300 ${
+                  view === option ? 'bg-yellow-400 text-gray-900 font-semibold' : 'text-gray-300 hover:text-white'
+                }`}
+              >
+                <Icon className="w-4 h-4" aria-hidden="true" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Radar Chart */}
+      {showRadar && (
+        <div className="gradient-border hover-lift animate-fade-in">
+          <div className="bg-gray-800 rounded-lg p-4 sm:p-6 shadow-xl">
+            <RadarChart
+              dimensions={dimensions}
+              technologies={contenders}
+              scores={scored}
+              decidingDimensions={decidingDimensions}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Comparison Table */}
-      <div className="gradient-border hover-lift animate-fade-in animate-delay-200">
-        <div className="bg-gray-800 rounded-lg overflow-hidden shadow-xl">
-          {/* Table Header */}
-          <div className="bg-gray-900 px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-700">
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
-              <div className="text-gray-400 font-medium text-xs sm:text-sm uppercase tracking-wide lg:block hidden">
-                Dimension
-              </div>
-              <div className="text-center lg:text-center">
-                <div className="text-white font-semibold text-base sm:text-lg lg:text-xl truncate gradient-text" title={technology1}>
-                  {technology1}
-                </div>
-              </div>
-              <div className="text-center lg:text-center">
-                <div className="text-white font-semibold text-base sm:text-lg lg:text-xl truncate gradient-text" title={technology2}>
-                  {technology2}
+      {!showRadar && (
+        <div className="gradient-border hover-lift animate-fade-in animate-delay-200">
+          <div className="bg-gray-800 rounded-lg overflow-hidden shadow-xl">
+            {/* Table Header */}
+            <div className="bg-gray-900 px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-700">
+              <div className={`grid grid-cols-1 ${layout.row} gap-4`}>
+                <div className="text-gray-400 font-medium text-xs sm:text-sm uppercase tracking-wide lg:block hidden">
+                  Dimension
                 </div>
+                {contenders.map((technology, contenderIndex) => (
+                  <div key={contenderIndex} className="text-center lg:text-center">
+                    <div className="text-white font-semibold text-base sm:text-lg lg:text-xl truncate gradient-text" title={technology}>
+                      {technology}
+                    </div>
+                  </div>
+                ))}
               </div>
             </div>
-          </div>
 
-          {/* Table Body */}
-          <div className="divide-y divide-gray-700">
-            {dimensions.map((dimension, index) => {
-              const tech1Value = comparison[dimension.key].tech1;
-              const tech2Value = comparison[dimension.key].tech2;
-              
-              return (
-                <div 
-                  key={dimension.key}
-                  className={`px-4 sm:px-6 py-4 sm:py-5 hover:bg-gray-750 transition-all duration-300 animate-fade-in ${
-                    index % 2 === 0 ? 'bg-gray-800' : 'bg-gray-825'
-                  }`}
-                  style={{ animationDelay: `${index * 100}ms` }}
-                >
-                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
-                    {/* Dimension Label */}
-                    <div className="flex items-start gap-3 lg:mb-0 mb-3">
-                      <div className="flex-shrink-0 mt-0.5 animate-pulse-slow" aria-hidden="true">
-                        {dimension.icon}
-                      </div>
-                      <div className="min-w-0 flex-1">
-                        <div className="text-white font-semibold text-sm sm:text-base lg:text-lg">
-                          {dimension.label}
+            {/* Table Body */}
+            <div className="divide-y divide-gray-700">
+              {dimensions.map((dimension, index) => {
+                const Icon = DIMENSION_ICONS[dimension.icon];
+                const values = contenders.map((_, contenderIndex) => comparison[dimension.key]?.[contenderKey(contenderIndex)]);
+                const deciding = scored !== undefined && decidingDimensions.includes(dimension.key);
+                
+                return (
+                  <div 
+                    key={dimension.key}
+                    className={`px-4 sm:px-6 py-4 sm:py-5 hover:bg-gray-750 transition-all duration-300 animate-fade-in print:break-inside-avoid ${
+                      index % 2 === 0 ? 'bg-gray-800' : 'bg-gray-825'
+                    } ${deciding ? 'ring-2 ring-inset ring-yellow-500/60' : ''}`}
+                    style={{ animationDelay: `${index * 100}ms` }}
+                    data-deciding={deciding || undefined}
+                  >
+                    <div className={`grid grid-cols-1 ${layout.row} gap-4`}>
+                      {/* Dimension Label */}
+                      <div className="flex items-start gap-3 lg:mb-0 mb-3">
+                        <div className="flex-shrink-0 mt-0.5 animate-pulse-slow" aria-hidden="true">
+                          <Icon className={`w-4 h-4 sm:w-5 sm:h-5 ${ROW_ICON_COLORS[index % ROW_ICON_COLORS.length]}`} />
                         </div>
-                        <div className="text-gray-400 text-xs sm:text-sm mt-1">
-                          {dimension.description}
+                        <div className="min-w-0 flex-1">
+                          <div className="text-white font-semibold text-sm sm:text-base lg:text-lg">
+                            {dimension.label}
+                          </div>
+                          {deciding && (
+                            <span className="inline-block mt-1 px-2 py-0.5 rounded-full bg-yellow-900/50 border border-yellow-500/40 text-yellow-300 text-xs font-semibold">
+                              Decides the lead
+                            </span>
+                          )}
+                          <div className="text-gray-400 text-xs sm:text-sm mt-1">
+                            {dimension.description}
+                          </div>
                         </div>
                       </div>
-                    </div>
 
-                    {/* Technology Values Container */}
-                    <div className="lg:col-span-2 grid grid-cols-1 sm:grid-cols-2 gap-3 lg:gap-4">
-                      {/* Technology 1 Value */}
-                      <div className="animate-fade-in animate-delay-100">
-                        <div className="lg:hidden text-gray-400 text-xs font-medium mb-1 uppercase tracking-wide">
-                          {technology1}
-                        </div>
-                        <div className="bg-gray-900 rounded-lg px-3 sm:px-4 py-2 sm:py-3 border border-gray-600 hover:border-gray-500 transition-all duration-300 hover:shadow-lg hover:bg-gray-850">
-                          <div className="text-white font-medium text-xs sm:text-sm lg:text-base leading-relaxed">
-                            {tech1Value}
+                      {/* Technology Values Container */}
+                      <div className={`${layout.span} grid grid-cols-1 ${layout.values} gap-3 lg:gap-4`}>
+                        {contenders.map((technology, contenderIndex) => (
+                          <div key={contenderIndex} className={`animate-fade-in ${VALUE_DELAYS[contenderIndex]}`}>
+                            <div className="lg:hidden text-gray-400 text-xs font-medium mb-1 uppercase tracking-wide">
+                              {technology}
+                            </div>
+                            <div className="bg-gray-900 rounded-lg px-3 sm:px-4 py-2 sm:py-3 border border-gray-600 hover:border-gray-500 transition-all duration-300 hover:shadow-lg hover:bg-gray-850">
+                              <div className="text-white font-medium text-xs sm:text-sm lg:text-base leading-relaxed">
+                                {values[contenderIndex]}
+                              </div>
+                              {scored && (
+                                <ScoreBar
+                                  label={`${dimension.label} score for ${technology}`}
+                                  {...scored[dimension.key][contenderKey(contenderIndex)]}
+                                />
+                              )}
+                            </div>
                           </div>
-                        </div>
+                        ))}
                       </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
 
-                      {/* Technology 2 Value */}
-                      <div className="animate-fade-in animate-delay-200">
-                        <div className="lg:hidden text-gray-400 text-xs font-medium mb-1 uppercase tracking-wide">
-                          {technology2}
-                        </div>
-                        <div className="bg-gray-900 rounded-lg px-3 sm:px-4 py-2 sm:py-3 border border-gray-600 hover:border-gray-500 transition-all duration-300 hover:shadow-lg hover:bg-gray-850">
-                          <div className="text-white font-medium text-xs sm:text-sm lg:text-base leading-relaxed">
-                            {tech2Value}
-                          </div>
+            {/* Weighted Totals */}
+            {leader && (
+              <div className="bg-gray-900 px-4 sm:px-6 py-4 sm:py-5 border-t border-gray-700" aria-label="Weighted scores">
+                <div className={`grid grid-cols-1 ${layout.row} gap-4`}>
+                  <div className="text-white font-semibold text-sm sm:text-base lg:text-lg">
+                    Weighted Score
+                  </div>
+                  <div className={`${layout.span} grid grid-cols-1 ${layout.values} gap-3 lg:gap-4`}>
+                    {totals.map(total => (
+                      <div
+                        key={total.technology}
+                        className={`rounded-lg px-3 sm:px-4 py-2 border ${total === leader ? 'border-yellow-500/60' : 'border-gray-600'}`}
+                      >
+                        <div className="flex items-baseline justify-between gap-2">
+                          <span className="text-gray-300 text-xs sm:text-sm truncate" title={total.technology}>{total.technology}</span>
+                          <span className={`font-bold text-base sm:text-lg ${total === leader ? 'text-yellow-300' : 'text-white'}`}>
+                            {formatScore(total.score)}
+                          </span>
                         </div>
+                        <ScoreBar label={`Weighted score for ${total.technology}`} score={total.score} confidence={total.confidence} />
                       </div>
-                    </div>
+                    ))}
                   </div>
                 </div>
-              );
-            })}
+              </div>
+            )}
           </div>
         </div>
-      </div>
+      )}
 
       {/* Footer Note */}
       <div className="mt-3 lg:mt-4 text-center animate-fade-in animate-delay-500">
         <p className="text-gray-500 text-xs sm:text-sm">
-          Specific descriptors based on real-world usage patterns and constraints
+          {scored
+            ? 'Scores run from 1 to 10, where 10 is the strongest on that dimension'
+            : 'Specific descriptors based on real-world usage patterns and constraints'}
         </p>
       </div>
     </div>
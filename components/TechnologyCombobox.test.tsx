@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import TechnologyCombobox from './TechnologyCombobox';
+import { TechnologyComboboxProps, TechnologySuggestion } from '@/lib/types';
+
+const SUGGESTIONS: TechnologySuggestion[] = [
+  { name: 'PostgreSQL', category: 'database', categoryLabel: 'database' },
+  { name: 'PostCSS', category: 'styling', categoryLabel: 'styling library' },
+  { name: 'Postman', category: 'testing', categoryLabel: 'testing tool' }
+];
+
+/**
+ * Controlled wrapper, since the combobox does not keep its own value
+ */
+function Harness({ onChange, ...props }: Partial<TechnologyComboboxProps>) {
+  const [value, setValue] = useState('');
+  return (
+    <TechnologyCombobox
+      id="tech"
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange?.(next);
+      }}
+      {...props}
+    />
+  );
+}
+
+describe('TechnologyCombobox', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    global.fetch = jest.fn().mockResolvedValue({
+      json: async () => ({ success: true, data: SUGGESTIONS })
+    }) as jest.Mock;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const typeAndWait = async (text: string) => {
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: text } });
+    await act(async () => {
+      jest.advanceTimersByTime(200);
+    });
+  };
+
+  it('lists matches with their categories after a pause in typing', async () => {
+    render(<Harness />);
+    const input = screen.getByRole('combobox');
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+
+    await typeAndWait('post');
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/technologies?q=post');
+    expect(input).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getAllByRole('option')).toHaveLength(3);
+    expect(screen.getByRole('option', { name: /PostCSS styling library/ })).toBeInTheDocument();
+  });
+
+  it('moves through options with the arrow keys and picks one with Enter', async () => {
+    const onChange = jest.fn();
+    render(<Harness onChange={onChange} />);
+    await typeAndWait('post');
+    const input = screen.getByRole('combobox');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'ArrowUp' });
+    expect(input).toHaveAttribute('aria-activedescendant', 'tech-option-0');
+    expect(screen.getAllByRole('option')[0]).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onChange).toHaveBeenLastCalledWith('PostgreSQL');
+    expect(input).toHaveValue('PostgreSQL');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('closes on Escape and selects with the mouse', async () => {
+    render(<Harness />);
+    await typeAndWait('post');
+    const input = screen.getByRole('combobox');
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.mouseDown(screen.getByRole('option', { name: /Postman/ }));
+    expect(input).toHaveValue('Postman');
+  });
+
+  it('asks for the preferred category and hides names already chosen', async () => {
+    render(<Harness preferredCategory="database" exclude={['postgresql']} />);
+    await typeAndWait('post');
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/technologies?q=post&category=database');
+    expect(screen.queryByRole('option', { name: /PostgreSQL/ })).not.toBeInTheDocument();
+    expect(screen.getAllByRole('option')).toHaveLength(2);
+  });
+
+  it('stays a plain text input when suggestions are unavailable', async () => {
+    (global.fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+    render(<Harness />);
+    await typeAndWait('post');
+
+    expect(screen.getByRole('combobox')).toHaveValue('post');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+});
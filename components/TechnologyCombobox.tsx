@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useEffect, useRef, useState, KeyboardEvent } from 'react';
+import { TechnologyComboboxProps, TechnologySearchResponse, TechnologySuggestion } from '@/lib/types';
+
+// Wait for a pause in typing before asking the API
+const SEARCH_DELAY_MS = 150;
+
+/**
+ * TechnologyCombobox Component
+ *
+ * A text input with typeahead suggestions from GET /api/technologies,
+ * following the ARIA combobox pattern: arrow keys move through the listbox,
+ * Enter picks the highlighted technology and Escape closes the list.
+ */
+export default function TechnologyCombobox({
+  id,
+  value,
+  onChange,
+  onBlur,
+  placeholder,
+  disabled = false,
+  preferredCategory,
+  exclude = [],
+  describedBy,
+  invalid = false,
+  className = ''
+}: TechnologyComboboxProps) {
+  const [options, setOptions] = useState<TechnologySuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const latestSearch = useRef(0);
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>();
+  const listboxId = `${id}-listbox`;
+
+  useEffect(() => () => clearTimeout(searchTimer.current), []);
+
+  const excluded = exclude.map(name => name.trim().toLowerCase()).filter(Boolean);
+  const visibleOptions = options.filter(option => !excluded.includes(option.name.toLowerCase()));
+  const expanded = open && visibleOptions.length > 0;
+
+  /**
+   * Fetches suggestions for the text typed so far; only the latest search
+   * may update the list
+   */
+  const search = (query: string) => {
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(async () => {
+      const searchId = ++latestSearch.current;
+      try {
+        const params = new URLSearchParams({ q: query });
+        if (preferredCategory) {
+          params.set('category', preferredCategory);
+        }
+        const response = await fetch(`/api/technologies?${params}`);
+        const body: TechnologySearchResponse = await response.json();
+
+        if (searchId === latestSearch.current && body.success && body.data) {
+          setOptions(body.data);
+          setActiveIndex(-1);
+          setOpen(true);
+        }
+      } catch {
+        // Suggestions are a convenience; the input still works as plain text
+      }
+    }, SEARCH_DELAY_MS);
+  };
+
+  const select = (option: TechnologySuggestion) => {
+    onChange(option.name);
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        if (visibleOptions.length > 0) {
+          e.preventDefault();
+          setOpen(true);
+          setActiveIndex(index => (index + 1) % visibleOptions.length);
+        }
+        break;
+      case 'ArrowUp':
+        if (visibleOptions.length > 0) {
+          e.preventDefault();
+          setOpen(true);
+          setActiveIndex(index => (index <= 0 ? visibleOptions.length - 1 : index - 1));
+        }
+        break;
+      case 'Enter':
+        // Without a highlighted option Enter submits the form as usual
+        if (expanded && visibleOptions[activeIndex]) {
+          e.preventDefault();
+          select(visibleOptions[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        if (expanded) {
+          e.preventDefault();
+          setOpen(false);
+          setActiveIndex(-1);
+        }
+        break;
+      case 'Tab':
+        setOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-activedescendant={expanded && activeIndex >= 0 ? `${id}-option-${activeIndex}` : undefined}
+        aria-describedby={describedBy}
+        aria-invalid={invalid}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          search(e.target.value);
+        }}
+        onFocus={() => search(value)}
+        onBlur={() => {
+          // Drop pending searches so a late answer cannot reopen the list
+          clearTimeout(searchTimer.current);
+          latestSearch.current++;
+          setOpen(false);
+          onBlur?.();
+        }}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        placeholder={placeholder}
+        className={className}
+      />
+      {expanded && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label="Technology suggestions"
+          className="absolute z-20 mt-1 w-full max-h-64 overflow-auto rounded-lg border border-gray-600 bg-gray-900 shadow-xl"
+        >
+          {visibleOptions.map((option, index) => (
+            <li
+              key={option.name}
+              id={`${id}-option-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so blur validation does not fire first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(option);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between gap-3 px-4 py-2 cursor-pointer text-sm ${
+                index === activeIndex ? 'bg-gray-700 text-white' : 'text-gray-300'
+              }`}
+            >
+              <span>
+                {option.name}
+                {option.matchedAlias && <span className="text-gray-500"> ({option.matchedAlias})</span>}
+              </span>
+              <span className="text-xs text-gray-500">{option.categoryLabel}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
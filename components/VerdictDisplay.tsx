@@ -1,12 +1,38 @@
 'use client';
 
-import React from 'react';
-import { VerdictDisplayProps } from '@/lib/types';
+import React, { useState } from 'react';
+import { getContenders, isScoreMatrix, VerdictDisplayProps } from '@/lib/types';
+import { describeConstraints, hasConstraints } from '@/lib/constraints';
+import { getComparisonDimensions, UPGRADE_DIMENSIONS } from '@/lib/dimensions';
+import { DEFAULT_SCENARIOS } from '@/lib/scenarios';
+import { findDecidingDimensions, recommendForPersonas } from '@/lib/scoring';
 import TaleOfTheTape from './TaleOfTheTape';
 import ScenarioCards from './ScenarioCards';
 import HiddenTaxWarning from './HiddenTaxWarning';
+import WeightSliders from './WeightSliders';
+import ShareLink from './ShareLink';
+import ExportButtons from './ExportButtons';
 import { Gavel, HelpCircle } from 'lucide-react';
 
+/**
+ * Skeleton shown in place of a section that has not streamed in yet
+ */
+function SectionPlaceholder({ label }: { label: string }) {
+  return (
+    <div
+      className="bg-gray-800 rounded-lg p-6 lg:p-8 border border-gray-700 animate-pulse"
+      role="status"
+      aria-label={`${label} is on its way`}
+    >
+      <div className="h-5 sm:h-6 bg-gray-700 rounded w-1/3 mb-4"></div>
+      <div className="space-y-3">
+        <div className="h-4 bg-gray-700 rounded"></div>
+        <div className="h-4 bg-gray-700 rounded w-5/6"></div>
+      </div>
+    </div>
+  );
+}
+
 /**
  * VerdictDisplay Component
  * 
@@ -14,8 +40,30 @@ import { Gavel, HelpCircle } from 'lucide-react';
  * TaleOfTheTape, ScenarioCards, and HiddenTaxWarning components.
  * Implements scannable hierarchy with clear information flow.
  * Implements Requirements 2.3, 7.1 from the Tech Referee specification.
+ * While `streaming`, sections render as they arrive and placeholders hold
+ * the place of the rest. Upgrades between two versions of one technology
+ * get their own header, dimensions and hidden tax framing. When the
+ * analysis has scores, weight sliders re-rank the contenders and each
+ * persona's pick from them, without asking the referee again, and the
+ * share link and exports of a saved verdict (`analysisId`) carry the weights.
+ * Printed, the verdict drops its controls and switches to a light theme.
  */
-export default function VerdictDisplay({ analysis, loading = false }: VerdictDisplayProps) {
+export default function VerdictDisplay({
+  analysis,
+  loading = false,
+  streaming = false,
+  weights: initialWeights,
+  analysisId
+}: VerdictDisplayProps) {
+  const [weights, setWeights] = useState(initialWeights || {});
+  const contenders = getContenders(analysis.matchup);
+  const { upgrade } = analysis;
+  const dimensions = upgrade ? UPGRADE_DIMENSIONS : getComparisonDimensions(analysis.category);
+  const scores = isScoreMatrix(analysis.scores, contenders.length, dimensions) ? analysis.scores : undefined;
+  const recommendations = scores
+    ? recommendForPersonas(scores, contenders, dimensions, analysis.scenarioPersonas || DEFAULT_SCENARIOS, weights)
+    : undefined;
+  const decidingDimensions = scores ? findDecidingDimensions(scores, contenders, dimensions, weights) : [];
   
   if (loading) {
     return (
@@ -41,75 +89,156 @@ export default function VerdictDisplay({ analysis, loading = false }: VerdictDis
             The Tech Referee
           </h1>
         </div>
-        <div className="text-lg sm:text-xl lg:text-2xl text-gray-300 mb-2 lg:mb-4">
-          <span className="text-yellow-400 font-semibold animate-fade-in animate-delay-200">
-            {analysis.matchup.technology1}
-          </span>
-          <span className="mx-2 sm:mx-4 text-gray-500 animate-pulse">⚔️</span>
-          <span className="text-yellow-400 font-semibold animate-fade-in animate-delay-300">
-            {analysis.matchup.technology2}
-          </span>
-        </div>
+        {upgrade ? (
+          <div className="text-lg sm:text-xl lg:text-2xl text-gray-300 mb-2 lg:mb-4" aria-label={`Upgrade from ${contenders[0]} to ${contenders[1]}`}>
+            <span className="text-yellow-400 font-semibold animate-fade-in animate-delay-200">{contenders[0]}</span>
+            <span className="mx-2 sm:mx-4 text-gray-500" aria-hidden="true">→</span>
+            <span className="text-yellow-400 font-semibold animate-fade-in animate-delay-300">{contenders[1]}</span>
+          </div>
+        ) : (
+          <div className="text-lg sm:text-xl lg:text-2xl text-gray-300 mb-2 lg:mb-4">
+            {contenders.map((technology, index) => (
+              <React.Fragment key={index}>
+                {index > 0 && <span className="mx-2 sm:mx-4 text-gray-500 animate-pulse">⚔️</span>}
+                <span className={`text-yellow-400 font-semibold animate-fade-in ${index === 0 ? 'animate-delay-200' : 'animate-delay-300'}`}>
+                  {technology}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
         <p className="text-gray-400 max-w-3xl mx-auto text-sm sm:text-base lg:text-lg leading-relaxed animate-fade-in animate-delay-500">
-          An objective analysis of trade-offs, constraints, and hidden costs to help you make an informed decision.
+          {upgrade
+            ? `An upgrade review of ${upgrade.technology}: breaking changes, migration effort, and the cost of staying on ${upgrade.fromVersion}.`
+            : 'An objective analysis of trade-offs, constraints, and hidden costs to help you make an informed decision.'}
         </p>
+        {hasConstraints(analysis.constraints) && (
+          <div className="mt-4 max-w-3xl mx-auto animate-fade-in animate-delay-500" aria-label="Judged against your constraints">
+            <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">Judged against</p>
+            <ul className="flex flex-wrap justify-center gap-2">
+              {describeConstraints(analysis.constraints).map(line => (
+                <li key={line} className="px-3 py-1 rounded-full bg-gray-800 border border-gray-700 text-sm text-gray-300">
+                  {line}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </header>
 
       {/* Tale of the Tape Section */}
-      <section className="mb-8 lg:mb-12 animate-fade-in animate-delay-200" aria-labelledby="comparison-heading">
-        <div className="hover-lift">
-          <TaleOfTheTape 
-            comparison={analysis.taleOfTheTape}
-            technology1={analysis.matchup.technology1}
-            technology2={analysis.matchup.technology2}
+      {analysis.taleOfTheTape ? (
+        <section className="mb-8 lg:mb-12 animate-fade-in animate-delay-200" aria-labelledby="comparison-heading">
+          <div className="hover-lift">
+            <TaleOfTheTape 
+              comparison={analysis.taleOfTheTape}
+              technology1={analysis.matchup.technology1}
+              technology2={analysis.matchup.technology2}
+              technologies={contenders}
+              dimensions={dimensions}
+              scores={analysis.scores}
+              weights={weights}
+              decidingDimensions={decidingDimensions}
+            />
+          </div>
+        </section>
+      ) : streaming && (
+        <section className="mb-8 lg:mb-12">
+          <SectionPlaceholder label="The Tale of the Tape" />
+        </section>
+      )}
+
+      {/* Scenario Toggles Section */}
+      {scores && !streaming && (
+        <section className="mb-8 lg:mb-12 animate-fade-in animate-delay-200 print:hidden" aria-labelledby="weights-heading">
+          <WeightSliders
+            dimensions={dimensions}
+            technologies={contenders}
+            scores={scores}
+            weights={weights}
+            decidingDimensions={decidingDimensions}
+            onChange={setWeights}
           />
-        </div>
-      </section>
+        </section>
+      )}
 
       {/* Scenario Verdicts Section */}
-      <section className="mb-8 lg:mb-12 animate-fade-in animate-delay-300" aria-labelledby="scenarios-heading">
-        <div className="hover-lift">
-          <ScenarioCards scenarios={analysis.scenarios} />
-        </div>
-      </section>
+      {analysis.scenarios.length > 0 ? (
+        <section className="mb-8 lg:mb-12 animate-fade-in animate-delay-300" aria-labelledby="scenarios-heading">
+          <div className="hover-lift">
+            <ScenarioCards
+              scenarios={analysis.scenarios}
+              technologies={contenders}
+              personas={analysis.scenarioPersonas}
+              recommendations={recommendations}
+            />
+          </div>
+        </section>
+      ) : streaming && (
+        <section className="mb-8 lg:mb-12">
+          <SectionPlaceholder label="The Verdicts" />
+        </section>
+      )}
 
       {/* Hidden Tax Warning Section */}
-      <section className="mb-8 lg:mb-12 animate-fade-in animate-delay-500" aria-labelledby="warning-heading">
-        <div className="hover-lift">
-          <HiddenTaxWarning warning={analysis.hiddenTax} />
-        </div>
-      </section>
+      {analysis.hiddenTaxes && analysis.hiddenTaxes.length > 0 ? (
+        <section className="mb-8 lg:mb-12 animate-fade-in animate-delay-500" aria-labelledby="warning-heading">
+          <div className="hover-lift">
+            <HiddenTaxWarning taxes={analysis.hiddenTaxes} upgrade={upgrade} />
+          </div>
+        </section>
+      ) : streaming && (
+        <section className="mb-8 lg:mb-12">
+          <SectionPlaceholder label="The Hidden Tax" />
+        </section>
+      )}
 
       {/* Enhanced Tie-Breaker Section */}
-      <section className="mb-8 lg:mb-12 animate-scale-in animate-delay-500" aria-labelledby="tiebreaker-heading">
-        <div className="gradient-border hover-lift">
-          <div className="bg-gradient-to-r from-blue-900/30 to-purple-900/30 rounded-lg p-6 lg:p-8">
-            <div className="text-center">
-              <div className="flex items-center justify-center gap-3 mb-4 lg:mb-6">
-                <HelpCircle className="w-5 h-5 sm:w-6 sm:h-6 text-blue-400 animate-pulse-slow" aria-hidden="true" />
-                <h2 id="tiebreaker-heading" className="text-xl sm:text-2xl lg:text-3xl font-bold text-white">
-                  <span role="img" aria-label="Checkered flag">🏁</span> The Tie-Breaker
-                </h2>
-              </div>
-              <p className="text-gray-400 mb-4 lg:mb-6 max-w-3xl mx-auto text-sm sm:text-base lg:text-lg leading-relaxed">
-                One final question to help you make the decision that&apos;s right for your specific situation.
-              </p>
-              <div className="gradient-border">
-                <div className="bg-gray-900/50 rounded-lg p-4 sm:p-6 lg:p-8 max-w-4xl mx-auto">
-                  <p className="text-blue-300 text-base sm:text-lg lg:text-xl font-medium leading-relaxed animate-fade-in animate-delay-300">
-                    {analysis.tieBreaker}
-                  </p>
+      {analysis.tieBreaker ? (
+        <section className="mb-8 lg:mb-12 animate-scale-in animate-delay-500 print:break-inside-avoid" aria-labelledby="tiebreaker-heading">
+          <div className="gradient-border hover-lift">
+            <div className="bg-gradient-to-r from-blue-900/30 to-purple-900/30 rounded-lg p-6 lg:p-8">
+              <div className="text-center">
+                <div className="flex items-center justify-center gap-3 mb-4 lg:mb-6">
+                  <HelpCircle className="w-5 h-5 sm:w-6 sm:h-6 text-blue-400 animate-pulse-slow" aria-hidden="true" />
+                  <h2 id="tiebreaker-heading" className="text-xl sm:text-2xl lg:text-3xl font-bold text-white">
+                    <span role="img" aria-label="Checkered flag">🏁</span> The Tie-Breaker
+                  </h2>
                 </div>
-              </div>
-              <div className="mt-4 lg:mt-6 animate-fade-in animate-delay-500">
-                <p className="text-gray-500 text-xs sm:text-sm lg:text-base">
-                  Your answer to this question should guide your final choice between the two technologies.
+                <p className="text-gray-400 mb-4 lg:mb-6 max-w-3xl mx-auto text-sm sm:text-base lg:text-lg leading-relaxed">
+                  One final question to help you make the decision that&apos;s right for your specific situation.
                 </p>
+                <div className="gradient-border">
+                  <div className="bg-gray-900/50 rounded-lg p-4 sm:p-6 lg:p-8 max-w-4xl mx-auto">
+                    <p className="text-blue-300 text-base sm:text-lg lg:text-xl font-medium leading-relaxed animate-fade-in animate-delay-300">
+                      {analysis.tieBreaker}
+                    </p>
+                  </div>
+                </div>
+                <div className="mt-4 lg:mt-6 animate-fade-in animate-delay-500">
+                  <p className="text-gray-500 text-xs sm:text-sm lg:text-base">
+                    {upgrade
+                      ? 'Your answer to this question should decide whether to migrate now or later.'
+                      : `Your answer to this question should guide your final choice between ${contenders.length === 2 ? 'the two technologies' : `these ${contenders.length} technologies`}.`}
+                  </p>
+                </div>
               </div>
             </div>
           </div>
+        </section>
+      ) : streaming && (
+        <section className="mb-8 lg:mb-12">
+          <SectionPlaceholder label="The Tie-Breaker" />
+        </section>
+      )}
+
+      {/* Permalink and Exports of the saved verdict */}
+      {analysisId && !streaming && (
+        <div className="mb-8 lg:mb-12 space-y-4 animate-fade-in animate-delay-300 print:hidden">
+          <ShareLink analysisId={analysisId} weights={weights} />
+          <ExportButtons analysisId={analysisId} weights={weights} />
         </div>
-      </section>
+      )}
 
       {/* Enhanced Footer */}
       <footer className="text-center pt-6 lg:pt-8 border-t border-gray-700 animate-fade-in animate-delay-500">
@@ -0,0 +1,76 @@
+// Unit tests for WeightSliders component
+
+import { useState } from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import WeightSliders from './WeightSliders';
+import { GENERAL_DIMENSIONS } from '@/lib/dimensions';
+import { findDecidingDimensions } from '@/lib/scoring';
+import { DimensionWeights, ScoreMatrix } from '@/lib/types';
+
+describe('WeightSliders Component', () => {
+  // React leads on speed and DX, Vue on cost, scalability and maintainability
+  const scores: ScoreMatrix = {
+    speed: { tech1: { score: 9, confidence: 0.8 }, tech2: { score: 5, confidence: 0.8 } },
+    cost: { tech1: { score: 4, confidence: 0.8 }, tech2: { score: 8, confidence: 0.8 } },
+    developerExperience: { tech1: { score: 9, confidence: 0.8 }, tech2: { score: 6, confidence: 0.8 } },
+    scalability: { tech1: { score: 6, confidence: 0.8 }, tech2: { score: 7, confidence: 0.8 } },
+    maintainability: { tech1: { score: 6, confidence: 0.8 }, tech2: { score: 7, confidence: 0.8 } }
+  };
+  const technologies = ['React', 'Vue'];
+
+  // Holds the weights the way VerdictDisplay does
+  function Harness({ initialWeights = {} }: { initialWeights?: DimensionWeights }) {
+    const [weights, setWeights] = useState(initialWeights);
+    return (
+      <WeightSliders
+        dimensions={GENERAL_DIMENSIONS}
+        technologies={technologies}
+        scores={scores}
+        weights={weights}
+        decidingDimensions={findDecidingDimensions(scores, technologies, GENERAL_DIMENSIONS, weights)}
+        onChange={setWeights}
+      />
+    );
+  }
+
+  const ranking = () => within(screen.getByRole('list', { name: 'Ranking by weighted score' }))
+    .getAllByRole('listitem')
+    .map(item => item.textContent);
+
+  test('should show a slider per dimension starting at equal weights', () => {
+    render(<Harness />);
+
+    expect(screen.getByRole('heading', { name: 'Scenario Toggles' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Speed')).toHaveValue('1');
+    expect(screen.getByLabelText('Maintainability')).toHaveValue('1');
+    expect(screen.getByRole('button', { name: 'Reset weights' })).toBeDisabled();
+    expect(ranking()).toEqual(['1. React6.8/10', '2. Vue6.6/10']);
+    expect(screen.getByText('Decided by Speed, Developer Experience')).toBeInTheDocument();
+  });
+
+  test('should re-rank live as a slider moves', () => {
+    render(<Harness />);
+
+    fireEvent.change(screen.getByLabelText('Cost'), { target: { value: '5' } });
+
+    expect(screen.getByText('×5')).toBeInTheDocument();
+    expect(ranking()).toEqual(['1. Vue7.2/10', '2. React5.6/10']);
+    expect(screen.getByText('Decided by Cost')).toBeInTheDocument();
+  });
+
+  test('should reset to equal weights', () => {
+    render(<Harness initialWeights={{ speed: 0 }} />);
+    expect(screen.getByText('Ignored')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset weights' }));
+
+    expect(screen.getByLabelText('Speed')).toHaveValue('1');
+    expect(screen.queryByText('Ignored')).not.toBeInTheDocument();
+  });
+
+  test('should say when the weights leave the contenders level', () => {
+    render(<Harness initialWeights={{ developerExperience: 0, scalability: 0, maintainability: 0 }} />);
+
+    expect(screen.getByText('Too close to call on these weights')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,116 @@
+'use client';
+
+import React from 'react';
+import { WeightSlidersProps } from '@/lib/types';
+import { formatScore, normalizeWeights, rankContenders, SCORE_LIMITS, scoreContenders } from '@/lib/scoring';
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+
+// Rank badges, gold to neutral
+const RANK_STYLES = [
+  'border-yellow-500/60 text-yellow-300',
+  'border-gray-500 text-gray-200',
+  'border-gray-600 text-gray-400'
+];
+
+/**
+ * WeightSliders Component
+ *
+ * The "Scenario Toggles" panel: one slider per Tale of the Tape dimension,
+ * from 0 (ignore it) to 5. Moving a slider re-ranks the contenders straight
+ * from the saved scores and names the rows that decide the lead.
+ */
+export default function WeightSliders({
+  dimensions,
+  technologies,
+  scores,
+  weights,
+  decidingDimensions = [],
+  onChange
+}: WeightSlidersProps) {
+  const normalized = normalizeWeights(weights, dimensions);
+  const ranking = rankContenders(scoreContenders(scores, technologies, dimensions, weights));
+  const adjusted = dimensions.some(({ key }) => normalized[key] !== 1);
+  const deciding = dimensions.filter(({ key }) => decidingDimensions.includes(key));
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <div className="mb-4 lg:mb-6 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 id="weights-heading" className="text-xl sm:text-2xl lg:text-3xl font-bold text-white mb-2 flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 sm:w-6 sm:h-6 text-yellow-400" aria-hidden="true" />
+            Scenario Toggles
+          </h2>
+          <p className="text-gray-400 text-sm sm:text-base lg:text-lg">
+            Weigh what matters to your team; the ranking updates from the scores
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange({})}
+          disabled={!adjusted}
+          className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-600 text-gray-300 text-sm hover:text-white hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 transition-colors duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <RotateCcw className="w-4 h-4" aria-hidden="true" />
+          Reset weights
+        </button>
+      </div>
+
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 sm:p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Sliders */}
+        <div className="lg:col-span-2 space-y-4">
+          {dimensions.map(dimension => {
+            const id = `weight-${dimension.key}`;
+            return (
+              <div key={dimension.key}>
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <label htmlFor={id} className="text-white font-medium text-sm sm:text-base">
+                    {dimension.label}
+                  </label>
+                  <span className="text-gray-400 text-xs sm:text-sm tabular-nums">
+                    {normalized[dimension.key] === 0 ? 'Ignored' : `×${normalized[dimension.key]}`}
+                  </span>
+                </div>
+                <input
+                  id={id}
+                  type="range"
+                  min={SCORE_LIMITS.minWeight}
+                  max={SCORE_LIMITS.maxWeight}
+                  step={0.5}
+                  value={normalized[dimension.key]}
+                  onChange={event => onChange({ ...weights, [dimension.key]: Number(event.target.value) })}
+                  className="w-full accent-yellow-400"
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Live Ranking */}
+        <div>
+          <h3 className="text-gray-300 text-xs sm:text-sm font-medium uppercase tracking-wide mb-3">
+            Ranking
+          </h3>
+          <ol className="space-y-2" aria-label="Ranking by weighted score">
+            {ranking.map((total, index) => (
+              <li
+                key={total.technology}
+                className={`flex items-center justify-between gap-2 border rounded-lg px-3 py-2 ${RANK_STYLES[Math.min(index, RANK_STYLES.length - 1)]}`}
+              >
+                <span className="font-semibold truncate" title={total.technology}>
+                  {index + 1}. {total.technology}
+                </span>
+                <span className="tabular-nums">{formatScore(total.score)}/10</span>
+              </li>
+            ))}
+          </ol>
+          <p className="mt-3 text-gray-400 text-xs sm:text-sm" aria-live="polite">
+            {deciding.length > 0
+              ? `Decided by ${deciding.map(dimension => dimension.label).join(', ')}`
+              : 'Too close to call on these weights'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
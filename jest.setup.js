@@ -1 +1,7 @@
-import '@testing-library/jest-dom'
\ No newline at end of file
+import '@testing-library/jest-dom'
+
+// Keep saved analyses in memory instead of writing .data/ during tests
+process.env.ANALYSIS_STORE = process.env.ANALYSIS_STORE || 'memory'
+
+// Every test starts without cached verdicts; cache tests opt back in
+process.env.REFEREE_CACHE = process.env.REFEREE_CACHE || 'off'
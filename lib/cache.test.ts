@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the LLM response cache
+import * as fc from 'fast-check';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  buildCacheKey,
+  CacheKeyParts,
+  clearResponseCache,
+  createMemoryCacheBackend,
+  readCachedResponse,
+  writeCachedResponse
+} from './cache';
+
+const ORIGINAL_ENV = process.env;
+
+const baseParts: CacheKeyParts = {
+  technologies: ['React', 'Vue'],
+  outputFormat: 'markdown',
+  promptVersion: '1',
+  model: 'gemini/gemini-2.5-flash'
+};
+
+describe('buildCacheKey', () => {
+  it('ignores contender order and case', () => {
+    fc.assert(
+      fc.property(fc.shuffledSubarray(['React', 'Vue', 'Svelte', 'Angular'], { minLength: 2 }), technologies => {
+        const reversed = [...technologies].reverse().map(tech => tech.toUpperCase());
+        expect(buildCacheKey({ ...baseParts, technologies })).toBe(buildCacheKey({ ...baseParts, technologies: reversed }));
+      })
+    );
+  });
+
+  it('changes with the prompt version, model, output format and constraints', () => {
+    const key = buildCacheKey(baseParts);
+
+    expect(buildCacheKey({ ...baseParts, promptVersion: '2' })).not.toBe(key);
+    expect(buildCacheKey({ ...baseParts, model: 'openai/gpt-4o-mini' })).not.toBe(key);
+    expect(buildCacheKey({ ...baseParts, outputFormat: 'json' })).not.toBe(key);
+    expect(buildCacheKey({ ...baseParts, constraints: { teamSize: 3 } })).not.toBe(key);
+    expect(buildCacheKey({ ...baseParts, technologies: ['React', 'Svelte'] })).not.toBe(key);
+  });
+});
+
+describe('memory cache backend', () => {
+  it('evicts the least recently used entry', async () => {
+    const backend = createMemoryCacheBackend(2);
+    const entry = (response: string) => ({ response, technologies: ['A', 'B'], storedAt: 0 });
+
+    await backend.set('a', entry('a'));
+    await backend.set('b', entry('b'));
+    await backend.get('a');
+    await backend.set('c', entry('c'));
+
+    expect(await backend.get('a')).not.toBeNull();
+    expect(await backend.get('b')).toBeNull();
+    expect(await backend.get('c')).not.toBeNull();
+  });
+});
+
+describe('readCachedResponse / writeCachedResponse', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'referee-cache-'));
+    process.env = { ...ORIGINAL_ENV, REFEREE_CACHE: 'on', REFEREE_CACHE_TTL_SECONDS: '60' };
+    clearResponseCache();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.env = ORIGINAL_ENV;
+    clearResponseCache();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('returns fresh entries with their age and drops expired ones', async () => {
+    jest.useFakeTimers({ now: new Date('2024-05-01T12:00:00Z') });
+    await writeCachedResponse('key', 'verdict text', ['React', 'Vue']);
+
+    jest.setSystemTime(new Date('2024-05-01T12:00:30Z'));
+    expect(await readCachedResponse('key')).toEqual({
+      entry: { response: 'verdict text', technologies: ['React', 'Vue'], storedAt: Date.parse('2024-05-01T12:00:00Z') },
+      ageSeconds: 30
+    });
+
+    jest.setSystemTime(new Date('2024-05-01T12:01:01Z'));
+    expect(await readCachedResponse('key')).toBeNull();
+  });
+
+  it('falls back to the disk tier after the memory tier is cleared', async () => {
+    process.env.REFEREE_CACHE_DIR = directory;
+    await writeCachedResponse('key', 'verdict text', ['React', 'Vue']);
+    clearResponseCache();
+
+    expect((await readCachedResponse('key'))?.entry.response).toBe('verdict text');
+  });
+
+  it('does nothing when REFEREE_CACHE is off', async () => {
+    process.env.REFEREE_CACHE = 'off';
+    await writeCachedResponse('key', 'verdict text', ['React', 'Vue']);
+
+    process.env.REFEREE_CACHE = 'on';
+    expect(await readCachedResponse('key')).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+// Server-side cache of LLM responses for repeated matchups
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MatchupConstraints, OutputFormat, ScenarioPersona } from './types';
+
+/**
+ * A cached LLM response. `technologies` is the order the prompt used, so a
+ * hit for the same matchup in another order can be re-mapped.
+ */
+export interface CachedResponse {
+  response: string;
+  technologies: string[];
+  /** Epoch milliseconds when the response was cached */
+  storedAt: number;
+}
+
+/**
+ * Where cached responses live
+ */
+export interface ResponseCacheBackend {
+  name: string;
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, value: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Everything that changes the LLM's answer for a matchup
+ */
+export interface CacheKeyParts {
+  /** Normalized technology names; order does not matter */
+  technologies: string[];
+  constraints?: MatchupConstraints;
+  scenarios?: ScenarioPersona[];
+  outputFormat: OutputFormat;
+  promptVersion: string;
+  /** Provider and model, e.g. "gemini/gemini-2.5-flash" */
+  model: string;
+}
+
+/**
+ * Cache settings, read on every call so they can change without a rebuild.
+ * REFEREE_CACHE=off disables caching; REFEREE_CACHE_DIR adds a disk tier.
+ */
+export function getCacheConfig() {
+  return {
+    enabled: (process.env.REFEREE_CACHE || 'on').trim().toLowerCase() !== 'off',
+    ttlMs: (Number(process.env.REFEREE_CACHE_TTL_SECONDS) || 24 * 60 * 60) * 1000,
+    maxEntries: Number(process.env.REFEREE_CACHE_MAX_ENTRIES) || 200,
+    directory: process.env.REFEREE_CACHE_DIR || ''
+  };
+}
+
+/**
+ * Stable, order-insensitive key for a matchup
+ */
+export function buildCacheKey(parts: CacheKeyParts): string {
+  const canonical = JSON.stringify({
+    technologies: parts.technologies.map(tech => tech.trim().toLowerCase()).sort(),
+    constraints: parts.constraints || null,
+    scenarios: (parts.scenarios || []).map(persona => [persona.label, persona.description]),
+    outputFormat: parts.outputFormat,
+    promptVersion: parts.promptVersion,
+    model: parts.model
+  });
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * In-memory backend that evicts the least recently used entry once full
+ */
+export function createMemoryCacheBackend(maxEntries: number): ResponseCacheBackend {
+  // Map keeps insertion order, so the first key is always the least recently used
+  const entries = new Map<string, CachedResponse>();
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const value = entries.get(key);
+      if (!value) {
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    }
+  };
+}
+
+/**
+ * On-disk backend keeping one JSON file per key in `directory`
+ */
+export function createFileCacheBackend(directory: string): ResponseCacheBackend {
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    name: 'file',
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as CachedResponse;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async set(key, value) {
+      await fs.mkdir(directory, { recursive: true });
+      const temporary = `${fileFor(key)}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(value), 'utf8');
+      await fs.rename(temporary, fileFor(key));
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    }
+  };
+}
+
+let memoryTier: { maxEntries: number; backend: ResponseCacheBackend } | null = null;
+
+/**
+ * The memory tier first, then the disk tier when REFEREE_CACHE_DIR is set
+ */
+function getCacheTiers(): ResponseCacheBackend[] {
+  const config = getCacheConfig();
+  if (!memoryTier || memoryTier.maxEntries !== config.maxEntries) {
+    memoryTier = { maxEntries: config.maxEntries, backend: createMemoryCacheBackend(config.maxEntries) };
+  }
+  return config.directory
+    ? [memoryTier.backend, createFileCacheBackend(config.directory)]
+    : [memoryTier.backend];
+}
+
+/**
+ * A fresh cached response and its age, or null on a miss. Expired entries
+ * are dropped; backend failures are logged and treated as misses.
+ */
+export async function readCachedResponse(key: string): Promise<{ entry: CachedResponse; ageSeconds: number } | null> {
+  const config = getCacheConfig();
+  if (!config.enabled) {
+    return null;
+  }
+
+  const tiers = getCacheTiers();
+  for (let index = 0; index < tiers.length; index++) {
+    try {
+      const entry = await tiers[index].get(key);
+      if (!entry) {
+        continue;
+      }
+
+      const ageMs = Date.now() - entry.storedAt;
+      if (ageMs > config.ttlMs) {
+        await tiers[index].delete(key);
+        continue;
+      }
+
+      // Promote disk hits into memory
+      for (const faster of tiers.slice(0, index)) {
+        await faster.set(key, entry);
+      }
+      return { entry, ageSeconds: Math.max(0, Math.floor(ageMs / 1000)) };
+    } catch (error) {
+      console.error(`Response cache (${tiers[index].name}) read failed:`, error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Cache a response in every tier; failures are logged, never thrown
+ */
+export async function writeCachedResponse(key: string, response: string, technologies: string[]): Promise<void> {
+  if (!getCacheConfig().enabled) {
+    return;
+  }
+
+  const entry: CachedResponse = { response, technologies, storedAt: Date.now() };
+  for (const tier of getCacheTiers()) {
+    try {
+      await tier.set(key, entry);
+    } catch (error) {
+      console.error(`Response cache (${tier.name}) write failed:`, error);
+    }
+  }
+}
+
+/**
+ * Drop every in-memory entry (the disk tier is left alone)
+ */
+export function clearResponseCache(): void {
+  memoryTier = null;
+}
@@ -0,0 +1,86 @@
+// Unit tests for matchup constraint validation and formatting
+import * as fc from 'fast-check';
+import {
+  CONSTRAINT_LIMITS,
+  describeConstraints,
+  hasConstraints,
+  parseConstraintList,
+  validateConstraints
+} from './constraints';
+
+describe('validateConstraints', () => {
+  it('accepts numeric strings and comma-separated lists, dropping empty fields', () => {
+    const result = validateConstraints({
+      teamSize: '4',
+      expectedRps: 2500,
+      monthlyBudget: '',
+      existingStack: 'Node.js, , AWS',
+      compliance: [],
+      notes: '  Read-heavy\n  reporting  '
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: { teamSize: 4, expectedRps: 2500, existingStack: ['Node.js', 'AWS'], notes: 'Read-heavy reporting' }
+    });
+  });
+
+  it('rejects values outside the accepted ranges', () => {
+    expect(validateConstraints({ teamSize: 0 })).toMatchObject({
+      success: false,
+      error: { field: 'constraints.teamSize', code: 'INVALID_CONSTRAINTS' }
+    });
+    expect(validateConstraints({ teamSize: 3.5 })).toMatchObject({ success: false });
+    expect(validateConstraints({ expectedRps: -1 })).toMatchObject({
+      success: false,
+      error: { field: 'constraints.expectedRps' }
+    });
+    expect(validateConstraints({ monthlyBudget: 'lots' })).toMatchObject({
+      success: false,
+      error: { field: 'constraints.monthlyBudget' }
+    });
+    expect(validateConstraints({ notes: 'x'.repeat(CONSTRAINT_LIMITS.notesLength + 1) })).toMatchObject({
+      success: false,
+      error: { field: 'constraints.notes' }
+    });
+    expect(validateConstraints({ compliance: [42] })).toMatchObject({
+      success: false,
+      error: { field: 'constraints.compliance' }
+    });
+    expect(validateConstraints(['teamSize'])).toMatchObject({ success: false, error: { field: 'constraints' } });
+  });
+
+  it('accepts every whole team size within the limits', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: CONSTRAINT_LIMITS.teamSize.min, max: CONSTRAINT_LIMITS.teamSize.max }), teamSize => {
+        expect(validateConstraints({ teamSize })).toEqual({ success: true, data: { teamSize } });
+      })
+    );
+  });
+});
+
+describe('constraint helpers', () => {
+  it('parses comma-separated lists', () => {
+    expect(parseConstraintList(' Go ,Rust,, ')).toEqual(['Go', 'Rust']);
+  });
+
+  it('detects whether anything was supplied', () => {
+    expect(hasConstraints(undefined)).toBe(false);
+    expect(hasConstraints({ existingStack: [] })).toBe(false);
+    expect(hasConstraints({ expectedRps: 0 })).toBe(true);
+  });
+
+  it('describes constraints as readable lines', () => {
+    expect(describeConstraints({
+      teamSize: 1,
+      expectedRps: 2500,
+      monthlyBudget: 1500,
+      compliance: ['HIPAA', 'SOC 2']
+    })).toEqual([
+      'Team size: 1 engineer',
+      'Expected load: 2,500 requests/second at peak',
+      'Monthly budget: $1,500',
+      'Compliance needs: HIPAA, SOC 2'
+    ]);
+  });
+});
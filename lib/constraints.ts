@@ -0,0 +1,167 @@
+// Validation and prompt formatting for user-supplied matchup constraints
+import { MatchupConstraints, ValidationError } from './types';
+
+/**
+ * Accepted ranges for each constraint
+ */
+export const CONSTRAINT_LIMITS = {
+  teamSize: { min: 1, max: 10000 },
+  expectedRps: { min: 0, max: 10000000 },
+  monthlyBudget: { min: 0, max: 10000000 },
+  listItems: 20,
+  listItemLength: 50,
+  notesLength: 500
+};
+
+type NumericConstraint = 'teamSize' | 'expectedRps' | 'monthlyBudget';
+type ListConstraint = 'existingStack' | 'compliance';
+
+const NUMERIC_LABELS: Record<NumericConstraint, string> = {
+  teamSize: 'Team size',
+  expectedRps: 'Expected RPS',
+  monthlyBudget: 'Monthly budget'
+};
+
+const LIST_LABELS: Record<ListConstraint, string> = {
+  existingStack: 'Existing stack',
+  compliance: 'Compliance needs'
+};
+
+/**
+ * Split a comma-separated input into trimmed, non-empty entries
+ */
+export function parseConstraintList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Whether any constraint has actually been supplied
+ */
+export function hasConstraints(constraints?: MatchupConstraints): constraints is MatchupConstraints {
+  return !!constraints && Object.values(constraints).some(value =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ''
+  );
+}
+
+/**
+ * Validate untrusted constraints input, returning a cleaned copy with empty
+ * fields dropped or the first problem found
+ */
+export function validateConstraints(value: unknown): {
+  success: true;
+  data: MatchupConstraints;
+} | {
+  success: false;
+  error: ValidationError;
+} {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return {
+      success: false,
+      error: { field: 'constraints', message: 'constraints must be an object', code: 'INVALID_CONSTRAINTS' }
+    };
+  }
+
+  const input = value as Record<string, unknown>;
+  const data: MatchupConstraints = {};
+
+  for (const field of Object.keys(NUMERIC_LABELS) as NumericConstraint[]) {
+    const raw = input[field];
+    if (raw === undefined || raw === null || raw === '') {
+      continue;
+    }
+
+    const { min, max } = CONSTRAINT_LIMITS[field];
+    const number = typeof raw === 'string' ? Number(raw) : raw;
+    if (typeof number !== 'number' || !Number.isFinite(number) || number < min || number > max ||
+        (field === 'teamSize' && !Number.isInteger(number))) {
+      return {
+        success: false,
+        error: {
+          field: `constraints.${field}`,
+          message: `${NUMERIC_LABELS[field]} must be ${field === 'teamSize' ? 'a whole number' : 'a number'} between ${min} and ${max.toLocaleString('en-US')}`,
+          code: 'INVALID_CONSTRAINTS'
+        }
+      };
+    }
+    data[field] = number;
+  }
+
+  for (const field of Object.keys(LIST_LABELS) as ListConstraint[]) {
+    const raw = input[field];
+    if (raw === undefined || raw === null) {
+      continue;
+    }
+
+    const items = typeof raw === 'string' ? parseConstraintList(raw) : raw;
+    if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+      return {
+        success: false,
+        error: { field: `constraints.${field}`, message: `${LIST_LABELS[field]} must be a list of names`, code: 'INVALID_CONSTRAINTS' }
+      };
+    }
+
+    const cleaned = items.map((item: string) => item.trim()).filter((item: string) => item.length > 0);
+    if (cleaned.length > CONSTRAINT_LIMITS.listItems ||
+        cleaned.some((item: string) => item.length > CONSTRAINT_LIMITS.listItemLength)) {
+      return {
+        success: false,
+        error: {
+          field: `constraints.${field}`,
+          message: `${LIST_LABELS[field]} allows up to ${CONSTRAINT_LIMITS.listItems} entries of ${CONSTRAINT_LIMITS.listItemLength} characters or less`,
+          code: 'INVALID_CONSTRAINTS'
+        }
+      };
+    }
+    if (cleaned.length > 0) {
+      data[field] = cleaned;
+    }
+  }
+
+  if (input.notes !== undefined && input.notes !== null) {
+    if (typeof input.notes !== 'string' || input.notes.length > CONSTRAINT_LIMITS.notesLength) {
+      return {
+        success: false,
+        error: {
+          field: 'constraints.notes',
+          message: `Notes must be text of ${CONSTRAINT_LIMITS.notesLength} characters or less`,
+          code: 'INVALID_CONSTRAINTS'
+        }
+      };
+    }
+    // Collapse whitespace so notes cannot break out of the prompt's bullet list
+    const notes = input.notes.replace(/\s+/g, ' ').trim();
+    if (notes) {
+      data.notes = notes;
+    }
+  }
+
+  return { success: true, data };
+}
+
+/**
+ * Human-readable lines describing the constraints, used in the prompt and UI
+ */
+export function describeConstraints(constraints: MatchupConstraints): string[] {
+  const lines: string[] = [];
+
+  if (constraints.teamSize !== undefined) {
+    lines.push(`Team size: ${constraints.teamSize} ${constraints.teamSize === 1 ? 'engineer' : 'engineers'}`);
+  }
+  if (constraints.expectedRps !== undefined) {
+    lines.push(`Expected load: ${constraints.expectedRps.toLocaleString('en-US')} requests/second at peak`);
+  }
+  if (constraints.monthlyBudget !== undefined) {
+    lines.push(`Monthly budget: $${constraints.monthlyBudget.toLocaleString('en-US')}`);
+  }
+  if (constraints.existingStack?.length) {
+    lines.push(`Existing stack: ${constraints.existingStack.join(', ')}`);
+  }
+  if (constraints.compliance?.length) {
+    lines.push(`Compliance needs: ${constraints.compliance.join(', ')}`);
+  }
+  if (constraints.notes) {
+    lines.push(`Notes: ${constraints.notes}`);
+  }
+
+  return lines;
+}
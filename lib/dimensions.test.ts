@@ -0,0 +1,43 @@
+// Unit tests for category-specific comparison dimensions
+import {
+  CATEGORY_DIMENSIONS,
+  GENERAL_DIMENSIONS,
+  getComparisonDimensions,
+  selectComparisonCategory,
+  usesGeneralDimensions
+} from './dimensions';
+import { isComparisonMatrix } from './types';
+
+describe('Comparison dimensions', () => {
+  test('every dimension set has five rows with distinct keys and labels', () => {
+    for (const dimensions of [GENERAL_DIMENSIONS, ...Object.values(CATEGORY_DIMENSIONS)]) {
+      expect(dimensions).toHaveLength(5);
+      expect(new Set(dimensions!.map(dimension => dimension.key)).size).toBe(5);
+      expect(new Set(dimensions!.map(dimension => dimension.label)).size).toBe(5);
+    }
+  });
+
+  test('contenders sharing a specialised category use its dimensions', () => {
+    expect(selectComparisonCategory(['postgres', 'MySQL'])).toBe('database');
+    expect(selectComparisonCategory(['AWS', 'GCP', 'Azure'])).toBe('cloud');
+    expect(getComparisonDimensions('database').map(dimension => dimension.label)).toContain('Consistency Model');
+  });
+
+  test('mixed, unknown and unspecialised contenders use the general dimensions', () => {
+    expect(selectComparisonCategory(['PostgreSQL', 'React'])).toBeUndefined();
+    expect(selectComparisonCategory(['PostgreSQL', 'Hotwire'])).toBeUndefined();
+    expect(selectComparisonCategory(['React', 'Vue'])).toBeUndefined();
+    expect(getComparisonDimensions(undefined)).toBe(GENERAL_DIMENSIONS);
+    expect(getComparisonDimensions('frontend')).toBe(GENERAL_DIMENSIONS);
+    expect(usesGeneralDimensions(GENERAL_DIMENSIONS)).toBe(true);
+    expect(usesGeneralDimensions(getComparisonDimensions('testing'))).toBe(false);
+  });
+
+  test('isComparisonMatrix checks the rows of the given set', () => {
+    const dimensions = getComparisonDimensions('database');
+    const matrix = Object.fromEntries(dimensions.map(dimension => [dimension.key, { tech1: 'a', tech2: 'b' }]));
+
+    expect(isComparisonMatrix(matrix, 2, dimensions)).toBe(true);
+    expect(isComparisonMatrix(matrix)).toBe(false);
+  });
+});
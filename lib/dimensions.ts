@@ -0,0 +1,94 @@
+// Comparison dimensions for the Tale of the Tape, specialised per technology category
+import { findTechnology } from './technologies';
+import type { ComparisonDimension, TechnologyCategory } from './types';
+
+/**
+ * The five dimensions used when contenders have no shared, specialised category
+ */
+export const GENERAL_DIMENSIONS: ComparisonDimension[] = [
+  { key: 'speed', label: 'Speed', description: 'Development velocity and performance', icon: 'zap' },
+  { key: 'cost', label: 'Cost', description: 'Financial investment and operational expenses', icon: 'dollar-sign' },
+  { key: 'developerExperience', label: 'Developer Experience', description: 'Learning curve and development ergonomics', icon: 'code' },
+  { key: 'scalability', label: 'Scalability', description: 'Growth handling and performance at scale', icon: 'trending-up' },
+  { key: 'maintainability', label: 'Maintainability', description: 'Long-term code health and updates', icon: 'wrench' }
+];
+
+/**
+ * Dimensions for categories where the general five miss what matters
+ */
+export const CATEGORY_DIMENSIONS: Partial<Record<TechnologyCategory, ComparisonDimension[]>> = {
+  database: [
+    { key: 'durability', label: 'Durability', description: 'Crash safety, replication and backups', icon: 'shield' },
+    { key: 'consistencyModel', label: 'Consistency Model', description: 'Transactions, isolation and consistency guarantees', icon: 'git-merge' },
+    { key: 'queryFlexibility', label: 'Query Flexibility', description: 'Query language, indexing and ad-hoc access', icon: 'search' },
+    { key: 'scalability', label: 'Scalability', description: 'Read/write scaling, sharding and replication', icon: 'trending-up' },
+    { key: 'operationalCost', label: 'Operational Cost', description: 'Hosting, licensing and the effort to run it', icon: 'dollar-sign' }
+  ],
+  cloud: [
+    { key: 'serviceBreadth', label: 'Service Breadth', description: 'Range and maturity of managed services', icon: 'layers' },
+    { key: 'pricing', label: 'Pricing', description: 'Cost model, free tier and egress fees', icon: 'dollar-sign' },
+    { key: 'globalReach', label: 'Global Reach', description: 'Regions, edge locations and latency', icon: 'globe' },
+    { key: 'developerExperience', label: 'Developer Experience', description: 'Console, CLI, SDKs and documentation', icon: 'code' },
+    { key: 'lockInRisk', label: 'Lock-in Risk', description: 'Proprietary services and the cost of leaving', icon: 'lock' }
+  ],
+  styling: [
+    { key: 'bundleSize', label: 'Bundle Size', description: 'CSS and runtime shipped to the browser', icon: 'package' },
+    { key: 'customization', label: 'Customization', description: 'Theming and escaping the defaults', icon: 'palette' },
+    { key: 'developerExperience', label: 'Developer Experience', description: 'Authoring ergonomics and tooling', icon: 'code' },
+    { key: 'designConsistency', label: 'Design Consistency', description: 'Keeping the UI coherent as it grows', icon: 'layers' },
+    { key: 'maintainability', label: 'Maintainability', description: 'Readability and refactoring cost over time', icon: 'wrench' }
+  ],
+  testing: [
+    { key: 'speed', label: 'Speed', description: 'Test run time and feedback loop', icon: 'zap' },
+    { key: 'reliability', label: 'Reliability', description: 'Flakiness and determinism', icon: 'shield' },
+    { key: 'debugging', label: 'Debugging', description: 'Failure output, tracing and tooling', icon: 'bug' },
+    { key: 'ecosystem', label: 'Ecosystem', description: 'Plugins, integrations and community', icon: 'package' },
+    { key: 'setupCost', label: 'Setup Cost', description: 'Configuration and CI effort to get running', icon: 'wrench' }
+  ],
+  language: [
+    { key: 'performance', label: 'Performance', description: 'Runtime speed and memory use', icon: 'cpu' },
+    { key: 'typeSafety', label: 'Type Safety', description: 'How many mistakes the compiler catches', icon: 'shield' },
+    { key: 'ecosystem', label: 'Ecosystem', description: 'Libraries, frameworks and tooling', icon: 'package' },
+    { key: 'learningCurve', label: 'Learning Curve', description: 'Time for a new developer to be productive', icon: 'clock' },
+    { key: 'hiringPool', label: 'Hiring Pool', description: 'How easy it is to find experienced developers', icon: 'users' }
+  ]
+};
+
+/**
+ * Dimensions for an upgrade between two versions of the same technology
+ */
+export const UPGRADE_DIMENSIONS: ComparisonDimension[] = [
+  { key: 'breakingChanges', label: 'Breaking Changes', description: 'Removed APIs, changed defaults and behaviour changes', icon: 'git-merge' },
+  { key: 'migrationEffort', label: 'Migration Effort', description: 'Code changes, codemods and testing needed to move', icon: 'wrench' },
+  { key: 'performance', label: 'Performance', description: 'Speed and resource use on each version', icon: 'zap' },
+  { key: 'ecosystemReadiness', label: 'Ecosystem Readiness', description: 'Library, tooling and hosting support for each version', icon: 'package' },
+  { key: 'supportWindow', label: 'Support Window', description: 'Security fixes and end-of-life dates', icon: 'clock' }
+];
+
+/**
+ * The dimensions for a category, falling back to the general five
+ */
+export function getComparisonDimensions(category?: TechnologyCategory): ComparisonDimension[] {
+  return (category && CATEGORY_DIMENSIONS[category]) || GENERAL_DIMENSIONS;
+}
+
+/**
+ * The category every contender shares, when it has its own dimensions.
+ * Mixed or unknown contenders are compared on the general dimensions.
+ */
+export function selectComparisonCategory(technologies: string[]): TechnologyCategory | undefined {
+  const categories = technologies.map(tech => findTechnology(tech)?.category);
+  const [first] = categories;
+  return first && CATEGORY_DIMENSIONS[first] && categories.every(category => category === first)
+    ? first
+    : undefined;
+}
+
+/**
+ * Whether the dimensions are the general five, in which case prompts keep
+ * their original wording
+ */
+export function usesGeneralDimensions(dimensions: ComparisonDimension[]): boolean {
+  return dimensions.length === GENERAL_DIMENSIONS.length &&
+    dimensions.every((dimension, index) => dimension.key === GENERAL_DIMENSIONS[index].key);
+}
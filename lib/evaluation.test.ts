@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the offline evaluation harness
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  compareWithBaseline,
+  EvalFixture,
+  EvalReport,
+  renderEvalReportHtml,
+  runEvaluation,
+  scoreResponse
+} from './evaluation';
+import type { RefereeAnalysis } from './types';
+
+const evalDirectory = path.join(__dirname, '..', 'eval');
+
+const analysis: RefereeAnalysis = {
+  matchup: { technology1: 'React', technology2: 'Vue' },
+  taleOfTheTape: {
+    speed: { tech1: 'Virtual DOM diffing', tech2: 'Fine-grained reactivity' },
+    cost: { tech1: '$0 license', tech2: '$0 license' }
+  },
+  scenarios: [],
+  hiddenTaxes: [{ technology: 'React', warning: 'library churn', timeframe: '6 months', severity: 'medium', likelihood: 'high', mitigation: 'Pin major versions' }],
+  tieBreaker: 'Do you already have React developers on staff?'
+};
+
+const recordedGenerator = async (fixture: EvalFixture) =>
+  fs.readFile(path.join(evalDirectory, fixture.recording!), 'utf8');
+
+describe('Guideline scoring', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('a compliant response passes every check', () => {
+    const response = '### 4. ⚠️ The "Hidden Tax"\nIf you choose React, be prepared to pay the tax of library churn in 6 months.';
+    expect(scoreResponse(response, analysis).every(check => check.passed)).toBe(true);
+  });
+
+  test('vague cells, extra questions and a missing timeframe each fail their check', () => {
+    const checks = scoreResponse('', {
+      ...analysis,
+      taleOfTheTape: { ...analysis.taleOfTheTape, cost: { tech1: 'Good value', tech2: '$0 license' } },
+      hiddenTaxes: [{ ...analysis.hiddenTaxes[0], timeframe: 'eventually' }],
+      tieBreaker: 'Do you know JSX? Or templates?'
+    });
+
+    expect(checks.filter(check => !check.passed)).toEqual([
+      { id: 'specificDescriptors', passed: false, details: ['taleOfTheTape.cost.tech1: Good value'] },
+      { id: 'singleTieBreaker', passed: false, details: ['tieBreaker: Do you know JSX? Or templates?'] },
+      { id: 'hiddenTaxTimeframe', passed: false, details: ['hiddenTaxes[0].timeframe: eventually'] }
+    ]);
+  });
+
+  test('unparseable responses fail every structural check', () => {
+    expect(scoreResponse('Just use React.', null).map(check => check.passed)).toEqual([false, true, false, false, false]);
+  });
+});
+
+describe('Evaluation runs', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('the recorded fixtures reproduce the stored baseline', async () => {
+    const fixtures: EvalFixture[] = JSON.parse(await fs.readFile(path.join(evalDirectory, 'fixtures.json'), 'utf8'));
+    const baseline: EvalReport = JSON.parse(await fs.readFile(path.join(evalDirectory, 'baseline.json'), 'utf8'));
+
+    const report = await runEvaluation(fixtures, recordedGenerator, { provider: 'recorded', promptVersion: '1' });
+    const comparison = compareWithBaseline(report, baseline);
+
+    expect(comparison).toEqual({ scoreDelta: 0, regressions: [], improvements: [], missingCases: [] });
+    expect(renderEvalReportHtml(report, comparison)).toContain('taleOfTheTape.consistencyModel.tech2: Good multi-document transactions since 4.0');
+  });
+
+  test('generation failures are recorded on the case and compared as regressions', async () => {
+    const fixture: EvalFixture = { id: 'react-vs-vue', technologies: ['React', 'Vue'], recording: 'recordings/react-vs-vue.md' };
+    const baseline = await runEvaluation([fixture], recordedGenerator, { provider: 'recorded', promptVersion: '1' });
+    const broken = await runEvaluation([fixture], async () => { throw new Error('quota exceeded'); }, { provider: 'gemini', promptVersion: '1' });
+
+    expect(broken.cases[0]).toEqual(expect.objectContaining({ score: 0.2, error: 'quota exceeded' }));
+    expect(compareWithBaseline(broken, baseline).regressions).toEqual([
+      'react-vs-vue: parsed',
+      'react-vs-vue: specificDescriptors',
+      'react-vs-vue: singleTieBreaker',
+      'react-vs-vue: hiddenTaxTimeframe'
+    ]);
+  });
+
+  test('comparisons flag a baseline recorded with another prompt version', async () => {
+    const fixture: EvalFixture = { id: 'react-vs-vue', technologies: ['React', 'Vue'], recording: 'recordings/react-vs-vue.md' };
+    const baseline = await runEvaluation([fixture], recordedGenerator, { provider: 'recorded', promptVersion: '1' });
+    const report = await runEvaluation([fixture], recordedGenerator, { provider: 'recorded', promptVersion: '4' });
+    const comparison = compareWithBaseline(report, baseline);
+
+    expect(comparison.promptVersionChanged).toEqual({ baseline: '1', report: '4' });
+    expect(renderEvalReportHtml(report, comparison)).toContain('The baseline was recorded with prompt version 1, not 4.');
+    expect(compareWithBaseline(baseline, baseline).promptVersionChanged).toBeUndefined();
+  });
+});
@@ -0,0 +1,344 @@
+// Offline evaluation of prompt and parser quality against a fixture set of matchups
+import { getComparisonDimensions, selectComparisonCategory, UPGRADE_DIMENSIONS } from './dimensions';
+import { findUnqualifiedClaims, lintRefereeAnalysis } from './guidelines';
+import { parseLLMResponse, parseStructuredResponse } from './parser';
+import { createPromptPackage } from './prompts';
+import { DEFAULT_SCENARIOS } from './scenarios';
+import { normalizeTechnologyName } from './technologies';
+import { ComparisonDimension, GuidelineRule, MatchupConstraints, OutputFormat, PromptFeatures, RefereeAnalysis } from './types';
+import { detectUpgradeMatchup, getUpgradeContenders } from './versions';
+
+/**
+ * One matchup in the fixture set
+ */
+export interface EvalFixture {
+  id: string;
+  technologies: string[];
+  constraints?: MatchupConstraints;
+  /** Defaults to markdown */
+  outputFormat?: OutputFormat;
+  /** File with a recorded response, relative to the fixtures file */
+  recording?: string;
+}
+
+/**
+ * The prompt sent for a fixture
+ */
+export interface EvalPrompt {
+  systemPrompt: string;
+  userPrompt: string;
+  outputFormat: OutputFormat;
+  /** Contenders as the prompt names them, e.g. upgrades ordered oldest first */
+  technologies: string[];
+  /** Tale of the Tape rows the response is parsed against */
+  dimensions: ComparisonDimension[];
+  /** What the prompt asks for, shaping the JSON response schema */
+  features: PromptFeatures;
+}
+
+/**
+ * Produces the raw LLM response for a fixture: a live provider, or the
+ * recorded-response stand-in
+ */
+export type EvalGenerator = (fixture: EvalFixture, prompt: EvalPrompt) => Promise<string>;
+
+/**
+ * Guideline checks every response is scored on
+ */
+export type EvalCheckId = 'parsed' | 'qualifiedClaims' | 'specificDescriptors' | 'singleTieBreaker' | 'hiddenTaxTimeframe';
+
+export const EVAL_CHECK_LABELS: Record<EvalCheckId, string> = {
+  parsed: 'Parses into all five sections',
+  qualifiedClaims: 'No "X is better" without "if"',
+  specificDescriptors: 'No Good/Bad words in the Tale of the Tape',
+  singleTieBreaker: 'Exactly one tie-breaker question',
+  hiddenTaxTimeframe: 'Hidden Tax names a timeframe'
+};
+
+export interface EvalCheckResult {
+  id: EvalCheckId;
+  passed: boolean;
+  /** What failed, e.g. the offending sentence or cell */
+  details?: string[];
+}
+
+export interface EvalCaseResult {
+  id: string;
+  technologies: string[];
+  /** Fraction of checks passed, 0-1 */
+  score: number;
+  checks: EvalCheckResult[];
+  /** Why the response could not be generated or parsed */
+  error?: string;
+  durationMs: number;
+}
+
+export interface EvalReport {
+  generatedAt: string;
+  provider: string;
+  promptVersion: string;
+  summary: {
+    cases: number;
+    /** Mean case score, 0-1 */
+    score: number;
+    /** Pass rate per check, 0-1 */
+    checks: Record<EvalCheckId, number>;
+  };
+  cases: EvalCaseResult[];
+}
+
+/**
+ * How a report moved against the stored baseline
+ */
+export interface EvalComparison {
+  scoreDelta: number;
+  /** "case: check" pairs that passed in the baseline and fail now */
+  regressions: string[];
+  /** "case: check" pairs that failed in the baseline and pass now */
+  improvements: string[];
+  /** Baseline cases missing from this run */
+  missingCases: string[];
+  /** Set when the run used a different prompt version than the baseline */
+  promptVersionChanged?: { baseline: string; report: string };
+}
+
+/**
+ * Score a raw response, and the analysis parsed from it, against the referee guidelines
+ */
+export function scoreResponse(response: string, analysis: RefereeAnalysis | null): EvalCheckResult[] {
+  // Claims are looked for in the whole response, including prose the parser drops
+  const claims = findUnqualifiedClaims(response);
+  const qualifiedClaims: EvalCheckResult = claims.length > 0
+    ? { id: 'qualifiedClaims', passed: false, details: claims }
+    : { id: 'qualifiedClaims', passed: true };
+
+  if (!analysis) {
+    const unparsed = ['Response did not parse'];
+    return [
+      { id: 'parsed', passed: false, details: unparsed },
+      qualifiedClaims,
+      { id: 'specificDescriptors', passed: false, details: unparsed },
+      { id: 'singleTieBreaker', passed: false, details: unparsed },
+      { id: 'hiddenTaxTimeframe', passed: false, details: unparsed }
+    ];
+  }
+
+  const violations = lintRefereeAnalysis(analysis, response);
+  const check = (id: EvalCheckId, rule: GuidelineRule): EvalCheckResult => {
+    const details = violations
+      .filter(violation => violation.rule === rule)
+      .map(violation => `${violation.field}: ${violation.excerpt}`);
+    return details.length > 0 ? { id, passed: false, details } : { id, passed: true };
+  };
+
+  return [
+    { id: 'parsed', passed: true },
+    qualifiedClaims,
+    check('specificDescriptors', 'genericDescriptor'),
+    check('singleTieBreaker', 'tieBreakerQuestion'),
+    check('hiddenTaxTimeframe', 'hiddenTaxTimeframe')
+  ];
+}
+
+/**
+ * Build the prompt the referee API would send for a fixture
+ */
+export function buildEvalPrompt(fixture: EvalFixture, promptVersion?: string): EvalPrompt {
+  const requested = fixture.technologies.map(normalizeTechnologyName);
+  const upgrade = detectUpgradeMatchup(requested) || undefined;
+  const technologies = upgrade ? getUpgradeContenders(upgrade) : requested;
+  const dimensions = upgrade ? UPGRADE_DIMENSIONS : getComparisonDimensions(selectComparisonCategory(technologies));
+  const outputFormat = fixture.outputFormat || 'markdown';
+  const promptPackage = createPromptPackage(technologies[0], technologies[1], outputFormat, {
+    additionalTechnologies: technologies.slice(2),
+    constraints: fixture.constraints,
+    allowCategoryMismatch: true,
+    dimensions,
+    ...(upgrade ? { upgrade } : {}),
+    ...(promptVersion ? { promptVersion } : {})
+  });
+  if (!promptPackage.isValid) {
+    throw new Error(promptPackage.errors.join(', '));
+  }
+
+  return {
+    systemPrompt: promptPackage.systemPrompt,
+    userPrompt: promptPackage.userPrompt,
+    outputFormat,
+    technologies,
+    dimensions,
+    features: promptPackage.features
+  };
+}
+
+/**
+ * Generate, parse and score one fixture. Generation and parsing failures
+ * are recorded on the result rather than thrown.
+ */
+export async function evaluateFixture(
+  fixture: EvalFixture,
+  generate: EvalGenerator,
+  promptVersion?: string
+): Promise<EvalCaseResult> {
+  const started = Date.now();
+  const finish = (checks: EvalCheckResult[], error?: string): EvalCaseResult => ({
+    id: fixture.id,
+    technologies: fixture.technologies,
+    score: checks.filter(check => check.passed).length / checks.length,
+    checks,
+    ...(error ? { error } : {}),
+    durationMs: Date.now() - started
+  });
+
+  let prompt: EvalPrompt;
+  let response: string;
+  try {
+    prompt = buildEvalPrompt(fixture, promptVersion);
+    response = await generate(fixture, prompt);
+  } catch (error) {
+    return finish(scoreResponse('', null), error instanceof Error ? error.message : String(error));
+  }
+
+  const parsed = prompt.outputFormat === 'json'
+    ? await parseStructuredResponse(response, prompt.technologies, DEFAULT_SCENARIOS, prompt.dimensions)
+    : await parseLLMResponse(response, prompt.technologies, DEFAULT_SCENARIOS, prompt.dimensions);
+
+  return parsed.success
+    ? finish(scoreResponse(response, parsed.data))
+    : finish(scoreResponse(response, null), [parsed.error.message, parsed.error.details].filter(Boolean).join(': '));
+}
+
+/**
+ * Run every fixture in order and summarise the results
+ */
+export async function runEvaluation(
+  fixtures: EvalFixture[],
+  generate: EvalGenerator,
+  { provider, promptVersion }: { provider: string; promptVersion: string }
+): Promise<EvalReport> {
+  const cases: EvalCaseResult[] = [];
+  for (const fixture of fixtures) {
+    cases.push(await evaluateFixture(fixture, generate, promptVersion));
+  }
+
+  const checkIds = Object.keys(EVAL_CHECK_LABELS) as EvalCheckId[];
+  const mean = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    provider,
+    promptVersion,
+    summary: {
+      cases: cases.length,
+      score: mean(cases.map(result => result.score)),
+      checks: Object.fromEntries(checkIds.map(id => [
+        id,
+        mean(cases.map(result => result.checks.find(check => check.id === id)?.passed ? 1 : 0))
+      ])) as Record<EvalCheckId, number>
+    },
+    cases
+  };
+}
+
+/**
+ * Compare a report with the stored baseline, check by check
+ */
+export function compareWithBaseline(report: EvalReport, baseline: EvalReport): EvalComparison {
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  const missingCases: string[] = [];
+
+  for (const before of baseline.cases) {
+    const after = report.cases.find(result => result.id === before.id);
+    if (!after) {
+      missingCases.push(before.id);
+      continue;
+    }
+
+    for (const check of before.checks) {
+      const now = after.checks.find(candidate => candidate.id === check.id);
+      if (check.passed && !now?.passed) {
+        regressions.push(`${before.id}: ${check.id}`);
+      } else if (!check.passed && now?.passed) {
+        improvements.push(`${before.id}: ${check.id}`);
+      }
+    }
+  }
+
+  return {
+    scoreDelta: report.summary.score - baseline.summary.score,
+    regressions,
+    improvements,
+    missingCases,
+    ...(report.promptVersion !== baseline.promptVersion
+      ? { promptVersionChanged: { baseline: baseline.promptVersion, report: report.promptVersion } }
+      : {})
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * A standalone HTML page for the report, with the baseline comparison when given
+ */
+export function renderEvalReportHtml(report: EvalReport, comparison?: EvalComparison): string {
+  const checkIds = Object.keys(EVAL_CHECK_LABELS) as EvalCheckId[];
+  const list = (title: string, items: string[]) => items.length
+    ? `<h3>${title}</h3><ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : '';
+  const baseline = comparison
+    ? `<section><h2>Against the baseline</h2>
+${comparison.promptVersionChanged
+    ? `<p><strong>The baseline was recorded with prompt version ${escapeHtml(comparison.promptVersionChanged.baseline)}, not ${escapeHtml(comparison.promptVersionChanged.report)}.</strong></p>\n`
+    : ''}<p>Score ${comparison.scoreDelta >= 0 ? '+' : ''}${(comparison.scoreDelta * 100).toFixed(1)} points</p>
+${list('Regressions', comparison.regressions)}${list('Improvements', comparison.improvements)}${list('Missing cases', comparison.missingCases)}
+</section>`
+    : '';
+  const rows = report.cases.map(result => `<tr>
+<th scope="row">${escapeHtml(result.id)}<br><small>${escapeHtml(result.technologies.join(' vs '))}</small></th>
+<td>${percent(result.score)}</td>
+${checkIds.map(id => {
+    const check = result.checks.find(candidate => candidate.id === id);
+    const details = check?.details?.map(escapeHtml).join('<br>') || '';
+    return `<td class="${check?.passed ? 'pass' : 'fail'}">${check?.passed ? 'pass' : 'fail'}${details ? `<br><small>${details}</small>` : ''}</td>`;
+  }).join('\n')}
+</tr>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Tech Referee evaluation</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111827; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #d1d5db; padding: 0.5rem; text-align: left; vertical-align: top; }
+.pass { background: #ecfdf5; }
+.fail { background: #fef2f2; }
+</style>
+</head>
+<body>
+<h1>Tech Referee evaluation</h1>
+<p>${report.summary.cases} matchups via ${escapeHtml(report.provider)}, prompt version ${escapeHtml(report.promptVersion)}, ${escapeHtml(report.generatedAt)}. Overall score ${percent(report.summary.score)}.</p>
+<ul>
+${checkIds.map(id => `<li>${escapeHtml(EVAL_CHECK_LABELS[id])}: ${percent(report.summary.checks[id])}</li>`).join('\n')}
+</ul>
+${baseline}
+<table>
+<thead><tr><th scope="col">Matchup</th><th scope="col">Score</th>${checkIds.map(id => `<th scope="col">${escapeHtml(EVAL_CHECK_LABELS[id])}</th>`).join('')}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
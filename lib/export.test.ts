@@ -0,0 +1,163 @@
+// Unit tests for exporting verdicts as Markdown ADRs
+import { createAdrMarkdown, createPdfReport, exportFilename, exportPath, isExportFormat } from './export';
+import type { RefereeAnalysis, ScoreMatrix } from './types';
+
+const cell = (score: number) => ({ score, confidence: 0.8 });
+
+const scores: ScoreMatrix = {
+  speed: { tech1: cell(9), tech2: cell(5) },
+  cost: { tech1: cell(4), tech2: cell(8) },
+  developerExperience: { tech1: cell(9), tech2: cell(6) },
+  scalability: { tech1: cell(6), tech2: cell(7) },
+  maintainability: { tech1: cell(6), tech2: cell(7) }
+};
+
+const analysis: RefereeAnalysis = {
+  id: 'verdict-1234',
+  matchup: { technology1: 'React', technology2: 'Vue' },
+  taleOfTheTape: {
+    speed: { tech1: 'Fast HMR', tech2: 'Fast | small bundles' },
+    cost: { tech1: '$0 license', tech2: '$0 license' },
+    developerExperience: { tech1: 'JSX\nand hooks', tech2: 'Single-file components' },
+    scalability: { tech1: 'Meta scale', tech2: 'Mid-size apps' },
+    maintainability: { tech1: 'Churning ecosystem', tech2: 'Stable core' }
+  },
+  scenarios: [
+    { name: 'Move Fast Team', winner: 'Vue', reasoning: 'Less boilerplate', context: 'Ships weekly' }
+  ],
+  hiddenTaxes: [
+    { technology: 'React', warning: 'State library churn', timeframe: '6-12 months', severity: 'medium', likelihood: 'high', mitigation: 'Pick one store early' },
+    { technology: 'Vue', warning: 'Smaller hiring pool', timeframe: 'First hiring round', severity: 'high', likelihood: 'medium', mitigation: 'Train existing React developers' }
+  ],
+  tieBreaker: 'Does your team already know JSX?',
+  constraints: { teamSize: 4 }
+};
+
+describe('createAdrMarkdown', () => {
+  const markdown = createAdrMarkdown(analysis, { provider: 'openai', model: 'gpt-4o-mini', createdAt: '2024-05-01T12:00:00.000Z' });
+
+  test('opens with the matchup, status, date and source', () => {
+    expect(markdown.startsWith([
+      '# ADR: React vs Vue',
+      '',
+      '- **Status:** Proposed',
+      '- **Date:** 2024-05-01',
+      '- **Source:** Tech Referee verdict (openai / gpt-4o-mini)',
+      '- **Verdict:** /verdict/verdict-1234'
+    ].join('\n'))).toBe(true);
+  });
+
+  test('has every ADR section in order', () => {
+    const headings = markdown.split('\n').filter(line => line.startsWith('## '));
+    expect(headings).toEqual([
+      '## Context',
+      '## Considered Options',
+      '## Decision Drivers',
+      '## Scenario Verdicts',
+      '## Consequences',
+      '## Open Question'
+    ]);
+    expect(markdown).toContain('- Team size: 4 engineers');
+    expect(markdown).toContain('### Move Fast Team: Vue');
+    expect(markdown).toContain('- **Mitigation:** Pick one store early');
+    expect(markdown.trimEnd().endsWith('> Does your team already know JSX?')).toBe(true);
+  });
+
+  test('turns the Tale of the Tape into a well-formed table', () => {
+    expect(markdown).toContain([
+      '| Dimension | React | Vue |',
+      '| --- | --- | --- |',
+      '| Speed | Fast HMR | Fast \\| small bundles |'
+    ].join('\n'));
+    expect(markdown).toContain('| Developer Experience | JSX and hooks | Single-file components |');
+  });
+
+  test('ranks scored contenders under the given weights', () => {
+    const scored = createAdrMarkdown({ ...analysis, scores }, {}, { cost: 5, speed: 0 });
+
+    expect(scored).toContain('| Speed | Fast HMR (9/10) | Fast \\| small bundles (5/10) |');
+    expect(scored).toContain('Weighted by Speed ignored, Cost ×5, the scores rank:\n\n1. Vue: 7.5/10 (80% confidence)\n2. React: 5.1/10 (80% confidence)');
+    expect(createAdrMarkdown({ ...analysis, scores })).toContain('With every dimension weighed equally, the scores rank:');
+    expect(markdown).not.toContain('the scores rank');
+  });
+
+  test('leaves out the levels and mitigation the referee did not give', () => {
+    const unrated = createAdrMarkdown({
+      ...analysis,
+      hiddenTaxes: [{ technology: 'React', warning: 'State library churn', timeframe: '6-12 months' }]
+    });
+
+    expect(unrated).toContain('- **When:** 6-12 months');
+    expect(unrated).not.toContain('**Severity:**');
+    expect(unrated).not.toContain('**Likelihood:**');
+    expect(unrated).not.toContain('**Mitigation:**');
+  });
+
+  test('frames upgrades as a migration decision', () => {
+    const upgrade = createAdrMarkdown({
+      ...analysis,
+      matchup: { technology1: 'React 17', technology2: 'React 18' },
+      upgrade: { technology: 'React', fromVersion: '17', toVersion: '18' },
+      taleOfTheTape: {}
+    });
+
+    expect(upgrade).toContain('# ADR: Upgrade React from 17 to 18');
+    expect(upgrade).toContain('| Breaking Changes | — | — |');
+    expect(upgrade).toContain('Staying behind and moving on both carry a hidden tax:');
+  });
+});
+
+describe('createPdfReport', () => {
+  test('prints the matchup metadata, model and dates before the verdict', () => {
+    const pdf = Buffer.from(createPdfReport({ ...analysis, scores }, { provider: 'openai', model: 'gpt-4o-mini', createdAt: '2024-05-01T12:00:00.000Z' }))
+      .toString('latin1');
+    const shown = Array.from(pdf.matchAll(/\((.*)\) Tj/g), ([, text]) => text);
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(shown.slice(0, 4)).toEqual([
+      'Tech Referee Verdict: React vs Vue',
+      'Matchup: React vs Vue',
+      'Model: openai / gpt-4o-mini',
+      'Judged: Wed, 01 May 2024 12:00:00 GMT'
+    ]);
+    expect(shown[4]).toMatch(/^Exported: /);
+    expect(shown).toEqual(expect.arrayContaining([
+      'The Tale of the Tape',
+      '\\225 React: Fast HMR \\(9/10, 80% confidence\\)',
+      '\\225 1. React: 6.8/10 \\(80% confidence\\)',
+      'Move Fast Team: Vue',
+      'The Hidden Tax',
+      'The Tie-Breaker',
+      'Does your team already know JSX?'
+    ]));
+  });
+});
+
+describe('createPdfReport without tax levels', () => {
+  test('prints no severity or likelihood line', () => {
+    const pdf = Buffer.from(createPdfReport({
+      ...analysis,
+      hiddenTaxes: [{ technology: 'React', warning: 'State library churn', timeframe: '6-12 months' }]
+    })).toString('latin1');
+
+    expect(pdf).toContain('When: 6-12 months');
+    expect(pdf).not.toContain('Severity:');
+  });
+});
+
+describe('export helpers', () => {
+  test('filenames and paths are derived from the verdict', () => {
+    expect(exportFilename(analysis, 'md')).toBe('adr-react-vs-vue.md');
+    expect(exportFilename(analysis, 'pdf')).toBe('verdict-react-vs-vue.pdf');
+    expect(exportFilename({ ...analysis, matchup: { technology1: 'C#', technology2: 'Node.js' } }, 'md')).toBe('adr-c-vs-node-js.md');
+    expect(exportPath('verdict-1234', 'md')).toBe('/api/referee/verdict-1234/export?format=md');
+    expect(exportPath('verdict-1234', 'md', { speed: 2 })).toBe('/api/referee/verdict-1234/export?format=md&weights=speed:2');
+  });
+
+  test('only known formats are accepted', () => {
+    expect(isExportFormat('md')).toBe(true);
+    expect(isExportFormat('pdf')).toBe(true);
+    expect(isExportFormat('docx')).toBe(false);
+    expect(isExportFormat(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,293 @@
+// Verdicts as Architecture Decision Records and printable reports
+import { describeConstraints, hasConstraints } from './constraints';
+import { getComparisonDimensions, UPGRADE_DIMENSIONS } from './dimensions';
+import { PdfBlock, renderPdf } from './pdf';
+import { encodeWeights, formatScore, normalizeWeights, rankContenders, scoreContenders } from './scoring';
+import {
+  ComparisonDimension,
+  contenderKey,
+  DimensionWeights,
+  getContenders,
+  isScoreMatrix,
+  RefereeAnalysis,
+  ScoreMatrix,
+  StoredAnalysis
+} from './types';
+
+/**
+ * Formats a verdict can be exported in
+ */
+export const EXPORT_FORMATS = ['md', 'pdf'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * Content type and filename prefix of each export format
+ */
+export const EXPORT_TYPES: Record<ExportFormat, { contentType: string; prefix: string }> = {
+  md: { contentType: 'text/markdown; charset=utf-8', prefix: 'adr' },
+  pdf: { contentType: 'application/pdf', prefix: 'verdict' }
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * What the export records about where a verdict came from
+ */
+export type ExportMetadata = Partial<Pick<StoredAnalysis, 'provider' | 'model' | 'createdAt'>>;
+
+// Table cells stay on one line and keep their pipes literal
+function escapeCell(text: string | undefined): string {
+  return (text || '—').replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+function tableRow(cells: (string | undefined)[]): string {
+  return `| ${cells.map(escapeCell).join(' | ')} |`;
+}
+
+function describeWeight(label: string, weight: number): string {
+  return weight === 0 ? `${label} ignored` : `${label} ×${weight}`;
+}
+
+function getDimensions(analysis: RefereeAnalysis): ComparisonDimension[] {
+  return analysis.upgrade ? UPGRADE_DIMENSIONS : getComparisonDimensions(analysis.category);
+}
+
+function describeMatchup(analysis: RefereeAnalysis): string {
+  const { upgrade } = analysis;
+  return upgrade
+    ? `Upgrade ${upgrade.technology} from ${upgrade.fromVersion} to ${upgrade.toVersion}`
+    : getContenders(analysis.matchup).join(' vs ');
+}
+
+// The weighted ranking, introduced by the weights it was taken under
+function describeRanking(
+  scores: ScoreMatrix,
+  contenders: string[],
+  dimensions: ComparisonDimension[],
+  weights: DimensionWeights
+): { intro: string; ranking: string[] } {
+  const normalized = normalizeWeights(weights, dimensions);
+  const adjusted = dimensions.filter(({ key }) => normalized[key] !== 1);
+  return {
+    intro: adjusted.length > 0
+      ? `Weighted by ${adjusted.map(({ key, label }) => describeWeight(label, normalized[key])).join(', ')}, the scores rank:`
+      : 'With every dimension weighed equally, the scores rank:',
+    ranking: rankContenders(scoreContenders(scores, contenders, dimensions, weights))
+      .map(total => `${total.technology}: ${formatScore(total.score)}/10 (${Math.round(total.confidence * 100)}% confidence)`)
+  };
+}
+
+/**
+ * Where a saved verdict downloads from, carrying any adjusted weights
+ */
+export function exportPath(analysisId: string, format: ExportFormat, weights: DimensionWeights = {}): string {
+  const encodedWeights = encodeWeights(weights);
+  return `/api/referee/${analysisId}/export?format=${format}${encodedWeights ? `&weights=${encodedWeights}` : ''}`;
+}
+
+/**
+ * A download filename for the verdict, e.g. "adr-react-vs-vue.md" or
+ * "verdict-react-vs-vue.pdf"
+ */
+export function exportFilename(analysis: RefereeAnalysis, format: ExportFormat): string {
+  const slug = getContenders(analysis.matchup)
+    .join(' vs ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${EXPORT_TYPES[format].prefix}-${slug || 'verdict'}.${format}`;
+}
+
+/**
+ * The verdict as a Markdown ADR: context, considered options, decision
+ * drivers from the Tale of the Tape, the scenario verdicts, consequences
+ * from the hidden taxes and the tie-breaker as the open question. With
+ * scores, the drivers also rank the contenders under `weights`.
+ */
+export function createAdrMarkdown(
+  analysis: RefereeAnalysis,
+  metadata: ExportMetadata = {},
+  weights: DimensionWeights = {}
+): string {
+  const contenders = getContenders(analysis.matchup);
+  const { upgrade } = analysis;
+  const dimensions = getDimensions(analysis);
+  const scores = isScoreMatrix(analysis.scores, contenders.length, dimensions) ? analysis.scores : undefined;
+  const date = (metadata.createdAt ? new Date(metadata.createdAt) : new Date()).toISOString().slice(0, 10);
+  const lines: string[] = [];
+
+  lines.push(
+    `# ADR: ${describeMatchup(analysis)}`,
+    '',
+    '- **Status:** Proposed',
+    `- **Date:** ${date}`
+  );
+  if (metadata.provider && metadata.model) {
+    lines.push(`- **Source:** Tech Referee verdict (${metadata.provider} / ${metadata.model})`);
+  }
+  if (analysis.id) {
+    lines.push(`- **Verdict:** /verdict/${analysis.id}`);
+  }
+
+  // Context
+  lines.push('', '## Context', '', upgrade
+    ? `We are on ${upgrade.technology} ${upgrade.fromVersion} and deciding whether to migrate to ${upgrade.toVersion}: breaking changes, migration effort, and the cost of staying behind.`
+    : `We need to choose between ${contenders.join(', ')}. No option is best in general; this record weighs them for our situation.`);
+  if (hasConstraints(analysis.constraints)) {
+    lines.push('', 'The verdict was judged against these constraints:', '');
+    lines.push(...describeConstraints(analysis.constraints).map(line => `- ${line}`));
+  }
+
+  // Considered Options
+  lines.push('', '## Considered Options', '');
+  lines.push(...contenders.map((technology, index) => `${index + 1}. ${technology}`));
+
+  // Decision Drivers
+  lines.push('', '## Decision Drivers', '', 'The Tale of the Tape:', '');
+  lines.push(tableRow(['Dimension', ...contenders]), `|${' --- |'.repeat(contenders.length + 1)}`);
+  for (const dimension of dimensions) {
+    lines.push(tableRow([dimension.label, ...contenders.map((_, index) => {
+      const descriptor = analysis.taleOfTheTape[dimension.key]?.[contenderKey(index)];
+      const cell = scores?.[dimension.key][contenderKey(index)];
+      return cell ? `${descriptor || '—'} (${formatScore(cell.score)}/10)` : descriptor;
+    })]));
+  }
+  if (scores) {
+    const { intro, ranking } = describeRanking(scores, contenders, dimensions, weights);
+    lines.push('', intro, '');
+    lines.push(...ranking.map((line, index) => `${index + 1}. ${line}`));
+  }
+
+  // Scenario Verdicts
+  if (analysis.scenarios.length > 0) {
+    lines.push('', '## Scenario Verdicts');
+    for (const scenario of analysis.scenarios) {
+      lines.push('', `### ${scenario.name}: ${scenario.winner}`, '', scenario.reasoning);
+      if (scenario.context) {
+        lines.push('', `_${scenario.context}_`);
+      }
+    }
+  }
+
+  // Consequences
+  if (analysis.hiddenTaxes.length > 0) {
+    lines.push('', '## Consequences', '', upgrade
+      ? 'Staying behind and moving on both carry a hidden tax:'
+      : 'Whichever option we choose, we accept its hidden tax:');
+    for (const tax of analysis.hiddenTaxes) {
+      lines.push(
+        '',
+        `### ${tax.technology}`,
+        '',
+        tax.warning,
+        '',
+        `- **When:** ${tax.timeframe}`
+      );
+      if (tax.severity) {
+        lines.push(`- **Severity:** ${tax.severity}`);
+      }
+      if (tax.likelihood) {
+        lines.push(`- **Likelihood:** ${tax.likelihood}`);
+      }
+      if (tax.mitigation) {
+        lines.push(`- **Mitigation:** ${tax.mitigation}`);
+      }
+    }
+  }
+
+  // Open Question
+  lines.push('', '## Open Question', '', `> ${analysis.tieBreaker.replace(/\s*\n\s*/g, ' ')}`, '');
+
+  return lines.join('\n');
+}
+
+/**
+ * The verdict as a printable PDF report: matchup metadata, the model and
+ * the dates it was judged and exported, then every section of the verdict.
+ * Rendered in-process, without any external service.
+ */
+export function createPdfReport(
+  analysis: RefereeAnalysis,
+  metadata: ExportMetadata = {},
+  weights: DimensionWeights = {}
+): ArrayBuffer {
+  const contenders = getContenders(analysis.matchup);
+  const { upgrade } = analysis;
+  const dimensions = getDimensions(analysis);
+  const scores = isScoreMatrix(analysis.scores, contenders.length, dimensions) ? analysis.scores : undefined;
+  const exportedAt = new Date();
+  const blocks: PdfBlock[] = [{ kind: 'title', text: `Tech Referee Verdict: ${describeMatchup(analysis)}` }];
+
+  blocks.push({ kind: 'meta', text: `Matchup: ${contenders.join(' vs ')}` });
+  if (metadata.provider && metadata.model) {
+    blocks.push({ kind: 'meta', text: `Model: ${metadata.provider} / ${metadata.model}` });
+  }
+  if (metadata.createdAt) {
+    blocks.push({ kind: 'meta', text: `Judged: ${new Date(metadata.createdAt).toUTCString()}` });
+  }
+  blocks.push({ kind: 'meta', text: `Exported: ${exportedAt.toUTCString()}` });
+  if (analysis.id) {
+    blocks.push({ kind: 'meta', text: `Verdict: /verdict/${analysis.id}` });
+  }
+
+  if (hasConstraints(analysis.constraints)) {
+    blocks.push({ kind: 'heading', text: 'Judged Against' });
+    blocks.push(...describeConstraints(analysis.constraints).map((text): PdfBlock => ({ kind: 'bullet', text })));
+  }
+
+  blocks.push({ kind: 'heading', text: 'The Tale of the Tape' });
+  for (const dimension of dimensions) {
+    blocks.push({ kind: 'subheading', text: dimension.label });
+    blocks.push(...contenders.map((technology, index): PdfBlock => {
+      const descriptor = analysis.taleOfTheTape[dimension.key]?.[contenderKey(index)] || '—';
+      const cell = scores?.[dimension.key][contenderKey(index)];
+      return {
+        kind: 'bullet',
+        text: `${technology}: ${descriptor}${cell ? ` (${formatScore(cell.score)}/10, ${Math.round(cell.confidence * 100)}% confidence)` : ''}`
+      };
+    }));
+  }
+  if (scores) {
+    const { intro, ranking } = describeRanking(scores, contenders, dimensions, weights);
+    blocks.push({ kind: 'subheading', text: 'Weighted Score' }, { kind: 'paragraph', text: intro });
+    blocks.push(...ranking.map((text, index): PdfBlock => ({ kind: 'bullet', text: `${index + 1}. ${text}` })));
+  }
+
+  if (analysis.scenarios.length > 0) {
+    blocks.push({ kind: 'heading', text: 'The Verdicts' });
+    for (const scenario of analysis.scenarios) {
+      blocks.push({ kind: 'subheading', text: `${scenario.name}: ${scenario.winner}` }, { kind: 'paragraph', text: scenario.reasoning });
+      if (scenario.context) {
+        blocks.push({ kind: 'meta', text: scenario.context });
+      }
+    }
+  }
+
+  if (analysis.hiddenTaxes.length > 0) {
+    blocks.push({ kind: 'heading', text: upgrade ? 'Staying Behind vs. Moving On' : 'The Hidden Tax' });
+    for (const tax of analysis.hiddenTaxes) {
+      blocks.push(
+        { kind: 'subheading', text: tax.technology },
+        { kind: 'paragraph', text: tax.warning },
+        { kind: 'bullet', text: `When: ${tax.timeframe}` }
+      );
+      const levels = [
+        tax.severity && `Severity: ${tax.severity}`,
+        tax.likelihood && `Likelihood: ${tax.likelihood}`
+      ].filter(Boolean);
+      if (levels.length > 0) {
+        blocks.push({ kind: 'bullet', text: levels.join(', ') });
+      }
+      if (tax.mitigation) {
+        blocks.push({ kind: 'bullet', text: `Mitigation: ${tax.mitigation}` });
+      }
+    }
+  }
+
+  blocks.push({ kind: 'heading', text: 'The Tie-Breaker' }, { kind: 'quote', text: analysis.tieBreaker });
+
+  return renderPdf(blocks, { title: `Tech Referee Verdict: ${describeMatchup(analysis)}`, createdAt: exportedAt });
+}
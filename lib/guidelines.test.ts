@@ -0,0 +1,57 @@
+// Unit tests for the referee guideline checks
+import { describeViolation, findUnqualifiedClaims, lintRefereeAnalysis } from './guidelines';
+import type { RefereeAnalysis } from './types';
+
+const analysis: RefereeAnalysis = {
+  matchup: { technology1: 'React', technology2: 'Vue' },
+  taleOfTheTape: {
+    speed: { tech1: 'Virtual DOM diffing', tech2: 'Fine-grained reactivity' },
+    cost: { tech1: '$0 license', tech2: '$0 license' }
+  },
+  scenarios: [
+    { name: 'Move Fast Team', winner: 'Vue', reasoning: 'Less boilerplate for small teams', context: 'Small teams shipping weekly' }
+  ],
+  hiddenTaxes: [{ technology: 'React', warning: 'library churn', timeframe: '6 months', severity: 'medium', likelihood: 'high', mitigation: 'Pin major versions' }],
+  tieBreaker: 'Do you already have React developers on staff?'
+};
+
+describe('Guideline checks', () => {
+  test('superiority claims need an "if"', () => {
+    expect(findUnqualifiedClaims('React is better. Vue is better if you like templates.\nSvelte is better than both!'))
+      .toEqual(['React is better.', 'Svelte is better than both!']);
+  });
+
+  test('a compliant analysis has no violations', () => {
+    expect(lintRefereeAnalysis(analysis)).toEqual([]);
+  });
+
+  test('each broken guideline is reported with where it was found', () => {
+    const violations = lintRefereeAnalysis({
+      ...analysis,
+      taleOfTheTape: { ...analysis.taleOfTheTape, cost: { tech1: 'Good value', tech2: '$0 license' } },
+      scenarios: [{ ...analysis.scenarios[0], reasoning: 'Vue is simply better' }],
+      hiddenTaxes: [{ ...analysis.hiddenTaxes[0], timeframe: 'eventually' }],
+      tieBreaker: 'Pick the one your team knows.'
+    });
+
+    expect(violations).toEqual([
+      { rule: 'genericDescriptor', field: 'taleOfTheTape.cost.tech1', excerpt: 'Good value' },
+      { rule: 'absoluteClaim', field: 'scenarios[0].reasoning', excerpt: 'Vue is simply better' },
+      { rule: 'tieBreakerQuestion', field: 'tieBreaker', excerpt: 'Pick the one your team knows.' },
+      { rule: 'hiddenTaxTimeframe', field: 'hiddenTaxes[0].timeframe', excerpt: 'eventually' }
+    ]);
+    expect(describeViolation(violations[3]))
+      .toBe('Give the Hidden Tax a specific timeframe (e.g., "in 6 months") (hiddenTaxes[0].timeframe: "eventually")');
+  });
+
+  test('the timeframe is checked against the raw Hidden Tax section when there is one', () => {
+    const response = [
+      '### 1. 🥊 The Matchup\nReact vs Vue',
+      '### 2. 📊 The Tale of the Tape\n| Dimension | React | Vue |\n|---|---|---|\n| Speed | Virtual DOM diffing | Fine-grained reactivity |',
+      "### 3. ⚖️ The Verdicts\n**Scenario A (The 'Move Fast' Team):** Which wins? Vue wins. Why? Less boilerplate for small teams.",
+      '### 4. ⚠️ The "Hidden Tax"\nIf you choose React, be prepared to pay the tax of library churn.',
+      '### 5. 🏁 The Tie-Breaker\nDo you already have React developers on staff?'
+    ].join('\n\n');
+    expect(lintRefereeAnalysis(analysis, response).map(violation => violation.rule)).toEqual(['hiddenTaxTimeframe']);
+  });
+});
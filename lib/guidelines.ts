@@ -0,0 +1,90 @@
+// Post-parse checks that a verdict follows the referee guidelines the prompts ask for
+import { extractSections, splitHiddenTaxes } from './parser';
+import { GuidelineRule, GuidelineViolation, RefereeAnalysis } from './types';
+
+/**
+ * What each rule asks for, phrased for a corrective prompt
+ */
+export const GUIDELINE_RULES: Record<GuidelineRule, string> = {
+  absoluteClaim: 'Never say "X is better" without immediately adding "if..."',
+  genericDescriptor: 'Use specific descriptors in the Tale of the Tape, not Good/Bad/Better/Worse',
+  tieBreakerQuestion: 'End with exactly ONE tie-breaker question',
+  hiddenTaxTimeframe: 'Give the Hidden Tax a specific timeframe (e.g., "in 6 months")'
+};
+
+// Generic praise and criticism the prompts forbid in place of specific descriptors
+const GENERIC_DESCRIPTOR = /\b(good|bad|better|worse)\b/i;
+// Unqualified superiority claims, e.g. "React is better" or "better than Vue"
+const ABSOLUTE_CLAIM = /\b(?:is|are)\s+(?:simply\s+|clearly\s+|just\s+)?better\b|\bbetter than\b/i;
+// A duration or point in time, e.g. "6 months", "a year", "the first quarter"
+const TIMEFRAME = /\b\d+(?:\s*-\s*\d+)?\s*(?:day|week|month|quarter|year|sprint)s?\b|\b(?:a|one|two|three|six|twelve|next|first|second)\s+(?:day|week|month|quarter|year|sprint)s?\b/i;
+
+/**
+ * Sentences that claim superiority without an "if"
+ */
+export function findUnqualifiedClaims(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => ABSOLUTE_CLAIM.test(sentence) && !/\bif\b/i.test(sentence));
+}
+
+/**
+ * Every guideline the analysis breaks. Pass the raw markdown response when
+ * there is one: the parser fills in a default Hidden Tax timeframe, so the
+ * timeframe is checked against what the model actually wrote.
+ */
+export function lintRefereeAnalysis(analysis: RefereeAnalysis, response?: string): GuidelineViolation[] {
+  const violations: GuidelineViolation[] = [];
+  const prose: [string, string][] = [
+    ...analysis.scenarios.flatMap((scenario, index): [string, string][] => [
+      [`scenarios[${index}].reasoning`, scenario.reasoning],
+      [`scenarios[${index}].context`, scenario.context]
+    ]),
+    ...analysis.hiddenTaxes.flatMap((tax, index): [string, string][] => [
+      [`hiddenTaxes[${index}].warning`, tax.warning],
+      ...(tax.mitigation ? [[`hiddenTaxes[${index}].mitigation`, tax.mitigation] as [string, string]] : [])
+    ]),
+    ['tieBreaker', analysis.tieBreaker]
+  ];
+
+  for (const [dimension, descriptors] of Object.entries(analysis.taleOfTheTape)) {
+    for (const [contender, descriptor] of Object.entries(descriptors)) {
+      const field = `taleOfTheTape.${dimension}.${contender}`;
+      if (GENERIC_DESCRIPTOR.test(descriptor)) {
+        violations.push({ rule: 'genericDescriptor', field, excerpt: descriptor });
+      }
+      prose.push([field, descriptor]);
+    }
+  }
+
+  for (const [field, text] of prose) {
+    for (const claim of findUnqualifiedClaims(text || '')) {
+      violations.push({ rule: 'absoluteClaim', field, excerpt: claim });
+    }
+  }
+
+  const tieBreaker = analysis.tieBreaker.trim();
+  if ((tieBreaker.match(/\?/g) || []).length !== 1 || !tieBreaker.endsWith('?')) {
+    violations.push({ rule: 'tieBreakerQuestion', field: 'tieBreaker', excerpt: tieBreaker });
+  }
+
+  const sections = response ? extractSections(response) : null;
+  const taxes = sections?.success
+    ? splitHiddenTaxes(sections.data.hiddenTax.trim())
+    : analysis.hiddenTaxes.map(tax => tax.timeframe);
+  taxes.forEach((tax, index) => {
+    if (!TIMEFRAME.test(tax)) {
+      violations.push({ rule: 'hiddenTaxTimeframe', field: `hiddenTaxes[${index}].timeframe`, excerpt: tax });
+    }
+  });
+
+  return violations;
+}
+
+/**
+ * One line per violation, for logs and corrective prompts
+ */
+export function describeViolation(violation: GuidelineViolation): string {
+  return `${GUIDELINE_RULES[violation.rule]} (${violation.field}: "${violation.excerpt}")`;
+}
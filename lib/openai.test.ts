@@ -0,0 +1,212 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the LLM provider registry
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+
+type OpenAIModule = typeof import('./openai');
+
+const ORIGINAL_ENV = process.env;
+
+function loadModule(env: Record<string, string | undefined>): OpenAIModule {
+  process.env = {
+    ...ORIGINAL_ENV,
+    GEMINI_API_KEY: undefined,
+    OPENAI_API_KEY: undefined,
+    LOCAL_LLM_BASE_URL: undefined,
+    LLM_PROVIDER: undefined,
+    ...env
+  };
+  let loaded: OpenAIModule | undefined;
+  jest.isolateModules(() => {
+    loaded = require('./openai');
+  });
+  return loaded!;
+}
+
+function createFakeProvider(name: string, configured = true) {
+  return {
+    name,
+    capabilities: { jsonMode: false, systemPrompt: false, modelFallback: false, streaming: false },
+    timeoutMs: 1000,
+    isConfigured: () => configured,
+    generate: jest.fn(async (prompt: string) => `${name}:${prompt}`),
+    mapError: jest.fn()
+  };
+}
+
+describe('LLM provider registry', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+    jest.restoreAllMocks();
+  });
+
+  it('registers the built-in providers in preference order', () => {
+    const llm = loadModule({});
+    expect(llm.getProviderNames()).toEqual(['gemini', 'openai', 'local']);
+  });
+
+  it('prefers gemini when both keys are set and no provider is requested', () => {
+    const llm = loadModule({ GEMINI_API_KEY: 'g', OPENAI_API_KEY: 'o' });
+    expect(llm.resolveProvider().name).toBe('gemini');
+    expect(llm.getActiveProviderName()).toBe('gemini');
+  });
+
+  it('honours LLM_PROVIDER over the default order', () => {
+    const llm = loadModule({ GEMINI_API_KEY: 'g', OPENAI_API_KEY: 'o', LLM_PROVIDER: 'openai' });
+    expect(llm.resolveProvider().name).toBe('openai');
+  });
+
+  it('lets a per-call provider override LLM_PROVIDER', async () => {
+    const llm = loadModule({ LLM_PROVIDER: 'gemini', GEMINI_API_KEY: 'g' });
+    const fake = createFakeProvider('fake');
+    llm.registerProvider(fake);
+
+    await expect(llm.callOpenAI('prompt', { provider: 'FAKE' })).resolves.toBe('fake:prompt');
+    expect(fake.generate).toHaveBeenCalledWith('prompt', {});
+  });
+
+  it('streams a single chunk from providers without native streaming', async () => {
+    const llm = loadModule({});
+    const fake = createFakeProvider('fake');
+    llm.registerProvider(fake);
+
+    const chunks: string[] = [];
+    for await (const chunk of llm.streamOpenAI('prompt', { provider: 'fake' })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['fake:prompt']);
+  });
+
+  it('reports an unknown provider with the available names', () => {
+    const llm = loadModule({ GEMINI_API_KEY: 'g' });
+
+    expect(() => llm.resolveProvider('anthropic')).toThrow(expect.objectContaining({
+      code: 'UNKNOWN_PROVIDER',
+      details: expect.objectContaining({ available: ['gemini', 'openai', 'local'] })
+    }));
+  });
+
+  it('rejects an explicitly requested provider that is not configured', () => {
+    const llm = loadModule({ GEMINI_API_KEY: 'g' });
+    expect(() => llm.resolveProvider('openai')).toThrow(expect.objectContaining({ code: 'MISSING_API_KEY' }));
+  });
+
+  it('reports "none" and throws MISSING_API_KEY when nothing is configured', () => {
+    const llm = loadModule({});
+    expect(llm.getActiveProviderName()).toBe('none');
+    expect(() => llm.validateOpenAIConfig()).toThrow(expect.objectContaining({ code: 'MISSING_API_KEY' }));
+  });
+
+  it('maps gemini network failures onto OpenAIError codes', () => {
+    const llm = loadModule({});
+    const timeout = Object.assign(new Error('aborted'), { name: 'AbortError' });
+
+    expect(llm.geminiProvider.mapError(timeout).code).toBe('TIMEOUT_ERROR');
+    expect(llm.geminiProvider.mapError(new Error('getaddrinfo ENOTFOUND')).code).toBe('CONNECTION_ERROR');
+    expect(llm.openaiProvider.mapError(new Error('connect ECONNREFUSED')).code).toBe('CONNECTION_ERROR');
+  });
+});
+
+describe('Local OpenAI-compatible provider', () => {
+  let server: Server;
+  let baseURL: string;
+  let lastRequest: { url?: string; body: any };
+  let reply: (req: IncomingMessage) => { status: number; body: any };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        lastRequest = { url: req.url, body: raw ? JSON.parse(raw) : null };
+        const { status, body } = reply(req);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+    jest.restoreAllMocks();
+  });
+
+  it('is configured by LOCAL_LLM_BASE_URL and uses its own timeout', () => {
+    const llm = loadModule({ LOCAL_LLM_BASE_URL: baseURL, LOCAL_LLM_TIMEOUT_MS: '90000' });
+
+    expect(llm.getActiveProviderName()).toBe('local');
+    expect(llm.getProviderTimeoutMs()).toBe(90000);
+    expect(llm.getProviderTimeoutMs('unknown')).toBe(30000);
+    expect(llm.getProviderModel()).toEqual({ provider: 'local', model: 'llama3.1' });
+  });
+
+  it('sends the referee system prompt and configured model to the local server', async () => {
+    reply = () => ({
+      status: 200,
+      body: {
+        id: 'cmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'qwen2.5',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'local verdict' } }]
+      }
+    });
+    const llm = loadModule({ LOCAL_LLM_BASE_URL: baseURL, LOCAL_LLM_MODEL: 'qwen2.5', LLM_PROVIDER: 'local' });
+
+    await expect(llm.callOpenAI('Compare React vs Vue')).resolves.toBe('local verdict');
+    expect(lastRequest.url).toBe('/v1/chat/completions');
+    expect(lastRequest.body.model).toBe('qwen2.5');
+    expect(lastRequest.body.messages[0]).toEqual(expect.objectContaining({
+      role: 'system',
+      content: expect.stringContaining('The Tech Referee')
+    }));
+    expect(lastRequest.body.messages[1]).toEqual({ role: 'user', content: 'Compare React vs Vue' });
+  });
+
+  it('maps local server errors through the OpenAIError codes', async () => {
+    reply = () => ({
+      status: 404,
+      body: { error: { message: 'model "missing" not found', code: 'model_not_found', type: 'invalid_request_error' } }
+    });
+    const llm = loadModule({ LOCAL_LLM_BASE_URL: baseURL, LLM_PROVIDER: 'local' });
+
+    await expect(llm.callOpenAI('prompt')).rejects.toEqual(expect.objectContaining({
+      code: 'SERVICE_UNAVAILABLE',
+      details: expect.objectContaining({ provider: 'local', baseURL })
+    }));
+  });
+
+  it('reports an unreachable server as a connection error', async () => {
+    const llm = loadModule({ LOCAL_LLM_BASE_URL: 'http://127.0.0.1:1/v1', LLM_PROVIDER: 'local' });
+
+    await expect(llm.callOpenAI('prompt')).rejects.toEqual(expect.objectContaining({ code: 'CONNECTION_ERROR' }));
+  });
+
+  it('tags mapped errors with the local endpoint', () => {
+    const llm = loadModule({ LOCAL_LLM_BASE_URL: baseURL, LOCAL_LLM_MODEL: 'qwen2.5' });
+
+    expect(llm.localProvider.mapError(new Error('connect ECONNREFUSED'))).toEqual(expect.objectContaining({
+      code: 'CONNECTION_ERROR',
+      details: expect.objectContaining({ provider: 'local', baseURL, model: 'qwen2.5' })
+    }));
+  });
+});
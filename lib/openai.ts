@@ -1,9 +1,11 @@
 import OpenAI from 'openai';
+import { REFEREE_PERSONA_PROMPT } from './prompts';
+import type { JsonSchema } from './schema';
+import { readSSEStream } from './sse';
+import type { OutputFormat } from './types';
 
-// Validate environment variables at module load
-if (!process.env.GEMINI_API_KEY && !process.env.OPENAI_API_KEY) {
-  console.error('Neither GEMINI_API_KEY nor OPENAI_API_KEY environment variable is set');
-}
+// Request timeout for hosted providers
+const DEFAULT_TIMEOUT_MS = 30000;
 
 // OpenAI client configuration for Tech Referee
 let openaiClient: OpenAI | null = null;
@@ -21,7 +23,7 @@ function getOpenAIClient(): OpenAI {
     openaiClient = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY,
       // Add timeout and other configurations to avoid deprecation warnings
-      timeout: 30000,
+      timeout: DEFAULT_TIMEOUT_MS,
       maxRetries: 2,
     });
   }
@@ -65,30 +67,250 @@ export class OpenAIError extends Error {
   }
 }
 
-function getConfiguredProvider(): 'gemini' | 'openai' | null {
-  if (process.env.GEMINI_API_KEY) {
-    return 'gemini';
+// ============================================================================
+// Provider Registry
+// ============================================================================
+
+/**
+ * Features a provider supports beyond plain text generation
+ */
+export interface LLMProviderCapabilities {
+  jsonMode: boolean;
+  systemPrompt: boolean;
+  modelFallback: boolean;
+  streaming: boolean;
+}
+
+/**
+ * A backend that can turn a referee prompt into a text response
+ */
+export interface LLMProvider {
+  name: string;
+  /** Primary model the provider asks for, recorded alongside saved analyses */
+  model?: string;
+  capabilities: LLMProviderCapabilities;
+  timeoutMs: number;
+  isConfigured(): boolean;
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+  generateStream?(prompt: string, options?: LLMGenerateOptions): AsyncIterable<string>;
+  mapError(error: unknown): OpenAIError;
+}
+
+/**
+ * Output controls passed through to the provider. Providers without
+ * capabilities.jsonMode ignore them and rely on the prompt alone.
+ */
+export interface LLMGenerateOptions {
+  responseFormat?: OutputFormat;
+  responseSchema?: JsonSchema;
+  /** System instruction from the prompt template; defaults to the referee persona */
+  systemPrompt?: string;
+  /** Stops the request, e.g. when a streaming client disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * Per-call options for callOpenAI
+ */
+export interface LLMCallOptions extends LLMGenerateOptions {
+  provider?: string;
+}
+
+const providerRegistry = new Map<string, LLMProvider>();
+
+/**
+ * Register a provider. Registration order is the default preference order
+ * when neither LLM_PROVIDER nor a per-request provider is given.
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providerRegistry.set(provider.name.toLowerCase(), provider);
+}
+
+/**
+ * Names of all registered providers
+ */
+export function getProviderNames(): string[] {
+  return Array.from(providerRegistry.keys());
+}
+
+/**
+ * Pick the provider for a call: explicit name, then LLM_PROVIDER, then the
+ * first registered provider that is configured.
+ */
+export function resolveProvider(name?: string): LLMProvider {
+  const requested = (name || process.env.LLM_PROVIDER || '').trim().toLowerCase();
+
+  if (requested) {
+    const provider = providerRegistry.get(requested);
+
+    if (!provider) {
+      throw new OpenAIError(
+        `Unknown LLM provider: ${requested}`,
+        'UNKNOWN_PROVIDER',
+        { provider: requested, available: getProviderNames() }
+      );
+    }
+
+    if (!provider.isConfigured()) {
+      throw new OpenAIError(
+        `LLM provider "${requested}" is not configured`,
+        'MISSING_API_KEY',
+        { provider: requested }
+      );
+    }
+
+    return provider;
+  }
+
+  for (const provider of Array.from(providerRegistry.values())) {
+    if (provider.isConfigured()) {
+      return provider;
+    }
+  }
+
+  throw new OpenAIError(
+    'LLM API key is not configured',
+    'MISSING_API_KEY',
+    { env: ['GEMINI_API_KEY', 'OPENAI_API_KEY', 'LOCAL_LLM_BASE_URL'], providers: getProviderNames() }
+  );
+}
+
+/**
+ * Name of the provider callOpenAI would use right now, or 'none'
+ */
+export function getActiveProviderName(): string {
+  try {
+    return resolveProvider().name;
+  } catch {
+    return 'none';
   }
+}
 
-  if (process.env.OPENAI_API_KEY) {
-    return 'openai';
+/**
+ * Request timeout of the provider a call would use, so callers can size
+ * their own deadlines (local models are much slower than hosted ones)
+ */
+export function getProviderTimeoutMs(name?: string): number {
+  try {
+    return resolveProvider(name).timeoutMs;
+  } catch {
+    return DEFAULT_TIMEOUT_MS;
   }
+}
 
-  return null;
+/**
+ * Capabilities of the provider a call would use, or null when none resolves
+ */
+export function getProviderCapabilities(name?: string): LLMProviderCapabilities | null {
+  try {
+    return resolveProvider(name).capabilities;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Provider and primary model a call would use, or null when none resolves
+ */
+export function getProviderModel(name?: string): { provider: string; model: string } | null {
+  try {
+    const provider = resolveProvider(name);
+    return { provider: provider.name, model: provider.model || 'unknown' };
+  } catch {
+    return null;
+  }
 }
 
 // Validate LLM API key is configured
-export function validateOpenAIConfig(): void {
-  if (!getConfiguredProvider()) {
-    throw new OpenAIError(
-      'LLM API key is not configured',
-      'MISSING_API_KEY',
-      { env: ['GEMINI_API_KEY', 'OPENAI_API_KEY'] }
-    );
+export function validateOpenAIConfig(provider?: string): void {
+  resolveProvider(provider);
+}
+
+// ============================================================================
+// Gemini Provider
+// ============================================================================
+
+// Gemini's responseSchema is an OpenAPI subset: upper-case types, no minLength
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  return {
+    type: schema.type.toUpperCase(),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {}),
+    ...(schema.minItems !== undefined ? { minItems: schema.minItems } : {}),
+    ...(schema.maxItems !== undefined ? { maxItems: schema.maxItems } : {}),
+    ...(schema.minimum !== undefined ? { minimum: schema.minimum } : {}),
+    ...(schema.maximum !== undefined ? { maximum: schema.maximum } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+          ),
+          required: schema.required || []
+        }
+      : {})
+  };
+}
+
+function buildGeminiRequestBody(prompt: string, options: LLMGenerateOptions): string {
+  return JSON.stringify({
+    systemInstruction: {
+      parts: [
+        {
+          text: options.systemPrompt || REFEREE_PERSONA_PROMPT
+        }
+      ]
+    },
+    contents: [
+      {
+        role: 'user',
+        parts: [{ text: prompt }]
+      }
+    ],
+    generationConfig: {
+      temperature: GEMINI_CONFIG.temperature,
+      topP: GEMINI_CONFIG.topP,
+      maxOutputTokens: GEMINI_CONFIG.maxOutputTokens,
+      ...(options.responseFormat === 'json'
+        ? {
+            responseMimeType: 'application/json',
+            ...(options.responseSchema ? { responseSchema: toGeminiSchema(options.responseSchema) } : {})
+          }
+        : {})
+    }
+  });
+}
+
+function getGeminiErrorCode(status: number): string {
+  if (status === 429) {
+    return 'QUOTA_EXCEEDED';
   }
+  if (status === 400 || status === 401 || status === 403) {
+    return 'CONFIGURATION_ERROR';
+  }
+  if (status === 404) {
+    return 'MODEL_NOT_FOUND';
+  }
+  return 'API_ERROR';
+}
+
+// The parts of a Gemini generateContent payload that carry its text
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{ text?: string }>;
+    };
+  }>;
+}
+
+// Text of every part in a Gemini generateContent payload
+function getGeminiText(payload: GeminiResponse | null | undefined): string {
+  return (payload?.candidates?.[0]?.content?.parts || [])
+    .map(part => part.text || '')
+    .join('');
 }
 
-async function callGemini(prompt: string): Promise<string> {
+async function callGemini(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
   const apiKey = process.env.GEMINI_API_KEY;
 
   if (!apiKey) {
@@ -100,7 +322,7 @@ async function callGemini(prompt: string): Promise<string> {
   }
 
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000);
+  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS);
 
   try {
     console.log('Making Gemini API call with prompt length:', prompt.length);
@@ -119,26 +341,7 @@ async function callGemini(prompt: string): Promise<string> {
             headers: {
               'Content-Type': 'application/json'
             },
-            body: JSON.stringify({
-              systemInstruction: {
-                parts: [
-                  {
-                    text: 'You are The Tech Referee, a senior solutions architect and impartial arbiter who helps developers choose between competing technologies by focusing on trade-offs, constraints, and hidden costs.'
-                  }
-                ]
-              },
-              contents: [
-                {
-                  role: 'user',
-                  parts: [{ text: prompt }]
-                }
-              ],
-              generationConfig: {
-                temperature: GEMINI_CONFIG.temperature,
-                topP: GEMINI_CONFIG.topP,
-                maxOutputTokens: GEMINI_CONFIG.maxOutputTokens
-              }
-            })
+            body: buildGeminiRequestBody(prompt, options)
           }
         );
 
@@ -150,14 +353,7 @@ async function callGemini(prompt: string): Promise<string> {
           const errorMessage = payload?.error?.message || payload?.raw || `HTTP ${response.status}`;
           const errorStatus = payload?.error?.status || response.status;
 
-          let errorCode = 'API_ERROR';
-          if (response.status === 429) {
-            errorCode = 'QUOTA_EXCEEDED';
-          } else if (response.status === 400 || response.status === 401 || response.status === 403) {
-            errorCode = 'CONFIGURATION_ERROR';
-          } else if (response.status === 404) {
-            errorCode = 'MODEL_NOT_FOUND';
-          }
+          const errorCode = getGeminiErrorCode(response.status);
 
           const mappedError = new OpenAIError(errorMessage, errorCode, {
             provider: 'gemini',
@@ -180,10 +376,7 @@ async function callGemini(prompt: string): Promise<string> {
           throw mappedError;
         }
 
-        const responseText = payload?.candidates?.[0]?.content?.parts
-          ?.map((part: { text?: string }) => part.text || '')
-          .join('')
-          .trim();
+        const responseText = getGeminiText(payload).trim();
 
         if (!responseText) {
           throw new OpenAIError(
@@ -229,161 +422,502 @@ async function callGemini(prompt: string): Promise<string> {
     );
   } catch (error) {
     console.error('Gemini API call failed:', error);
+    throw mapGeminiError(error);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Map fetch/abort failures from the Gemini REST API onto OpenAIError codes
+function mapGeminiError(error: unknown): OpenAIError {
+  if (error instanceof OpenAIError) {
+    return error;
+  }
 
-    if (error instanceof OpenAIError) {
-      throw error;
+  if (error instanceof Error) {
+    if (error.name === 'AbortError' || error.message.includes('timeout')) {
+      return new OpenAIError(
+        'Analysis request timed out. Please try again.',
+        'TIMEOUT_ERROR',
+        { provider: 'gemini', originalError: error.message }
+      );
     }
 
-    if (error instanceof Error) {
-      if (error.name === 'AbortError' || error.message.includes('timeout')) {
-        throw new OpenAIError(
-          'Analysis request timed out. Please try again.',
-          'TIMEOUT_ERROR',
-          { provider: 'gemini', originalError: error.message }
-        );
+    if (error.message.includes('ENOTFOUND') || error.message.includes('ECONNREFUSED')) {
+      return new OpenAIError(
+        'Unable to connect to analysis service. Please check your internet connection.',
+        'CONNECTION_ERROR',
+        { provider: 'gemini', originalError: error.message }
+      );
+    }
+  }
+
+  return new OpenAIError(
+    `Unexpected error during Gemini analysis: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    'UNKNOWN_ERROR',
+    { provider: 'gemini', originalError: error }
+  );
+}
+
+// Streams the primary model only; model fallback needs a complete response to judge
+async function* streamGemini(prompt: string, options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+  const apiKey = process.env.GEMINI_API_KEY;
+
+  if (!apiKey) {
+    throw new OpenAIError(
+      'Gemini API key is not configured',
+      'MISSING_API_KEY',
+      { env: 'GEMINI_API_KEY' }
+    );
+  }
+
+  const model = GEMINI_CONFIG.model;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS);
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+  if (options.signal?.aborted) {
+    abort();
+  }
+
+  try {
+    console.log(`Streaming Gemini model ${model} with prompt length:`, prompt.length);
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse&key=${encodeURIComponent(apiKey)}`,
+      {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: buildGeminiRequestBody(prompt, options)
       }
+    );
 
-      if (error.message.includes('ENOTFOUND') || error.message.includes('ECONNREFUSED')) {
-        throw new OpenAIError(
-          'Unable to connect to analysis service. Please check your internet connection.',
-          'CONNECTION_ERROR',
-          { provider: 'gemini', originalError: error.message }
-        );
+    if (!response.ok || !response.body) {
+      const payload = await response.json().catch(() => null);
+      throw new OpenAIError(
+        payload?.error?.message || `HTTP ${response.status}`,
+        getGeminiErrorCode(response.status),
+        { provider: 'gemini', model, status: payload?.error?.status || response.status, payload }
+      );
+    }
+
+    let received = 0;
+    for await (const message of readSSEStream(response.body)) {
+      const text = getGeminiText(JSON.parse(message.data));
+      if (text) {
+        received += text.length;
+        yield text;
       }
     }
 
-    throw new OpenAIError(
-      `Unexpected error during Gemini analysis: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'UNKNOWN_ERROR',
-      { provider: 'gemini', originalError: error }
-    );
+    if (received === 0) {
+      throw new OpenAIError(
+        'No response received from Gemini',
+        'EMPTY_RESPONSE',
+        { provider: 'gemini', model }
+      );
+    }
+  } catch (error) {
+    console.error('Gemini streaming call failed:', error);
+    throw mapGeminiError(error);
   } finally {
     clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', abort);
   }
 }
 
-// Wrapper function for OpenAI API calls with enhanced error handling
-export async function callOpenAI(prompt: string): Promise<string> {
-  validateOpenAIConfig();
+export const geminiProvider: LLMProvider = {
+  name: 'gemini',
+  model: GEMINI_CONFIG.model,
+  capabilities: {
+    jsonMode: true,
+    systemPrompt: true,
+    modelFallback: true,
+    streaming: true
+  },
+  timeoutMs: DEFAULT_TIMEOUT_MS,
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  generate: callGemini,
+  generateStream: streamGemini,
+  mapError: mapGeminiError
+};
+
+// ============================================================================
+// OpenAI Provider
+// ============================================================================
+
+// Shared chat completions call for OpenAI and OpenAI-compatible servers
+async function createChatCompletion(
+  client: OpenAI,
+  params: { model: string; temperature: number; max_tokens: number },
+  prompt: string,
+  label: string,
+  options: LLMGenerateOptions = {}
+): Promise<string> {
+  const completion = await client.chat.completions.create({
+    ...params,
+    // json_object keeps the schema in the prompt; strict json_schema rejects minLength
+    ...(options.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+    messages: [
+      {
+        role: 'system',
+        content: options.systemPrompt || REFEREE_PERSONA_PROMPT
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+  });
 
-  if (process.env.GEMINI_API_KEY) {
-    return callGemini(prompt);
+  console.log(`${label} API call completed successfully`);
+  const response = completion.choices[0]?.message?.content;
+
+  if (!response) {
+    console.error(`Empty response from ${label}:`, completion);
+    throw new OpenAIError(
+      `No response received from ${label}`,
+      'EMPTY_RESPONSE',
+      { completion }
+    );
   }
 
+  console.log(`${label} response length:`, response.length);
+  return response;
+}
+
+// Streaming counterpart of createChatCompletion, yielding content deltas
+async function* streamChatCompletion(
+  client: OpenAI,
+  params: { model: string; temperature: number; max_tokens: number },
+  prompt: string,
+  label: string,
+  options: LLMGenerateOptions = {}
+): AsyncGenerator<string> {
+  const stream = await client.chat.completions.create({
+    ...params,
+    stream: true,
+    messages: [
+      {
+        role: 'system',
+        content: options.systemPrompt || REFEREE_PERSONA_PROMPT
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+  }, { signal: options.signal });
+
+  let received = 0;
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      received += delta.length;
+      yield delta;
+    }
+  }
+
+  if (received === 0) {
+    throw new OpenAIError(
+      `No response received from ${label}`,
+      'EMPTY_RESPONSE',
+      { streamed: true }
+    );
+  }
+
+  console.log(`${label} stream completed, length:`, received);
+}
+
+async function callOpenAIChat(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
   try {
     console.log('Making OpenAI API call with prompt length:', prompt.length);
-    const openai = getOpenAIClient();
-    
-    const completion = await openai.chat.completions.create({
-      ...OPENAI_CONFIG,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are The Tech Referee, a senior solutions architect and impartial arbiter who helps developers choose between competing technologies by focusing on trade-offs, constraints, and hidden costs.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
+    return await createChatCompletion(getOpenAIClient(), OPENAI_CONFIG, prompt, 'OpenAI', options);
+  } catch (error) {
+    console.error('OpenAI API call failed:', error);
+    throw mapOpenAIError(error);
+  }
+}
+
+async function* streamOpenAIChat(prompt: string, options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+  try {
+    console.log('Streaming OpenAI API call with prompt length:', prompt.length);
+    yield* streamChatCompletion(getOpenAIClient(), OPENAI_CONFIG, prompt, 'OpenAI', options);
+  } catch (error) {
+    console.error('OpenAI streaming call failed:', error);
+    throw mapOpenAIError(error);
+  }
+}
+
+// Map OpenAI SDK and network failures onto user-friendly OpenAIError codes
+function mapOpenAIError(error: unknown): OpenAIError {
+  // The SDK reports transport failures as APIError subclasses without a code
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new OpenAIError(
+      'Analysis request timed out. Please try again.',
+      'TIMEOUT_ERROR',
+      { originalError: error.message }
+    );
+  }
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new OpenAIError(
+      'Unable to connect to analysis service. Please check your internet connection.',
+      'CONNECTION_ERROR',
+      { originalError: error.message }
+    );
+  }
+
+  // Handle OpenAI API errors with more specific error mapping
+  if (error instanceof OpenAI.APIError) {
+    console.log('OpenAI API Error details:', {
+      status: error.status,
+      code: error.code,
+      type: error.type,
+      message: error.message
     });
 
-    console.log('OpenAI API call completed successfully');
-    const response = completion.choices[0]?.message?.content;
-    
-    if (!response) {
-      console.error('Empty response from OpenAI:', completion);
-      throw new OpenAIError(
-        'No response received from OpenAI',
-        'EMPTY_RESPONSE',
-        { completion }
-      );
+    let userMessage = error.message;
+    let errorCode = error.code || 'API_ERROR';
+
+    // Map specific OpenAI errors to user-friendly messages
+    switch (error.code) {
+      case 'insufficient_quota':
+        userMessage = 'Service temporarily unavailable due to quota limits. Please try again later.';
+        errorCode = 'QUOTA_EXCEEDED';
+        break;
+      case 'rate_limit_exceeded':
+        userMessage = 'Too many requests. Please wait a moment and try again.';
+        errorCode = 'RATE_LIMIT_EXCEEDED';
+        break;
+      case 'invalid_api_key':
+        userMessage = 'Service configuration error. Please contact support.';
+        errorCode = 'CONFIGURATION_ERROR';
+        break;
+      case 'model_not_found':
+        userMessage = 'Analysis service temporarily unavailable. Please try again later.';
+        errorCode = 'SERVICE_UNAVAILABLE';
+        break;
+      case 'context_length_exceeded':
+        userMessage = 'Request too large. Please try with shorter technology names.';
+        errorCode = 'REQUEST_TOO_LARGE';
+        break;
+      default:
+        userMessage = `Service error: ${error.message}`;
     }
 
-    console.log('OpenAI response length:', response.length);
-    return response;
-  } catch (error) {
-    console.error('OpenAI API call failed:', error);
-    
-    // Handle OpenAI API errors with more specific error mapping
-    if (error instanceof OpenAI.APIError) {
-      console.log('OpenAI API Error details:', {
+    return new OpenAIError(
+      userMessage,
+      errorCode,
+      {
         status: error.status,
-        code: error.code,
         type: error.type,
-        message: error.message
-      });
-      
-      let userMessage = error.message;
-      let errorCode = error.code || 'API_ERROR';
-
-      // Map specific OpenAI errors to user-friendly messages
-      switch (error.code) {
-        case 'insufficient_quota':
-          userMessage = 'Service temporarily unavailable due to quota limits. Please try again later.';
-          errorCode = 'QUOTA_EXCEEDED';
-          break;
-        case 'rate_limit_exceeded':
-          userMessage = 'Too many requests. Please wait a moment and try again.';
-          errorCode = 'RATE_LIMIT_EXCEEDED';
-          break;
-        case 'invalid_api_key':
-          userMessage = 'Service configuration error. Please contact support.';
-          errorCode = 'CONFIGURATION_ERROR';
-          break;
-        case 'model_not_found':
-          userMessage = 'Analysis service temporarily unavailable. Please try again later.';
-          errorCode = 'SERVICE_UNAVAILABLE';
-          break;
-        case 'context_length_exceeded':
-          userMessage = 'Request too large. Please try with shorter technology names.';
-          errorCode = 'REQUEST_TOO_LARGE';
-          break;
-        default:
-          userMessage = `Service error: ${error.message}`;
+        originalMessage: error.message
       }
+    );
+  }
 
-      throw new OpenAIError(
-        userMessage,
-        errorCode,
-        { 
-          status: error.status, 
-          type: error.type,
-          originalMessage: error.message
-        }
+  // Handle network/connection errors
+  if (error instanceof Error) {
+    console.log('Network/connection error:', error.message);
+
+    if (error.message.includes('ECONNREFUSED') || error.message.includes('ENOTFOUND')) {
+      return new OpenAIError(
+        'Unable to connect to analysis service. Please check your internet connection.',
+        'CONNECTION_ERROR',
+        { originalError: error.message }
       );
     }
-    
-    // Handle network/connection errors
-    if (error instanceof Error) {
-      console.log('Network/connection error:', error.message);
-      
-      if (error.message.includes('ECONNREFUSED') || error.message.includes('ENOTFOUND')) {
-        throw new OpenAIError(
-          'Unable to connect to analysis service. Please check your internet connection.',
-          'CONNECTION_ERROR',
-          { originalError: error.message }
-        );
-      }
-      
-      if (error.message.includes('timeout')) {
-        throw new OpenAIError(
-          'Analysis request timed out. Please try again.',
-          'TIMEOUT_ERROR',
-          { originalError: error.message }
-        );
-      }
-    }
-    
-    if (error instanceof OpenAIError) {
-      throw error;
+
+    if (error.message.includes('timeout')) {
+      return new OpenAIError(
+        'Analysis request timed out. Please try again.',
+        'TIMEOUT_ERROR',
+        { originalError: error.message }
+      );
     }
+  }
 
-    console.log('Unknown error type:', typeof error, error);
+  if (error instanceof OpenAIError) {
+    return error;
+  }
+
+  console.log('Unknown error type:', typeof error, error);
+  return new OpenAIError(
+    `Unexpected error during analysis: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    'UNKNOWN_ERROR',
+    { originalError: error }
+  );
+}
+
+export const openaiProvider: LLMProvider = {
+  name: 'openai',
+  model: OPENAI_CONFIG.model,
+  capabilities: {
+    jsonMode: true,
+    systemPrompt: true,
+    modelFallback: false,
+    streaming: true
+  },
+  timeoutMs: DEFAULT_TIMEOUT_MS,
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  generate: callOpenAIChat,
+  generateStream: streamOpenAIChat,
+  mapError: mapOpenAIError
+};
+
+// ============================================================================
+// Local Provider (OpenAI-compatible servers: Ollama, llama.cpp, vLLM)
+// ============================================================================
+
+/**
+ * Configuration for a self-hosted OpenAI-compatible chat completions server.
+ * Read on every call so the endpoint can be changed without a rebuild.
+ */
+export function getLocalLLMConfig() {
+  return {
+    baseURL: process.env.LOCAL_LLM_BASE_URL || '',
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    timeout: Number(process.env.LOCAL_LLM_TIMEOUT_MS) || 120000,
+    // Most local servers ignore the key, but the SDK requires one
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    temperature: 0.7,
+    max_tokens: 2000,
+  };
+}
+
+let localClient: { key: string; client: OpenAI } | null = null;
+
+function getLocalClient(): OpenAI {
+  const config = getLocalLLMConfig();
+
+  if (!config.baseURL) {
     throw new OpenAIError(
-      `Unexpected error during analysis: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'UNKNOWN_ERROR',
-      { originalError: error }
+      'Local LLM base URL is not configured',
+      'MISSING_API_KEY',
+      { env: 'LOCAL_LLM_BASE_URL' }
     );
   }
-}
\ No newline at end of file
+
+  const key = `${config.baseURL}|${config.apiKey}|${config.timeout}`;
+  if (!localClient || localClient.key !== key) {
+    localClient = {
+      key,
+      client: new OpenAI({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        timeout: config.timeout,
+        maxRetries: 0,
+      }),
+    };
+  }
+
+  return localClient.client;
+}
+
+// Local servers get the system prompt but not the JSON controls they lack
+async function callLocalChat(prompt: string, { systemPrompt }: LLMGenerateOptions = {}): Promise<string> {
+  const config = getLocalLLMConfig();
+
+  try {
+    console.log(`Making local LLM call to ${config.baseURL} (${config.model}) with prompt length:`, prompt.length);
+    return await createChatCompletion(
+      getLocalClient(),
+      { model: config.model, temperature: config.temperature, max_tokens: config.max_tokens },
+      prompt,
+      'Local LLM',
+      { systemPrompt }
+    );
+  } catch (error) {
+    console.error('Local LLM call failed:', error);
+    throw mapLocalError(error, config);
+  }
+}
+
+async function* streamLocalChat(prompt: string, { systemPrompt, signal }: LLMGenerateOptions = {}): AsyncGenerator<string> {
+  const config = getLocalLLMConfig();
+
+  try {
+    console.log(`Streaming local LLM call to ${config.baseURL} (${config.model}) with prompt length:`, prompt.length);
+    yield* streamChatCompletion(
+      getLocalClient(),
+      { model: config.model, temperature: config.temperature, max_tokens: config.max_tokens },
+      prompt,
+      'Local LLM',
+      { systemPrompt, signal }
+    );
+  } catch (error) {
+    console.error('Local LLM streaming call failed:', error);
+    throw mapLocalError(error, config);
+  }
+}
+
+// Same codes as OpenAI, tagged with the endpoint that failed
+function mapLocalError(error: unknown, config: ReturnType<typeof getLocalLLMConfig>): OpenAIError {
+  const mapped = mapOpenAIError(error);
+  mapped.details = {
+    ...(typeof mapped.details === 'object' && mapped.details ? mapped.details : {}),
+    provider: 'local',
+    baseURL: config.baseURL,
+    model: config.model
+  };
+  return mapped;
+}
+
+export const localProvider: LLMProvider = {
+  name: 'local',
+  get model() {
+    return getLocalLLMConfig().model;
+  },
+  capabilities: {
+    jsonMode: false,
+    systemPrompt: true,
+    modelFallback: false,
+    streaming: true
+  },
+  get timeoutMs() {
+    return getLocalLLMConfig().timeout;
+  },
+  isConfigured: () => !!process.env.LOCAL_LLM_BASE_URL,
+  generate: callLocalChat,
+  generateStream: streamLocalChat,
+  mapError: error => mapLocalError(error, getLocalLLMConfig())
+};
+
+// Gemini is registered first so it stays the default when both keys are set
+registerProvider(geminiProvider);
+registerProvider(openaiProvider);
+registerProvider(localProvider);
+
+// Validate environment variables at module load
+if (getActiveProviderName() === 'none') {
+  console.error('No LLM provider is configured. Set GEMINI_API_KEY, OPENAI_API_KEY or LOCAL_LLM_BASE_URL (and optionally LLM_PROVIDER)');
+}
+
+// Wrapper function for LLM API calls, routed through the provider registry
+export async function callOpenAI(prompt: string, options: LLMCallOptions = {}): Promise<string> {
+  const { provider: providerName, ...generateOptions } = options;
+  const provider = resolveProvider(providerName);
+  console.log(`Using LLM provider: ${provider.name}`);
+  return provider.generate(prompt, generateOptions);
+}
+
+/**
+ * Streaming variant of callOpenAI. Providers without generateStream yield
+ * their complete response as a single chunk.
+ */
+export async function* streamOpenAI(prompt: string, options: LLMCallOptions = {}): AsyncGenerator<string> {
+  const { provider: providerName, ...generateOptions } = options;
+  const provider = resolveProvider(providerName);
+  console.log(`Streaming from LLM provider: ${provider.name}`);
+
+  if (!provider.generateStream) {
+    yield await provider.generate(prompt, generateOptions);
+    return;
+  }
+
+  yield* provider.generateStream(prompt, generateOptions);
+}
@@ -0,0 +1,1079 @@
+// Parsers turning LLM responses, markdown or JSON, into a RefereeAnalysis
+import { DEFAULT_SCENARIOS, getScenarioShortName } from './scenarios';
+import { GENERAL_DIMENSIONS } from './dimensions';
+import { extractJsonObject, validateRefereeAnalysis } from './schema';
+import { splitTapeScores } from './scoring';
+import {
+  ApiError,
+  ComparisonDimension,
+  ComparisonMatrix,
+  contenderKey,
+  HiddenTax,
+  LATEST_PROMPT_FEATURES,
+  LegacyHiddenTax,
+  MIN_CONTENDERS,
+  RefereeAnalysis,
+  ScenarioPersona,
+  ScenarioVerdict,
+  TaxLevel,
+  upgradeLegacyHiddenTax
+} from './types';
+
+/**
+ * Matchup block for the requested contenders; the full list is only added
+ * for multi-way comparisons so two-way responses keep their original shape
+ */
+export function buildMatchup(technologies: string[]): RefereeAnalysis['matchup'] {
+  return {
+    technology1: technologies[0],
+    technology2: technologies[1],
+    ...(technologies.length > MIN_CONTENDERS ? { technologies } : {})
+  };
+}
+
+/**
+ * Parse a markdown LLM response into a RefereeAnalysis for the given contenders
+ */
+export async function parseLLMResponse(
+  response: string,
+  technologies: string[],
+  scenarios: ScenarioPersona[] = DEFAULT_SCENARIOS,
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS
+): Promise<{
+  success: true;
+  data: RefereeAnalysis;
+} | {
+  success: false;
+  error: ApiError;
+}> {
+  // Validate input parameters
+  if (!response || typeof response !== 'string' || response.trim().length === 0) {
+    return {
+      success: false,
+      error: {
+        code: 'PARSING_ERROR',
+        message: 'LLM response is empty or invalid',
+        details: 'Response must be a non-empty string',
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  if (technologies.length < MIN_CONTENDERS || technologies.some(tech => !tech || tech.trim().length === 0)) {
+    return {
+      success: false,
+      error: {
+        code: 'PARSING_ERROR',
+        message: 'Technology names are invalid',
+        details: 'Every technology name must be a non-empty string',
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  try {
+    // Extract sections using regex patterns
+    const sections = extractSections(response);
+    
+    if (!sections.success) {
+      return {
+        success: false,
+        error: {
+          code: 'PARSING_ERROR',
+          message: 'Failed to parse LLM response structure',
+          details: sections.error,
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+
+    // Parse Tale of the Tape
+    const taleOfTheTape = parseTaleOfTheTape(sections.data.taleOfTheTape, technologies, dimensions);
+    if (!taleOfTheTape.success) {
+      return {
+        success: false,
+        error: {
+          code: 'PARSING_ERROR',
+          message: 'Failed to parse Tale of the Tape section',
+          details: taleOfTheTape.error,
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+
+    // Parse Scenarios
+    const verdicts = parseScenarios(sections.data.verdicts, technologies, scenarios);
+    if (!verdicts.success) {
+      return {
+        success: false,
+        error: {
+          code: 'PARSING_ERROR',
+          message: 'Failed to parse Verdicts section',
+          details: verdicts.error,
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+
+    // Parse Hidden Taxes
+    const hiddenTaxes = parseHiddenTaxes(sections.data.hiddenTax);
+    if (!hiddenTaxes.success) {
+      return {
+        success: false,
+        error: {
+          code: 'PARSING_ERROR',
+          message: 'Failed to parse Hidden Tax section',
+          details: hiddenTaxes.error,
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+
+    // Extract tie-breaker
+    const tieBreaker = sections.data.tieBreaker.trim();
+    if (!tieBreaker) {
+      return {
+        success: false,
+        error: {
+          code: 'PARSING_ERROR',
+          message: 'Tie-breaker question is missing or empty',
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+
+    // Scores trail the descriptors, e.g. "$0 start cost (9/10, 80% confidence)"
+    const { comparison, scores } = splitTapeScores(taleOfTheTape.data, technologies.length, dimensions);
+
+    // Construct final analysis
+    const analysis: RefereeAnalysis = {
+      matchup: buildMatchup(technologies),
+      taleOfTheTape: comparison,
+      ...(scores ? { scores } : {}),
+      scenarios: verdicts.data,
+      hiddenTaxes: hiddenTaxes.data,
+      tieBreaker
+    };
+
+    return {
+      success: true,
+      data: analysis
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        code: 'PARSING_ERROR',
+        message: 'Unexpected error parsing LLM response',
+        details: error instanceof Error ? error.message : 'Unknown parsing error',
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+}
+
+/**
+ * Parse a JSON-mode LLM response and check it against the RefereeAnalysis schema.
+ * Falls back to the markdown parser when the model ignored JSON mode.
+ */
+export async function parseStructuredResponse(
+  response: string,
+  technologies: string[],
+  scenarios: ScenarioPersona[] = DEFAULT_SCENARIOS,
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS
+): Promise<{
+  success: true;
+  data: RefereeAnalysis;
+} | {
+  success: false;
+  error: ApiError;
+}> {
+  let parsed: any;
+
+  try {
+    parsed = extractJsonObject(response);
+  } catch (error) {
+    console.log('Structured response is not JSON, trying markdown parser:', error instanceof Error ? error.message : error);
+    const markdownResult = await parseLLMResponse(response, technologies, scenarios, dimensions);
+    if (markdownResult.success) {
+      return markdownResult;
+    }
+
+    return {
+      success: false,
+      error: {
+        code: 'PARSING_ERROR',
+        message: 'Failed to parse structured LLM response',
+        details: error instanceof Error ? error.message : 'Unknown JSON parsing error',
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  // Answers to prompt versions 1 and 2 carry one hiddenTax instead of a list
+  const legacy = !!parsed && typeof parsed === 'object' && parsed.hiddenTax !== undefined && parsed.hiddenTaxes === undefined;
+  const validation = validateRefereeAnalysis(
+    parsed,
+    technologies.length,
+    scenarios,
+    dimensions,
+    legacy ? { ...LATEST_PROMPT_FEATURES, hiddenTaxPerContender: false } : LATEST_PROMPT_FEATURES
+  );
+  if (!validation.isValid) {
+    return {
+      success: false,
+      error: {
+        code: 'PARSING_ERROR',
+        message: 'Structured LLM response does not match the expected schema',
+        details: validation.errors.map(error => `${error.field}: ${error.message}`).join('; '),
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  const structured = parsed as RefereeAnalysis;
+  const hiddenTaxes = legacy ? [upgradeLegacyHiddenTax((parsed as { hiddenTax: LegacyHiddenTax }).hiddenTax)] : structured.hiddenTaxes;
+
+  // Keep the requested names rather than whatever spelling the model echoed back
+  return {
+    success: true,
+    data: {
+      matchup: buildMatchup(technologies),
+      taleOfTheTape: structured.taleOfTheTape,
+      ...(structured.scores ? { scores: structured.scores } : {}),
+      scenarios: structured.scenarios.map(scenario => ({
+        name: scenario.name,
+        winner: scenario.winner.trim(),
+        reasoning: scenario.reasoning.trim(),
+        context: scenario.context.trim()
+      })),
+      hiddenTaxes: hiddenTaxes.map(tax => ({
+        technology: tax.technology.trim(),
+        warning: tax.warning.trim(),
+        timeframe: tax.timeframe.trim(),
+        ...(tax.severity ? { severity: tax.severity } : {}),
+        ...(tax.likelihood ? { likelihood: tax.likelihood } : {}),
+        ...(tax.mitigation?.trim() ? { mitigation: tax.mitigation.trim() } : {})
+      })),
+      tieBreaker: structured.tieBreaker.trim()
+    }
+  };
+}
+
+/**
+ * Extract main sections from LLM response
+ */
+export function extractSections(response: string): {
+  success: true;
+  data: {
+    matchup: string;
+    taleOfTheTape: string;
+    verdicts: string;
+    hiddenTax: string;
+    tieBreaker: string;
+  };
+} | {
+  success: false;
+  error: string;
+} {
+  try {
+    // Validate input
+    if (!response || typeof response !== 'string') {
+      return {
+        success: false,
+        error: 'Response is not a valid string'
+      };
+    }
+
+    const trimmedResponse = response.trim();
+    if (trimmedResponse.length === 0) {
+      return {
+        success: false,
+        error: 'Response is empty'
+      };
+    }
+
+    console.log('Extracting sections from response, length:', trimmedResponse.length);
+    console.log('Response preview:', trimmedResponse.substring(0, 500));
+    
+    // Define section patterns with more flexible matching
+    const patterns = {
+      matchup: /###\s*1\.[\s\S]*?(?:🥊\s*)?The\s+Matchup\s*\n?([\s\S]*?)(?=###\s*2\.|###\s*\d+\.|$)/i,
+      taleOfTheTape: /###\s*2\.[\s\S]*?(?:📊\s*)?The\s+Tale\s+of\s+the\s+Tape\s*\n?([\s\S]*?)(?=###\s*3\.|###\s*\d+\.|$)/i,
+      verdicts: /###\s*3\.[\s\S]*?(?:⚖️\s*)?The\s+Verdicts\s*\n?([\s\S]*?)(?=###\s*4\.|###\s*\d+\.|$)/i,
+      hiddenTax: /###\s*4\.[\s\S]*?(?:⚠️\s*)?The\s+"?Hidden\s+Tax"?\s*\n?([\s\S]*?)(?=###\s*5\.|###\s*\d+\.|$)/i,
+      tieBreaker: /###\s*5\.[\s\S]*?(?:🏁\s*)?The\s+Tie-?Breaker\s*\n?([\s\S]*?)$/i
+    };
+
+    const sections: Record<string, string> = {};
+
+    for (const [key, pattern] of Object.entries(patterns)) {
+      try {
+        const match = trimmedResponse.match(pattern);
+        if (!match || !match[1] || match[1].trim().length === 0) {
+          console.log(`Failed to match section: ${key}`);
+          console.log(`Pattern: ${pattern}`);
+          console.log(`Looking for section in: ${trimmedResponse.substring(0, 1000)}`);
+
+          const looseFallbacks: Record<string, RegExp> = {
+            matchup: /(?:🥊|Matchup)[\s\S]*?(?:\n|\r\n)([\s\S]*?)(?=###\s*2\.|$)/i,
+            taleOfTheTape: /(?:📊|Tale of the Tape)[\s\S]*?(?:\n|\r\n)([\s\S]*?)(?=###\s*3\.|$)/i,
+            verdicts: /(?:⚖️|Verdicts)[\s\S]*?(?:\n|\r\n)([\s\S]*?)(?=###\s*4\.|$)/i,
+            hiddenTax: /(?:⚠️|Hidden Tax)[\s\S]*?(?:\n|\r\n)([\s\S]*?)(?=###\s*5\.|$)/i,
+            tieBreaker: /(?:🏁|Tie-?Breaker)[\s\S]*?(?:\n|\r\n)([\s\S]*?)$/i
+          };
+
+          const fallbackMatch = trimmedResponse.match(looseFallbacks[key]);
+          if (fallbackMatch && fallbackMatch[1] && fallbackMatch[1].trim().length > 0) {
+            sections[key] = fallbackMatch[1].trim();
+            console.log(`Recovered section ${key} using fallback parser, length: ${sections[key].length}`);
+            continue;
+          }
+
+          // Final fallback: use the whole response for sections that can be
+          // recovered later by downstream parsers, instead of failing the request.
+          if (key === 'verdicts' || key === 'hiddenTax') {
+            sections[key] = trimmedResponse;
+            console.log(`Using full response fallback for ${key}`);
+            continue;
+          }
+
+          if (key === 'tieBreaker') {
+            const questionMatches = trimmedResponse.match(/[^?]*\?/g);
+            const lastQuestion = questionMatches?.length ? questionMatches[questionMatches.length - 1].trim() : '';
+            if (lastQuestion) {
+              sections[key] = lastQuestion;
+              console.log(`Recovered tieBreaker from last question: ${lastQuestion}`);
+              continue;
+            }
+          }
+          
+          return {
+            success: false,
+            error: `Missing or empty section: ${key}. Response preview: ${trimmedResponse.substring(0, 200)}`
+          };
+        }
+        sections[key] = match[1].trim();
+        console.log(`Successfully extracted section: ${key}, length: ${sections[key].length}`);
+      } catch (regexError) {
+        console.error(`Regex error for section ${key}:`, regexError);
+        return {
+          success: false,
+          error: `Failed to parse section ${key}: ${regexError instanceof Error ? regexError.message : 'Unknown regex error'}`
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        matchup: sections.matchup,
+        taleOfTheTape: sections.taleOfTheTape,
+        verdicts: sections.verdicts,
+        hiddenTax: sections.hiddenTax,
+        tieBreaker: sections.tieBreaker
+      }
+    };
+
+  } catch (error) {
+    console.error('Section extraction error:', error);
+    return {
+      success: false,
+      error: `Section extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+/**
+ * Parse Tale of the Tape section into a ComparisonMatrix with one entry per dimension
+ */
+export function parseTaleOfTheTape(
+  content: string,
+  technologies: string[],
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS
+): {
+  success: true;
+  data: ComparisonMatrix;
+} | {
+  success: false;
+  error: string;
+} {
+  try {
+    // Validate inputs
+    if (!content || typeof content !== 'string') {
+      return {
+        success: false,
+        error: 'Tale of the Tape content is not a valid string'
+      };
+    }
+
+    const trimmedContent = content.trim();
+    if (trimmedContent.length === 0) {
+      return {
+        success: false,
+        error: 'Tale of the Tape content is empty'
+      };
+    }
+
+    if (technologies.length < MIN_CONTENDERS || technologies.some(tech => !tech || tech.trim().length === 0)) {
+      return {
+        success: false,
+        error: 'Technology names are invalid for Tale of the Tape parsing'
+      };
+    }
+
+    console.log('Parsing Tale of the Tape content:', trimmedContent.substring(0, 1000));
+    
+    const comparison: ComparisonMatrix = {};
+    const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    // Multi-way comparisons need one column per contender, so read whole rows
+    if (technologies.length > MIN_CONTENDERS) {
+      return parseMultiWayTable(trimmedContent, technologies, dimensions);
+    }
+
+    // First, try to parse as a markdown table
+    const tableMatch = trimmedContent.match(/\|[^|]*\|[^|]*\|[^|]*\|/g);
+    if (tableMatch && tableMatch.length > 2) {
+      console.log('Found markdown table with', tableMatch.length, 'rows');
+      
+      // Skip header and separator rows, process data rows
+      for (let i = 2; i < tableMatch.length; i++) {
+        const row = tableMatch[i];
+        console.log('Processing table row:', row);
+        
+        // Extract cells from the row
+        const cells = row.split('|').map(cell => cell.trim()).filter(cell => cell);
+        
+        if (cells.length >= 3) {
+          const dimensionName = cells[0];
+          const value1 = cells[1];
+          const value2 = cells[2];
+          
+          console.log(`Table row: ${dimensionName} | ${value1} | ${value2}`);
+          
+          // Find matching dimension
+          const matchingDimension = dimensions.find(dim => 
+            dimensionName.toLowerCase().includes(dim.label.toLowerCase()) ||
+            dim.label.toLowerCase().includes(dimensionName.toLowerCase())
+          );
+          
+          if (matchingDimension) {
+            comparison[matchingDimension.key] = {
+              tech1: value1,
+              tech2: value2
+            };
+            console.log(`Mapped ${matchingDimension.label} to ${matchingDimension.key}:`, { tech1: value1, tech2: value2 });
+          }
+        }
+      }
+    }
+
+    // If table parsing didn't work or didn't find all dimensions, try line-by-line parsing
+    if (dimensions.some(dim => !comparison[dim.key])) {
+      console.log('Table parsing incomplete, trying line-by-line parsing');
+      
+      for (const { key, label } of dimensions) {
+        if (comparison[key]) {
+          continue; // Already found this dimension
+        }
+        
+        console.log(`Looking for dimension: ${label}`);
+        const dimension = escapeRegExp(label);
+        
+        // Try multiple patterns to match different formats
+        const patterns = [
+          // Pattern 1: | Speed | value1 | value2 |
+          new RegExp(`\\|\\s*${dimension}\\s*\\|\\s*([^|]+?)\\s*\\|\\s*([^|]+?)\\s*\\|`, 'i'),
+          // Pattern 2: Speed: value1 | value2
+          new RegExp(`${dimension}\\s*[:|]\\s*([^|\\n]+?)\\s*\\|\\s*([^|\\n]+?)(?=\\n|$)`, 'i'),
+          // Pattern 3: Speed | value1 | value2
+          new RegExp(`${dimension}\\s*\\|\\s*([^|]+?)\\s*\\|\\s*([^|]+?)(?=\\n|$)`, 'i'),
+          // Pattern 4: **Speed** | value1 | value2
+          new RegExp(`\\*\\*${dimension}\\*\\*\\s*\\|\\s*([^|]+?)\\s*\\|\\s*([^|]+?)(?=\\n|$)`, 'i'),
+          // Pattern 5: Speed - value1 vs value2
+          new RegExp(`${dimension}\\s*[-:]\\s*([^\\n]+?)\\s+vs\\s+([^\\n]+?)(?=\\n|$)`, 'i'),
+          // Pattern 6: More flexible line-based matching
+          new RegExp(`${dimension}[^\\n]*?([A-Za-z0-9$][^|\\n]*?)\\s*[|\\s]+([A-Za-z0-9$][^|\\n]*?)(?=\\n|$)`, 'i')
+        ];
+        
+        let match = null;
+        
+        for (let i = 0; i < patterns.length; i++) {
+          try {
+            match = trimmedContent.match(patterns[i]);
+            if (match && match[1] && match[2] && match[1].trim().length > 0 && match[2].trim().length > 0) {
+              console.log(`Found match for ${label} using pattern ${i}: "${match[1].trim()}" vs "${match[2].trim()}"`);
+              break;
+            }
+          } catch (patternError) {
+            console.error(`Pattern ${i} error for dimension ${label}:`, patternError);
+            continue;
+          }
+        }
+        
+        if (match && match[1] && match[2]) {
+          comparison[key] = {
+            tech1: match[1].trim().replace(/^\*\*|\*\*$/g, ''), // Remove markdown bold
+            tech2: match[2].trim().replace(/^\*\*|\*\*$/g, '')
+          };
+        }
+      }
+    }
+
+    // Check what we found
+    console.log('Final comparison object:', comparison);
+    console.log('Keys found:', Object.keys(comparison));
+
+    // Validate all required fields are present
+    const missing = dimensions.filter(dim => !comparison[dim.key]).map(dim => dim.label);
+    if (missing.length > 0) {
+      console.log('Missing dimensions:', missing);
+      
+      return {
+        success: false,
+        error: `Missing comparison data for: ${missing.join(', ')}. Found: ${Object.keys(comparison).join(', ')}. Content: ${trimmedContent.substring(0, 500)}`
+      };
+    }
+
+    console.log('Successfully parsed Tale of the Tape:', comparison);
+    return {
+      success: true,
+      data: comparison
+    };
+
+  } catch (error) {
+    console.error('Tale of the Tape parsing error:', error);
+    return {
+      success: false,
+      error: `Tale of the Tape parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+/**
+ * Parse a Tale of the Tape table with one column per contender
+ */
+function parseMultiWayTable(content: string, technologies: string[], dimensions: ComparisonDimension[]): {
+  success: true;
+  data: ComparisonMatrix;
+} | {
+  success: false;
+  error: string;
+} {
+  const comparison: ComparisonMatrix = {};
+
+  for (const line of content.split('\n')) {
+    const cells = line.split('|').map(cell => cell.trim().replace(/^\*\*|\*\*$/g, '')).filter(cell => cell);
+    if (cells.length < technologies.length + 1) {
+      continue;
+    }
+
+    const dimensionName = cells[0].toLowerCase();
+    const matchingDimension = dimensions.find(dim => dimensionName.includes(dim.label.toLowerCase()));
+    if (matchingDimension && !comparison[matchingDimension.key]) {
+      // Take the last N cells so a leading "Dimension: value" layout still lines up
+      const values = cells.slice(cells.length - technologies.length);
+      comparison[matchingDimension.key] = Object.fromEntries(
+        values.map((value, index) => [contenderKey(index), value])
+      ) as ComparisonMatrix[string];
+    }
+  }
+
+  const missing = dimensions.filter(dim => !comparison[dim.key]).map(dim => dim.label);
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `Missing comparison data for: ${missing.join(', ')}. Expected ${technologies.length} columns (${technologies.join(', ')}). Content: ${content.substring(0, 500)}`
+    };
+  }
+
+  return {
+    success: true,
+    data: comparison
+  };
+}
+
+/**
+ * Parse Verdicts section into one ScenarioVerdict per persona
+ */
+export function parseScenarios(
+  content: string,
+  technologies: string[] = [],
+  personas: ScenarioPersona[] = DEFAULT_SCENARIOS
+): {
+  success: true;
+  data: ScenarioVerdict[];
+} | {
+  success: false;
+  error: string;
+} {
+  try {
+    // Validate input
+    if (!content || typeof content !== 'string') {
+      return {
+        success: false,
+        error: 'Verdicts content is not a valid string'
+      };
+    }
+
+    const trimmedContent = content.trim();
+    if (trimmedContent.length === 0) {
+      return {
+        success: false,
+        error: 'Verdicts content is empty'
+      };
+    }
+
+    console.log('Parsing Verdicts content:', trimmedContent.substring(0, 800));
+    
+    const scenarios: ScenarioVerdict[] = [];
+    const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const allShortNames = personas.map(persona => escapeRegExp(getScenarioShortName(persona.label))).join('|');
+
+    for (const persona of personas) {
+      const name = persona.label;
+      console.log(`Looking for scenario: ${name}`);
+
+      // "Move Fast Team" headings read "The 'Move Fast' Team"; other labels appear as-is
+      const shortName = escapeRegExp(getScenarioShortName(name));
+      const isTeam = /\sTeam$/i.test(name);
+      const heading = (quote: string) => isTeam
+        ? `The ${quote}${shortName}${quote} Team`
+        : `(?:The )?${quote}?${shortName}${quote}?`;
+      const teamSuffix = isTeam ? '.*?Team' : '';
+      
+      // Try multiple patterns to match different scenario formats
+      const patterns = [
+        // Pattern 1: **Scenario A (The 'Move Fast' Team):**
+        new RegExp(`\\*\\*Scenario [A-Z] \\(${heading("'")}\\):\\*\\*\\s*([\\s\\S]*?)(?=\\*\\*Scenario|$)`, 'i'),
+        // Pattern 2: **Scenario A (The "Move Fast" Team):**
+        new RegExp(`\\*\\*Scenario [A-Z] \\(${heading('"')}\\):\\*\\*\\s*([\\s\\S]*?)(?=\\*\\*Scenario|$)`, 'i'),
+        // Pattern 3: ### Scenario A (The 'Move Fast' Team)
+        new RegExp(`###\\s*Scenario [A-Z] \\(${heading("'")}\\)\\s*([\\s\\S]*?)(?=###|$)`, 'i'),
+        // Pattern 4: **Scenario A: The 'Move Fast' Team**
+        new RegExp(`\\*\\*Scenario [A-Z]:\\s*${heading("'")}\\*\\*\\s*([\\s\\S]*?)(?=\\*\\*Scenario|$)`, 'i'),
+        // Pattern 5: More flexible - just look for the team name
+        new RegExp(`(?:Scenario [A-Z]|\\*\\*.*?).*?${shortName}${teamSuffix}.*?([\\s\\S]*?)(?=(?:Scenario [A-Z]|\\*\\*.*?${isTeam ? 'Team' : `(?:${allShortNames})`})|$)`, 'i'),
+        // Pattern 6: Very flexible - just the team type
+        new RegExp(`${shortName}${teamSuffix}.*?([\\s\\S]*?)(?=(?:${allShortNames})${teamSuffix}|$)`, 'i')
+      ];
+      
+      let match = null;
+      
+      for (let i = 0; i < patterns.length; i++) {
+        try {
+          match = trimmedContent.match(patterns[i]);
+          if (match && match[1] && match[1].trim().length > 10) {
+            console.log(`Found scenario ${name} using pattern ${i}`);
+            break;
+          }
+        } catch (patternError) {
+          console.error(`Pattern ${i} error for scenario ${name}:`, patternError);
+          continue;
+        }
+      }
+      
+      if (!match || !match[1]) {
+        console.log(`No match found for ${name}. Searching for team name in content...`);
+        const teamType = getScenarioShortName(name);
+        const teamIndex = trimmedContent.toLowerCase().indexOf(teamType.toLowerCase());
+        if (teamIndex >= 0) {
+          const start = Math.max(0, teamIndex - 100);
+          const end = Math.min(trimmedContent.length, teamIndex + 300);
+          console.log(`Found "${teamType}" at position ${teamIndex}. Context:`, trimmedContent.substring(start, end));
+        }
+        
+        return {
+          success: false,
+          error: `Missing scenario: ${name}. Content preview: ${trimmedContent.substring(0, 400)}`
+        };
+      }
+
+      const scenarioContent = match[1].trim();
+      console.log(`Scenario content for ${name}:`, scenarioContent.substring(0, 200));
+      
+      // Extract winner and reasoning with more flexible patterns
+      let winnerMatch = null;
+      let reasoningMatch = null;
+
+      try {
+        // Try multiple patterns to extract winner information
+        const winnerPatterns = [
+          // Standard format: "Which wins? Technology wins."
+          /Which wins\?\s*([^.!?\n]*[.!?])/i,
+          // Alternative: "Winner: Technology" or "Technology wins"
+          /(?:Winner|wins?):\s*([^.\n]+)/i,
+          /([A-Za-z][A-Za-z0-9\s.+-]*)\s+wins/i,
+          // More flexible: "Technology could be seen as the winner"
+          /([A-Za-z][A-Za-z0-9\s.+-]*)\s+(?:could be seen as|is|would be)\s+(?:the\s+)?winner/i,
+          // Even more flexible: "Technology is better" or "go with Technology"
+          /(?:go with|choose|pick|use)\s+([A-Za-z][A-Za-z0-9\s.+-]*)/i,
+          /([A-Za-z][A-Za-z0-9\s.+-]*)\s+(?:is|would be)\s+(?:better|preferred|recommended)/i,
+          // Last resort: look for technology names mentioned prominently
+          /\b([A-Za-z][A-Za-z0-9\s.+-]{2,})\b.*(?:advantage|benefit|better|superior|preferred)/i
+        ];
+
+        for (const pattern of winnerPatterns) {
+          winnerMatch = scenarioContent.match(pattern);
+          if (winnerMatch && winnerMatch[1] && winnerMatch[1].trim().length > 0) {
+            console.log(`Found winner using pattern: ${pattern}`, winnerMatch[1]);
+            break;
+          }
+        }
+
+        // Try to extract reasoning
+        const reasoningPatterns = [
+          // Standard format: "Why? Reason here"
+          /Why\?\s*([^]*?)(?=Which wins|$)/i,
+          // Alternative: "Reason:" or "Because"
+          /(?:Reason|Because):\s*([^]*?)$/i,
+          // More flexible: extract everything after winner statement
+          /(?:wins?|winner|better|preferred)\.?\s*([^]*?)$/i,
+          // If no clear pattern, use the whole content as reasoning
+          /([^]*)/
+        ];
+
+        for (const pattern of reasoningPatterns) {
+          reasoningMatch = scenarioContent.match(pattern);
+          if (reasoningMatch && reasoningMatch[1] && reasoningMatch[1].trim().length > 10) {
+            console.log(`Found reasoning using pattern: ${pattern}`);
+            break;
+          }
+        }
+
+        // If we still don't have reasoning, use the scenario content
+        if (!reasoningMatch || !reasoningMatch[1] || reasoningMatch[1].trim().length < 10) {
+          reasoningMatch = [scenarioContent, scenarioContent] as RegExpMatchArray;
+        }
+
+      } catch (extractionError) {
+        console.error(`Error extracting winner/reasoning for ${name}:`, extractionError);
+        return {
+          success: false,
+          error: `Failed to extract winner/reasoning for ${name}: ${extractionError instanceof Error ? extractionError.message : 'Unknown error'}`
+        };
+      }
+      
+      if (!winnerMatch || !winnerMatch[1] || winnerMatch[1].trim().length === 0) {
+        console.log(`Could not extract winner from scenario content: ${scenarioContent}`);
+        
+        // Try a fallback approach - look for technology names in the content
+        if (technologies.length < MIN_CONTENDERS) {
+          return {
+            success: false,
+            error: `Could not determine winner for ${name} - technology names not available. Content: ${scenarioContent.substring(0, 200)}`
+          };
+        }
+        
+        const contentLower = scenarioContent.toLowerCase();
+        
+        let fallbackWinner = '';
+        
+        // Check which technology is mentioned more prominently or in a positive context
+        const mentions = technologies.map(tech =>
+          (contentLower.match(new RegExp(escapeRegExp(tech.toLowerCase()), 'g')) || []).length
+        );
+        
+        // Look for positive context around technology names
+        const positiveWords = ['winner', 'better', 'preferred', 'advantage', 'superior', 'recommended', 'choose', 'go with'];
+        
+        for (const word of positiveWords) {
+          const inContext = technologies.filter(tech => {
+            const techLower = tech.toLowerCase();
+            return contentLower.includes(`${techLower} ${word}`) || contentLower.includes(`${word} ${techLower}`);
+          });
+          
+          if (inContext.length === 1) {
+            fallbackWinner = inContext[0];
+            break;
+          }
+        }
+        
+        // If still no clear winner, use the technology mentioned most frequently
+        if (!fallbackWinner) {
+          const mostMentions = Math.max(...mentions);
+          const leaders = technologies.filter((_, index) => mentions[index] === mostMentions);
+          if (mostMentions > 0 && leaders.length === 1) {
+            fallbackWinner = leaders[0];
+          } else {
+            // Last resort: extract the first technology name mentioned
+            const techPattern = new RegExp(`\\b(${technologies.map(tech => escapeRegExp(tech.toLowerCase())).join('|')})\\b`, 'i');
+            const firstMention = scenarioContent.match(techPattern);
+            fallbackWinner = firstMention ? firstMention[1] : technologies[0]; // Default to the first contender if all else fails
+          }
+        }
+        
+        if (fallbackWinner) {
+          console.log(`Using fallback winner for ${name}: ${fallbackWinner}`);
+          winnerMatch = [scenarioContent, fallbackWinner] as RegExpMatchArray;
+        } else {
+          return {
+            success: false,
+            error: `Could not determine winner for ${name}. Content: ${scenarioContent.substring(0, 200)}`
+          };
+        }
+      }
+      
+      if (!reasoningMatch || !reasoningMatch[1] || reasoningMatch[1].trim().length === 0) {
+        console.log(`Could not extract reasoning from scenario content: ${scenarioContent}`);
+        // Use the entire scenario content as reasoning if we can't parse it better
+        reasoningMatch = [scenarioContent, scenarioContent.trim()] as RegExpMatchArray;
+      }
+
+      const winner = winnerMatch[1].trim();
+      const reasoning = reasoningMatch[1].trim();
+      
+      console.log(`Extracted for ${name}: Winner="${winner}", Reasoning="${reasoning.substring(0, 100)}..."`);
+
+      scenarios.push({
+        name,
+        winner,
+        reasoning,
+        context: `${name} scenario analysis`
+      });
+    }
+
+    if (scenarios.length !== personas.length) {
+      console.log(`Expected ${personas.length} scenarios, found ${scenarios.length}`);
+      return {
+        success: false,
+        error: `Expected ${personas.length} scenarios, found ${scenarios.length}. Found scenarios: ${scenarios.map(s => s.name).join(', ')}`
+      };
+    }
+
+    console.log('Successfully parsed all scenarios:', scenarios.map(s => s.name));
+    return {
+      success: true,
+      data: scenarios
+    };
+
+  } catch (error) {
+    console.error('Scenarios parsing error:', error);
+    return {
+      success: false,
+      error: `Scenarios parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+/**
+ * Split a Hidden Tax section into one entry per "If you choose ..."
+ * statement, each with the detail lines that follow it. Sections without
+ * such statements come back whole.
+ */
+export function splitHiddenTaxes(content: string): string[] {
+  const entries = content
+    .split(/(?=If you choose\b)/i)
+    .filter(entry => /If you choose\b/i.test(entry))
+    .map(entry => entry.replace(/[\s*•-]+$/, '').trim());
+  return entries.length > 0 ? entries : [content];
+}
+
+/**
+ * Parse a Hidden Tax section into one HiddenTax per contender. Entries that
+ * cannot be read are skipped; the section fails only when none can.
+ */
+export function parseHiddenTaxes(content: string): {
+  success: true;
+  data: HiddenTax[];
+} | {
+  success: false;
+  error: string;
+} {
+  const results = splitHiddenTaxes(content || '').map(parseHiddenTax);
+  const taxes = results.flatMap(result => result.success ? [result.data] : []);
+  if (taxes.length === 0) {
+    const [failure] = results;
+    return { success: false, error: failure.success ? 'Hidden Tax section is empty' : failure.error };
+  }
+  return { success: true, data: taxes };
+}
+
+/**
+ * Split the labelled severity, likelihood and mitigation off a tax entry,
+ * e.g. "... in 6 months. Severity: high. Likelihood: medium. Mitigation: ...".
+ * Details the model left out stay absent.
+ */
+function extractTaxDetails(content: string): {
+  statement: string;
+  details: Pick<HiddenTax, 'severity' | 'likelihood' | 'mitigation'>;
+} {
+  const start = content.search(/\**\b(?:Severity|Likelihood|Mitigation)\b\**\s*:/i);
+  const statement = start === -1 ? content : content.slice(0, start).replace(/[\s*_([|-]+$/, '');
+  const labelled = start === -1 ? '' : content.slice(start);
+
+  const level = (label: string): TaxLevel | undefined => {
+    const match = labelled.match(new RegExp(`\\b${label}\\b\\**\\s*:\\s*\\**\\s*(low|med(?:ium)?|high)\\b`, 'i'));
+    if (!match) {
+      return undefined;
+    }
+    const value = match[1].toLowerCase();
+    return value.startsWith('med') ? 'medium' : value as TaxLevel;
+  };
+  const severity = level('Severity');
+  const likelihood = level('Likelihood');
+  const mitigationMatch = labelled.match(/\bMitigation\b\**\s*:\s*\**\s*([^\n]+)/i);
+  const mitigation = mitigationMatch
+    ? mitigationMatch[1].split(/\s*\**\b(?:Severity|Likelihood)\b\**\s*:/i)[0].replace(/[\s*)\]]+$/, '').trim()
+    : '';
+
+  return {
+    statement: statement.trim(),
+    details: {
+      ...(severity ? { severity } : {}),
+      ...(likelihood ? { likelihood } : {}),
+      ...(mitigation ? { mitigation } : {})
+    }
+  };
+}
+
+/**
+ * Parse one contender's Hidden Tax entry into a HiddenTax object
+ */
+export function parseHiddenTax(content: string): {
+  success: true;
+  data: HiddenTax;
+} | {
+  success: false;
+  error: string;
+} {
+  try {
+    // Validate input
+    if (!content || typeof content !== 'string') {
+      return {
+        success: false,
+        error: 'Hidden Tax content is not a valid string'
+      };
+    }
+
+    if (content.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Hidden Tax content is empty'
+      };
+    }
+
+    const { statement: trimmedContent, details } = extractTaxDetails(content.trim());
+
+    // Extract hidden tax information with more flexible patterns
+    let taxMatch = null;
+    
+    // Try the standard pattern first
+    try {
+      taxMatch = trimmedContent.match(/If you choose\s+([^,]+),\s*be prepared to pay the tax of\s+([^.]+)\s+in\s+([^.]+)/i);
+    } catch (regexError) {
+      console.error('Regex error in Hidden Tax parsing:', regexError);
+      return {
+        success: false,
+        error: `Hidden Tax regex failed: ${regexError instanceof Error ? regexError.message : 'Unknown regex error'}`
+      };
+    }
+    
+    if (!taxMatch || !taxMatch[1] || !taxMatch[2] || !taxMatch[3]) {
+      // Try alternative patterns
+      const alternativePatterns = [
+        // Pattern with different punctuation
+        /If you choose\s+([^,]+),?\s*be prepared to pay the tax of\s+([^.!?]+)[.!?]?\s*in\s+([^.!?]+)/i,
+        // Pattern without "in timeframe"
+        /If you choose\s+([^,]+),?\s*be prepared to pay the tax of\s+([^.!?]+)/i,
+        // More flexible pattern
+        /choose\s+([^,]+).*?tax.*?of\s+([^.!?\n]+).*?in\s+([^.!?\n]+)/i,
+        // Even more flexible - just look for "tax of X"
+        /tax\s+of\s+([^.!?\n]+)(?:\s+in\s+([^.!?\n]+))?/i,
+        // Look for technology name and consequence
+        /([A-Za-z][A-Za-z0-9\s.+-]+).*?(?:tax|cost|downside|problem).*?([^.!?\n]+)/i
+      ];
+
+      for (let i = 0; i < alternativePatterns.length; i++) {
+        try {
+          taxMatch = trimmedContent.match(alternativePatterns[i]);
+          if (taxMatch && taxMatch[1] && taxMatch[2]) {
+            console.log(`Found Hidden Tax using alternative pattern ${i}`);
+            
+            // For patterns that don't capture timeframe, set a default
+            if (!taxMatch[3] && i < 4) {
+              taxMatch[3] = '6 months'; // Default timeframe
+            }
+            break;
+          }
+        } catch (patternError) {
+          console.error(`Alternative pattern ${i} error:`, patternError);
+          continue;
+        }
+      }
+    }
+
+    if (!taxMatch || !taxMatch[1] || !taxMatch[2]) {
+      // Last resort: try to extract any technology name and warning from the content
+      console.log('Attempting fallback Hidden Tax parsing...');
+      
+      // Look for any technology name mentioned
+      const techPattern = /\b([A-Za-z][A-Za-z0-9\s.+-]{2,20})\b/g;
+      const techMatches = Array.from(trimmedContent.matchAll(techPattern));
+      
+      // Look for warning-like content
+      const warningPattern = /(complexity|maintenance|learning curve|cost|overhead|difficulty|challenge|problem|issue|burden)[^.!?\n]*/i;
+      const warningMatch = trimmedContent.match(warningPattern);
+      
+      if (techMatches.length > 0 && warningMatch) {
+        const technology = techMatches[0][1].trim();
+        const warning = warningMatch[0].trim();
+        const timeframe = '6 months'; // Default timeframe
+        
+        console.log(`Fallback Hidden Tax extraction: ${technology} -> ${warning}`);
+        
+        return {
+          success: true,
+          data: {
+            technology,
+            warning,
+            timeframe,
+            ...details
+          }
+        };
+      }
+      
+      return {
+        success: false,
+        error: `Hidden Tax format does not match expected pattern. Content: ${trimmedContent.substring(0, 200)}`
+      };
+    }
+
+    const technology = taxMatch[1].trim();
+    const warning = taxMatch[2].trim();
+    const timeframe = taxMatch[3] ? taxMatch[3].trim() : '6 months'; // Default timeframe
+
+    // Validate extracted values
+    if (technology.length === 0) {
+      return {
+        success: false,
+        error: 'Technology name is empty in Hidden Tax'
+      };
+    }
+
+    if (warning.length === 0) {
+      return {
+        success: false,
+        error: 'Warning text is empty in Hidden Tax'
+      };
+    }
+    
+    return {
+      success: true,
+      data: {
+        technology,
+        warning,
+        timeframe,
+        ...details
+      }
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      error: `Hidden tax parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
@@ -0,0 +1,56 @@
+// Unit tests for the PDF writer
+import { PdfBlock, renderPdf } from './pdf';
+
+// PDF bytes as a string, one character per byte
+const decode = (pdf: ArrayBuffer) => Buffer.from(pdf).toString('latin1');
+
+// Text-showing lines of each page's content stream, footer excluded
+const pageLines = (text: string) => Array.from(text.matchAll(/stream\n([\s\S]*?)\nendstream/g), ([, content]) =>
+  content.split('\n').filter(line => !line.startsWith('BT /F1 8 Tf'))
+);
+
+describe('renderPdf', () => {
+  const blocks: PdfBlock[] = [
+    { kind: 'title', text: 'Tech Referee Verdict: React vs Vue' },
+    { kind: 'heading', text: 'The Tale of the Tape' },
+    { kind: 'bullet', text: 'React: Fast HMR (9/10) — good' }
+  ];
+
+  test('writes a well-formed PDF whose cross-reference table points at every object', () => {
+    const text = decode(renderPdf(blocks, { title: 'React vs Vue', createdAt: new Date('2024-05-01T12:00:00Z') }));
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+    const startxref = Number(text.match(/startxref\n(\d+)/)?.[1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = Array.from(text.slice(startxref).matchAll(/(\d{10}) 00000 n /g), ([, offset]) => Number(offset));
+    offsets.forEach((offset, index) => expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true));
+    expect(text).toContain('/Title (React vs Vue) /Producer (Tech Referee) /CreationDate (D:20240501120000Z)');
+  });
+
+  test('escapes PDF string syntax and encodes text as WinAnsi', () => {
+    const text = decode(renderPdf(blocks, { title: 'React vs Vue' }));
+
+    expect(text).toContain('(\\225 React: Fast HMR \\(9/10\\) \\227 good) Tj');
+    expect(text).toContain('/BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding');
+  });
+
+  test('paginates long reports without leaving a heading at the bottom of a page', () => {
+    const long: PdfBlock[] = [{ kind: 'title', text: 'Report' }];
+    for (let section = 0; section < 12; section++) {
+      long.push({ kind: 'heading', text: `Section ${section}` });
+      for (let paragraph = 0; paragraph < 4; paragraph++) {
+        long.push({ kind: 'paragraph', text: 'Descriptor text that wraps across the page width. '.repeat(6) });
+      }
+    }
+
+    const text = decode(renderPdf(long, { title: 'Report' }));
+    const pages = pageLines(text);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(text).toContain(`/Count ${pages.length}`);
+    expect(text).toContain(`(Report \\267 Page 2 of ${pages.length}) Tj`);
+    pages.forEach(lines => expect(lines[lines.length - 1]).not.toContain('/F2 14 Tf'));
+    expect(pages.flat().filter(line => line.includes('/F2 14 Tf'))).toHaveLength(12);
+  });
+});
@@ -0,0 +1,248 @@
+// Minimal PDF writer for text reports, built on the standard Helvetica fonts so nothing is embedded or fetched
+
+/**
+ * One paragraph-level piece of a report, laid out top to bottom
+ */
+export interface PdfBlock {
+  kind: 'title' | 'meta' | 'heading' | 'subheading' | 'paragraph' | 'bullet' | 'quote';
+  text: string;
+}
+
+/**
+ * Document properties shown by PDF viewers
+ */
+export interface PdfInfo {
+  title: string;
+  createdAt?: Date;
+}
+
+type FontName = 'regular' | 'bold' | 'italic';
+
+interface BlockStyle {
+  font: FontName;
+  size: number;
+  /** Gray level of the text, 0 (black) to 1 (white) */
+  gray: number;
+  spaceBefore: number;
+  indent: number;
+  /** Moved to the next page rather than left at the bottom without the block after it */
+  keepWithNext?: boolean;
+}
+
+const BLOCK_STYLES: Record<PdfBlock['kind'], BlockStyle> = {
+  title: { font: 'bold', size: 20, gray: 0, spaceBefore: 0, indent: 0 },
+  meta: { font: 'regular', size: 9, gray: 0.35, spaceBefore: 2, indent: 0 },
+  heading: { font: 'bold', size: 14, gray: 0, spaceBefore: 18, indent: 0, keepWithNext: true },
+  subheading: { font: 'bold', size: 11, gray: 0.1, spaceBefore: 10, indent: 0, keepWithNext: true },
+  paragraph: { font: 'regular', size: 10, gray: 0.1, spaceBefore: 4, indent: 0 },
+  bullet: { font: 'regular', size: 10, gray: 0.1, spaceBefore: 2, indent: 14 },
+  quote: { font: 'italic', size: 11, gray: 0.2, spaceBefore: 6, indent: 14 }
+};
+
+const FONT_RESOURCES: Record<FontName, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { resource: 'F3', baseFont: 'Helvetica-Oblique' }
+};
+
+// A4 in points, with the footer below the bottom margin
+const PAGE = { width: 595.28, height: 841.89, margin: 56, footer: 32 };
+const LINE_SPACING = 1.35;
+
+// Advance widths in 1/1000 em for the printable ASCII range, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+// Text as WinAnsi bytes; anything without a code becomes "?"
+function toWinAnsi(text: string): string {
+  return Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    if (code >= 32 && code <= 126) return char;
+    if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    if (code >= 0xA0 && code <= 0xFF) return char;
+    return /\s/.test(char) ? ' ' : '?';
+  }).join('');
+}
+
+function textWidth(text: string, font: FontName, size: number): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+// Greedy word wrap to a width in points; words wider than a line are split
+function wrapText(text: string, maxWidth: number, font: FontName, size: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of toWinAnsi(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) {
+      lines.push(line);
+    }
+    line = word;
+    while (textWidth(line, font, size) > maxWidth && line.length > 1) {
+      let fit = line.length - 1;
+      while (fit > 1 && textWidth(line.slice(0, fit), font, size) > maxWidth) fit--;
+      lines.push(line.slice(0, fit));
+      line = line.slice(fit);
+    }
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+  return lines.length > 0 ? lines : [''];
+}
+
+function escapeString(bytes: string): string {
+  return bytes.replace(/[\\()]/g, match => `\\${match}`)
+    .replace(/[^\x20-\x7E]/g, char => `\\${char.charCodeAt(0).toString(8).padStart(3, '0')}`);
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function formatDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+interface PlacedLine {
+  text: string;
+  x: number;
+  y: number;
+  style: BlockStyle;
+}
+
+// Lay the blocks out into pages of positioned lines
+function layout(blocks: PdfBlock[]): PlacedLine[][] {
+  const top = PAGE.height - PAGE.margin;
+  const bottom = PAGE.margin;
+  const width = PAGE.width - 2 * PAGE.margin;
+  const pages: PlacedLine[][] = [[]];
+  let y = top;
+
+  const wrapped = blocks.map(block => {
+    const style = BLOCK_STYLES[block.kind];
+    const prefix = block.kind === 'bullet' ? '• ' : '';
+    return { style, lines: wrapText(`${prefix}${block.text}`, width - style.indent, style.font, style.size) };
+  });
+
+  wrapped.forEach(({ style, lines }, index) => {
+    const lineHeight = style.size * LINE_SPACING;
+    const spaceBefore = y === top ? 0 : style.spaceBefore;
+
+    // Headings need their block and the first lines of the next one on the
+    // same page; other blocks need at least two lines, so none is orphaned
+    let needed = spaceBefore + Math.min(lines.length, 2) * lineHeight;
+    if (style.keepWithNext) {
+      const next = wrapped[index + 1];
+      needed = spaceBefore + lines.length * lineHeight
+        + (next ? next.style.spaceBefore + Math.min(next.lines.length, 2) * next.style.size * LINE_SPACING : 0);
+    }
+    if (y - needed < bottom && y < top) {
+      pages.push([]);
+      y = top;
+    } else {
+      y -= spaceBefore;
+    }
+
+    for (const text of lines) {
+      if (y - lineHeight < bottom) {
+        pages.push([]);
+        y = top;
+      }
+      pages[pages.length - 1].push({ text, x: PAGE.margin + style.indent, y: y - style.size, style });
+      y -= lineHeight;
+    }
+  });
+
+  return pages;
+}
+
+function pageContent(lines: PlacedLine[], footer: string): string {
+  const commands = lines.map(({ text, x, y, style }) =>
+    `BT /${FONT_RESOURCES[style.font].resource} ${style.size} Tf ${style.gray} g 1 0 0 1 ${formatNumber(x)} ${formatNumber(y)} Tm (${escapeString(text)}) Tj ET`
+  );
+  const footerWidth = textWidth(footer, 'regular', 8);
+  commands.push(
+    `BT /F1 8 Tf 0.45 g 1 0 0 1 ${formatNumber(PAGE.width - PAGE.margin - footerWidth)} ${PAGE.footer} Tm (${escapeString(footer)}) Tj ET`
+  );
+  return commands.join('\n');
+}
+
+/**
+ * A text-only PDF of the blocks, paginated on A4 with a page count in the
+ * footer. Returned as raw bytes, ready to send as application/pdf.
+ */
+export function renderPdf(blocks: PdfBlock[], info: PdfInfo): ArrayBuffer {
+  const pages = layout(blocks);
+  const title = toWinAnsi(info.title);
+  const objects: string[] = [];
+  const fontNames = Object.keys(FONT_RESOURCES) as FontName[];
+
+  // 1: catalog, 2: page tree, 3-5: fonts, 6: info, then a page and its content per page
+  const firstPage = 7;
+  const pageIds = pages.map((_, index) => firstPage + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  for (const name of fontNames) {
+    objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[name].baseFont} /Encoding /WinAnsiEncoding >>`);
+  }
+  objects.push(`<< /Title (${escapeString(title)}) /Producer (Tech Referee) /CreationDate (${formatDate(info.createdAt || new Date())}) >>`);
+
+  const fonts = fontNames.map((name, index) => `/${FONT_RESOURCES[name].resource} ${3 + index} 0 R`).join(' ');
+  pages.forEach((lines, index) => {
+    const content = pageContent(lines, toWinAnsi(`${info.title} · Page ${index + 1} of ${pages.length}`));
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE.width} ${PAGE.height}] /Resources << /Font << ${fonts} >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every character is one byte, so string lengths are byte offsets
+  let output = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(output, char => char.charCodeAt(0)).buffer;
+}
@@ -4,12 +4,22 @@
 import * as fc from 'fast-check';
 import {
   generateRefereePrompt,
+  generateRefereeJsonPrompt,
   validatePromptStructure,
   normalizeTechnologyNames,
   validateTechnologyInput,
   createPromptPackage,
-  getSystemPrompt
+  createRepairPrompt,
+  getActivePromptVersion,
+  getPromptTemplate,
+  getPromptVersions,
+  getSystemPrompt,
+  REFEREE_PERSONA_PROMPT,
+  registerPromptTemplate
 } from './prompts';
+import { GENERAL_DIMENSIONS, getComparisonDimensions, UPGRADE_DIMENSIONS } from './dimensions';
+import { DEFAULT_SCENARIOS } from './scenarios';
+import { ScenarioPersona } from './types';
 
 // ============================================================================
 // Fast-check Arbitraries (Generators)
@@ -166,6 +176,127 @@ describe('Prompt Generation Properties', () => {
       );
     });
 
+    test('JSON prompt package should describe every RefereeAnalysis field', () => {
+      fc.assert(
+        fc.property(technologyPairArb, ([tech1, tech2]) => {
+          const promptPackage = createPromptPackage(tech1, tech2, 'json');
+
+          expect(promptPackage.isValid).toBe(true);
+          expect(promptPackage.userPrompt).toContain('JSON');
+          expect(validatePromptStructure(promptPackage.userPrompt)).toBe(true);
+
+          for (const field of ['matchup', 'taleOfTheTape', 'scores', 'score', 'confidence', 'scenarios', 'hiddenTaxes', 'tieBreaker', 'timeframe', 'severity', 'mitigation']) {
+            expect(promptPackage.userPrompt).toContain(`"${field}"`);
+          }
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    test('Markdown prompts should ask for a score and confidence in every Tale of the Tape cell', () => {
+      const comparison = createPromptPackage('React', 'Vue');
+      const upgrade = createPromptPackage('React 18', 'React 19', 'markdown', {
+        upgrade: { technology: 'React', fromVersion: '18', toVersion: '19' },
+        dimensions: UPGRADE_DIMENSIONS
+      });
+
+      for (const { userPrompt } of [comparison, upgrade]) {
+        expect(userPrompt).toContain('End every cell with a 1-10 score and your confidence in it');
+        expect(userPrompt).toContain('(9/10, 80% confidence)');
+      }
+    });
+
+    test('Multi-way prompts should name every contender and keep the required structure', () => {
+      const markdown = createPromptPackage('postgres', 'mongo', 'markdown', { additionalTechnologies: ['DynamoDB'] });
+      const json = generateRefereeJsonPrompt('PostgreSQL', 'MongoDB', { additionalTechnologies: ['DynamoDB'] });
+
+      expect(markdown.isValid).toBe(true);
+      expect(markdown.userPrompt).toContain('Compare PostgreSQL vs MongoDB vs DynamoDB');
+      expect(markdown.userPrompt).toContain('Each scenario winner must be exactly one of: PostgreSQL, MongoDB, DynamoDB');
+      expect(validatePromptStructure(markdown.userPrompt)).toBe(true);
+      expect(json).toContain('"tech3": string');
+      expect(json).toContain('"winner" is exactly "PostgreSQL", "MongoDB" or "DynamoDB"');
+    });
+
+    test('Multi-way validation should reject repeats and more than five contenders', () => {
+      expect(validateTechnologyInput('React', 'Vue', 'react.js').errors).toEqual([
+        expect.stringContaining('repeated: react')
+      ]);
+      expect(validateTechnologyInput('A1', 'B1', 'C1', 'D1', 'E1', 'F1').errors).toContain(
+        'Compare at most 5 technologies at once'
+      );
+      expect(validateTechnologyInput('React', 'Vue', 'Svelte').isValid).toBe(true);
+    });
+
+    test('Constraints should be added to the prompt only when supplied', () => {
+      const constrained = generateRefereePrompt('PostgreSQL', 'MongoDB', {
+        constraints: { teamSize: 4, expectedRps: 2500, monthlyBudget: 1500, compliance: ['HIPAA'] }
+      });
+
+      expect(constrained).toContain("THE USER'S SITUATION");
+      expect(constrained).toContain('- Team size: 4 engineers');
+      expect(constrained).toContain('- Expected load: 2,500 requests/second at peak');
+      expect(constrained).toContain('- Monthly budget: $1,500');
+      expect(constrained).toContain('- Compliance needs: HIPAA');
+      expect(constrained).toContain('The tie-breaker must be about a decision the stated constraints leave open');
+      expect(validatePromptStructure(constrained)).toBe(true);
+
+      expect(generateRefereePrompt('PostgreSQL', 'MongoDB', { constraints: {} })).toBe(generateRefereePrompt('PostgreSQL', 'MongoDB'));
+    });
+
+    test('Custom scenario personas should replace the default teams', () => {
+      const scenarios: ScenarioPersona[] = [
+        { id: 'regulated', label: 'Regulated Enterprise', description: 'Audits every dependency.', icon: 'shield', color: 'blue' },
+        { id: 'ml', label: 'Data-heavy ML Team', description: 'Runs nightly feature pipelines', icon: 'database', color: 'orange' }
+      ];
+      const markdown = generateRefereePrompt('PostgreSQL', 'MongoDB', { scenarios });
+      const json = generateRefereeJsonPrompt('PostgreSQL', 'MongoDB', { scenarios });
+
+      expect(markdown).toContain('* **Scenario A (Regulated Enterprise):** Audits every dependency. Which wins? Why?');
+      expect(markdown).toContain("* **Scenario B (The 'Data-heavy ML' Team):** Runs nightly feature pipelines. Which wins? Why?");
+      expect(markdown).toContain('Include exactly 2 scenarios: Regulated Enterprise, Data-heavy ML Team');
+      expect(markdown).not.toContain('Move Fast');
+      expect(validatePromptStructure(markdown, scenarios)).toBe(true);
+      expect(validatePromptStructure(markdown)).toBe(false);
+
+      expect(json).toContain('{ "name": "Regulated Enterprise", "winner": string');
+      expect(json).toContain('The teams are: Regulated Enterprise (Audits every dependency); Data-heavy ML Team (Runs nightly feature pipelines).');
+
+      expect(generateRefereePrompt('React', 'Vue', { scenarios: DEFAULT_SCENARIOS })).toBe(generateRefereePrompt('React', 'Vue'));
+      expect(getSystemPrompt(scenarios.length)).toContain('across 2 distinct scenarios');
+    });
+
+    test('Category dimensions should replace the general comparison rows', () => {
+      const dimensions = getComparisonDimensions('database');
+      const markdown = generateRefereePrompt('PostgreSQL', 'MySQL', { dimensions });
+      const json = generateRefereeJsonPrompt('PostgreSQL', 'MySQL', { dimensions });
+
+      expect(markdown).toContain('comparing options on: Durability, Consistency Model, Query Flexibility, Scalability, and Operational Cost.');
+      expect(markdown).toContain('use exactly these row labels: Durability (crash safety, replication and backups);');
+      expect(validatePromptStructure(markdown, DEFAULT_SCENARIOS, dimensions)).toBe(true);
+      expect(validatePromptStructure(markdown)).toBe(false);
+
+      expect(json).toContain('"consistencyModel": { "tech1": string, "tech2": string }');
+      expect(json).not.toContain('"developerExperience"');
+
+      expect(generateRefereePrompt('React', 'Vue', { dimensions: GENERAL_DIMENSIONS })).toBe(generateRefereePrompt('React', 'Vue'));
+    });
+
+    test('Upgrade prompts should weigh staying against migrating', () => {
+      const upgrade = { technology: 'React', fromVersion: '18', toVersion: '19' };
+      const markdown = createPromptPackage('React 18', 'React 19', 'markdown', { upgrade, dimensions: UPGRADE_DIMENSIONS });
+      const json = createPromptPackage('React 18', 'React 19', 'json', { upgrade, dimensions: UPGRADE_DIMENSIONS });
+
+      expect(markdown.isValid).toBe(true);
+      expect(markdown.userPrompt).toContain('Compare staying on React 18 with migrating to React 19');
+      expect(markdown.userPrompt).toContain('Breaking Changes, Migration Effort, Performance, Ecosystem Readiness, and Support Window');
+      expect(markdown.userPrompt).toContain('State the hidden tax of staying behind on React 18');
+      expect(validatePromptStructure(markdown.userPrompt, DEFAULT_SCENARIOS, UPGRADE_DIMENSIONS)).toBe(true);
+
+      expect(json.userPrompt).toContain('"breakingChanges": { "tech1": string, "tech2": string }');
+      expect(json.userPrompt).toContain('"winner" is exactly "React 18" (stay) or "React 19" (migrate)');
+    });
+
     test('System prompt should contain required behavioral directives', () => {
       const systemPrompt = getSystemPrompt();
       
@@ -177,4 +308,122 @@ describe('Prompt Generation Properties', () => {
       expect(systemPrompt).toContain('Scenario Mapping');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Prompt template registry', () => {
+  const originalVersion = process.env.REFEREE_PROMPT_VERSION;
+
+  afterEach(() => {
+    if (originalVersion === undefined) {
+      delete process.env.REFEREE_PROMPT_VERSION;
+    } else {
+      process.env.REFEREE_PROMPT_VERSION = originalVersion;
+    }
+  });
+
+  test('every version has comparison and upgrade templates in both formats', () => {
+    expect(getPromptVersions()).toEqual(['1', '2', '3', '4']);
+    for (const version of getPromptVersions()) {
+      for (const id of ['referee', 'upgrade'] as const) {
+        for (const outputFormat of ['markdown', 'json'] as const) {
+          expect(getPromptTemplate(id, outputFormat, version)).toEqual(expect.objectContaining({ id, version, outputFormat }));
+        }
+      }
+    }
+  });
+
+  test('REFEREE_PROMPT_VERSION selects the version, falling back on unknown ones', () => {
+    delete process.env.REFEREE_PROMPT_VERSION;
+    expect(createPromptPackage('React', 'Vue')).toEqual(expect.objectContaining({
+      promptVersion: '4',
+      systemPrompt: REFEREE_PERSONA_PROMPT
+    }));
+
+    process.env.REFEREE_PROMPT_VERSION = '2';
+    expect(getActivePromptVersion()).toBe('2');
+    expect(createPromptPackage('React', 'Vue').systemPrompt).toBe(getSystemPrompt());
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.REFEREE_PROMPT_VERSION = '9';
+    expect(getActivePromptVersion()).toBe('4');
+    warn.mockRestore();
+  });
+
+  test('a requested version wins over the environment', () => {
+    process.env.REFEREE_PROMPT_VERSION = '2';
+    const promptPackage = createPromptPackage('React', 'Vue', 'markdown', { promptVersion: '1' });
+
+    expect(promptPackage.promptVersion).toBe('1');
+    expect(promptPackage.systemPrompt).toBe(REFEREE_PERSONA_PROMPT);
+    expect(promptPackage.userPrompt).toBe(generateRefereePrompt('React', 'Vue', {}, { hiddenTaxPerContender: false, tapeScores: false }));
+  });
+
+  test('versions 1 and 2 keep asking for a single Hidden Tax on the winners', () => {
+    const upgrade = { technology: 'React', fromVersion: '18', toVersion: '19' };
+    for (const promptVersion of ['1', '2']) {
+      const markdown = createPromptPackage('React', 'Vue', 'markdown', { promptVersion });
+      const json = createPromptPackage('React', 'Vue', 'json', { promptVersion });
+      const upgradeJson = createPromptPackage('React 18', 'React 19', 'json', { promptVersion, upgrade, dimensions: UPGRADE_DIMENSIONS });
+
+      expect(markdown.features).toEqual({ hiddenTaxPerContender: false, tapeScores: false });
+      expect(markdown.userPrompt).toContain('Explicitly state the downside of the "winning" options.');
+      expect(markdown.userPrompt).toContain('- Hidden Tax must be specific with timeframes and actionable impacts');
+      expect(markdown.userPrompt).not.toContain('Severity:');
+      expect(json.userPrompt).toContain('"hiddenTax": { "technology": string, "warning": string, "timeframe": string, "impact": string }');
+      expect(json.userPrompt).not.toContain('"hiddenTaxes"');
+      expect(upgradeJson.userPrompt).toContain('the cost of staying behind on React 18, so "technology" is "React 18"');
+    }
+  });
+
+  test('version 3 asks for one rated Hidden Tax per contender', () => {
+    const markdown = createPromptPackage('React', 'Vue', 'markdown', { promptVersion: '3' });
+    const json = createPromptPackage('React', 'Vue', 'json', { promptVersion: '3' });
+
+    expect(markdown.features).toEqual({ hiddenTaxPerContender: true, tapeScores: false });
+    expect(markdown.userPrompt).toContain('Explicitly state the downside of every option, one line per contender in the order given.');
+    expect(markdown.userPrompt).toContain('Severity: [low/medium/high]. Likelihood: [low/medium/high]. Mitigation:');
+    expect(json.userPrompt).toContain('"hiddenTaxes": [');
+    expect(json.userPrompt).not.toContain('"hiddenTax":');
+  });
+
+  test('only version 4 asks for a score in every Tale of the Tape cell', () => {
+    for (const promptVersion of ['1', '2', '3']) {
+      expect(createPromptPackage('React', 'Vue', 'markdown', { promptVersion }).userPrompt).not.toContain('1-10 score');
+      expect(createPromptPackage('React', 'Vue', 'json', { promptVersion }).userPrompt).not.toContain('"scores"');
+    }
+
+    const markdown = createPromptPackage('React', 'Vue', 'markdown', { promptVersion: '4' });
+    expect(markdown.features).toEqual({ hiddenTaxPerContender: true, tapeScores: true });
+    expect(markdown.userPrompt).toContain('End every cell with a 1-10 score and your confidence in it');
+    expect(createPromptPackage('React', 'Vue', 'json', { promptVersion: '4' }).userPrompt).toContain('"scores": {');
+  });
+
+  test('registered templates are used for their version and unknown versions are invalid', () => {
+    registerPromptTemplate({
+      id: 'referee',
+      version: 'canary',
+      outputFormat: 'markdown',
+      system: () => 'canary system',
+      user: (tech1, tech2) => `canary ${tech1} vs ${tech2}`
+    });
+
+    expect(createPromptPackage('React', 'Vue', 'markdown', { promptVersion: 'canary' })).toEqual(expect.objectContaining({
+      systemPrompt: 'canary system',
+      userPrompt: 'canary React vs Vue',
+      isValid: true
+    }));
+    expect(createPromptPackage('React', 'Vue', 'json', { promptVersion: 'canary' }).errors)
+      .toEqual(['Prompt version canary has no referee template for json output']);
+  });
+});
+
+describe('Repair prompts', () => {
+  test('quote the original prompt, the unreadable answer and the parser error', () => {
+    const prompt = createRepairPrompt('Compare React vs Vue', 'React wins.', 'Failed to parse LLM response structure: Missing section: Tale of the Tape');
+
+    expect(prompt.startsWith('Compare React vs Vue')).toBe(true);
+    expect(prompt).toContain('Your previous answer could not be read: Failed to parse LLM response structure: Missing section: Tale of the Tape');
+    expect(prompt).toContain('Previous answer:\nReact wins.');
+    expect(prompt).toContain('Reformat the complete answer');
+  });
+});
@@ -1,46 +1,392 @@
 // Structured prompt templates for Tech Referee analysis
+import { describeConstraints, hasConstraints } from './constraints';
+import { GENERAL_DIMENSIONS, UPGRADE_DIMENSIONS, usesGeneralDimensions } from './dimensions';
+import { DEFAULT_SCENARIOS, getScenarioHeading, usesDefaultScenarios } from './scenarios';
+import { describeCategoryMismatch, findCategoryMismatch, normalizeTechnologyName } from './technologies';
+import {
+  ComparisonDimension,
+  contenderKey,
+  LATEST_PROMPT_FEATURES,
+  MatchupConstraints,
+  MAX_CONTENDERS,
+  OutputFormat,
+  PromptFeatures,
+  ScenarioPersona,
+  UpgradeMatchup
+} from './types';
+import { getUpgradeContenders } from './versions';
 
 /**
- * Generate a structured prompt for technology comparison following referee guidelines
+ * Prompt template version used unless REFEREE_PROMPT_VERSION or the request
+ * picks another. Register a new version rather than editing a registered
+ * one, so cached responses and saved verdicts keep matching their prompts.
  */
-export function generateRefereePrompt(tech1: string, tech2: string): string {
-  return `You are The Tech Referee. Compare ${tech1} vs ${tech2} following this EXACT structure:
+export const REFEREE_PROMPT_VERSION = '4';
+
+/**
+ * The referee persona sent as the system instruction by versions 1, 3 and
+ * 4, and by providers called without a template
+ */
+export const REFEREE_PERSONA_PROMPT = 'You are The Tech Referee, a senior solutions architect and impartial arbiter who helps developers choose between competing technologies by focusing on trade-offs, constraints, and hidden costs.';
+
+// The score every markdown Tale of the Tape cell ends with, in the shape lib/scoring.ts reads
+const TAPE_SCORE_LINE = '* *Scores:* End every cell with a 1-10 score and your confidence in it, e.g. "$0 start cost (9/10, 80% confidence)". 10 is the strongest on that dimension (for Cost, the cheapest).';
+
+// Field guidance for the scores of a JSON response
+const TAPE_SCORE_FIELDS = '"scores" rates every descriptor: "score" from 1 to 10, where 10 is the strongest on that dimension (for Cost, the cheapest), and "confidence" from 0 to 1.';
+
+// The single Hidden Tax line of versions 1 and 2
+const LEGACY_HIDDEN_TAX_LINE = '"If you choose [Option A], be prepared to pay the tax of [Specific Downside] in 6 months."';
+
+// One Hidden Tax line per contender, in the shape the markdown parser reads
+const HIDDEN_TAX_LINE = '"If you choose [Option], be prepared to pay the tax of [Specific Downside] in [timeframe, e.g. 6 months]. Severity: [low/medium/high]. Likelihood: [low/medium/high]. Mitigation: [one concrete step that reduces the tax]."';
+
+// Field guidance for the hiddenTaxes entries of a JSON response
+const HIDDEN_TAX_FIELDS = 'one entry per contender, in the order given. "warning" is the specific downside; "timeframe" is when it comes due (e.g., "6 months"); "severity" is how much it hurts and "likelihood" how likely the team is to pay it, each "low", "medium" or "high"; "mitigation" is one concrete step that reduces it.';
+
+/**
+ * Optional inputs to createPromptPackage beyond the first two technologies
+ */
+export interface PromptOptions {
+  /** Contenders after tech1/tech2 for a 3-5 way comparison */
+  additionalTechnologies?: string[];
+  /** The user's situation; verdicts and the tie-breaker must account for it */
+  constraints?: MatchupConstraints;
+  /** Teams to judge for; defaults to the Move Fast, Scale and Budget teams */
+  scenarios?: ScenarioPersona[];
+  /** Tale of the Tape rows; defaults to the general five */
+  dimensions?: ComparisonDimension[];
+  /** Build the prompt even when the contenders are from unrelated categories */
+  allowCategoryMismatch?: boolean;
+  /** Judge a migration between two versions instead of a comparison */
+  upgrade?: UpgradeMatchup;
+  /** Registered template version; defaults to the active version */
+  promptVersion?: string;
+}
+
+/**
+ * What a template is for: a comparison, or an upgrade between two versions
+ */
+export type PromptTemplateId = 'referee' | 'upgrade';
+
+/**
+ * One version of the system and user prompts for a kind of analysis and the
+ * output format it asks the model for
+ */
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: string;
+  outputFormat: OutputFormat;
+  /** What the prompts ask the model for; the latest features when unset */
+  features?: PromptFeatures;
+  system(options: PromptOptions): string;
+  /** `options.upgrade` is always set for upgrade templates */
+  user(tech1: string, tech2: string, options: PromptOptions): string;
+}
+
+/**
+ * Join names as `"A", "B" or "C"`
+ */
+function quoteAlternatives(names: string[]): string {
+  const quoted = names.map(name => `"${name}"`);
+  return quoted.length > 1
+    ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`
+    : quoted.join('');
+}
+
+/**
+ * Extra requirements for comparisons with more than two contenders
+ */
+function multiWayRequirements(technologies: string[]): string {
+  if (technologies.length <= 2) {
+    return '';
+  }
+
+  return `
+- There are ${technologies.length} contenders (${technologies.join(', ')}): give each one its own column in the Tale of the Tape, in that order
+- Each scenario winner must be exactly one of: ${technologies.join(', ')}`;
+}
+
+/**
+ * The user's constraints as a prompt section, or nothing when none were given
+ */
+function constraintsSection(constraints?: MatchupConstraints): string {
+  if (!hasConstraints(constraints)) {
+    return '';
+  }
+
+  return `
+
+THE USER'S SITUATION (judge every verdict and the tie-breaker against these constraints):
+${describeConstraints(constraints).map(line => `- ${line}`).join('\n')}`;
+}
+
+/**
+ * Extra requirement added when the user supplied constraints
+ */
+function constraintRequirements(constraints?: MatchupConstraints): string {
+  return hasConstraints(constraints)
+    ? `
+- Reference the user's situation in each verdict and call out any option that breaks a stated constraint
+- The tie-breaker must be about a decision the stated constraints leave open`
+    : '';
+}
+
+/**
+ * One verdict line per persona; custom personas carry their description
+ */
+function scenarioLines(scenarios: ScenarioPersona[]): string {
+  const describe = !usesDefaultScenarios(scenarios);
+  return scenarios.map((persona, index) =>
+    `* **${getScenarioHeading(persona, index)}:** ${describe ? `${persona.description.replace(/\.$/, '')}. ` : ''}Which wins? Why?`
+  ).join('\n');
+}
+
+/**
+ * The dimensions as prose, e.g. "Speed, Cost, ... and Maintainability"
+ */
+function dimensionList(dimensions: ComparisonDimension[]): string {
+  if (usesGeneralDimensions(dimensions)) {
+    return 'Speed, Cost, Developer Experience (DX), Scalability, and Maintainability';
+  }
+
+  const labels = dimensions.map(dimension => dimension.label);
+  return `${labels.slice(0, -1).join(', ')}, and ${labels[labels.length - 1]}`;
+}
+
+/**
+ * What each category-specific dimension means, so rows come back labelled
+ * exactly as the parser expects; nothing for the general five
+ */
+function dimensionGuidance(dimensions: ComparisonDimension[]): string {
+  return usesGeneralDimensions(dimensions)
+    ? ''
+    : `
+* *Rows:* use exactly these row labels: ${dimensions.map(dimension => `${dimension.label} (${dimension.description.toLowerCase()})`).join('; ')}.`;
+}
+
+/**
+ * The Hidden Tax requirement of a comparison prompt
+ */
+function hiddenTaxRequirement(features: PromptFeatures): string {
+  return features.hiddenTaxPerContender
+    ? 'Hidden Tax must name one specific tax per contender, each with a timeframe, severity, likelihood and mitigation'
+    : 'Hidden Tax must be specific with timeframes and actionable impacts';
+}
+
+/**
+ * Generate a structured prompt for technology comparison following referee
+ * guidelines, asking for the `features` of one template version
+ */
+export function generateRefereePrompt(
+  tech1: string,
+  tech2: string,
+  options: PromptOptions = {},
+  features: PromptFeatures = LATEST_PROMPT_FEATURES
+): string {
+  const technologies = [tech1, tech2, ...(options.additionalTechnologies || [])];
+  const scenarios = options.scenarios || DEFAULT_SCENARIOS;
+  const dimensions = options.dimensions || GENERAL_DIMENSIONS;
+  return `You are The Tech Referee. Compare ${technologies.join(' vs ')} following this EXACT structure:
 
 ### 1. 🥊 The Matchup
 Briefly define the contenders and the core conflict.
 
 ### 2. 📊 The Tale of the Tape
-Create a table comparing options on: Speed, Cost, Developer Experience (DX), Scalability, and Maintainability.
-* *Constraint:* Do not use generic words like "Good/Bad." Use specific descriptors (e.g., "$0 start cost", "High Latency").
+Create a table comparing options on: ${dimensionList(dimensions)}.
+* *Constraint:* Do not use generic words like "Good/Bad." Use specific descriptors (e.g., "$0 start cost", "High Latency").${features.tapeScores ? `\n${TAPE_SCORE_LINE}` : ''}${dimensionGuidance(dimensions)}
 
 ### 3. ⚖️ The Verdicts
-* **Scenario A (The 'Move Fast' Team):** Which wins? Why?
-* **Scenario B (The 'Scale' Team):** Which wins? Why?
-* **Scenario C (The 'Budget' Team):** Which wins? Why?
+${scenarioLines(scenarios)}
 
 ### 4. ⚠️ The "Hidden Tax"
-Explicitly state the downside of the "winning" options.
-* *Format:* "If you choose [Option A], be prepared to pay the tax of [Specific Downside] in 6 months."
+${features.hiddenTaxPerContender
+    ? `Explicitly state the downside of every option, one line per contender in the order given.
+* *Format:* ${HIDDEN_TAX_LINE}`
+    : `Explicitly state the downside of the "winning" options.
+* *Format:* ${LEGACY_HIDDEN_TAX_LINE}`}
 
 ### 5. 🏁 The Tie-Breaker
-End with ONE single, cutting question that forces the user to decide (e.g., "Do you have a dedicated DevOps person?").
+End with ONE single, cutting question that forces the user to decide (e.g., "Do you have a dedicated DevOps person?").${constraintsSection(options.constraints)}
 
 CRITICAL REQUIREMENTS:
 - Never say "X is better than Y" without immediately adding "if..."
 - For every benefit, expose the "Tax" (maintenance burden, learning curve, cost at scale)
 - Use specific descriptors, not generic terms like "Good/Bad/Better/Worse"
-- Include exactly 3 scenarios: Move Fast Team, Scale Team, Budget Team
+- Include exactly ${scenarios.length} scenarios: ${scenarios.map(persona => persona.label).join(', ')}
 - Each scenario must have a clear winner and specific reasoning
-- Hidden Tax must be specific with timeframes and actionable impacts
-- End with exactly ONE tie-breaker question
+- ${hiddenTaxRequirement(features)}
+- End with exactly ONE tie-breaker question${multiWayRequirements(technologies)}${constraintRequirements(options.constraints)}
 
 Respond with the analysis following this exact structure.`;
 }
 
+/**
+ * The RefereeAnalysis JSON document the model must return
+ */
+function jsonShape(
+  technologies: string[],
+  scenarios: ScenarioPersona[],
+  dimensions: ComparisonDimension[],
+  features: PromptFeatures
+): string {
+  const [tech1, tech2] = technologies;
+  const descriptors = `{ ${technologies.map((_, index) => `"${contenderKey(index)}": string`).join(', ')} }`;
+  const scores = `{ ${technologies.map((_, index) => `"${contenderKey(index)}": { "score": number, "confidence": number }`).join(', ')} }`;
+  const matchup = technologies.length > 2
+    ? `{ "technology1": "${tech1}", "technology2": "${tech2}", "technologies": [${technologies.map(tech => `"${tech}"`).join(', ')}] }`
+    : `{ "technology1": "${tech1}", "technology2": "${tech2}" }`;
+
+  return `{
+  "matchup": ${matchup},
+  "taleOfTheTape": {
+${dimensions.map(dimension => `    "${dimension.key}": ${descriptors}`).join(',\n')}
+  },${features.tapeScores ? `
+  "scores": {
+${dimensions.map(dimension => `    "${dimension.key}": ${scores}`).join(',\n')}
+  },` : ''}
+  "scenarios": [
+${scenarios.map(persona => `    { "name": "${persona.label}", "winner": string, "reasoning": string, "context": string }`).join(',\n')}
+  ],
+${features.hiddenTaxPerContender
+    ? `  "hiddenTaxes": [
+${technologies.map(tech => `    { "technology": "${tech}", "warning": string, "timeframe": string, "severity": "low" | "medium" | "high", "likelihood": "low" | "medium" | "high", "mitigation": string }`).join(',\n')}
+  ],`
+    : '  "hiddenTax": { "technology": string, "warning": string, "timeframe": string, "impact": string },'}
+  "tieBreaker": string
+}`;
+}
+
+/**
+ * Generate a prompt that asks for the analysis as a JSON document matching
+ * RefereeAnalysis, for providers with a native JSON output mode
+ */
+export function generateRefereeJsonPrompt(
+  tech1: string,
+  tech2: string,
+  options: PromptOptions = {},
+  features: PromptFeatures = LATEST_PROMPT_FEATURES
+): string {
+  const technologies = [tech1, tech2, ...(options.additionalTechnologies || [])];
+  const scenarios = options.scenarios || DEFAULT_SCENARIOS;
+  const dimensions = options.dimensions || GENERAL_DIMENSIONS;
+
+  return `You are The Tech Referee. Compare ${technologies.join(' vs ')} and respond with ONLY a JSON object (no markdown, no prose) with this exact shape:
+
+${jsonShape(technologies, scenarios, dimensions, features)}
+
+Field guidance:
+- 🥊 The Matchup: use the ${technologies.length === 2 ? 'two' : technologies.length} technology names exactly as given.
+- 📊 The Tale of the Tape: compare on ${dimensionList(dimensions)}. ${technologies.map((tech, index) => `"${contenderKey(index)}" describes ${tech}`).join(', ')}. Use specific descriptors (e.g., "$0 start cost", "High Latency"), never "Good/Bad".${features.tapeScores ? ` ${TAPE_SCORE_FIELDS}` : ''}
+- ⚖️ The Verdicts: "winner" is exactly ${quoteAlternatives(technologies)}. "reasoning" explains why, qualified with "if...". "context" describes the team in one sentence.${usesDefaultScenarios(scenarios) ? '' : ` The teams are: ${scenarios.map(persona => `${persona.label} (${persona.description.replace(/\.$/, '')})`).join('; ')}.`}
+- ⚠️ The "Hidden Tax": ${features.hiddenTaxPerContender
+    ? HIDDEN_TAX_FIELDS
+    : 'the downside of the most frequent winner. "timeframe" is when it comes due (e.g., "6 months"); "impact" is the concrete consequence.'}
+- 🏁 The Tie-Breaker: ONE single, cutting question that forces the user to decide.${constraintsSection(options.constraints)}
+
+CRITICAL REQUIREMENTS:
+- Never say "X is better than Y" without immediately adding "if..."
+- For every benefit, expose the "Tax" (maintenance burden, learning curve, cost at scale)
+- Use specific descriptors, not generic terms like "Good/Bad/Better/Worse"
+- Include exactly ${scenarios.length} scenarios: ${scenarios.map(persona => persona.label).join(', ')}
+- ${hiddenTaxRequirement(features)}
+- End with exactly ONE tie-breaker question${constraintRequirements(options.constraints)}
+
+Respond with the JSON object only.`;
+}
+
+/**
+ * Generate the prompt for an upgrade: staying on one version versus moving
+ * to another, judged on breaking changes, migration effort and the tax of
+ * staying behind
+ */
+export function generateUpgradePrompt(
+  upgrade: UpgradeMatchup,
+  options: PromptOptions = {},
+  features: PromptFeatures = LATEST_PROMPT_FEATURES
+): string {
+  const [current, next] = getUpgradeContenders(upgrade);
+  const scenarios = options.scenarios || DEFAULT_SCENARIOS;
+  const dimensions = options.dimensions || UPGRADE_DIMENSIONS;
+  return `You are The Tech Referee, judging an upgrade. Compare staying on ${current} with migrating to ${next} following this EXACT structure:
+
+### 1. 🥊 The Matchup
+Summarize what changed between ${current} and ${next} and why teams hesitate to move.
+
+### 2. 📊 The Tale of the Tape
+Create a table with a ${current} column and a ${next} column comparing: ${dimensionList(dimensions)}.
+* *Constraint:* Name concrete APIs, defaults and dates (e.g., "Legacy context removed", "EOL April 2025"). Do not use generic words like "Good/Bad."${features.tapeScores ? `\n${TAPE_SCORE_LINE}` : ''}${dimensionGuidance(dimensions)}
+
+### 3. ⚖️ The Verdicts
+${scenarioLines(scenarios)}
+
+### 4. ⚠️ The "Hidden Tax"
+${features.hiddenTaxPerContender
+    ? `State the hidden tax of staying behind on ${current} (missed security fixes, ecosystem drift, hiring, a harder jump later), then the hidden tax of migrating to ${next} (rewrites, regressions, retraining), one line each.
+* *Format:* ${HIDDEN_TAX_LINE}`
+    : `State the hidden tax of staying behind on ${current}: missed security fixes, ecosystem drift, hiring, and a harder jump later.
+* *Format:* "If you choose ${current}, be prepared to pay the tax of [Specific Downside] in 6 months."`}
+
+### 5. 🏁 The Tie-Breaker
+End with ONE single, cutting question that decides whether to migrate now (e.g., "Do your tests cover the code the breaking changes touch?").${constraintsSection(options.constraints)}
+
+CRITICAL REQUIREMENTS:
+- Each scenario winner must be exactly "${current}" (stay) or "${next}" (migrate)
+- Name the specific breaking changes and the migration steps they force
+- Size the migration effort concretely (e.g., "2 sprints for a 50k-line app", "codemod covers 80%")
+- ${features.hiddenTaxPerContender
+    ? `The Hidden Tax names the cost of staying on ${current} and the cost of migrating to ${next}, each with a timeframe, severity, likelihood and mitigation`
+    : `The Hidden Tax is the cost of staying on ${current}, with a timeframe and an actionable impact`}
+- Use specific descriptors, not generic terms like "Good/Bad/Better/Worse"
+- Include exactly ${scenarios.length} scenarios: ${scenarios.map(persona => persona.label).join(', ')}
+- End with exactly ONE tie-breaker question${constraintRequirements(options.constraints)}
+
+Respond with the analysis following this exact structure.`;
+}
+
+/**
+ * The upgrade prompt for providers with a native JSON output mode
+ */
+export function generateUpgradeJsonPrompt(
+  upgrade: UpgradeMatchup,
+  options: PromptOptions = {},
+  features: PromptFeatures = LATEST_PROMPT_FEATURES
+): string {
+  const technologies = getUpgradeContenders(upgrade);
+  const [current, next] = technologies;
+  const scenarios = options.scenarios || DEFAULT_SCENARIOS;
+  const dimensions = options.dimensions || UPGRADE_DIMENSIONS;
+
+  return `You are The Tech Referee, judging an upgrade. Compare staying on ${current} with migrating to ${next} and respond with ONLY a JSON object (no markdown, no prose) with this exact shape:
+
+${jsonShape(technologies, scenarios, dimensions, features)}
+
+Field guidance:
+- 🥊 The Matchup: use "${current}" and "${next}" exactly as given.
+- 📊 The Tale of the Tape: compare on ${dimensionList(dimensions)}. "tech1" describes ${current}, "tech2" describes ${next}. Name concrete APIs, defaults and dates, never "Good/Bad".${features.tapeScores ? ` ${TAPE_SCORE_FIELDS}` : ''}
+- ⚖️ The Verdicts: "winner" is exactly "${current}" (stay) or "${next}" (migrate). "reasoning" explains why, qualified with "if...". "context" describes the team in one sentence.${usesDefaultScenarios(scenarios) ? '' : ` The teams are: ${scenarios.map(persona => `${persona.label} (${persona.description.replace(/\.$/, '')})`).join('; ')}.`}
+- ⚠️ The "Hidden Tax": ${features.hiddenTaxPerContender
+    ? `the first entry is the cost of staying behind on ${current}, the second the cost of migrating to ${next}. ${HIDDEN_TAX_FIELDS}`
+    : `the cost of staying behind on ${current}, so "technology" is "${current}". "timeframe" is when it comes due (e.g., "6 months"); "impact" is the concrete consequence.`}
+- 🏁 The Tie-Breaker: ONE single, cutting question that decides whether to migrate now.${constraintsSection(options.constraints)}
+
+CRITICAL REQUIREMENTS:
+- Name the specific breaking changes and the migration steps they force
+- Size the migration effort concretely (e.g., "2 sprints for a 50k-line app", "codemod covers 80%")
+- Include exactly ${scenarios.length} scenarios: ${scenarios.map(persona => persona.label).join(', ')}
+- End with exactly ONE tie-breaker question${constraintRequirements(options.constraints)}
+
+Respond with the JSON object only.`;
+}
+
 /**
  * Validate that a prompt follows the referee guidelines format
  */
-export function validatePromptStructure(prompt: string): boolean {
+export function validatePromptStructure(
+  prompt: string,
+  scenarios: ScenarioPersona[] = DEFAULT_SCENARIOS,
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS
+): boolean {
   const requiredSections = [
     '🥊 The Matchup',
     '📊 The Tale of the Tape',
@@ -49,19 +395,9 @@ export function validatePromptStructure(prompt: string): boolean {
     '🏁 The Tie-Breaker'
   ];
 
-  const requiredScenarios = [
-    'Move Fast Team',
-    'Scale Team', 
-    'Budget Team'
-  ];
+  const requiredScenarios = scenarios.map(persona => persona.label);
 
-  const requiredConstraints = [
-    'Speed',
-    'Cost',
-    'Developer Experience',
-    'Scalability',
-    'Maintainability'
-  ];
+  const requiredConstraints = dimensions.map(dimension => dimension.label);
 
   // Check for all required sections
   for (const section of requiredSections) {
@@ -91,68 +427,16 @@ export function validatePromptStructure(prompt: string): boolean {
  * Extract technology names and normalize them for consistent comparison
  */
 export function normalizeTechnologyNames(tech1: string, tech2: string): { tech1: string; tech2: string } {
-  // Common technology aliases and normalizations
-  const aliases: Record<string, string> = {
-    // JavaScript frameworks
-    'react': 'React',
-    'react.js': 'React',
-    'reactjs': 'React',
-    'vue': 'Vue',
-    'vue.js': 'Vue',
-    'vuejs': 'Vue',
-    'angular': 'Angular',
-    'angular.js': 'Angular',
-    'angularjs': 'Angular',
-    
-    // Databases
-    'postgres': 'PostgreSQL',
-    'postgresql': 'PostgreSQL',
-    'pg': 'PostgreSQL',
-    'mongo': 'MongoDB',
-    'mongodb': 'MongoDB',
-    'mysql': 'MySQL',
-    
-    // Cloud providers
-    'aws': 'Amazon Web Services',
-    'gcp': 'Google Cloud Platform',
-    'azure': 'Microsoft Azure',
-    
-    // Languages
-    'js': 'JavaScript',
-    'javascript': 'JavaScript',
-    'ts': 'TypeScript',
-    'typescript': 'TypeScript',
-    'py': 'Python',
-    'python': 'Python',
-    'golang': 'Go',
-    
-    // Tools
-    'k8s': 'Kubernetes',
-    'kubernetes': 'Kubernetes',
-    'docker': 'Docker',
-    'git': 'Git'
-  };
-
-  const normalize = (tech: string): string => {
-    // Ensure tech is a string and handle edge cases
-    if (typeof tech !== 'string') {
-      return String(tech).trim();
-    }
-    
-    const lower = tech.toLowerCase().trim();
-    return aliases[lower] || tech.trim();
-  };
-
   return {
-    tech1: normalize(tech1),
-    tech2: normalize(tech2)
+    tech1: normalizeTechnologyName(tech1),
+    tech2: normalizeTechnologyName(tech2)
   };
 }
 
 /**
  * Validate technology input for common issues
  */
-export function validateTechnologyInput(tech1: string, tech2: string): { isValid: boolean; errors: string[] } {
+export function validateTechnologyInput(tech1: string, tech2: string, ...additional: string[]): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
 
   // Ensure inputs are strings
@@ -186,6 +470,30 @@ export function validateTechnologyInput(tech1: string, tech2: string): { isValid
     errors.push('Technology names should be 50 characters or less');
   }
 
+  // Check the extra contenders of a multi-way comparison
+  if (additional.length > 0) {
+    if (additional.length + 2 > MAX_CONTENDERS) {
+      errors.push(`Compare at most ${MAX_CONTENDERS} technologies at once`);
+    }
+
+    const extras = additional.map(tech => typeof tech === 'string' ? tech : String(tech));
+    extras.forEach((tech, index) => {
+      if (!tech.trim()) {
+        errors.push(`Technology ${index + 3} cannot be empty`);
+      } else if (genericTerms.includes(tech.toLowerCase())) {
+        errors.push(`Technology ${index + 3} is too generic; name a specific technology`);
+      } else if (tech.length > 50) {
+        errors.push(`Technology ${index + 3} should be 50 characters or less`);
+      }
+    });
+
+    const seen = [t1, t2, ...extras].map(tech => normalizeTechnologyName(tech).toLowerCase());
+    const repeated = seen.filter((name, index) => name && seen.indexOf(name) !== index && index >= 2);
+    if (repeated.length > 0) {
+      errors.push(`Each technology can only appear once (repeated: ${Array.from(new Set(repeated)).join(', ')})`);
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -195,43 +503,193 @@ export function validateTechnologyInput(tech1: string, tech2: string): { isValid
 /**
  * Generate system prompt that establishes the referee personality and constraints
  */
-export function getSystemPrompt(): string {
+export function getSystemPrompt(scenarioCount: number = DEFAULT_SCENARIOS.length): string {
   return `You are "The Tech Referee," a senior solutions architect and impartial arbiter. Your philosophy is that "There is no best tool, only the best tool for the specific job."
 
 Core Behavioral Directives:
 1. Reject Absolutes: Never say "X is better than Y" without immediately adding "if..."
 2. Expose Hidden Costs: For every benefit, expose the "Tax" (maintenance burden, learning curve, cost at scale)
-3. Scenario Mapping: Present how decisions change across 3 distinct scenarios
+3. Scenario Mapping: Present how decisions change across ${scenarioCount} distinct scenarios
 
 You must respond using the exact 5-section structure provided in prompts, with specific descriptors and qualified statements only.`;
 }
 
+// ============================================================================
+// Template Registry
+// ============================================================================
+
+const templateRegistry = new Map<string, PromptTemplate>();
+
+function templateKey(id: PromptTemplateId, version: string, outputFormat: OutputFormat): string {
+  return `${id}@${version}/${outputFormat}`;
+}
+
+/**
+ * Register a template, replacing any with the same id, version and format
+ */
+export function registerPromptTemplate(template: PromptTemplate): void {
+  templateRegistry.set(templateKey(template.id, template.version, template.outputFormat), template);
+}
+
 /**
- * Create a complete prompt package for OpenAI API call
+ * The template for a kind of analysis and output format, or null when that
+ * version does not provide one
  */
-export function createPromptPackage(tech1: string, tech2: string): {
+export function getPromptTemplate(
+  id: PromptTemplateId,
+  outputFormat: OutputFormat,
+  version: string = getActivePromptVersion()
+): PromptTemplate | null {
+  return templateRegistry.get(templateKey(id, version, outputFormat)) || null;
+}
+
+/**
+ * Every registered version, oldest first
+ */
+export function getPromptVersions(): string[] {
+  const versions = new Set(Array.from(templateRegistry.values(), template => template.version));
+  return Array.from(versions).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * The version selected by REFEREE_PROMPT_VERSION, read on every call so a
+ * rollout can be reverted without a rebuild. Unknown versions fall back to
+ * the default.
+ */
+export function getActivePromptVersion(): string {
+  const configured = (process.env.REFEREE_PROMPT_VERSION || '').trim();
+  if (!configured) {
+    return REFEREE_PROMPT_VERSION;
+  }
+
+  if (!getPromptVersions().includes(configured)) {
+    console.warn(`Unknown REFEREE_PROMPT_VERSION "${configured}", using version ${REFEREE_PROMPT_VERSION}`);
+    return REFEREE_PROMPT_VERSION;
+  }
+  return configured;
+}
+
+/**
+ * Register the comparison and upgrade templates, in both output formats,
+ * for one version
+ */
+function registerRefereeTemplates(
+  version: string,
+  system: (options: PromptOptions) => string,
+  features: PromptFeatures
+): void {
+  const templates: Omit<PromptTemplate, 'version' | 'system' | 'features'>[] = [
+    { id: 'referee', outputFormat: 'markdown', user: (tech1, tech2, options) => generateRefereePrompt(tech1, tech2, options, features) },
+    { id: 'referee', outputFormat: 'json', user: (tech1, tech2, options) => generateRefereeJsonPrompt(tech1, tech2, options, features) },
+    { id: 'upgrade', outputFormat: 'markdown', user: (_tech1, _tech2, options) => generateUpgradePrompt(options.upgrade!, options, features) },
+    { id: 'upgrade', outputFormat: 'json', user: (_tech1, _tech2, options) => generateUpgradeJsonPrompt(options.upgrade!, options, features) }
+  ];
+
+  for (const template of templates) {
+    registerPromptTemplate({ ...template, version, system, features });
+  }
+}
+
+// Version 1: the persona alone as the system instruction
+registerRefereeTemplates('1', () => REFEREE_PERSONA_PROMPT, { hiddenTaxPerContender: false, tapeScores: false });
+// Version 2: the full behavioral directives as the system instruction
+registerRefereeTemplates('2', options => getSystemPrompt((options.scenarios || DEFAULT_SCENARIOS).length), { hiddenTaxPerContender: false, tapeScores: false });
+// Version 3: version 1 asking for one rated Hidden Tax per contender
+registerRefereeTemplates('3', () => REFEREE_PERSONA_PROMPT, { hiddenTaxPerContender: true, tapeScores: false });
+// Version 4: version 3 asking for a 1-10 score in every Tale of the Tape cell
+registerRefereeTemplates('4', () => REFEREE_PERSONA_PROMPT, LATEST_PROMPT_FEATURES);
+
+/**
+ * Create a complete prompt package for OpenAI API call, from the requested
+ * or active template version
+ */
+export function createPromptPackage(
+  tech1: string,
+  tech2: string,
+  outputFormat: OutputFormat = 'markdown',
+  options: PromptOptions = {}
+): {
   systemPrompt: string;
   userPrompt: string;
+  promptVersion: string;
+  /** What the prompt asks for, so the response schema can match it */
+  features: PromptFeatures;
   isValid: boolean;
   errors: string[];
 } {
-  const validation = validateTechnologyInput(tech1, tech2);
+  const promptVersion = options.promptVersion || getActivePromptVersion();
+  const template = getPromptTemplate(options.upgrade ? 'upgrade' : 'referee', outputFormat, promptVersion);
+  const features = template?.features || LATEST_PROMPT_FEATURES;
+  const additional = options.additionalTechnologies || [];
+  const validation = validateTechnologyInput(tech1, tech2, ...additional);
+  const mismatch = options.allowCategoryMismatch ? null : findCategoryMismatch([tech1, tech2, ...additional]);
+  if (validation.isValid && mismatch) {
+    validation.errors.push(describeCategoryMismatch(mismatch));
+  }
+  if (!template) {
+    validation.errors.push(`Prompt version ${promptVersion} has no ${options.upgrade ? 'upgrade' : 'referee'} template for ${outputFormat} output`);
+  }
   
-  if (!validation.isValid) {
+  if (!template || validation.errors.length > 0) {
     return {
       systemPrompt: '',
       userPrompt: '',
+      promptVersion,
+      features,
       isValid: false,
       errors: validation.errors
     };
   }
 
-  const normalized = normalizeTechnologyNames(tech1, tech2);
+  const [first, second, ...rest] = [tech1, tech2, ...additional].map(normalizeTechnologyName);
+  const promptOptions: PromptOptions = {
+    additionalTechnologies: rest,
+    constraints: options.constraints,
+    scenarios: options.scenarios,
+    dimensions: options.dimensions,
+    upgrade: options.upgrade
+  };
   
   return {
-    systemPrompt: getSystemPrompt(),
-    userPrompt: generateRefereePrompt(normalized.tech1, normalized.tech2),
+    systemPrompt: template.system(promptOptions),
+    userPrompt: template.user(first, second, promptOptions),
+    promptVersion,
+    features,
     isValid: true,
     errors: []
   };
-}
\ No newline at end of file
+}
+/**
+ * Ask the model to reformat an answer the parser could not read, quoting
+ * the parser's error
+ */
+export function createRepairPrompt(userPrompt: string, response: string, parseError: string): string {
+  return `${userPrompt}
+
+---
+
+Your previous answer could not be read: ${parseError}
+
+Previous answer:
+${response}
+
+Reformat the complete answer so it follows the required structure exactly. Keep the content; fix only the format.`;
+}
+
+/**
+ * Ask the model to rewrite an answer that broke the referee guidelines,
+ * keeping the original prompt so the rewrite follows the same format
+ */
+export function createCorrectivePrompt(userPrompt: string, response: string, violations: string[]): string {
+  return `${userPrompt}
+
+---
+
+Your previous answer broke these guidelines:
+${violations.map(violation => `- ${violation}`).join('\n')}
+
+Previous answer:
+${response}
+
+Rewrite the complete answer in the same format, fixing every problem listed above. Keep everything that already followed the guidelines.`;
+}
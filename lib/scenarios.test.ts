@@ -0,0 +1,79 @@
+// Unit tests for scenario persona configuration
+import {
+  DEFAULT_SCENARIOS,
+  getConfiguredScenarios,
+  getScenarioHeading,
+  SCENARIO_LIMITS,
+  usesDefaultScenarios,
+  validateScenarios
+} from './scenarios';
+
+const ORIGINAL_ENV = process.env;
+
+describe('validateScenarios', () => {
+  it('cleans personas and fills in the default icon and color', () => {
+    expect(validateScenarios([
+      { id: 'regulated-enterprise', label: '  Regulated   Enterprise ', description: 'Every dependency is audited.' }
+    ])).toEqual({
+      success: true,
+      data: [{
+        id: 'regulated-enterprise',
+        label: 'Regulated Enterprise',
+        description: 'Every dependency is audited.',
+        icon: 'target',
+        color: 'gray'
+      }]
+    });
+  });
+
+  it('accepts the default personas unchanged', () => {
+    expect(validateScenarios(DEFAULT_SCENARIOS)).toEqual({ success: true, data: DEFAULT_SCENARIOS });
+  });
+
+  it('rejects malformed persona lists', () => {
+    const persona = { id: 'solo', label: 'Solo Maintainer', description: 'One person on call' };
+
+    expect(validateScenarios([])).toMatchObject({ success: false, error: { field: 'scenarios', code: 'INVALID_SCENARIOS' } });
+    expect(validateScenarios(Array(SCENARIO_LIMITS.maxScenarios + 1).fill(persona))).toMatchObject({ success: false });
+    expect(validateScenarios([{ ...persona, id: 'Solo Dev' }])).toMatchObject({ error: { field: 'scenarios[0].id' } });
+    expect(validateScenarios([{ ...persona, label: "Solo' Team" }])).toMatchObject({ error: { field: 'scenarios[0].label' } });
+    expect(validateScenarios([{ ...persona, description: ' ' }])).toMatchObject({ error: { field: 'scenarios[0].description' } });
+    expect(validateScenarios([{ ...persona, icon: 'rocket' }])).toMatchObject({ error: { field: 'scenarios[0].icon' } });
+    expect(validateScenarios([{ ...persona, color: 'teal' }])).toMatchObject({ error: { field: 'scenarios[0].color' } });
+    expect(validateScenarios([persona, { ...persona, id: 'solo-2', label: 'solo maintainer' }])).toMatchObject({
+      error: { field: 'scenarios[1]', message: 'Scenario "solo maintainer" is listed more than once' }
+    });
+  });
+});
+
+describe('scenario helpers', () => {
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the original headings for "Team" labels', () => {
+    expect(getScenarioHeading(DEFAULT_SCENARIOS[0], 0)).toBe("Scenario A (The 'Move Fast' Team)");
+    expect(getScenarioHeading({ ...DEFAULT_SCENARIOS[0], label: 'Regulated Enterprise' }, 3)).toBe('Scenario D (Regulated Enterprise)');
+  });
+
+  it('detects the default persona set by label', () => {
+    expect(usesDefaultScenarios(DEFAULT_SCENARIOS.map(persona => ({ ...persona })))).toBe(true);
+    expect(usesDefaultScenarios(DEFAULT_SCENARIOS.slice(0, 2))).toBe(false);
+  });
+
+  it('reads REFEREE_SCENARIOS and falls back to the defaults when it is invalid', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const custom = [{ id: 'ml', label: 'Data-heavy ML Team', description: 'Feature pipelines', icon: 'database', color: 'orange' }];
+
+    process.env = { ...ORIGINAL_ENV, REFEREE_SCENARIOS: JSON.stringify(custom) };
+    expect(getConfiguredScenarios()).toEqual(custom);
+
+    process.env = { ...ORIGINAL_ENV, REFEREE_SCENARIOS: '[{"id": "ml"}]' };
+    expect(getConfiguredScenarios()).toBe(DEFAULT_SCENARIOS);
+
+    process.env = { ...ORIGINAL_ENV, REFEREE_SCENARIOS: 'not json' };
+    expect(getConfiguredScenarios()).toBe(DEFAULT_SCENARIOS);
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,164 @@
+// Scenario personas: the teams each verdict is judged for
+import type { ScenarioColor, ScenarioIcon, ScenarioPersona, ValidationError } from './types';
+
+/**
+ * The three teams the referee has always judged for
+ */
+export const DEFAULT_SCENARIOS: ScenarioPersona[] = [
+  {
+    id: 'move-fast',
+    label: 'Move Fast Team',
+    description: 'A small team racing to ship, where time to first release matters most',
+    icon: 'zap',
+    color: 'yellow'
+  },
+  {
+    id: 'scale',
+    label: 'Scale Team',
+    description: 'A growing organization that needs the choice to hold up under heavy load and many engineers',
+    icon: 'trending-up',
+    color: 'purple'
+  },
+  {
+    id: 'budget',
+    label: 'Budget Team',
+    description: 'A cost-constrained team where license, hosting and training spend decide',
+    icon: 'dollar-sign',
+    color: 'green'
+  }
+];
+
+export const SCENARIO_ICONS: ScenarioIcon[] = ['zap', 'trending-up', 'dollar-sign', 'shield', 'user', 'users', 'database', 'target'];
+
+export const SCENARIO_COLORS: ScenarioColor[] = ['yellow', 'purple', 'green', 'blue', 'red', 'orange', 'pink', 'gray'];
+
+/**
+ * Accepted sizes for a persona list and its fields
+ */
+export const SCENARIO_LIMITS = {
+  minScenarios: 1,
+  maxScenarios: 6,
+  idLength: 40,
+  labelLength: 40,
+  descriptionLength: 200
+};
+
+// Labels appear inside markdown headings and regexes, so keep them to plain words
+const LABEL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 &/+.-]*$/;
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Whether the personas are the built-in three, in which case prompts and
+ * responses keep their original shape
+ */
+export function usesDefaultScenarios(personas: ScenarioPersona[]): boolean {
+  return personas.length === DEFAULT_SCENARIOS.length &&
+    personas.every((persona, index) => persona.label === DEFAULT_SCENARIOS[index].label);
+}
+
+/**
+ * "Move Fast Team" -> "Move Fast"; labels without the suffix are unchanged
+ */
+export function getScenarioShortName(label: string): string {
+  return label.replace(/\s+Team$/i, '');
+}
+
+/**
+ * The heading a verdict uses in the markdown answer, e.g.
+ * "Scenario A (The 'Move Fast' Team)" or "Scenario D (Regulated Enterprise)"
+ */
+export function getScenarioHeading(persona: ScenarioPersona, index: number): string {
+  const letter = String.fromCharCode(65 + index);
+  return /\sTeam$/i.test(persona.label)
+    ? `Scenario ${letter} (The '${getScenarioShortName(persona.label)}' Team)`
+    : `Scenario ${letter} (${persona.label})`;
+}
+
+/**
+ * Validate an untrusted persona list, returning cleaned personas (default
+ * icon and color filled in) or the first problem found
+ */
+export function validateScenarios(value: unknown): {
+  success: true;
+  data: ScenarioPersona[];
+} | {
+  success: false;
+  error: ValidationError;
+} {
+  const fail = (field: string, message: string) => ({
+    success: false as const,
+    error: { field, message, code: 'INVALID_SCENARIOS' }
+  });
+
+  if (!Array.isArray(value) ||
+      value.length < SCENARIO_LIMITS.minScenarios ||
+      value.length > SCENARIO_LIMITS.maxScenarios) {
+    return fail('scenarios', `scenarios must be an array of ${SCENARIO_LIMITS.minScenarios} to ${SCENARIO_LIMITS.maxScenarios} personas`);
+  }
+
+  const personas: ScenarioPersona[] = [];
+
+  for (let index = 0; index < value.length; index++) {
+    const field = `scenarios[${index}]`;
+    const raw = value[index];
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return fail(field, 'Each scenario must be an object with id, label and description');
+    }
+
+    const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+    if (!ID_PATTERN.test(id) || id.length > SCENARIO_LIMITS.idLength) {
+      return fail(`${field}.id`, `Scenario id must be lowercase words joined by hyphens, ${SCENARIO_LIMITS.idLength} characters or less`);
+    }
+
+    const label = typeof raw.label === 'string' ? raw.label.replace(/\s+/g, ' ').trim() : '';
+    if (!LABEL_PATTERN.test(label) || label.length > SCENARIO_LIMITS.labelLength) {
+      return fail(`${field}.label`, `Scenario label must be ${SCENARIO_LIMITS.labelLength} characters or less of letters, numbers, spaces and & / + . -`);
+    }
+
+    const description = typeof raw.description === 'string' ? raw.description.replace(/\s+/g, ' ').trim() : '';
+    if (!description || description.length > SCENARIO_LIMITS.descriptionLength) {
+      return fail(`${field}.description`, `Scenario description is required and must be ${SCENARIO_LIMITS.descriptionLength} characters or less`);
+    }
+
+    const icon = raw.icon === undefined ? 'target' : raw.icon;
+    if (!SCENARIO_ICONS.includes(icon)) {
+      return fail(`${field}.icon`, `Scenario icon must be one of: ${SCENARIO_ICONS.join(', ')}`);
+    }
+
+    const color = raw.color === undefined ? 'gray' : raw.color;
+    if (!SCENARIO_COLORS.includes(color)) {
+      return fail(`${field}.color`, `Scenario color must be one of: ${SCENARIO_COLORS.join(', ')}`);
+    }
+
+    if (personas.some(persona => persona.id === id || persona.label.toLowerCase() === label.toLowerCase())) {
+      return fail(field, `Scenario "${label}" is listed more than once`);
+    }
+
+    personas.push({ id, label, description, icon, color });
+  }
+
+  return { success: true, data: personas };
+}
+
+/**
+ * The deployment's persona list: REFEREE_SCENARIOS (a JSON array) when set
+ * and valid, otherwise the default three
+ */
+export function getConfiguredScenarios(): ScenarioPersona[] {
+  const configured = process.env.REFEREE_SCENARIOS;
+  if (!configured || !configured.trim()) {
+    return DEFAULT_SCENARIOS;
+  }
+
+  try {
+    const result = validateScenarios(JSON.parse(configured));
+    if (result.success) {
+      return result.data;
+    }
+    console.error(`Ignoring REFEREE_SCENARIOS: ${result.error.field}: ${result.error.message}`);
+  } catch (error) {
+    console.error('Ignoring REFEREE_SCENARIOS: not valid JSON', error instanceof Error ? error.message : error);
+  }
+
+  return DEFAULT_SCENARIOS;
+}
@@ -0,0 +1,163 @@
+// Unit tests for the structured-output schema and validator
+
+import {
+  createRefereeAnalysisSchema,
+  extractJsonObject,
+  REFEREE_ANALYSIS_SCHEMA,
+  validateAgainstSchema,
+  validateRefereeAnalysis
+} from './schema';
+import { getComparisonDimensions } from './dimensions';
+import { DEFAULT_SCENARIOS } from './scenarios';
+import { RefereeAnalysis } from './types';
+
+const validAnalysis: RefereeAnalysis = {
+  matchup: { technology1: 'PostgreSQL', technology2: 'MongoDB' },
+  taleOfTheTape: {
+    speed: { tech1: 'Fast joins', tech2: 'Fast document reads' },
+    cost: { tech1: '$0 license', tech2: 'Atlas pricing at scale' },
+    developerExperience: { tech1: 'SQL fluency required', tech2: 'Schema-less start' },
+    scalability: { tech1: 'Vertical first', tech2: 'Built-in sharding' },
+    maintainability: { tech1: 'Strict migrations', tech2: 'Schema drift risk' }
+  },
+  scenarios: [
+    { name: 'Move Fast Team', winner: 'MongoDB', reasoning: 'Wins if the data model is still changing.', context: 'Pre-product-market-fit startup' },
+    { name: 'Scale Team', winner: 'PostgreSQL', reasoning: 'Wins if you need relational integrity.', context: 'Payments platform' },
+    { name: 'Budget Team', winner: 'PostgreSQL', reasoning: 'Wins if you self-host.', context: 'Bootstrapped SaaS' }
+  ],
+  hiddenTaxes: [
+    {
+      technology: 'PostgreSQL',
+      warning: 'migration lock contention on large tables',
+      timeframe: '6 months',
+      severity: 'medium',
+      likelihood: 'medium',
+      mitigation: 'Run schema changes with online migration tooling'
+    },
+    {
+      technology: 'MongoDB',
+      warning: 'schema drift across services',
+      timeframe: '12 months',
+      severity: 'high',
+      likelihood: 'medium',
+      mitigation: 'Validate documents with JSON Schema rules'
+    }
+  ],
+  tieBreaker: 'Will your data need multi-document transactions?'
+};
+
+describe('validateRefereeAnalysis', () => {
+  it('accepts an analysis that matches RefereeAnalysis', () => {
+    expect(validateRefereeAnalysis(validAnalysis)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('reports missing dimensions and empty strings by path', () => {
+    const { speed, ...withoutSpeed } = validAnalysis.taleOfTheTape;
+    const result = validateRefereeAnalysis({
+      ...validAnalysis,
+      taleOfTheTape: withoutSpeed,
+      tieBreaker: '   '
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: '$.taleOfTheTape.speed', code: 'MISSING_FIELD' }),
+      expect.objectContaining({ field: '$.tieBreaker', code: 'EMPTY_VALUE' })
+    ]));
+  });
+
+  it('rejects unknown scenario names and the wrong number of scenarios', () => {
+    const result = validateRefereeAnalysis({
+      ...validAnalysis,
+      scenarios: [{ ...validAnalysis.scenarios[0], name: 'Enterprise Team' }]
+    });
+
+    expect(result.errors.map(error => error.code)).toEqual(
+      expect.arrayContaining(['TOO_FEW_ITEMS', 'INVALID_ENUM'])
+    );
+  });
+
+  it('rejects duplicate scenarios', () => {
+    const result = validateRefereeAnalysis({
+      ...validAnalysis,
+      scenarios: [validAnalysis.scenarios[0], validAnalysis.scenarios[0], validAnalysis.scenarios[2]]
+    });
+
+    expect(result.errors).toEqual([expect.objectContaining({ code: 'DUPLICATE_SCENARIO' })]);
+  });
+
+  it('requires a descriptor for every contender in multi-way comparisons', () => {
+    const threeWay = {
+      ...validAnalysis,
+      matchup: { ...validAnalysis.matchup, technologies: ['PostgreSQL', 'MongoDB', 'DynamoDB'] }
+    };
+
+    expect(createRefereeAnalysisSchema(3).properties!.taleOfTheTape.properties!.speed.required)
+      .toEqual(['tech1', 'tech2', 'tech3']);
+    expect(validateRefereeAnalysis(validAnalysis).isValid).toBe(true);
+    expect(validateRefereeAnalysis(threeWay, 3).errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: '$.taleOfTheTape.speed.tech3', code: 'MISSING_FIELD' })
+    ]));
+  });
+
+  it('requires the rows of a category dimension set', () => {
+    const dimensions = getComparisonDimensions('database');
+    const result = validateRefereeAnalysis(validAnalysis, 2, DEFAULT_SCENARIOS, dimensions);
+
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: '$.taleOfTheTape.durability', code: 'MISSING_FIELD' }),
+      expect.objectContaining({ field: '$.taleOfTheTape.operationalCost', code: 'MISSING_FIELD' })
+    ]));
+    expect(result.errors).not.toContainEqual(expect.objectContaining({ field: '$.taleOfTheTape.scalability' }));
+  });
+
+  it('accepts optional scores and checks their range', () => {
+    const scores = Object.fromEntries(Object.keys(validAnalysis.taleOfTheTape).map(key => [
+      key,
+      { tech1: { score: 7, confidence: 0.8 }, tech2: { score: 5, confidence: 0.6 } }
+    ]));
+    expect(validateRefereeAnalysis({ ...validAnalysis, scores }).isValid).toBe(true);
+
+    const result = validateRefereeAnalysis({
+      ...validAnalysis,
+      scores: { ...scores, cost: { tech1: { score: 11, confidence: 0.8 }, tech2: { score: 5, confidence: 1.5 } } }
+    });
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: '$.scores.cost.tech1.score', code: 'OUT_OF_RANGE' }),
+      expect.objectContaining({ field: '$.scores.cost.tech2.confidence', code: 'OUT_OF_RANGE' })
+    ]);
+  });
+
+  it('expects a single hiddenTax for prompt versions without per-contender taxes', () => {
+    const { hiddenTaxes, ...legacy } = validAnalysis;
+    const hiddenTax = { technology: 'MongoDB', warning: hiddenTaxes[1].warning, timeframe: '12 months', impact: 'Data cleanup sprints' };
+    const features = { hiddenTaxPerContender: false, tapeScores: false };
+
+    expect(createRefereeAnalysisSchema(2, DEFAULT_SCENARIOS, undefined, features).required).toContain('hiddenTax');
+    expect(createRefereeAnalysisSchema(2, DEFAULT_SCENARIOS, undefined, features).properties).not.toHaveProperty('scores');
+    expect(validateRefereeAnalysis({ ...legacy, hiddenTax }, 2, DEFAULT_SCENARIOS, undefined, features).isValid).toBe(true);
+    expect(validateRefereeAnalysis({ ...legacy, hiddenTax }).errors).toEqual([
+      expect.objectContaining({ field: '$.hiddenTaxes', code: 'MISSING_FIELD' })
+    ]);
+  });
+
+  it('reports type mismatches instead of throwing on non-objects', () => {
+    expect(validateAgainstSchema(null, REFEREE_ANALYSIS_SCHEMA)).toEqual([
+      { field: '$', message: 'Expected object, received null', code: 'TYPE_MISMATCH' }
+    ]);
+  });
+});
+
+describe('extractJsonObject', () => {
+  it('parses plain JSON, fenced JSON and JSON surrounded by prose', () => {
+    const json = JSON.stringify(validAnalysis);
+
+    expect(extractJsonObject(json)).toEqual(validAnalysis);
+    expect(extractJsonObject('```json\n' + json + '\n```')).toEqual(validAnalysis);
+    expect(extractJsonObject(`Here is the verdict:\n${json}\nHope this helps!`)).toEqual(validAnalysis);
+  });
+
+  it('throws a SyntaxError when there is no JSON object', () => {
+    expect(() => extractJsonObject('### 1. 🥊 The Matchup')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,360 @@
+// JSON schema for structured (JSON-mode) referee responses
+import { GENERAL_DIMENSIONS } from './dimensions';
+import { DEFAULT_SCENARIOS } from './scenarios';
+import {
+  ComparisonDimension,
+  contenderKey,
+  LATEST_PROMPT_FEATURES,
+  MIN_CONTENDERS,
+  PromptFeatures,
+  RefereeAnalysis,
+  ScenarioPersona,
+  TAX_LEVELS,
+  ValidationError,
+  ValidationResult
+} from './types';
+
+// ============================================================================
+// Schema Types
+// ============================================================================
+
+/**
+ * The subset of JSON Schema understood by the validator below and by Gemini's
+ * responseSchema. OpenAI-compatible providers only get JSON mode
+ * (`json_object`) and read the schema from the prompt
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+// ============================================================================
+// RefereeAnalysis Schema (mirrors lib/types.ts)
+// ============================================================================
+
+const nonEmptyString = (description: string): JsonSchema => ({
+  type: 'string',
+  description,
+  minLength: 1
+});
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+const dimensionSchema = (dimension: string, contenderCount: number): JsonSchema => {
+  const keys = Array.from({ length: contenderCount }, (_, index) => contenderKey(index));
+  return {
+    type: 'object',
+    description: `${dimension} comparison using specific descriptors, never "Good/Bad"`,
+    properties: Object.fromEntries(keys.map((key, index) => [
+      key,
+      nonEmptyString(`${dimension} descriptor for the ${ORDINALS[index]} technology`)
+    ])),
+    required: keys
+  };
+};
+
+/**
+ * Schema for ComparisonMatrix with one descriptor per contender for each dimension
+ */
+export function createComparisonMatrixSchema(
+  contenderCount: number = MIN_CONTENDERS,
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS
+): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(dimensions.map(dimension => [
+      dimension.key,
+      dimensionSchema(dimension.label, contenderCount)
+    ])),
+    required: dimensions.map(dimension => dimension.key)
+  };
+}
+
+/**
+ * Schema for DimensionScore
+ */
+export const DIMENSION_SCORE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', description: '1 (weakest) to 10 (strongest on this dimension)', minimum: 1, maximum: 10 },
+    confidence: { type: 'number', description: 'How sure you are of the score, 0 to 1', minimum: 0, maximum: 1 }
+  },
+  required: ['score', 'confidence']
+};
+
+/**
+ * Schema for ScoreMatrix with one score per contender for each dimension
+ */
+export function createScoreMatrixSchema(
+  contenderCount: number = MIN_CONTENDERS,
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS
+): JsonSchema {
+  const keys = Array.from({ length: contenderCount }, (_, index) => contenderKey(index));
+  return {
+    type: 'object',
+    properties: Object.fromEntries(dimensions.map(dimension => [
+      dimension.key,
+      {
+        type: 'object',
+        description: `${dimension.label} scores`,
+        properties: Object.fromEntries(keys.map(key => [key, DIMENSION_SCORE_SCHEMA])),
+        required: keys
+      }
+    ])),
+    required: dimensions.map(dimension => dimension.key)
+  };
+}
+
+/**
+ * Schema for ComparisonMatrix
+ */
+export const COMPARISON_MATRIX_SCHEMA: JsonSchema = createComparisonMatrixSchema();
+
+/**
+ * Schema for ScenarioVerdict whose name is one of the personas' labels
+ */
+export function createScenarioVerdictSchema(scenarios: ScenarioPersona[] = DEFAULT_SCENARIOS): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        enum: scenarios.map(persona => persona.label)
+      },
+      winner: nonEmptyString('Name of the winning technology for this scenario'),
+      reasoning: nonEmptyString('Why it wins, qualified with "if..." conditions'),
+      context: nonEmptyString('One sentence describing the team in this scenario')
+    },
+    required: ['name', 'winner', 'reasoning', 'context']
+  };
+}
+
+/**
+ * Schema for ScenarioVerdict
+ */
+export const SCENARIO_VERDICT_SCHEMA: JsonSchema = createScenarioVerdictSchema();
+
+
+/**
+ * Schema for HiddenTax
+ */
+export const HIDDEN_TAX_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    technology: nonEmptyString('The technology that carries the tax'),
+    warning: nonEmptyString('The specific downside you will pay'),
+    timeframe: nonEmptyString('When the tax comes due, e.g. "6 months" or "the first major upgrade"'),
+    severity: { type: 'string', description: 'How much the tax hurts when it comes due', enum: TAX_LEVELS },
+    likelihood: { type: 'string', description: 'How likely the team is to pay it', enum: TAX_LEVELS },
+    mitigation: nonEmptyString('A concrete step that reduces the tax')
+  },
+  required: ['technology', 'warning', 'timeframe', 'severity', 'likelihood', 'mitigation']
+};
+
+/**
+ * Schema for LegacyHiddenTax, the single tax prompt versions 1 and 2 ask for
+ */
+export const LEGACY_HIDDEN_TAX_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    technology: nonEmptyString('The technology that carries the tax'),
+    warning: nonEmptyString('The specific downside you will pay'),
+    timeframe: nonEmptyString('When the tax comes due, e.g. "6 months" or "the first major upgrade"'),
+    impact: nonEmptyString('Concrete consequence for the team')
+  },
+  required: ['technology', 'warning', 'timeframe', 'impact']
+};
+
+/**
+ * Schema for RefereeAnalysis comparing `contenderCount` technologies on
+ * `dimensions` across one scenario per persona, in the shape the prompt
+ * `features` ask for
+ */
+export function createRefereeAnalysisSchema(
+  contenderCount: number = MIN_CONTENDERS,
+  scenarios: ScenarioPersona[] = DEFAULT_SCENARIOS,
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS,
+  features: PromptFeatures = LATEST_PROMPT_FEATURES
+): JsonSchema {
+  const hiddenTaxes: Record<string, JsonSchema> = features.hiddenTaxPerContender
+    ? {
+      hiddenTaxes: {
+        type: 'array',
+        items: HIDDEN_TAX_SCHEMA,
+        minItems: contenderCount,
+        maxItems: contenderCount
+      }
+    }
+    : { hiddenTax: LEGACY_HIDDEN_TAX_SCHEMA };
+
+  return {
+    type: 'object',
+    properties: {
+      matchup: {
+        type: 'object',
+        properties: {
+          technology1: nonEmptyString('First technology'),
+          technology2: nonEmptyString('Second technology'),
+          ...(contenderCount > MIN_CONTENDERS ? {
+            technologies: {
+              type: 'array',
+              items: nonEmptyString('A contender, in the order given'),
+              minItems: contenderCount,
+              maxItems: contenderCount
+            }
+          } : {})
+        },
+        required: ['technology1', 'technology2']
+      },
+      taleOfTheTape: createComparisonMatrixSchema(contenderCount, dimensions),
+      ...(features.tapeScores ? { scores: createScoreMatrixSchema(contenderCount, dimensions) } : {}),
+      scenarios: {
+        type: 'array',
+        items: createScenarioVerdictSchema(scenarios),
+        minItems: scenarios.length,
+        maxItems: scenarios.length
+      },
+      ...hiddenTaxes,
+      tieBreaker: nonEmptyString('ONE single question that forces the decision')
+    },
+    required: ['matchup', 'taleOfTheTape', 'scenarios', ...Object.keys(hiddenTaxes), 'tieBreaker']
+  };
+}
+
+/**
+ * Schema for RefereeAnalysis
+ */
+export const REFEREE_ANALYSIS_SCHEMA: JsonSchema = createRefereeAnalysisSchema();
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a value against a JsonSchema, collecting every mismatch
+ */
+export function validateAgainstSchema(value: any, schema: JsonSchema, path: string = '$'): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  const actualType = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  if (actualType !== schema.type) {
+    errors.push({
+      field: path,
+      message: `Expected ${schema.type}, received ${actualType}`,
+      code: 'TYPE_MISMATCH'
+    });
+    return errors;
+  }
+
+  if (schema.type === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      errors.push({ field: path, message: 'Must not be empty', code: 'EMPTY_VALUE' });
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push({
+        field: path,
+        message: `Must be one of: ${schema.enum.join(', ')}`,
+        code: 'INVALID_ENUM'
+      });
+    }
+  }
+
+  if (schema.type === 'number') {
+    if (!Number.isFinite(value)) {
+      errors.push({ field: path, message: 'Must be a finite number', code: 'INVALID_NUMBER' });
+    } else if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+      errors.push({
+        field: path,
+        message: `Must be between ${schema.minimum ?? '-∞'} and ${schema.maximum ?? '∞'}`,
+        code: 'OUT_OF_RANGE'
+      });
+    }
+  }
+
+  if (schema.type === 'array') {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ field: path, message: `Expected at least ${schema.minItems} items, found ${value.length}`, code: 'TOO_FEW_ITEMS' });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field: path, message: `Expected at most ${schema.maxItems} items, found ${value.length}`, code: 'TOO_MANY_ITEMS' });
+    }
+    if (schema.items) {
+      value.forEach((item: any, index: number) => {
+        errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (schema.type === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ field: `${path}.${key}`, message: 'Required field is missing', code: 'MISSING_FIELD' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined) {
+        errors.push(...validateAgainstSchema(value[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a parsed JSON response against the RefereeAnalysis schema for
+ * the prompt `features` it answers
+ */
+export function validateRefereeAnalysis(
+  value: any,
+  contenderCount: number = MIN_CONTENDERS,
+  scenarios: ScenarioPersona[] = DEFAULT_SCENARIOS,
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS,
+  features: PromptFeatures = LATEST_PROMPT_FEATURES
+): ValidationResult {
+  const errors = validateAgainstSchema(value, createRefereeAnalysisSchema(contenderCount, scenarios, dimensions, features));
+
+  // Each scenario must appear exactly once
+  if (errors.length === 0) {
+    const names = (value as RefereeAnalysis).scenarios.map(scenario => scenario.name);
+    const duplicates = names.filter((name, index) => names.indexOf(name) !== index);
+    if (duplicates.length > 0) {
+      errors.push({
+        field: '$.scenarios',
+        message: `Duplicate scenarios: ${duplicates.join(', ')}`,
+        code: 'DUPLICATE_SCENARIO'
+      });
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Extract a JSON object from an LLM response, tolerating markdown code fences
+ * and surrounding prose
+ */
+export function extractJsonObject(response: string): any {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : response;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new SyntaxError('No JSON object found in response');
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+}
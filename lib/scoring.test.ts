@@ -0,0 +1,134 @@
+// Unit tests for the Tale of the Tape scores and the weighted scoring engine
+import * as fc from 'fast-check';
+import { GENERAL_DIMENSIONS } from './dimensions';
+import { DEFAULT_SCENARIOS } from './scenarios';
+import {
+  decodeWeights,
+  encodeWeights,
+  extractCellScore,
+  findDecidingDimensions,
+  formatScore,
+  rankContenders,
+  recommendForPersonas,
+  scoreContenders,
+  splitTapeScores
+} from './scoring';
+import type { ComparisonMatrix, ScoreMatrix } from './types';
+
+const cell = (score: number, confidence = 0.8) => ({ score, confidence });
+
+// React wins on speed and DX, Vue on cost, scalability and maintainability
+const scores: ScoreMatrix = {
+  speed: { tech1: cell(9), tech2: cell(5) },
+  cost: { tech1: cell(4), tech2: cell(8) },
+  developerExperience: { tech1: cell(9), tech2: cell(6) },
+  scalability: { tech1: cell(6), tech2: cell(7) },
+  maintainability: { tech1: cell(6), tech2: cell(7) }
+};
+
+describe('Tale of the Tape scores', () => {
+  test('a trailing score and confidence are split off the descriptor', () => {
+    expect(extractCellScore('$0 start cost (9/10, 80% confidence)'))
+      .toEqual({ descriptor: '$0 start cost', score: { score: 9, confidence: 0.8 } });
+    expect(extractCellScore('Fine-grained reactivity (7.5/10; confidence 0.6)'))
+      .toEqual({ descriptor: 'Fine-grained reactivity', score: { score: 7.5, confidence: 0.6 } });
+  });
+
+  test('cells without a score, or with one out of range, are left alone', () => {
+    expect(extractCellScore('High latency (p99)')).toEqual({ descriptor: 'High latency (p99)' });
+    expect(extractCellScore('Slow cold starts (12/10, 50% confidence)')).toEqual({ descriptor: 'Slow cold starts (12/10, 50% confidence)' });
+  });
+
+  test('scores are kept only when every cell has one', () => {
+    const matrix: ComparisonMatrix = Object.fromEntries(GENERAL_DIMENSIONS.map(({ key }) => [
+      key,
+      { tech1: 'Fast HMR (8/10, 70% confidence)', tech2: '$0 license (6/10, 90% confidence)' }
+    ]));
+
+    const split = splitTapeScores(matrix, 2, GENERAL_DIMENSIONS);
+    expect(split.comparison.speed).toEqual({ tech1: 'Fast HMR', tech2: '$0 license' });
+    expect(split.scores?.cost).toEqual({ tech1: cell(8, 0.7), tech2: cell(6, 0.9) });
+
+    const partial = splitTapeScores({ ...matrix, cost: { tech1: '$0 license', tech2: '$20/seat (4/10, 60% confidence)' } }, 2, GENERAL_DIMENSIONS);
+    expect(partial.scores).toBeUndefined();
+    expect(partial.comparison.cost).toEqual({ tech1: '$0 license', tech2: '$20/seat' });
+  });
+
+  test('scores display with at most one decimal', () => {
+    expect(formatScore(7)).toBe('7');
+    expect(formatScore(7.44)).toBe('7.4');
+  });
+});
+
+describe('Weighted scoring', () => {
+  test('equal weights give the mean score and confidence', () => {
+    const [react, vue] = scoreContenders(scores, ['React', 'Vue'], GENERAL_DIMENSIONS);
+    expect(react.score).toBeCloseTo(6.8);
+    expect(vue.score).toBeCloseTo(6.6);
+    expect(react.confidence).toBeCloseTo(0.8);
+  });
+
+  test('weighting a dimension up moves the totals toward its scores', () => {
+    const [react, vue] = scoreContenders(scores, ['React', 'Vue'], GENERAL_DIMENSIONS, { cost: 5 });
+    expect(vue.score).toBeGreaterThan(react.score);
+  });
+
+  test('each built-in persona leans on the dimensions it cares about', () => {
+    const recommendations = recommendForPersonas(scores, ['React', 'Vue'], GENERAL_DIMENSIONS, DEFAULT_SCENARIOS);
+    expect(recommendations.map(({ persona, technology }) => [persona, technology])).toEqual([
+      ['Move Fast Team', 'React'],
+      ['Scale Team', 'Vue'],
+      ['Budget Team', 'Vue']
+    ]);
+  });
+
+  test('a zero weight drops the dimension from every persona', () => {
+    const weights = { cost: 0, scalability: 0, maintainability: 0 };
+    const recommendations = recommendForPersonas(scores, ['React', 'Vue'], GENERAL_DIMENSIONS, DEFAULT_SCENARIOS, weights);
+    expect(recommendations.every(recommendation => recommendation.technology === 'React')).toBe(true);
+  });
+
+  test('totals stay within the score range and are deterministic for any weights', () => {
+    const weight = fc.double({ min: -2, max: 10, noNaN: true });
+    fc.assert(fc.property(fc.record({ speed: weight, cost: weight, scalability: weight }), weights => {
+      const totals = scoreContenders(scores, ['React', 'Vue'], GENERAL_DIMENSIONS, weights);
+      expect(totals.every(total => total.score >= 1 && total.score <= 10)).toBe(true);
+      expect(scoreContenders(scores, ['React', 'Vue'], GENERAL_DIMENSIONS, weights)).toEqual(totals);
+    }));
+  });
+});
+
+describe('Re-ranking', () => {
+  test('contenders rank by total, then confidence, then order', () => {
+    const ranked = rankContenders([
+      { technology: 'React', score: 6, confidence: 0.5 },
+      { technology: 'Vue', score: 7, confidence: 0.5 },
+      { technology: 'Svelte', score: 6, confidence: 0.9 }
+    ]);
+    expect(ranked.map(total => total.technology)).toEqual(['Vue', 'Svelte', 'React']);
+  });
+
+  test('the deciding rows are the fewest that outweigh the runner-up', () => {
+    // React leads by 4 on speed and 3 on DX; Vue by 4 on cost and 1 on the other two
+    expect(findDecidingDimensions(scores, ['React', 'Vue'], GENERAL_DIMENSIONS)).toEqual(['speed', 'developerExperience']);
+    expect(findDecidingDimensions(scores, ['React', 'Vue'], GENERAL_DIMENSIONS, { cost: 5 })).toEqual(['cost']);
+  });
+
+  test('level contenders have no deciding rows', () => {
+    expect(findDecidingDimensions(scores, ['React', 'Vue'], GENERAL_DIMENSIONS, { developerExperience: 0, scalability: 0, maintainability: 0 })).toEqual([]);
+  });
+
+  test('weights survive a round trip through the URL', () => {
+    const weight = fc.integer({ min: 0, max: 10 }).map(halves => halves / 2);
+    fc.assert(fc.property(fc.record({ speed: weight, cost: weight, scalability: weight }), weights => {
+      const decoded = decodeWeights(encodeWeights(weights));
+      expect(Object.fromEntries(Object.entries(weights).filter(([, value]) => value !== 1))).toEqual(decoded);
+    }));
+  });
+
+  test('malformed or out-of-range URL weights are skipped or clamped', () => {
+    expect(decodeWeights('speed:9,cost:abc,:2,scalability:0.5')).toEqual({ speed: 5, scalability: 0.5 });
+    expect(decodeWeights(['cost:0', 'speed:2'])).toEqual({ cost: 0 });
+    expect(decodeWeights(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,269 @@
+// Numeric scores behind the Tale of the Tape and the weighted totals built from them
+import {
+  ComparisonDimension,
+  ComparisonMatrix,
+  ContenderTotal,
+  contenderKey,
+  DimensionScore,
+  DimensionWeights,
+  isScoreMatrix,
+  PersonaRecommendation,
+  ScenarioPersona,
+  ScoreMatrix
+} from './types';
+
+/**
+ * Bounds on a dimension score and on a weight
+ */
+export const SCORE_LIMITS = {
+  minScore: 1,
+  maxScore: 10,
+  minWeight: 0,
+  maxWeight: 5
+};
+
+/**
+ * A score for display: one decimal, dropped when it is zero ("7", "7.4")
+ */
+export function formatScore(score: number): string {
+  return score.toFixed(1).replace(/\.0$/, '');
+}
+
+/**
+ * Extra weight each built-in persona puts on the dimensions it cares about.
+ * Dimensions not listed, and custom personas, weigh 1.
+ */
+export const PERSONA_EMPHASIS: Record<string, DimensionWeights> = {
+  'move-fast': { speed: 2, developerExperience: 2, setupCost: 2, learningCurve: 2, migrationEffort: 2, ecosystem: 1.5 },
+  scale: { scalability: 2, performance: 2, reliability: 2, durability: 2, consistencyModel: 2, globalReach: 2, maintainability: 1.5, supportWindow: 1.5 },
+  budget: { cost: 2, pricing: 2, operationalCost: 2, lockInRisk: 1.5, hiringPool: 1.5, setupCost: 1.5 }
+};
+
+// A trailing "(8/10, 70% confidence)" on a markdown descriptor; the
+// confidence may also be written as a fraction, e.g. "(8/10, confidence 0.7)"
+const CELL_SCORE = /\s*\(\s*(\d+(?:\.\d+)?)\s*\/\s*10\s*[,;]\s*(?:confidence:?\s*)?(\d+(?:\.\d+)?)\s*(%)?\s*(?:confidence|confident)?\s*\)\s*$/i;
+
+/**
+ * Split the score off a markdown descriptor. Cells without one, or with a
+ * score outside 1-10, come back unchanged and without a score.
+ */
+export function extractCellScore(cell: string): { descriptor: string; score?: DimensionScore } {
+  const match = cell.match(CELL_SCORE);
+  if (!match) {
+    return { descriptor: cell };
+  }
+
+  const score = Number(match[1]);
+  const rawConfidence = Number(match[2]);
+  const confidence = match[3] || rawConfidence > 1 ? rawConfidence / 100 : rawConfidence;
+  if (score < SCORE_LIMITS.minScore || score > SCORE_LIMITS.maxScore || confidence > 1) {
+    return { descriptor: cell };
+  }
+
+  return { descriptor: cell.slice(0, match.index).trim(), score: { score, confidence } };
+}
+
+/**
+ * Strip the scores out of a parsed markdown Tale of the Tape. The scores are
+ * only kept when every cell has one, so a partial set never skews the totals.
+ */
+export function splitTapeScores(
+  matrix: ComparisonMatrix,
+  contenderCount: number,
+  dimensions: ComparisonDimension[]
+): { comparison: ComparisonMatrix; scores?: ScoreMatrix } {
+  const comparison: ComparisonMatrix = {};
+  const scores: Record<string, Record<string, DimensionScore | undefined>> = {};
+
+  for (const [dimension, descriptors] of Object.entries(matrix)) {
+    comparison[dimension] = { ...descriptors };
+    scores[dimension] = {};
+    for (const [key, cell] of Object.entries(descriptors)) {
+      const { descriptor, score } = extractCellScore(cell);
+      comparison[dimension][key as `tech${number}`] = descriptor;
+      scores[dimension][key] = score;
+    }
+  }
+
+  return isScoreMatrix(scores, contenderCount, dimensions)
+    ? { comparison, scores }
+    : { comparison };
+}
+
+function clampWeight(weight: number): number {
+  return Math.min(SCORE_LIMITS.maxWeight, Math.max(SCORE_LIMITS.minWeight, weight));
+}
+
+/**
+ * A weight for every dimension: missing ones weigh 1 and the rest are
+ * clamped to SCORE_LIMITS
+ */
+export function normalizeWeights(weights: DimensionWeights, dimensions: ComparisonDimension[]): DimensionWeights {
+  return Object.fromEntries(dimensions.map(({ key }) => {
+    const weight = weights[key];
+    return [key, typeof weight === 'number' && Number.isFinite(weight)
+      ? clampWeight(weight)
+      : 1];
+  }));
+}
+
+// Each dimension's share of the total weight; all-zero weights count every dimension equally
+function weightShares(dimensions: ComparisonDimension[], weights: DimensionWeights): DimensionWeights {
+  const totalWeight = dimensions.reduce((sum, { key }) => sum + weights[key], 0);
+  return Object.fromEntries(dimensions.map(({ key }) => [key, totalWeight > 0 ? weights[key] / totalWeight : 1 / dimensions.length]));
+}
+
+// Weighted means over complete weights
+function weightedTotals(
+  scores: ScoreMatrix,
+  technologies: string[],
+  dimensions: ComparisonDimension[],
+  weights: DimensionWeights
+): ContenderTotal[] {
+  const shares = weightShares(dimensions, weights);
+
+  return technologies.map((technology, index) => {
+    const cells = dimensions.map(({ key }) => ({ weight: shares[key], cell: scores[key][contenderKey(index)] }));
+    return {
+      technology,
+      score: cells.reduce((sum, { weight, cell }) => sum + weight * cell.score, 0),
+      confidence: cells.reduce((sum, { weight, cell }) => sum + weight * cell.confidence, 0)
+    };
+  });
+}
+
+/**
+ * Each contender's weighted mean score and confidence, in contender order.
+ * When every weight is zero the dimensions count equally.
+ */
+export function scoreContenders(
+  scores: ScoreMatrix,
+  technologies: string[],
+  dimensions: ComparisonDimension[],
+  weights: DimensionWeights = {}
+): ContenderTotal[] {
+  return weightedTotals(scores, technologies, dimensions, normalizeWeights(weights, dimensions));
+}
+
+// Higher score first, then higher confidence; equal totals keep their order
+function compareTotals(a: ContenderTotal, b: ContenderTotal): number {
+  return b.score - a.score || b.confidence - a.confidence;
+}
+
+/**
+ * Contenders from the highest total down; ties go to the higher confidence,
+ * then the earlier contender
+ */
+export function rankContenders(totals: ContenderTotal[]): ContenderTotal[] {
+  return [...totals].sort(compareTotals);
+}
+
+/**
+ * The highest total, ranked as in rankContenders
+ */
+export function pickLeader(totals: ContenderTotal[]): ContenderTotal {
+  return rankContenders(totals)[0];
+}
+
+/**
+ * The Tale of the Tape rows that put the leader ahead of the runner-up under
+ * these weights: the fewest rows in the leader's favour, largest weighted
+ * margin first, that outweigh every row in the runner-up's favour. Empty
+ * when the top two are level.
+ */
+export function findDecidingDimensions(
+  scores: ScoreMatrix,
+  technologies: string[],
+  dimensions: ComparisonDimension[],
+  weights: DimensionWeights = {}
+): string[] {
+  const normalized = normalizeWeights(weights, dimensions);
+  const [leader, runnerUp] = rankContenders(weightedTotals(scores, technologies, dimensions, normalized));
+  if (!runnerUp) {
+    return [];
+  }
+
+  const shares = weightShares(dimensions, normalized);
+  const leaderKey = contenderKey(technologies.indexOf(leader.technology));
+  const runnerUpKey = contenderKey(technologies.indexOf(runnerUp.technology));
+  const margins = dimensions.map(({ key }) => ({
+    key,
+    margin: shares[key] * (scores[key][leaderKey].score - scores[key][runnerUpKey].score)
+  }));
+
+  const deficit = margins.reduce((sum, { margin }) => margin < 0 ? sum - margin : sum, 0);
+  const deciding: string[] = [];
+  let covered = 0;
+  for (const { key, margin } of margins.filter(({ margin }) => margin > 0).sort((a, b) => b.margin - a.margin)) {
+    deciding.push(key);
+    covered += margin;
+    if (covered > deficit) {
+      return deciding;
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Weights for one persona: the user's weights times the persona's emphasis
+ */
+export function getPersonaWeights(
+  persona: ScenarioPersona,
+  dimensions: ComparisonDimension[],
+  weights: DimensionWeights = {}
+): DimensionWeights {
+  const normalized = normalizeWeights(weights, dimensions);
+  const emphasis = PERSONA_EMPHASIS[persona.id] || {};
+  return Object.fromEntries(dimensions.map(({ key }) => [key, normalized[key] * (emphasis[key] ?? 1)]));
+}
+
+/**
+ * What the scores favour for each persona under the given weights. Runs
+ * entirely on the saved scores, so re-weighting never calls the LLM again.
+ */
+export function recommendForPersonas(
+  scores: ScoreMatrix,
+  technologies: string[],
+  dimensions: ComparisonDimension[],
+  personas: ScenarioPersona[],
+  weights: DimensionWeights = {}
+): PersonaRecommendation[] {
+  return personas.map(persona => {
+    const totals = weightedTotals(scores, technologies, dimensions, getPersonaWeights(persona, dimensions, weights));
+    const leader = pickLeader(totals);
+    return { persona: persona.label, technology: leader.technology, score: leader.score, totals };
+  });
+}
+
+// One "key:weight" pair per non-default weight, e.g. "speed:2,cost:0"
+const WEIGHT_PAIR = /^([A-Za-z][A-Za-z0-9]*):(\d+(?:\.\d+)?)$/;
+
+/**
+ * Weights as a URL query value, e.g. "speed:2,cost:0"; dimensions at the
+ * default weight of 1 are left out, so equal weights encode as ""
+ */
+export function encodeWeights(weights: DimensionWeights): string {
+  return Object.entries(weights)
+    .filter(([, weight]) => Number.isFinite(weight) && weight !== 1)
+    .map(([key, weight]) => `${key}:${clampWeight(weight)}`)
+    .join(',');
+}
+
+/**
+ * Weights from a URL query value written by encodeWeights. Malformed pairs
+ * are skipped and weights are clamped to SCORE_LIMITS.
+ */
+export function decodeWeights(value?: string | string[]): DimensionWeights {
+  const encoded = Array.isArray(value) ? value[0] : value;
+  const weights: DimensionWeights = {};
+
+  for (const pair of (encoded || '').split(',')) {
+    const match = pair.trim().match(WEIGHT_PAIR);
+    if (match) {
+      weights[match[1]] = clampWeight(Number(match[2]));
+    }
+  }
+
+  return weights;
+}
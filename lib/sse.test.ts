@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the Server-Sent Events helpers
+import fc from 'fast-check';
+import { formatSSE, parseSSEChunk, readSSEStream } from './sse';
+
+function toStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+}
+
+describe('SSE helpers', () => {
+  it('round-trips events through formatSSE and parseSSEChunk', () => {
+    fc.assert(fc.property(
+      fc.constantFrom('progress', 'scenario', 'done'),
+      fc.jsonValue(),
+      (event, data) => {
+        const { messages, remainder } = parseSSEChunk(formatSSE(event, data));
+
+        expect(remainder).toBe('');
+        expect(messages).toHaveLength(1);
+        expect(messages[0].event).toBe(event);
+        expect(JSON.parse(messages[0].data)).toEqual(JSON.parse(JSON.stringify(data ?? null)));
+      }
+    ), { numRuns: 100 });
+  });
+
+  it('keeps incomplete messages as the remainder and skips comments', () => {
+    const { messages, remainder } = parseSSEChunk(': keep-alive\n\ndata: {"a":1}\r\n\r\nevent: done\ndata: {"b"');
+
+    expect(messages).toEqual([{ event: 'message', data: '{"a":1}' }]);
+    expect(remainder).toBe('event: done\ndata: {"b"');
+  });
+
+  it('reassembles messages split across arbitrary chunk boundaries', async () => {
+    const payload = formatSSE('scenario', { name: 'Scale Team' }) + formatSSE('done', { ok: true });
+    const chunks = [payload.slice(0, 7), payload.slice(7, 40), payload.slice(40)];
+
+    const received = [];
+    for await (const message of readSSEStream(toStream(chunks))) {
+      received.push(message.event);
+    }
+
+    expect(received).toEqual(['scenario', 'done']);
+  });
+});
@@ -0,0 +1,80 @@
+// Server-Sent Events helpers shared by the streaming API route, the browser
+// client and providers whose upstream APIs stream over SSE
+
+/**
+ * A single parsed SSE message
+ */
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+/**
+ * Serialize one event in text/event-stream format
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data ?? null)}\n\n`;
+}
+
+/**
+ * Split buffered text/event-stream input into complete messages.
+ * Whatever follows the last blank line is returned as the remainder so the
+ * caller can prepend it to the next chunk.
+ */
+export function parseSSEChunk(buffer: string): { messages: SSEMessage[]; remainder: string } {
+  const normalized = buffer.replace(/\r\n/g, '\n');
+  const blocks = normalized.split('\n\n');
+  const remainder = blocks.pop() ?? '';
+  const messages: SSEMessage[] = [];
+
+  for (const block of blocks) {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith(':')) {
+        continue; // comment / keep-alive
+      }
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (dataLines.length > 0) {
+      messages.push({ event, data: dataLines.join('\n') });
+    }
+  }
+
+  return { messages, remainder };
+}
+
+/**
+ * Read a text/event-stream body to the end, yielding messages as they arrive
+ */
+export async function* readSSEStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const { messages, remainder } = parseSSEChunk(buffer);
+      buffer = remainder;
+      yield* messages;
+    }
+
+    // Flush a final message that was not followed by a blank line
+    const { messages } = parseSSEChunk(buffer + decoder.decode() + '\n\n');
+    yield* messages;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for the analysis store backends
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  createAnalysisId,
+  createFileAnalysisStore,
+  createMemoryAnalysisStore,
+  getAnalysisStore,
+  isValidAnalysisId,
+  registerAnalysisStore
+} from './store';
+import { StoredAnalysis } from './types';
+
+const ORIGINAL_ENV = process.env;
+
+function createRecord(id: string = createAnalysisId()): StoredAnalysis {
+  return {
+    id,
+    analysis: {
+      id,
+      matchup: { technology1: 'React', technology2: 'Vue' },
+      taleOfTheTape: {
+        speed: { tech1: 'Virtual DOM', tech2: 'Fine-grained reactivity' },
+        cost: { tech1: '$0 license', tech2: '$0 license' },
+        developerExperience: { tech1: 'Huge ecosystem', tech2: 'Gentle learning curve' },
+        scalability: { tech1: 'Proven at Meta scale', tech2: 'Progressive adoption' },
+        maintainability: { tech1: 'Explicit state flow', tech2: 'Single-file components' }
+      },
+      scenarios: [],
+      hiddenTaxes: [{ technology: 'React', warning: 'Library churn', timeframe: '6 months', severity: 'medium', likelihood: 'high', mitigation: 'Pin major versions' }],
+      tieBreaker: 'Do you already have React developers?'
+    },
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    createdAt: '2024-05-01T12:00:00.000Z'
+  };
+}
+
+describe('analysis IDs', () => {
+  it('creates IDs that pass validation and rejects path-like input', () => {
+    expect(isValidAnalysisId(createAnalysisId())).toBe(true);
+    expect(isValidAnalysisId('../../etc/passwd')).toBe(false);
+    expect(isValidAnalysisId('short')).toBe(false);
+  });
+});
+
+describe('file analysis store', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'referee-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips a saved analysis through a JSON file', async () => {
+    const store = createFileAnalysisStore(path.join(directory, 'nested'));
+    const record = createRecord();
+
+    await store.save(record);
+
+    expect(await store.get(record.id)).toEqual(record);
+    expect(readdirSync(path.join(directory, 'nested'))).toEqual([`${record.id}.json`]);
+  });
+
+  it('returns null for unknown or invalid IDs', async () => {
+    const store = createFileAnalysisStore(directory);
+
+    expect(await store.get(createAnalysisId())).toBeNull();
+    expect(await store.get('../secrets')).toBeNull();
+    await expect(store.save(createRecord('../escape'))).rejects.toThrow('Invalid analysis ID');
+  });
+
+  it('reads verdicts saved with a single hidden tax as a one-item list', async () => {
+    const store = createFileAnalysisStore(directory);
+    const record = createRecord();
+    const legacy = {
+      ...record,
+      analysis: { ...record.analysis, hiddenTaxes: undefined, hiddenTax: { technology: 'React', warning: 'Library churn', timeframe: '6 months', impact: 'Rewrites' } }
+    };
+    writeFileSync(path.join(directory, `${record.id}.json`), JSON.stringify(legacy));
+
+    expect((await store.get(record.id))?.analysis.hiddenTaxes).toEqual([
+      { technology: 'React', warning: 'Library churn', timeframe: '6 months' }
+    ]);
+  });
+});
+
+describe('store selection', () => {
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it('keeps one instance per backend named by ANALYSIS_STORE', async () => {
+    process.env = { ...ORIGINAL_ENV, ANALYSIS_STORE: 'memory' };
+    const store = getAnalysisStore();
+    const record = createRecord();
+    await store.save(record);
+
+    expect(getAnalysisStore()).toBe(store);
+    expect(await getAnalysisStore().get(record.id)).toEqual(record);
+  });
+
+  it('accepts registered backends and reports unknown ones', () => {
+    const custom = createMemoryAnalysisStore();
+    registerAnalysisStore('sqlite', () => ({ ...custom, name: 'sqlite' }));
+
+    process.env = { ...ORIGINAL_ENV, ANALYSIS_STORE: 'SQLite' };
+    expect(getAnalysisStore().name).toBe('sqlite');
+
+    process.env = { ...ORIGINAL_ENV, ANALYSIS_STORE: 'redis' };
+    expect(() => getAnalysisStore()).toThrow('Unknown analysis store "redis"');
+  });
+});
@@ -0,0 +1,145 @@
+// Pluggable persistence for finished analyses, so verdicts can be linked
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { HiddenTax, LegacyHiddenTax, RefereeAnalysis, StoredAnalysis, upgradeLegacyHiddenTax } from './types';
+
+/**
+ * A backend that keeps finished analyses by ID
+ */
+export interface AnalysisStore {
+  name: string;
+  save(record: StoredAnalysis): Promise<void>;
+  /** The saved analysis, or null when the ID is unknown */
+  get(id: string): Promise<StoredAnalysis | null>;
+}
+
+// IDs end up in file names and URLs, so only allow URL-safe characters
+const ANALYSIS_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+/**
+ * Whether a string could be an analysis ID
+ */
+export function isValidAnalysisId(id: string): boolean {
+  return ANALYSIS_ID_PATTERN.test(id);
+}
+
+/**
+ * A new, unguessable analysis ID
+ */
+export function createAnalysisId(): string {
+  return randomUUID();
+}
+
+/**
+ * A record as an earlier version may have saved it, with a single
+ * `hiddenTax` in place of the list
+ */
+type LegacyStoredAnalysis = Omit<StoredAnalysis, 'analysis'> & {
+  analysis: Omit<RefereeAnalysis, 'hiddenTaxes'> & { hiddenTaxes?: HiddenTax[]; hiddenTax?: LegacyHiddenTax };
+};
+
+/**
+ * Bring a record saved by an earlier version up to the current shape:
+ * verdicts from before hidden taxes became a list carry a single
+ * `hiddenTax`, which becomes a one-item list
+ */
+function upgradeStoredAnalysis(record: LegacyStoredAnalysis): StoredAnalysis {
+  const { hiddenTax, hiddenTaxes, ...analysis } = record.analysis;
+  if (hiddenTaxes) {
+    return { ...record, analysis: { ...analysis, hiddenTaxes } };
+  }
+
+  return {
+    ...record,
+    analysis: { ...analysis, hiddenTaxes: hiddenTax ? [upgradeLegacyHiddenTax(hiddenTax)] : [] }
+  };
+}
+
+/**
+ * Store that keeps one JSON file per analysis in `directory`
+ */
+export function createFileAnalysisStore(directory: string): AnalysisStore {
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+
+  return {
+    name: 'file',
+    async save(record) {
+      if (!isValidAnalysisId(record.id)) {
+        throw new Error(`Invalid analysis ID: ${record.id}`);
+      }
+      await fs.mkdir(directory, { recursive: true });
+      // Write then rename so readers never see a half-written file
+      const temporary = `${fileFor(record.id)}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(record), 'utf8');
+      await fs.rename(temporary, fileFor(record.id));
+    },
+    async get(id) {
+      if (!isValidAnalysisId(id)) {
+        return null;
+      }
+      try {
+        return upgradeStoredAnalysis(JSON.parse(await fs.readFile(fileFor(id), 'utf8')));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    }
+  };
+}
+
+/**
+ * Store that keeps analyses in process memory; they are lost on restart
+ */
+export function createMemoryAnalysisStore(): AnalysisStore {
+  const records = new Map<string, StoredAnalysis>();
+
+  return {
+    name: 'memory',
+    async save(record) {
+      records.set(record.id, record);
+    },
+    async get(id) {
+      return records.get(id) || null;
+    }
+  };
+}
+
+const storeFactories = new Map<string, () => AnalysisStore>();
+const storeInstances = new Map<string, AnalysisStore>();
+
+/**
+ * Register a store backend under a name selectable with ANALYSIS_STORE,
+ * e.g. a SQLite or Redis store provided by the deployment
+ */
+export function registerAnalysisStore(name: string, factory: () => AnalysisStore): void {
+  storeFactories.set(name.toLowerCase(), factory);
+  storeInstances.delete(name.toLowerCase());
+}
+
+/**
+ * The store named by ANALYSIS_STORE (default "file", writing to
+ * ANALYSIS_STORE_DIR or .data/analyses)
+ */
+export function getAnalysisStore(): AnalysisStore {
+  const name = (process.env.ANALYSIS_STORE || 'file').trim().toLowerCase();
+  const factory = storeFactories.get(name);
+
+  if (!factory) {
+    throw new Error(`Unknown analysis store "${name}". Available: ${Array.from(storeFactories.keys()).join(', ')}`);
+  }
+
+  let store = storeInstances.get(name);
+  if (!store) {
+    store = factory();
+    storeInstances.set(name, store);
+  }
+  return store;
+}
+
+registerAnalysisStore('file', () =>
+  createFileAnalysisStore(process.env.ANALYSIS_STORE_DIR || path.join(process.cwd(), '.data', 'analyses'))
+);
+registerAnalysisStore('memory', createMemoryAnalysisStore);
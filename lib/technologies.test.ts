@@ -0,0 +1,135 @@
+// Unit tests for the technology catalog
+import {
+  areCategoriesComparable,
+  describeCategoryMismatch,
+  editDistance,
+  findCategoryMismatch,
+  findTechnology,
+  getKnownTechnologyNames,
+  isKnownTechnology,
+  normalizeTechnologyName,
+  resolveTechnology,
+  suggestComparableTechnologies,
+  suggestTechnologyNames,
+  TECHNOLOGY_CATALOG,
+  TECHNOLOGY_CATEGORY_LABELS
+} from './technologies';
+import type { TechnologyCategory } from './types';
+
+describe('Technology catalog', () => {
+  test('no name or alias belongs to more than one technology', () => {
+    const names = TECHNOLOGY_CATALOG.flatMap(technology =>
+      [technology.canonical, ...technology.aliases].map(name => name.toLowerCase())
+    );
+    expect(new Set(names).size).toBe(names.length);
+    expect(getKnownTechnologyNames()).toHaveLength(names.length);
+  });
+
+  test('every entry has a category and an https homepage', () => {
+    for (const technology of TECHNOLOGY_CATALOG) {
+      expect(technology.category).toBeTruthy();
+      expect(technology.homepage).toMatch(/^https:\/\//);
+    }
+  });
+
+  test('every alias resolves to its canonical name', () => {
+    for (const technology of TECHNOLOGY_CATALOG) {
+      for (const alias of technology.aliases) {
+        expect(normalizeTechnologyName(alias)).toBe(technology.canonical);
+        expect(normalizeTechnologyName(alias.toUpperCase())).toBe(technology.canonical);
+      }
+    }
+  });
+
+  test('postgres resolves the same way whatever the spelling', () => {
+    const spellings = ['postgres', 'Postgres', ' pg ', 'postgresql', 'PostgreSQL'];
+    expect(new Set(spellings.map(normalizeTechnologyName))).toEqual(new Set(['PostgreSQL']));
+  });
+
+  test('versioned names keep their version after the canonical name', () => {
+    expect(normalizeTechnologyName('reactjs 18')).toBe('React 18');
+    expect(normalizeTechnologyName(' python v3.12 ')).toBe('Python 3.12');
+    expect(normalizeTechnologyName('Hotwire 8')).toBe('Hotwire 8');
+  });
+
+  test('names outside the catalog are trimmed but otherwise unchanged', () => {
+    expect(normalizeTechnologyName('  Hotwire Turbo ')).toBe('Hotwire Turbo');
+    expect(isKnownTechnology('Hotwire Turbo')).toBe(false);
+    expect(findTechnology('Hotwire Turbo')).toBeNull();
+  });
+
+  test('resolveTechnology returns the catalog details for known names', () => {
+    expect(resolveTechnology('k8s')).toEqual({
+      name: 'Kubernetes',
+      aliases: ['k8s'],
+      category: 'devops',
+      homepage: 'https://kubernetes.io'
+    });
+    expect(resolveTechnology(' Hotwire ')).toEqual({ name: 'Hotwire' });
+  });
+});
+
+describe('Category mismatch', () => {
+  test('related categories are comparable, unrelated ones are not', () => {
+    expect(areCategoriesComparable('database', 'database')).toBe(true);
+    expect(areCategoriesComparable('runtime', 'language')).toBe(true);
+    expect(areCategoriesComparable('database', 'cloud')).toBe(true);
+    expect(areCategoriesComparable('database', 'styling')).toBe(false);
+    expect(areCategoriesComparable('testing', 'frontend')).toBe(false);
+  });
+
+  test('comparability is symmetric for every pair of categories', () => {
+    const categories = Object.keys(TECHNOLOGY_CATEGORY_LABELS) as TechnologyCategory[];
+    for (const first of categories) {
+      for (const second of categories) {
+        expect(areCategoriesComparable(first, second)).toBe(areCategoriesComparable(second, first));
+      }
+    }
+  });
+
+  test('finds the first unrelated pair and suggests alternatives for every contender', () => {
+    const mismatch = findCategoryMismatch(['React', 'Vue', 'Jest']);
+    expect(mismatch).toEqual({
+      technologies: [
+        { name: 'React', category: 'frontend' },
+        { name: 'Vue', category: 'frontend' },
+        { name: 'Jest', category: 'testing' }
+      ],
+      conflict: [0, 2],
+      alternatives: [['Angular', 'Svelte', 'Ember.js'], ['Angular', 'Svelte', 'Ember.js'], ['Mocha', 'Chai', 'Jasmine']]
+    });
+    expect(describeCategoryMismatch(mismatch!)).toMatch(/^React \(frontend framework\) and Jest \(testing tool\) solve different problems/);
+  });
+
+  test('fair matchups and names outside the catalog are never a mismatch', () => {
+    expect(findCategoryMismatch(['postgres', 'MongoDB'])).toBeNull();
+    expect(findCategoryMismatch(['Firebase', 'Supabase'])).toBeNull();
+    expect(findCategoryMismatch(['Hotwire', 'Tailwind CSS'])).toBeNull();
+  });
+
+  test('suggestions skip the contenders themselves and unknown names get none', () => {
+    expect(suggestComparableTechnologies('pg', ['MySQL'])).toEqual(['MariaDB', 'SQLite', 'SQL Server']);
+    expect(suggestComparableTechnologies('Hotwire')).toEqual([]);
+  });
+});
+
+describe('Typo suggestions', () => {
+  test('editDistance counts a swap of neighbouring letters as one edit', () => {
+    expect(editDistance('postgress', 'postgres')).toBe(1);
+    expect(editDistance('reatc', 'react')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'vue')).toBe(3);
+  });
+
+  test('close misspellings suggest the catalog name, closest first', () => {
+    expect(suggestTechnologyNames('Postgress')).toEqual(['PostgreSQL']);
+    expect(suggestTechnologyNames('Kubernetis')).toEqual(['Kubernetes']);
+    expect(suggestTechnologyNames('postgrs')).toEqual(['PostgreSQL', 'PostCSS']);
+  });
+
+  test('known names, versions and unrelated names get no suggestions', () => {
+    for (const name of ['PostgreSQL', 'pg', 'Vue 3', 'Node.js 20.1', 'Hotwire', 'Sails', 'Koa']) {
+      expect(suggestTechnologyNames(name)).toEqual([]);
+    }
+  });
+});
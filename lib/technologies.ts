@@ -0,0 +1,566 @@
+// Technology catalog: canonical names, aliases, categories and homepages
+import type {
+  CategoryMismatch,
+  TechnologyAlias,
+  TechnologyCategory,
+  TechnologyInput,
+  TechnologySuggestion
+} from './types';
+import { parseVersionedName } from './versions';
+
+const entry = (
+  canonical: string,
+  category: TechnologyCategory,
+  homepage: string,
+  aliases: string[] = []
+): TechnologyAlias => ({ canonical, aliases, category, homepage });
+
+/**
+ * Every technology the referee recognizes. Names match case-insensitively
+ * against the canonical name and each alias.
+ */
+export const TECHNOLOGY_CATALOG: TechnologyAlias[] = [
+  // Programming languages
+  entry('JavaScript', 'language', 'https://developer.mozilla.org/docs/Web/JavaScript', ['js']),
+  entry('TypeScript', 'language', 'https://www.typescriptlang.org', ['ts']),
+  entry('Python', 'language', 'https://www.python.org', ['py']),
+  entry('Java', 'language', 'https://dev.java'),
+  entry('C#', 'language', 'https://learn.microsoft.com/dotnet/csharp/', ['csharp']),
+  entry('C++', 'language', 'https://isocpp.org', ['cpp']),
+  entry('C', 'language', 'https://www.open-std.org/jtc1/sc22/wg14/'),
+  entry('Go', 'language', 'https://go.dev', ['golang']),
+  entry('Rust', 'language', 'https://www.rust-lang.org'),
+  entry('PHP', 'language', 'https://www.php.net'),
+  entry('Ruby', 'language', 'https://www.ruby-lang.org'),
+  entry('Swift', 'language', 'https://www.swift.org'),
+  entry('Kotlin', 'language', 'https://kotlinlang.org'),
+  entry('Scala', 'language', 'https://www.scala-lang.org'),
+  entry('R', 'language', 'https://www.r-project.org'),
+  entry('MATLAB', 'language', 'https://www.mathworks.com/products/matlab.html'),
+  entry('Perl', 'language', 'https://www.perl.org'),
+  entry('Lua', 'language', 'https://www.lua.org'),
+  entry('Haskell', 'language', 'https://www.haskell.org'),
+  entry('Erlang', 'language', 'https://www.erlang.org'),
+  entry('Elixir', 'language', 'https://elixir-lang.org'),
+  entry('Clojure', 'language', 'https://clojure.org'),
+  entry('F#', 'language', 'https://fsharp.org', ['fsharp']),
+  entry('Dart', 'language', 'https://dart.dev'),
+  entry('Julia', 'language', 'https://julialang.org'),
+
+  // Frontend frameworks and libraries
+  entry('React', 'frontend', 'https://react.dev', ['react.js', 'reactjs']),
+  entry('Vue', 'frontend', 'https://vuejs.org', ['vue.js', 'vuejs']),
+  entry('Angular', 'frontend', 'https://angular.dev', ['angular.js', 'angularjs']),
+  entry('Svelte', 'frontend', 'https://svelte.dev'),
+  entry('Ember.js', 'frontend', 'https://emberjs.com', ['ember', 'emberjs']),
+  entry('Backbone.js', 'frontend', 'https://backbonejs.org', ['backbone', 'backbonejs']),
+  entry('jQuery', 'frontend', 'https://jquery.com'),
+  entry('Alpine.js', 'frontend', 'https://alpinejs.dev', ['alpine', 'alpinejs']),
+  entry('Lit', 'frontend', 'https://lit.dev'),
+  entry('Stencil', 'frontend', 'https://stenciljs.com'),
+  entry('Preact', 'frontend', 'https://preactjs.com'),
+  entry('SolidJS', 'frontend', 'https://www.solidjs.com', ['solid']),
+  entry('Next.js', 'frontend', 'https://nextjs.org', ['next', 'nextjs']),
+  entry('Nuxt.js', 'frontend', 'https://nuxt.com', ['nuxt', 'nuxtjs']),
+  entry('SvelteKit', 'frontend', 'https://kit.svelte.dev'),
+  entry('Sapper', 'frontend', 'https://sapper.svelte.dev'),
+  entry('Gatsby', 'frontend', 'https://www.gatsbyjs.com'),
+  entry('Gridsome', 'frontend', 'https://gridsome.org'),
+
+  // Backend frameworks
+  entry('Express', 'backend', 'https://expressjs.com', ['expressjs', 'express.js']),
+  entry('Fastify', 'backend', 'https://fastify.dev'),
+  entry('Koa', 'backend', 'https://koajs.com', ['koajs', 'koa.js']),
+  entry('NestJS', 'backend', 'https://nestjs.com', ['nest.js']),
+  entry('Django', 'backend', 'https://www.djangoproject.com'),
+  entry('Flask', 'backend', 'https://flask.palletsprojects.com'),
+  entry('FastAPI', 'backend', 'https://fastapi.tiangolo.com'),
+  entry('Spring', 'backend', 'https://spring.io'),
+  entry('Spring Boot', 'backend', 'https://spring.io/projects/spring-boot', ['springboot']),
+  entry('Laravel', 'backend', 'https://laravel.com'),
+  entry('Symfony', 'backend', 'https://symfony.com'),
+  entry('Ruby on Rails', 'backend', 'https://rubyonrails.org', ['rails']),
+  entry('Sinatra', 'backend', 'https://sinatrarb.com'),
+  entry('ASP.NET', 'backend', 'https://dotnet.microsoft.com/apps/aspnet', ['aspnet']),
+  entry('Gin', 'backend', 'https://gin-gonic.com'),
+  entry('Echo', 'backend', 'https://echo.labstack.com'),
+  entry('Fiber', 'backend', 'https://gofiber.io'),
+  entry('Actix', 'backend', 'https://actix.rs'),
+  entry('Rocket', 'backend', 'https://rocket.rs'),
+  entry('Warp', 'backend', 'https://github.com/seanmonstar/warp'),
+  entry('Axum', 'backend', 'https://github.com/tokio-rs/axum'),
+
+  // Databases
+  entry('PostgreSQL', 'database', 'https://www.postgresql.org', ['postgres', 'pg']),
+  entry('MySQL', 'database', 'https://www.mysql.com'),
+  entry('MariaDB', 'database', 'https://mariadb.org'),
+  entry('SQLite', 'database', 'https://www.sqlite.org'),
+  entry('SQL Server', 'database', 'https://www.microsoft.com/sql-server', ['sqlserver']),
+  entry('Oracle Database', 'database', 'https://www.oracle.com/database/', ['oracle']),
+  entry('MongoDB', 'database', 'https://www.mongodb.com', ['mongo']),
+  entry('Redis', 'database', 'https://redis.io'),
+  entry('Cassandra', 'database', 'https://cassandra.apache.org'),
+  entry('DynamoDB', 'database', 'https://aws.amazon.com/dynamodb/'),
+  entry('CouchDB', 'database', 'https://couchdb.apache.org'),
+  entry('Couchbase', 'database', 'https://www.couchbase.com'),
+  entry('Neo4j', 'database', 'https://neo4j.com'),
+  entry('InfluxDB', 'database', 'https://www.influxdata.com'),
+  entry('Elasticsearch', 'database', 'https://www.elastic.co/elasticsearch'),
+  entry('Solr', 'database', 'https://solr.apache.org'),
+  entry('Firestore', 'database', 'https://firebase.google.com/docs/firestore'),
+  entry('Supabase', 'database', 'https://supabase.com'),
+  entry('PlanetScale', 'database', 'https://planetscale.com'),
+
+  // Cloud providers and hosting
+  entry('Amazon Web Services', 'cloud', 'https://aws.amazon.com', ['aws']),
+  entry('Google Cloud Platform', 'cloud', 'https://cloud.google.com', ['gcp', 'google cloud']),
+  entry('Microsoft Azure', 'cloud', 'https://azure.microsoft.com', ['azure']),
+  entry('DigitalOcean', 'cloud', 'https://www.digitalocean.com'),
+  entry('Linode', 'cloud', 'https://www.linode.com'),
+  entry('Vultr', 'cloud', 'https://www.vultr.com'),
+  entry('Heroku', 'cloud', 'https://www.heroku.com'),
+  entry('Vercel', 'cloud', 'https://vercel.com'),
+  entry('Netlify', 'cloud', 'https://www.netlify.com'),
+  entry('Cloudflare', 'cloud', 'https://www.cloudflare.com'),
+  entry('Firebase', 'cloud', 'https://firebase.google.com'),
+  entry('Railway', 'cloud', 'https://railway.app'),
+  entry('Render', 'cloud', 'https://render.com'),
+
+  // DevOps and observability
+  entry('Docker', 'devops', 'https://www.docker.com'),
+  entry('Kubernetes', 'devops', 'https://kubernetes.io', ['k8s']),
+  entry('Git', 'devops', 'https://git-scm.com'),
+  entry('Jenkins', 'devops', 'https://www.jenkins.io'),
+  entry('GitHub Actions', 'devops', 'https://github.com/features/actions'),
+  entry('GitLab CI', 'devops', 'https://docs.gitlab.com/ee/ci/'),
+  entry('CircleCI', 'devops', 'https://circleci.com'),
+  entry('Travis CI', 'devops', 'https://www.travis-ci.com'),
+  entry('Terraform', 'devops', 'https://www.terraform.io'),
+  entry('Ansible', 'devops', 'https://www.ansible.com'),
+  entry('Puppet', 'devops', 'https://www.puppet.com'),
+  entry('Chef', 'devops', 'https://www.chef.io'),
+  entry('Vagrant', 'devops', 'https://www.vagrantup.com'),
+  entry('Helm', 'devops', 'https://helm.sh'),
+  entry('Istio', 'devops', 'https://istio.io'),
+  entry('Prometheus', 'devops', 'https://prometheus.io'),
+  entry('Grafana', 'devops', 'https://grafana.com'),
+  entry('ELK Stack', 'devops', 'https://www.elastic.co/elastic-stack', ['elk']),
+  entry('Logstash', 'devops', 'https://www.elastic.co/logstash'),
+  entry('Kibana', 'devops', 'https://www.elastic.co/kibana'),
+  entry('Datadog', 'devops', 'https://www.datadoghq.com'),
+  entry('New Relic', 'devops', 'https://newrelic.com', ['newrelic']),
+  entry('Splunk', 'devops', 'https://www.splunk.com'),
+
+  // Build tools, bundlers and package managers
+  entry('Webpack', 'build-tool', 'https://webpack.js.org'),
+  entry('Vite', 'build-tool', 'https://vitejs.dev'),
+  entry('Rollup', 'build-tool', 'https://rollupjs.org'),
+  entry('Parcel', 'build-tool', 'https://parceljs.org'),
+  entry('esbuild', 'build-tool', 'https://esbuild.github.io'),
+  entry('SWC', 'build-tool', 'https://swc.rs'),
+  entry('Babel', 'build-tool', 'https://babeljs.io'),
+  entry('Gulp', 'build-tool', 'https://gulpjs.com'),
+  entry('Grunt', 'build-tool', 'https://gruntjs.com'),
+  entry('npm', 'build-tool', 'https://www.npmjs.com'),
+  entry('Yarn', 'build-tool', 'https://yarnpkg.com'),
+  entry('pnpm', 'build-tool', 'https://pnpm.io'),
+  entry('Bower', 'build-tool', 'https://bower.io'),
+  entry('Maven', 'build-tool', 'https://maven.apache.org'),
+  entry('Gradle', 'build-tool', 'https://gradle.org'),
+  entry('CMake', 'build-tool', 'https://cmake.org'),
+  entry('Make', 'build-tool', 'https://www.gnu.org/software/make/'),
+
+  // Testing
+  entry('Jest', 'testing', 'https://jestjs.io'),
+  entry('Mocha', 'testing', 'https://mochajs.org'),
+  entry('Chai', 'testing', 'https://www.chaijs.com'),
+  entry('Jasmine', 'testing', 'https://jasmine.github.io'),
+  entry('Cypress', 'testing', 'https://www.cypress.io'),
+  entry('Playwright', 'testing', 'https://playwright.dev'),
+  entry('Selenium', 'testing', 'https://www.selenium.dev'),
+  entry('Puppeteer', 'testing', 'https://pptr.dev'),
+  entry('Testing Library', 'testing', 'https://testing-library.com'),
+  entry('Enzyme', 'testing', 'https://enzymejs.github.io/enzyme/'),
+  entry('Vitest', 'testing', 'https://vitest.dev'),
+  entry('AVA', 'testing', 'https://github.com/avajs/ava'),
+  entry('Tape', 'testing', 'https://github.com/ljharb/tape'),
+  entry('QUnit', 'testing', 'https://qunitjs.com'),
+
+  // Mobile
+  entry('React Native', 'mobile', 'https://reactnative.dev'),
+  entry('Flutter', 'mobile', 'https://flutter.dev'),
+  entry('Ionic', 'mobile', 'https://ionicframework.com'),
+  entry('Cordova', 'mobile', 'https://cordova.apache.org'),
+  entry('PhoneGap', 'mobile', 'https://phonegap.com'),
+  entry('Xamarin', 'mobile', 'https://dotnet.microsoft.com/apps/xamarin'),
+  entry('Android', 'mobile', 'https://developer.android.com'),
+  entry('iOS', 'mobile', 'https://developer.apple.com/ios/'),
+  entry('SwiftUI', 'mobile', 'https://developer.apple.com/xcode/swiftui/', ['swift ui']),
+  entry('UIKit', 'mobile', 'https://developer.apple.com/documentation/uikit'),
+
+  // CSS and styling
+  entry('Tailwind CSS', 'styling', 'https://tailwindcss.com', ['tailwind', 'tailwindcss']),
+  entry('Bootstrap', 'styling', 'https://getbootstrap.com'),
+  entry('Bulma', 'styling', 'https://bulma.io'),
+  entry('Foundation', 'styling', 'https://get.foundation'),
+  entry('Materialize', 'styling', 'https://materializecss.com'),
+  entry('Semantic UI', 'styling', 'https://semantic-ui.com'),
+  entry('Ant Design', 'styling', 'https://ant.design'),
+  entry('Material UI', 'styling', 'https://mui.com'),
+  entry('Chakra UI', 'styling', 'https://chakra-ui.com'),
+  entry('styled-components', 'styling', 'https://styled-components.com', ['styled components']),
+  entry('Emotion', 'styling', 'https://emotion.sh'),
+  entry('Sass', 'styling', 'https://sass-lang.com', ['scss']),
+  entry('Less', 'styling', 'https://lesscss.org'),
+  entry('Stylus', 'styling', 'https://stylus-lang.com'),
+  entry('PostCSS', 'styling', 'https://postcss.org'),
+
+  // State management
+  entry('Redux', 'state-management', 'https://redux.js.org'),
+  entry('MobX', 'state-management', 'https://mobx.js.org'),
+  entry('Zustand', 'state-management', 'https://github.com/pmndrs/zustand'),
+  entry('Recoil', 'state-management', 'https://recoiljs.org'),
+  entry('Jotai', 'state-management', 'https://jotai.org'),
+  entry('Valtio', 'state-management', 'https://valtio.pmnd.rs'),
+  entry('XState', 'state-management', 'https://stately.ai/docs/xstate'),
+  entry('Vuex', 'state-management', 'https://vuex.vuejs.org'),
+  entry('Pinia', 'state-management', 'https://pinia.vuejs.org'),
+
+  // Runtimes
+  entry('Node.js', 'runtime', 'https://nodejs.org', ['node', 'nodejs']),
+  entry('Deno', 'runtime', 'https://deno.com'),
+  entry('Bun', 'runtime', 'https://bun.sh'),
+  entry('.NET', 'runtime', 'https://dotnet.microsoft.com', ['dotnet']),
+  entry('Browser', 'runtime', 'https://developer.mozilla.org/docs/Web/API'),
+  entry('Electron', 'runtime', 'https://www.electronjs.org'),
+  entry('Tauri', 'runtime', 'https://tauri.app'),
+
+  // Game engines
+  entry('Unity', 'game-engine', 'https://unity.com'),
+  entry('Unreal Engine', 'game-engine', 'https://www.unrealengine.com', ['unreal']),
+  entry('Godot', 'game-engine', 'https://godotengine.org'),
+  entry('Construct', 'game-engine', 'https://www.construct.net'),
+  entry('GameMaker', 'game-engine', 'https://gamemaker.io'),
+  entry('Phaser', 'game-engine', 'https://phaser.io'),
+
+  // Data science and machine learning
+  entry('TensorFlow', 'data-science', 'https://www.tensorflow.org'),
+  entry('PyTorch', 'data-science', 'https://pytorch.org'),
+  entry('scikit-learn', 'data-science', 'https://scikit-learn.org'),
+  entry('pandas', 'data-science', 'https://pandas.pydata.org'),
+  entry('NumPy', 'data-science', 'https://numpy.org'),
+  entry('Jupyter', 'data-science', 'https://jupyter.org'),
+  entry('Anaconda', 'data-science', 'https://www.anaconda.com'),
+  entry('RStudio', 'data-science', 'https://posit.co/products/open-source/rstudio/', ['r studio']),
+  entry('Tableau', 'data-science', 'https://www.tableau.com'),
+  entry('Power BI', 'data-science', 'https://powerbi.microsoft.com', ['powerbi']),
+  entry('Apache Spark', 'data-science', 'https://spark.apache.org', ['spark']),
+  entry('Apache Hadoop', 'data-science', 'https://hadoop.apache.org', ['hadoop']),
+
+  // CMS, e-commerce and static sites
+  entry('WordPress', 'cms', 'https://wordpress.org'),
+  entry('Drupal', 'cms', 'https://www.drupal.org'),
+  entry('Joomla', 'cms', 'https://www.joomla.org'),
+  entry('Shopify', 'cms', 'https://www.shopify.com'),
+  entry('Magento', 'cms', 'https://business.adobe.com/products/magento/magento-commerce.html'),
+  entry('WooCommerce', 'cms', 'https://woocommerce.com'),
+  entry('PrestaShop', 'cms', 'https://prestashop.com'),
+  entry('Strapi', 'cms', 'https://strapi.io'),
+  entry('Contentful', 'cms', 'https://www.contentful.com'),
+  entry('Sanity', 'cms', 'https://www.sanity.io'),
+  entry('Ghost', 'cms', 'https://ghost.org'),
+  entry('Jekyll', 'cms', 'https://jekyllrb.com'),
+  entry('Hugo', 'cms', 'https://gohugo.io')
+];
+
+// Lowercased canonical names and aliases -> catalog entry
+const CATALOG_INDEX = new Map<string, TechnologyAlias>();
+for (const technology of TECHNOLOGY_CATALOG) {
+  for (const name of [technology.canonical, ...technology.aliases]) {
+    CATALOG_INDEX.set(name.toLowerCase(), technology);
+  }
+}
+
+/**
+ * The catalog entry for a name or alias, or null when it is not in the catalog
+ */
+export function findTechnology(name: string): TechnologyAlias | null {
+  if (typeof name !== 'string') {
+    return null;
+  }
+  return CATALOG_INDEX.get(name.trim().toLowerCase()) || null;
+}
+
+/**
+ * Whether a name or alias is in the catalog
+ */
+export function isKnownTechnology(name: string): boolean {
+  return findTechnology(name) !== null;
+}
+
+/**
+ * Every lowercased name and alias the catalog recognizes
+ */
+export function getKnownTechnologyNames(): string[] {
+  return Array.from(CATALOG_INDEX.keys());
+}
+
+/**
+ * The canonical name for a technology, e.g. "postgres" -> "PostgreSQL" and
+ * "reactjs 18" -> "React 18"; names outside the catalog are returned trimmed
+ */
+export function normalizeTechnologyName(tech: string): string {
+  // Ensure tech is a string and handle edge cases
+  if (typeof tech !== 'string') {
+    return String(tech).trim();
+  }
+
+  const technology = findTechnology(tech);
+  if (technology) {
+    return technology.canonical;
+  }
+
+  // Keep the version of a versioned name, canonicalizing the product
+  const { product, version } = parseVersionedName(tech);
+  const versioned = version && product ? findTechnology(product) : null;
+  return versioned ? `${versioned.canonical} ${version}` : tech.trim();
+}
+
+/**
+ * A user-typed name resolved against the catalog. Unknown names keep what
+ * was typed and carry no category.
+ */
+export function resolveTechnology(tech: string): TechnologyInput {
+  const technology = findTechnology(tech);
+  if (!technology) {
+    return { name: normalizeTechnologyName(tech) };
+  }
+
+  return {
+    name: technology.canonical,
+    aliases: technology.aliases,
+    category: technology.category,
+    homepage: technology.homepage
+  };
+}
+
+/**
+ * Edits (insertions, deletions, substitutions and swaps of neighbouring
+ * letters) needed to turn one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  // rows[i][j] is the distance between the first i letters of a and the first j of b
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+/**
+ * How many edits still count as a typo; short names get less leeway so
+ * "Koa" is never mistaken for "Lua"
+ */
+function maxTypoDistance(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 5) return 1;
+  if (length <= 9) return 2;
+  return 3;
+}
+
+/**
+ * Catalog names a probable typo was meant to be, closest first, e.g.
+ * "Postgress" -> ["PostgreSQL"]. Known names, with or without a version
+ * ("Vue 3"), get no suggestions.
+ */
+export function suggestTechnologyNames(name: string, limit = 3): string[] {
+  const typed = typeof name === 'string' ? name.trim().toLowerCase() : '';
+  const unversioned = typed.replace(/\s+v?\d+(\.\d+)*(\.x)?$/, '');
+  if (!typed || CATALOG_INDEX.has(typed) || CATALOG_INDEX.has(unversioned)) {
+    return [];
+  }
+
+  // Closest spelling of each technology, over its canonical name and aliases
+  const closest = new Map<string, number>();
+  const allowed = maxTypoDistance(typed.length);
+  CATALOG_INDEX.forEach((technology, known) => {
+    // Short names must also start with the same letter ("Sails" is not "Rails")
+    if (typed.length <= 5 && typed[0] !== known[0]) {
+      return;
+    }
+    const distance = editDistance(typed, known);
+    if (distance <= allowed && distance < (closest.get(technology.canonical) ?? Infinity)) {
+      closest.set(technology.canonical, distance);
+    }
+  });
+
+  return Array.from(closest.entries())
+    .sort(([, first], [, second]) => first - second)
+    .slice(0, limit)
+    .map(([canonical]) => canonical);
+}
+
+/**
+ * Human-readable category names for messages
+ */
+export const TECHNOLOGY_CATEGORY_LABELS: Record<TechnologyCategory, string> = {
+  language: 'programming language',
+  frontend: 'frontend framework',
+  backend: 'backend framework',
+  database: 'database',
+  cloud: 'cloud platform',
+  devops: 'DevOps tool',
+  'build-tool': 'build tool',
+  testing: 'testing tool',
+  mobile: 'mobile framework',
+  styling: 'styling library',
+  'state-management': 'state management library',
+  runtime: 'runtime',
+  'game-engine': 'game engine',
+  'data-science': 'data science tool',
+  cms: 'CMS'
+};
+
+// Categories whose members are commonly weighed against each other, e.g.
+// Node.js vs Go or Firebase vs Supabase. Anything else is apples vs oranges.
+const COMPARABLE_CATEGORY_GROUPS: TechnologyCategory[][] = [
+  ['language', 'runtime', 'backend', 'data-science'],
+  ['frontend', 'backend', 'runtime', 'mobile', 'cms'],
+  ['frontend', 'state-management'],
+  ['database', 'cloud', 'data-science'],
+  ['cloud', 'devops'],
+  ['build-tool', 'runtime'],
+  ['game-engine', 'mobile']
+];
+
+/**
+ * Whether technologies from two categories can sensibly be compared
+ */
+export function areCategoriesComparable(first: TechnologyCategory, second: TechnologyCategory): boolean {
+  return first === second ||
+    COMPARABLE_CATEGORY_GROUPS.some(group => group.includes(first) && group.includes(second));
+}
+
+/**
+ * Catalog technologies in the same category, for suggesting a fairer matchup
+ */
+export function suggestComparableTechnologies(tech: string, exclude: string[] = [], limit = 3): string[] {
+  const technology = findTechnology(tech);
+  if (!technology) {
+    return [];
+  }
+
+  const excluded = new Set([tech, ...exclude].map(name => normalizeTechnologyName(name)));
+  return TECHNOLOGY_CATALOG
+    .filter(candidate => candidate.category === technology.category && !excluded.has(candidate.canonical))
+    .slice(0, limit)
+    .map(candidate => candidate.canonical);
+}
+
+/**
+ * The first pair of contenders from incompatible categories, with same-category
+ * alternatives for every contender, or null when the matchup is fair. Names
+ * outside the catalog have no category and never cause a mismatch.
+ */
+export function findCategoryMismatch(technologies: string[]): CategoryMismatch | null {
+  const resolved = technologies.map(resolveTechnology);
+
+  for (let i = 0; i < resolved.length; i++) {
+    for (let j = i + 1; j < resolved.length; j++) {
+      const first = resolved[i].category;
+      const second = resolved[j].category;
+      if (first && second && !areCategoriesComparable(first, second)) {
+        const names = resolved.map(technology => technology.name);
+        return {
+          technologies: resolved.map(({ name, category }) => ({ name, ...(category ? { category } : {}) })),
+          conflict: [i, j],
+          alternatives: names.map(name => suggestComparableTechnologies(name, names))
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A one-line explanation of a category mismatch
+ */
+export function describeCategoryMismatch(mismatch: CategoryMismatch): string {
+  const [first, second] = mismatch.conflict.map(index => mismatch.technologies[index]);
+  const label = (technology: CategoryMismatch['technologies'][number]) =>
+    technology.category ? TECHNOLOGY_CATEGORY_LABELS[technology.category] : 'technology';
+  return `${first.name} (${label(first)}) and ${second.name} (${label(second)}) solve different problems, so a head-to-head verdict would not be meaningful`;
+}
+
+/**
+ * How well a query matches one spelling of a technology; lower is better,
+ * null is no match. Fuzzy matches compare against prefixes of about the
+ * query's length so half-typed names with a slip ("kubrn") still match.
+ */
+function scoreSpelling(query: string, spelling: string): number | null {
+  if (spelling === query) return 0;
+  if (spelling.startsWith(query)) return 1;
+  if (spelling.split(/[\s.\-]+/).some(word => word.startsWith(query))) return 2;
+  if (spelling.includes(query)) return 3;
+
+  const distance = Math.min(
+    ...[-1, 0, 1].map(offset => editDistance(query, spelling.slice(0, query.length + offset)))
+  );
+  return distance <= maxTypoDistance(query.length) ? 3 + distance : null;
+}
+
+/**
+ * Typeahead matches for a partly typed name: exact, prefix, word-prefix,
+ * substring, then fuzzy. Technologies in `category` rank ahead of the rest,
+ * and an empty query lists that category alone.
+ */
+export function searchTechnologies(
+  query: string,
+  options: { category?: TechnologyCategory; limit?: number } = {}
+): TechnologySuggestion[] {
+  const typed = query.trim().toLowerCase();
+  const limit = options.limit ?? 8;
+
+  const matches: Array<{ technology: TechnologyAlias; score: number; alias?: string; order: number }> = [];
+  TECHNOLOGY_CATALOG.forEach((technology, order) => {
+    if (!typed) {
+      if (options.category && technology.category === options.category) {
+        matches.push({ technology, score: 0, order });
+      }
+      return;
+    }
+
+    let best: { score: number; alias?: string } | null = null;
+    for (const spelling of [technology.canonical, ...technology.aliases]) {
+      const score = scoreSpelling(typed, spelling.toLowerCase());
+      if (score !== null && (!best || score < best.score)) {
+        best = { score, ...(spelling === technology.canonical ? {} : { alias: spelling }) };
+      }
+    }
+    if (best) {
+      matches.push({ technology, order, ...best });
+    }
+  });
+
+  const preferred = (technology: TechnologyAlias) => (technology.category === options.category ? 0 : 1);
+  return matches
+    .sort((a, b) => preferred(a.technology) - preferred(b.technology) || a.score - b.score || a.order - b.order)
+    .slice(0, limit)
+    .map(({ technology, alias }) => ({
+      name: technology.canonical,
+      category: technology.category,
+      categoryLabel: TECHNOLOGY_CATEGORY_LABELS[technology.category],
+      ...(alias ? { matchedAlias: alias } : {})
+    }));
+}
@@ -9,8 +9,10 @@ import {
   HiddenTax,
   isRefereeAnalysis,
   isComparisonMatrix,
+  isScoreMatrix,
   isScenarioVerdict,
   isHiddenTax,
+  TAX_LEVELS,
 } from './types';
 
 // ============================================================================
@@ -93,11 +95,13 @@ const scenarioVerdictArb: fc.Arbitrary<ScenarioVerdict> = fc.record({
 /**
  * Generator for HiddenTax
  */
-const hiddenTaxArb: fc.Arbitrary<HiddenTax> = fc.record({
+const hiddenTaxArb: fc.Arbitrary<Required<HiddenTax>> = fc.record({
   technology: technologyArb,
   warning: fc.string({ minLength: 10, maxLength: 200 }),
   timeframe: timeframeArb,
-  impact: fc.string({ minLength: 10, maxLength: 150 }),
+  severity: fc.constantFrom(...TAX_LEVELS),
+  likelihood: fc.constantFrom(...TAX_LEVELS),
+  mitigation: fc.string({ minLength: 10, maxLength: 150 }),
 });
 
 /**
@@ -110,7 +114,7 @@ const refereeAnalysisArb: fc.Arbitrary<RefereeAnalysis> = fc.record({
   }),
   taleOfTheTape: comparisonMatrixArb,
   scenarios: fc.array(scenarioVerdictArb, { minLength: 3, maxLength: 3 }),
-  hiddenTax: hiddenTaxArb,
+  hiddenTaxes: fc.array(hiddenTaxArb, { minLength: 2, maxLength: 2 }),
   tieBreaker: fc.string({ minLength: 10, maxLength: 200 }),
 });
 
@@ -164,8 +168,8 @@ describe('Type Validation Properties', () => {
             expect(isScenarioVerdict(scenario)).toBe(true);
           });
           
-          // Test that hiddenTax is present and valid
-          expect(isHiddenTax(analysis.hiddenTax)).toBe(true);
+          // Test that every hidden tax is present and valid
+          expect(analysis.hiddenTaxes.every(tax => isHiddenTax(tax))).toBe(true);
           
           // Test that tieBreaker is present
           expect(typeof analysis.tieBreaker).toBe('string');
@@ -214,6 +218,11 @@ describe('Type Validation Properties', () => {
       );
     });
 
+    test('HiddenTax leaves out the levels and mitigation the referee did not give', () => {
+      expect(isHiddenTax({ technology: 'React', warning: 'Library churn', timeframe: '6 months' })).toBe(true);
+      expect(isHiddenTax({ technology: 'React', warning: 'Library churn', timeframe: '6 months', severity: 'unknown' })).toBe(false);
+    });
+
     test('HiddenTax should contain all required warning components', () => {
       fc.assert(
         fc.property(hiddenTaxArb, (tax) => {
@@ -226,8 +235,10 @@ describe('Type Validation Properties', () => {
           expect(tax.warning.trim().length).toBeGreaterThan(0);
           expect(typeof tax.timeframe).toBe('string');
           expect(tax.timeframe.trim().length).toBeGreaterThan(0);
-          expect(typeof tax.impact).toBe('string');
-          expect(tax.impact.trim().length).toBeGreaterThan(0);
+          expect(TAX_LEVELS).toContain(tax.severity);
+          expect(TAX_LEVELS).toContain(tax.likelihood);
+          expect(typeof tax.mitigation).toBe('string');
+          expect(tax.mitigation.trim().length).toBeGreaterThan(0);
         }),
         { numRuns: 100 }
       );
@@ -243,9 +254,21 @@ describe('Type Validation Properties', () => {
       
       // Test invalid ComparisonMatrix
       expect(isComparisonMatrix(null)).toBe(false);
+      const twoWay = { tech1: 'a', tech2: 'b' };
+      const twoWayMatrix = { speed: twoWay, cost: twoWay, developerExperience: twoWay, scalability: twoWay, maintainability: twoWay };
+      expect(isComparisonMatrix(twoWayMatrix)).toBe(true);
+      expect(isComparisonMatrix(twoWayMatrix, 3)).toBe(false);
       expect(isComparisonMatrix({})).toBe(false);
       expect(isComparisonMatrix({ speed: {} })).toBe(false);
       
+      // Test invalid ScoreMatrix
+      const scored = { tech1: { score: 7, confidence: 0.8 }, tech2: { score: 1, confidence: 0 } };
+      const scoreMatrix = { speed: scored, cost: scored, developerExperience: scored, scalability: scored, maintainability: scored };
+      expect(isScoreMatrix(scoreMatrix)).toBe(true);
+      expect(isScoreMatrix(scoreMatrix, 3)).toBe(false);
+      expect(isScoreMatrix({ ...scoreMatrix, cost: { ...scored, tech2: { score: 0, confidence: 0.5 } } })).toBe(false);
+      expect(isScoreMatrix({ ...scoreMatrix, cost: { ...scored, tech2: { score: 5, confidence: 80 } } })).toBe(false);
+      
       // Test invalid ScenarioVerdict
       expect(isScenarioVerdict(null)).toBe(false);
       expect(isScenarioVerdict({})).toBe(false);
@@ -255,6 +278,7 @@ describe('Type Validation Properties', () => {
       expect(isHiddenTax(null)).toBe(false);
       expect(isHiddenTax({})).toBe(false);
       expect(isHiddenTax({ technology: 'React' })).toBe(false);
+      expect(isHiddenTax({ technology: 'React', warning: 'Churn', timeframe: '6 months', severity: 'severe', likelihood: 'high', mitigation: 'Pin versions' })).toBe(false);
     });
   });
 });
\ No newline at end of file
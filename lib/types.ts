@@ -1,4 +1,6 @@
 // Core TypeScript interfaces and types for Tech Referee
+import { GENERAL_DIMENSIONS } from './dimensions';
+import { DEFAULT_SCENARIOS } from './scenarios';
 
 // ============================================================================
 // Core Analysis Types
@@ -11,59 +13,270 @@ export interface RefereeAnalysis {
   matchup: {
     technology1: string;
     technology2: string;
+    /** Every contender in order (2-5); technology1/technology2 mirror the first two */
+    technologies?: string[];
   };
   taleOfTheTape: ComparisonMatrix;
+  /** 1-10 scores behind the Tale of the Tape descriptors; absent when the model gave none */
+  scores?: ScoreMatrix;
   scenarios: ScenarioVerdict[];
-  hiddenTax: HiddenTax;
+  /** One tax per contender, in contender order */
+  hiddenTaxes: HiddenTax[];
   tieBreaker: string;
+  /** The constraints the verdicts were judged against, when the user gave any */
+  constraints?: MatchupConstraints;
+  /** The scenario personas judged, when they differ from the default three */
+  scenarioPersonas?: ScenarioPersona[];
+  /** Shared category whose dimensions the Tale of the Tape uses; absent for the general dimensions */
+  category?: TechnologyCategory;
+  /** Set when the contenders are two versions of one product and the verdict is about migrating */
+  upgrade?: UpgradeMatchup;
+  /** Version of the prompt templates that produced the analysis */
+  promptVersion?: string;
+  /** Guideline review of the verdict; absent when the first answer broke no guidelines */
+  quality?: AnalysisQuality;
+  /** Permalink ID, set once the analysis has been saved */
+  id?: string;
 }
 
 /**
- * Structured comparison across key dimensions
+ * Referee guidelines a parsed analysis can break
  */
-export interface ComparisonMatrix {
-  speed: {
-    tech1: string;
-    tech2: string;
-  };
-  cost: {
-    tech1: string;
-    tech2: string;
-  };
-  developerExperience: {
-    tech1: string;
-    tech2: string;
-  };
-  scalability: {
-    tech1: string;
-    tech2: string;
-  };
-  maintainability: {
-    tech1: string;
-    tech2: string;
-  };
+export type GuidelineRule = 'absoluteClaim' | 'genericDescriptor' | 'tieBreakerQuestion' | 'hiddenTaxTimeframe';
+
+/**
+ * One place an analysis breaks a referee guideline
+ */
+export interface GuidelineViolation {
+  rule: GuidelineRule;
+  /** Where it was found, e.g. "scenarios[1].reasoning" or "taleOfTheTape.cost.tech2" */
+  field: string;
+  /** The offending text */
+  excerpt: string;
+}
+
+/**
+ * How a verdict fared against the referee guidelines
+ */
+export interface AnalysisQuality {
+  /** Violations still present in the returned analysis */
+  warnings: GuidelineViolation[];
+  /** Whether the model was asked once to correct its first answer */
+  reprompted: boolean;
+}
+
+/**
+ * An upgrade between two versions of the same technology, e.g. React 18 -> 19
+ */
+export interface UpgradeMatchup {
+  /** The product, e.g. "React" */
+  technology: string;
+  /** The version the team is on (the older one) */
+  fromVersion: string;
+  /** The version they could move to */
+  toVersion: string;
+}
+
+/**
+ * Optional facts about the team's situation that the verdicts should reflect
+ */
+export interface MatchupConstraints {
+  teamSize?: number;
+  /** Expected peak requests per second */
+  expectedRps?: number;
+  /** Monthly infrastructure/tooling budget in USD */
+  monthlyBudget?: number;
+  existingStack?: string[];
+  compliance?: string[];
+  notes?: string;
+}
+
+/**
+ * One dimension's descriptors, keyed tech1..techN in contender order
+ */
+export type ContenderDescriptors = {
+  tech1: string;
+  tech2: string;
+  [contender: `tech${number}`]: string;
+};
+
+/**
+ * Structured comparison keyed by dimension, e.g. speed, cost,
+ * developerExperience, scalability and maintainability for the general set
+ */
+export type ComparisonMatrix = Record<string, ContenderDescriptors>;
+
+/**
+ * A contender's rating on one dimension
+ */
+export interface DimensionScore {
+  /** 1 (weakest) to 10 (strongest on this dimension, e.g. the cheapest for Cost) */
+  score: number;
+  /** How sure the model is of the score, 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * One dimension's scores, keyed tech1..techN like ContenderDescriptors
+ */
+export type ContenderScores = {
+  tech1: DimensionScore;
+  tech2: DimensionScore;
+  [contender: `tech${number}`]: DimensionScore;
+};
+
+/**
+ * Scores keyed by dimension, mirroring the ComparisonMatrix
+ */
+export type ScoreMatrix = Record<string, ContenderScores>;
+
+/**
+ * Relative weight per dimension key; dimensions left out weigh 1
+ */
+export type DimensionWeights = Record<string, number>;
+
+/**
+ * A contender's weighted score across every dimension
+ */
+export interface ContenderTotal {
+  technology: string;
+  /** Weighted mean score, 1 to 10 */
+  score: number;
+  /** Weighted mean confidence, 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * The contender the weighted scores favour for one persona
+ */
+export interface PersonaRecommendation {
+  /** Label of the scenario persona */
+  persona: string;
+  technology: string;
+  score: number;
+  /** Every contender's total for this persona, in contender order */
+  totals: ContenderTotal[];
+}
+
+/**
+ * Icons a comparison dimension can use in the Tale of the Tape
+ */
+export type DimensionIcon =
+  | 'zap'
+  | 'dollar-sign'
+  | 'code'
+  | 'trending-up'
+  | 'wrench'
+  | 'shield'
+  | 'git-merge'
+  | 'search'
+  | 'globe'
+  | 'lock'
+  | 'package'
+  | 'palette'
+  | 'layers'
+  | 'bug'
+  | 'cpu'
+  | 'clock'
+  | 'users';
+
+/**
+ * One row of the Tale of the Tape
+ */
+export interface ComparisonDimension {
+  /** Key in ComparisonMatrix, e.g. "developerExperience" */
+  key: string;
+  /** Label used in prompts and table rows, e.g. "Developer Experience" */
+  label: string;
+  description: string;
+  icon: DimensionIcon;
 }
 
 /**
  * Scenario-based verdict with context and reasoning
  */
 export interface ScenarioVerdict {
-  name: 'Move Fast Team' | 'Scale Team' | 'Budget Team';
+  /** Label of the scenario persona, e.g. "Move Fast Team" */
+  name: string;
   winner: string;
   reasoning: string;
   context: string;
 }
 
 /**
- * Hidden cost or downside warning
+ * Icons a scenario persona can use on its card
+ */
+export type ScenarioIcon = 'zap' | 'trending-up' | 'dollar-sign' | 'shield' | 'user' | 'users' | 'database' | 'target';
+
+/**
+ * Accent colors a scenario persona can use on its card
+ */
+export type ScenarioColor = 'yellow' | 'purple' | 'green' | 'blue' | 'red' | 'orange' | 'pink' | 'gray';
+
+/**
+ * A team the verdicts are judged for, e.g. "Move Fast Team" or "Regulated Enterprise"
+ */
+export interface ScenarioPersona {
+  id: string;
+  label: string;
+  /** One sentence describing the team's priorities, given to the LLM */
+  description: string;
+  icon: ScenarioIcon;
+  color: ScenarioColor;
+}
+
+/**
+ * How bad, or how likely, a hidden tax is
+ */
+export type TaxLevel = 'low' | 'medium' | 'high';
+
+export const TAX_LEVELS: TaxLevel[] = ['low', 'medium', 'high'];
+
+/**
+ * Hidden cost or downside warning for one contender
  */
 export interface HiddenTax {
   technology: string;
   warning: string;
+  /** When the tax comes due, e.g. "6 months" */
   timeframe: string;
-  impact: string;
+  /** Absent when the referee did not rate it */
+  severity?: TaxLevel;
+  /** Absent when the referee did not rate it */
+  likelihood?: TaxLevel;
+  /** A concrete step that reduces the tax; absent when the referee gave none */
+  mitigation?: string;
 }
 
+/**
+ * The single Hidden Tax of verdicts from before every contender had one
+ */
+export interface LegacyHiddenTax {
+  technology: string;
+  warning: string;
+  timeframe: string;
+  /** Concrete consequence for the team */
+  impact?: string;
+}
+
+/**
+ * What a prompt template version asks the model for, where versions differ
+ */
+export interface PromptFeatures {
+  /** One rated Hidden Tax per contender rather than a single `hiddenTax` */
+  hiddenTaxPerContender: boolean;
+  /** A 1-10 score and confidence for every Tale of the Tape cell */
+  tapeScores: boolean;
+}
+
+/**
+ * Features of the newest prompt templates, used when none are given
+ */
+export const LATEST_PROMPT_FEATURES: PromptFeatures = {
+  hiddenTaxPerContender: true,
+  tapeScores: true
+};
+
 // ============================================================================
 // API Request/Response Types
 // ============================================================================
@@ -74,8 +287,26 @@ export interface HiddenTax {
 export interface RefereeRequest {
   tech1: string;
   tech2: string;
+  /** All contenders for a 3-5 way comparison; when sent, tech1/tech2 are taken from it */
+  technologies?: string[];
+  constraints?: MatchupConstraints;
+  /** Scenario personas to judge instead of the configured set */
+  scenarios?: ScenarioPersona[];
+  /** Skip cached verdicts and ask the LLM again (the fresh answer is cached) */
+  bypassCache?: boolean;
+  /** Compare technologies from unrelated categories instead of rejecting the matchup */
+  allowCategoryMismatch?: boolean;
+  /** Registered prompt template version to use instead of the active one */
+  promptVersion?: string;
+  provider?: string;
 }
 
+/**
+ * How the LLM is asked to format its answer: markdown sections parsed with
+ * regexes, or a JSON document matching RefereeAnalysis
+ */
+export type OutputFormat = 'markdown' | 'json';
+
 /**
  * API response wrapper for referee analysis
  */
@@ -83,6 +314,93 @@ export interface RefereeResponse {
   success: boolean;
   data?: RefereeAnalysis;
   error?: ApiError;
+  /** Set when the verdict was served from the response cache */
+  cached?: boolean;
+  /** How old the cached verdict is, in seconds */
+  cacheAgeSeconds?: number;
+  /** How many times the model was asked to reformat an answer that did not parse */
+  repairAttempts?: number;
+  /** Catalog names accepted contenders may have been misspelled from, keyed by the name as sent, closest first */
+  suggestions?: Record<string, string[]>;
+}
+
+/**
+ * A finished analysis as kept by the analysis store
+ */
+export interface StoredAnalysis {
+  id: string;
+  analysis: RefereeAnalysis;
+  /** LLM provider and model that produced the verdict */
+  provider: string;
+  model: string;
+  /** ISO timestamp of when the verdict was saved */
+  createdAt: string;
+}
+
+/**
+ * Response from GET /api/referee/[id]
+ */
+export interface StoredAnalysisResponse {
+  success: boolean;
+  data?: StoredAnalysis;
+  error?: ApiError;
+}
+
+/**
+ * Sections of a streamed analysis, in the order the referee writes them
+ */
+export type RefereeStreamSection = 'matchup' | 'taleOfTheTape' | 'scenarios' | 'hiddenTax' | 'tieBreaker';
+
+/**
+ * Real progress reported while an analysis streams in
+ */
+export interface RefereeStreamProgress {
+  section: RefereeStreamSection | 'waiting' | 'repairing' | 'reviewing';
+  completed: number;
+  total: number;
+  message: string;
+}
+
+/**
+ * Streamed just before `done` when the verdict came from the response cache
+ */
+export interface RefereeCacheHit {
+  cached: true;
+  /** How old the cached verdict is, in seconds */
+  cacheAgeSeconds: number;
+}
+
+/**
+ * Server-Sent Events emitted by the streaming variant of /api/referee
+ */
+export type RefereeStreamEvent =
+  | { event: 'progress'; data: RefereeStreamProgress }
+  | { event: 'matchup'; data: RefereeAnalysis['matchup'] }
+  | { event: 'category'; data: TechnologyCategory }
+  | { event: 'upgrade'; data: UpgradeMatchup }
+  | { event: 'taleOfTheTape'; data: ComparisonMatrix }
+  | { event: 'scores'; data: ScoreMatrix }
+  | { event: 'scenario'; data: ScenarioVerdict }
+  | { event: 'hiddenTax'; data: HiddenTax[] }
+  | { event: 'tieBreaker'; data: string }
+  | { event: 'cache'; data: RefereeCacheHit }
+  | { event: 'done'; data: RefereeAnalysis & Pick<RefereeResponse, 'repairAttempts' | 'suggestions'> }
+  | { event: 'error'; data: ApiError };
+
+/**
+ * An analysis that is still streaming in; sections appear as they are parsed
+ */
+export interface PartialRefereeAnalysis {
+  matchup: RefereeAnalysis['matchup'];
+  taleOfTheTape?: ComparisonMatrix;
+  scores?: ScoreMatrix;
+  scenarios: ScenarioVerdict[];
+  hiddenTaxes?: HiddenTax[];
+  tieBreaker?: string;
+  constraints?: MatchupConstraints;
+  scenarioPersonas?: ScenarioPersona[];
+  category?: TechnologyCategory;
+  upgrade?: UpgradeMatchup;
 }
 
 /**
@@ -93,6 +411,12 @@ export interface ApiError {
   message: string;
   details?: string;
   timestamp: string;
+  /** Set on CATEGORY_MISMATCH errors */
+  categoryMismatch?: CategoryMismatch;
+  /** Catalog names a misspelled technology probably meant, closest first */
+  suggestions?: string[];
+  /** Set on PARSING_ERROR when the model was asked to reformat its answer first */
+  repairAttempts?: number;
 }
 
 // ============================================================================
@@ -116,13 +440,34 @@ export interface ValidationError {
   code: string;
 }
 
+/**
+ * Broad area a technology belongs to
+ */
+export type TechnologyCategory =
+  | 'language'
+  | 'frontend'
+  | 'backend'
+  | 'database'
+  | 'cloud'
+  | 'devops'
+  | 'build-tool'
+  | 'testing'
+  | 'mobile'
+  | 'styling'
+  | 'state-management'
+  | 'runtime'
+  | 'game-engine'
+  | 'data-science'
+  | 'cms';
+
 /**
  * Technology input validation constraints
  */
 export interface TechnologyInput {
   name: string;
   aliases?: string[];
-  category?: string;
+  category?: TechnologyCategory;
+  homepage?: string;
 }
 
 // ============================================================================
@@ -175,7 +520,7 @@ export interface ErrorBoundaryState {
  * Props for MatchupInput component
  */
 export interface MatchupInputProps {
-  onSubmit: (tech1: string, tech2: string) => void;
+  onSubmit: (tech1: string, tech2: string, options?: MatchupSubmitOptions) => void;
   loading?: boolean;
   disabled?: boolean;
   initialValues?: {
@@ -184,12 +529,65 @@ export interface MatchupInputProps {
   };
 }
 
+/**
+ * Optional extras MatchupInput passes along with the first two technologies
+ */
+export interface MatchupSubmitOptions {
+  additionalTechnologies?: string[];
+  constraints?: MatchupConstraints;
+  /** Compare anyway when the contenders are from unrelated categories */
+  allowCategoryMismatch?: boolean;
+}
+
+/**
+ * Props for TechnologyCombobox component
+ */
+export interface TechnologyComboboxProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+  disabled?: boolean;
+  /** Technologies in this category are listed first */
+  preferredCategory?: TechnologyCategory;
+  /** Names already in the matchup, left out of the list */
+  exclude?: string[];
+  /** ID of the element describing the input, e.g. its error message */
+  describedBy?: string;
+  invalid?: boolean;
+  className?: string;
+}
+
+/**
+ * Props for ShareLink component
+ */
+export interface ShareLinkProps {
+  analysisId: string;
+  /** Slider weights to carry in the link; left out when every weight is 1 */
+  weights?: DimensionWeights;
+}
+
+/**
+ * Props for ExportButtons component
+ */
+export interface ExportButtonsProps {
+  analysisId: string;
+  /** Slider weights the export ranks the contenders under */
+  weights?: DimensionWeights;
+}
+
 /**
  * Props for VerdictDisplay component
  */
 export interface VerdictDisplayProps {
-  analysis: RefereeAnalysis;
+  analysis: RefereeAnalysis | PartialRefereeAnalysis;
   loading?: boolean;
+  streaming?: boolean;
+  /** Weights the sliders start from, e.g. from a shared link; every dimension weighs 1 by default */
+  weights?: DimensionWeights;
+  /** Saved verdict to link to; the share link carries the current slider weights */
+  analysisId?: string;
 }
 
 /**
@@ -199,6 +597,40 @@ export interface TaleOfTheTapeProps {
   comparison: ComparisonMatrix;
   technology1: string;
   technology2: string;
+  /** Full contender list for multi-way comparisons; defaults to technology1/technology2 */
+  technologies?: string[];
+  /** Rows to show; defaults to the general dimensions */
+  dimensions?: ComparisonDimension[];
+  /** Scores shown as bars under the descriptors, with a weighted total per contender */
+  scores?: ScoreMatrix;
+  /** Weights for the totals; every dimension weighs 1 by default */
+  weights?: DimensionWeights;
+  /** Keys of the rows that decide the weighted lead, highlighted in the table */
+  decidingDimensions?: string[];
+}
+
+/**
+ * Props for RadarChart component
+ */
+export interface RadarChartProps {
+  dimensions: ComparisonDimension[];
+  technologies: string[];
+  scores: ScoreMatrix;
+  /** Keys of the axes that decide the weighted lead, labelled in the highlight color */
+  decidingDimensions?: string[];
+}
+
+/**
+ * Props for WeightSliders component
+ */
+export interface WeightSlidersProps {
+  dimensions: ComparisonDimension[];
+  technologies: string[];
+  scores: ScoreMatrix;
+  weights: DimensionWeights;
+  /** Keys of the rows that decide the lead under these weights */
+  decidingDimensions?: string[];
+  onChange: (weights: DimensionWeights) => void;
 }
 
 /**
@@ -206,13 +638,22 @@ export interface TaleOfTheTapeProps {
  */
 export interface ScenarioCardsProps {
   scenarios: ScenarioVerdict[];
+  /** Contenders in the matchup, used to show each winner against the field */
+  technologies?: string[];
+  /** Personas the scenarios were judged for; defaults to the built-in three */
+  personas?: ScenarioPersona[];
+  /** What the weighted scores favour for each persona, shown next to the verdict */
+  recommendations?: PersonaRecommendation[];
 }
 
 /**
  * Props for HiddenTaxWarning component
  */
 export interface HiddenTaxWarningProps {
-  warning: HiddenTax;
+  /** One tax per contender, shown side by side */
+  taxes: HiddenTax[];
+  /** Frame the taxes as the cost of staying behind versus moving on */
+  upgrade?: UpgradeMatchup;
 }
 
 /**
@@ -221,6 +662,15 @@ export interface HiddenTaxWarningProps {
 export interface LoadingStateProps {
   message?: string;
   progress?: number;
+  stages?: LoadingStage[];
+}
+
+/**
+ * One step in the LoadingState checklist
+ */
+export interface LoadingStage {
+  label: string;
+  complete: boolean;
 }
 
 // ============================================================================
@@ -253,7 +703,67 @@ export type AsyncResult<T> = {
 export interface TechnologyAlias {
   canonical: string;
   aliases: string[];
-  category: string;
+  category: TechnologyCategory;
+  homepage: string;
+}
+
+/**
+ * One typeahead match for a partly typed technology name
+ */
+export interface TechnologySuggestion {
+  name: string;
+  category: TechnologyCategory;
+  /** Human-readable category, e.g. "database" or "styling library" */
+  categoryLabel: string;
+  /** The alias the query matched, when it was not the canonical name */
+  matchedAlias?: string;
+}
+
+/**
+ * Response from GET /api/technologies
+ */
+export interface TechnologySearchResponse {
+  success: boolean;
+  data?: TechnologySuggestion[];
+  error?: ApiError;
+}
+
+/**
+ * Contenders from categories that do not compare, e.g. Redis vs Tailwind CSS
+ */
+export interface CategoryMismatch {
+  /** Every contender in request order; unknown names have no category */
+  technologies: Array<{ name: string; category?: TechnologyCategory }>;
+  /** Indexes of the first incompatible pair */
+  conflict: [number, number];
+  /** Same-category alternatives for each contender, in the same order */
+  alternatives: string[][];
+}
+
+// ============================================================================
+// Contenders
+// ============================================================================
+
+/**
+ * Bounds on the number of technologies in one comparison
+ */
+export const MIN_CONTENDERS = 2;
+export const MAX_CONTENDERS = 5;
+
+/**
+ * Key holding the descriptor for the contender at a zero-based index
+ */
+export function contenderKey(index: number): `tech${number}` {
+  return `tech${index + 1}`;
+}
+
+/**
+ * All contenders of a matchup, in order
+ */
+export function getContenders(matchup: RefereeAnalysis['matchup']): string[] {
+  return matchup.technologies && matchup.technologies.length >= MIN_CONTENDERS
+    ? matchup.technologies
+    : [matchup.technology1, matchup.technology2];
 }
 
 // ============================================================================
@@ -270,36 +780,69 @@ export function isRefereeAnalysis(obj: any): obj is RefereeAnalysis {
     obj.matchup &&
     typeof obj.matchup.technology1 === 'string' &&
     typeof obj.matchup.technology2 === 'string' &&
+    (obj.matchup.technologies === undefined || (
+      Array.isArray(obj.matchup.technologies) &&
+      obj.matchup.technologies.length >= MIN_CONTENDERS &&
+      obj.matchup.technologies.length <= MAX_CONTENDERS &&
+      obj.matchup.technologies.every((tech: unknown) => typeof tech === 'string')
+    )) &&
     obj.taleOfTheTape &&
     Array.isArray(obj.scenarios) &&
-    obj.scenarios.length === 3 &&
-    obj.hiddenTax &&
+    obj.scenarios.length === (Array.isArray(obj.scenarioPersonas) ? obj.scenarioPersonas : DEFAULT_SCENARIOS).length &&
+    Array.isArray(obj.hiddenTaxes) &&
     typeof obj.tieBreaker === 'string'
   );
 }
 
 /**
- * Type guard for ComparisonMatrix
+ * Type guard for ComparisonMatrix; every dimension must describe each of the
+ * `contenderCount` contenders
  */
-export function isComparisonMatrix(obj: any): obj is ComparisonMatrix {
+export function isComparisonMatrix(
+  obj: any,
+  contenderCount: number = MIN_CONTENDERS,
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS
+): obj is ComparisonMatrix {
   return !!(
     obj &&
     typeof obj === 'object' &&
-    obj.speed &&
-    obj.cost &&
-    obj.developerExperience &&
-    obj.scalability &&
-    obj.maintainability &&
-    typeof obj.speed.tech1 === 'string' &&
-    typeof obj.speed.tech2 === 'string'
+    dimensions.every(({ key: dimension }) =>
+      obj[dimension] &&
+      Array.from({ length: contenderCount }, (_, index) => contenderKey(index))
+        .every(key => typeof obj[dimension][key] === 'string')
+    )
   );
 }
 
 /**
- * Type guard for ScenarioVerdict
+ * Type guard for ScoreMatrix; every dimension must score each of the
+ * `contenderCount` contenders from 1 to 10 with a confidence from 0 to 1
  */
-export function isScenarioVerdict(obj: any): obj is ScenarioVerdict {
-  const validNames = ['Move Fast Team', 'Scale Team', 'Budget Team'];
+export function isScoreMatrix(
+  obj: any,
+  contenderCount: number = MIN_CONTENDERS,
+  dimensions: ComparisonDimension[] = GENERAL_DIMENSIONS
+): obj is ScoreMatrix {
+  return !!(
+    obj &&
+    typeof obj === 'object' &&
+    dimensions.every(({ key: dimension }) =>
+      obj[dimension] &&
+      Array.from({ length: contenderCount }, (_, index) => obj[dimension][contenderKey(index)])
+        .every(cell =>
+          cell &&
+          typeof cell.score === 'number' && cell.score >= 1 && cell.score <= 10 &&
+          typeof cell.confidence === 'number' && cell.confidence >= 0 && cell.confidence <= 1
+        )
+    )
+  );
+}
+
+/**
+ * Type guard for ScenarioVerdict; the name must be one of the personas' labels
+ */
+export function isScenarioVerdict(obj: any, personas: ScenarioPersona[] = DEFAULT_SCENARIOS): obj is ScenarioVerdict {
+  const validNames = personas.map(persona => persona.label);
   return !!(
     obj &&
     typeof obj === 'object' &&
@@ -310,6 +853,18 @@ export function isScenarioVerdict(obj: any): obj is ScenarioVerdict {
   );
 }
 
+/**
+ * A legacy single Hidden Tax as a per-contender one, without the levels and
+ * mitigation it never had
+ */
+export function upgradeLegacyHiddenTax(tax: LegacyHiddenTax): HiddenTax {
+  return {
+    technology: tax.technology,
+    warning: tax.warning,
+    timeframe: tax.timeframe
+  };
+}
+
 /**
  * Type guard for HiddenTax
  */
@@ -320,6 +875,8 @@ export function isHiddenTax(obj: any): obj is HiddenTax {
     typeof obj.technology === 'string' &&
     typeof obj.warning === 'string' &&
     typeof obj.timeframe === 'string' &&
-    typeof obj.impact === 'string'
+    (obj.severity === undefined || TAX_LEVELS.includes(obj.severity)) &&
+    (obj.likelihood === undefined || TAX_LEVELS.includes(obj.likelihood)) &&
+    (obj.mitigation === undefined || typeof obj.mitigation === 'string')
   );
 }
\ No newline at end of file
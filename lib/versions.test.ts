@@ -0,0 +1,45 @@
+// Unit tests for version-aware matchups
+import {
+  compareVersions,
+  detectUpgradeMatchup,
+  expandVersionShorthand,
+  getUpgradeContenders,
+  parseVersionedName
+} from './versions';
+
+describe('Versioned names', () => {
+  test('splits a trailing version from the product', () => {
+    expect(parseVersionedName('React 18')).toEqual({ product: 'React', version: '18' });
+    expect(parseVersionedName(' Angular v17 ')).toEqual({ product: 'Angular', version: '17' });
+    expect(parseVersionedName('Node.js 20.x')).toEqual({ product: 'Node.js', version: '20.x' });
+    expect(parseVersionedName('3.12')).toEqual({ product: '', version: '3.12' });
+    expect(parseVersionedName('Vue')).toEqual({ product: 'Vue' });
+  });
+
+  test('orders versions numerically rather than as text', () => {
+    expect(compareVersions('3.8', '3.12')).toBeLessThan(0);
+    expect(compareVersions('19', '18.3')).toBeGreaterThan(0);
+    expect(compareVersions('20.x', '20')).toBe(0);
+  });
+
+  test('bare versions borrow the product of the first contender', () => {
+    expect(expandVersionShorthand(['Python 3.8', '3.12'])).toEqual(['Python 3.8', 'Python 3.12']);
+    expect(expandVersionShorthand(['React', 'Vue'])).toEqual(['React', 'Vue']);
+    expect(expandVersionShorthand(['3.8', '3.12'])).toEqual(['3.8', '3.12']);
+  });
+});
+
+describe('Upgrade matchups', () => {
+  test('two versions of one product are an upgrade, older version first', () => {
+    const upgrade = detectUpgradeMatchup(['Python 3.12', 'python 3.8']);
+    expect(upgrade).toEqual({ technology: 'Python', fromVersion: '3.8', toVersion: '3.12' });
+    expect(getUpgradeContenders(upgrade!)).toEqual(['Python 3.8', 'Python 3.12']);
+  });
+
+  test('different products, equal versions and multi-way matchups are not upgrades', () => {
+    expect(detectUpgradeMatchup(['React 18', 'Vue 3'])).toBeNull();
+    expect(detectUpgradeMatchup(['React 18', 'React'])).toBeNull();
+    expect(detectUpgradeMatchup(['Node.js 20', 'Node.js 20.x'])).toBeNull();
+    expect(detectUpgradeMatchup(['React 17', 'React 18', 'React 19'])).toBeNull();
+  });
+});
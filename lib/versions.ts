@@ -0,0 +1,86 @@
+// Version-aware matchups: telling "React 18 vs React 19" apart from a self-comparison
+import type { UpgradeMatchup } from './types';
+
+// "React 18", "Python 3.12", "Angular v17", "Node.js 20.x"
+const VERSIONED_NAME_PATTERN = /^(.+?)\s+v?(\d+(?:\.\d+)*(?:\.x)?)$/i;
+// A version on its own, e.g. the "3.12" in "Python 3.8 vs 3.12"
+const BARE_VERSION_PATTERN = /^v?(\d+(?:\.\d+)*(?:\.x)?)$/i;
+
+/**
+ * Split a name into product and version. Names without a trailing version
+ * come back whole; a bare version has an empty product.
+ */
+export function parseVersionedName(name: string): { product: string; version?: string } {
+  const trimmed = name.trim();
+  const bare = trimmed.match(BARE_VERSION_PATTERN);
+  if (bare) {
+    return { product: '', version: bare[1] };
+  }
+
+  const versioned = trimmed.match(VERSIONED_NAME_PATTERN);
+  return versioned ? { product: versioned[1].trim(), version: versioned[2] } : { product: trimmed };
+}
+
+/**
+ * Order two versions numerically, so 3.12 comes after 3.8; a missing part
+ * or "x" counts as 0
+ */
+export function compareVersions(a: string, b: string): number {
+  const parts = (version: string) => version.split('.').map(part => Number(part) || 0);
+  const [first, second] = [parts(a), parts(b)];
+  for (let index = 0; index < Math.max(first.length, second.length); index++) {
+    const difference = (first[index] || 0) - (second[index] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Give bare versions the product of the first contender, so
+ * ["Python 3.8", "3.12"] becomes ["Python 3.8", "Python 3.12"]
+ */
+export function expandVersionShorthand(technologies: string[]): string[] {
+  const { product } = parseVersionedName(technologies[0] || '');
+  if (!product) {
+    return technologies;
+  }
+
+  return technologies.map((technology, index) => {
+    const parsed = parseVersionedName(technology);
+    return index > 0 && !parsed.product && parsed.version ? `${product} ${parsed.version}` : technology;
+  });
+}
+
+/**
+ * The upgrade being weighed when both contenders are different versions of
+ * the same product, older version first; null for ordinary comparisons.
+ * Expects names already normalized, so "reactjs 18" and "React 19" match.
+ */
+export function detectUpgradeMatchup(technologies: string[]): UpgradeMatchup | null {
+  if (technologies.length !== 2) {
+    return null;
+  }
+
+  const [first, second] = technologies.map(parseVersionedName);
+  if (!first.version || !second.version || !first.product ||
+      first.product.toLowerCase() !== second.product.toLowerCase() ||
+      compareVersions(first.version, second.version) === 0) {
+    return null;
+  }
+
+  const [older, newer] = compareVersions(first.version, second.version) < 0 ? [first, second] : [second, first];
+  return {
+    technology: first.product,
+    fromVersion: older.version!,
+    toVersion: newer.version!
+  };
+}
+
+/**
+ * The two contenders of an upgrade: staying on the old version, moving to the new one
+ */
+export function getUpgradeContenders(upgrade: UpgradeMatchup): [string, string] {
+  return [`${upgrade.technology} ${upgrade.fromVersion}`, `${upgrade.technology} ${upgrade.toVersion}`];
+}
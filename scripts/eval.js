@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+// Offline evaluation of prompt and parser quality. Runs the fixture matchups
+// through a provider, scores each verdict against the referee guidelines,
+// writes JSON and HTML reports and compares them with the stored baseline.
+//
+//   npm run eval                                   recorded responses, prompt version from env or the latest
+//   npm run eval -- --provider gemini --prompt-version 2
+//   npm run eval -- --update-baseline              store this run as the new baseline
+const fs = require('fs');
+const Module = require('module');
+const path = require('path');
+const ts = require('typescript');
+
+const root = path.resolve(__dirname, '..');
+require('dotenv').config({ path: path.join(root, '.env.local'), quiet: true });
+
+// Load the app's TypeScript modules directly, resolving the "@/" alias
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  return resolveFilename.call(this, request.startsWith('@/') ? path.join(root, request.slice(2)) : request, ...rest);
+};
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true }
+  });
+  module._compile(outputText, filename);
+};
+
+const USAGE = `Usage: node scripts/eval.js [options]
+
+  --provider <name>        recorded (default), gemini, openai or local
+  --prompt-version <v>     prompt template version (default: REFEREE_PROMPT_VERSION or the latest version)
+  --fixtures <file>        fixture matchups (default: eval/fixtures.json)
+  --only <id>              run a single fixture
+  --out <dir>              where report.json and report.html go (default: eval/reports)
+  --baseline <file>        baseline to compare with (default: eval/baseline.json)
+  --update-baseline        save this run as the baseline instead of comparing
+  --help                   show this message`;
+
+function parseArgs(argv) {
+  const options = {
+    provider: 'recorded',
+    fixtures: path.join(root, 'eval/fixtures.json'),
+    out: path.join(root, 'eval/reports'),
+    baseline: path.join(root, 'eval/baseline.json'),
+    updateBaseline: false
+  };
+  const valued = { '--provider': 'provider', '--prompt-version': 'promptVersion', '--fixtures': 'fixtures', '--only': 'only', '--out': 'out', '--baseline': 'baseline' };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === '--help') {
+      options.help = true;
+    } else if (arg === '--update-baseline') {
+      options.updateBaseline = true;
+    } else if (valued[arg] && argv[index + 1] !== undefined) {
+      options[valued[arg]] = argv[++index];
+    } else {
+      throw new Error(`Unknown or incomplete option: ${arg}`);
+    }
+  }
+  return options;
+}
+
+// Replays the response recorded next to each fixture
+function createRecordedGenerator(fixturesFile) {
+  return async fixture => {
+    if (!fixture.recording) {
+      throw new Error(`Fixture ${fixture.id} has no recording`);
+    }
+    return fs.readFileSync(path.resolve(path.dirname(fixturesFile), fixture.recording), 'utf8');
+  };
+}
+
+// Sends each prompt to a configured provider through the provider registry
+function createProviderGenerator(provider) {
+  const { callOpenAI } = require('../lib/openai');
+  const { createRefereeAnalysisSchema } = require('../lib/schema');
+  return (fixture, prompt) => callOpenAI(prompt.userPrompt, {
+    provider,
+    systemPrompt: prompt.systemPrompt,
+    ...(prompt.outputFormat === 'json'
+      ? { responseFormat: 'json', responseSchema: createRefereeAnalysisSchema(prompt.technologies.length, undefined, prompt.dimensions, prompt.features) }
+      : {})
+  });
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const { compareWithBaseline, renderEvalReportHtml, runEvaluation } = require('../lib/evaluation');
+  const { getActivePromptVersion, getPromptVersions } = require('../lib/prompts');
+
+  const promptVersion = options.promptVersion || getActivePromptVersion();
+  if (!getPromptVersions().includes(promptVersion)) {
+    throw new Error(`Unknown prompt version ${promptVersion}; available: ${getPromptVersions().join(', ')}`);
+  }
+
+  const fixtures = JSON.parse(fs.readFileSync(options.fixtures, 'utf8'))
+    .filter(fixture => !options.only || fixture.id === options.only);
+  if (fixtures.length === 0) {
+    throw new Error(options.only ? `No fixture with id ${options.only}` : 'The fixture file is empty');
+  }
+
+  const generate = options.provider === 'recorded'
+    ? createRecordedGenerator(options.fixtures)
+    : createProviderGenerator(options.provider);
+
+  // The parsers log every fallback they take; keep the console for the results
+  const log = console.log;
+  console.log = () => {};
+  let report;
+  try {
+    report = await runEvaluation(fixtures, generate, { provider: options.provider, promptVersion });
+  } finally {
+    console.log = log;
+  }
+
+  for (const result of report.cases) {
+    const failed = result.checks.filter(check => !check.passed).map(check => check.id);
+    console.log(`${result.score === 1 ? 'PASS' : 'FAIL'} ${result.id} ${Math.round(result.score * 100)}%${failed.length ? ` (${failed.join(', ')})` : ''}${result.error ? ` - ${result.error}` : ''}`);
+  }
+  console.log(`\nOverall score ${Math.round(report.summary.score * 100)}% across ${report.summary.cases} matchups (prompt version ${promptVersion}, ${options.provider})`);
+
+  if (options.updateBaseline) {
+    fs.writeFileSync(options.baseline, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`Baseline saved to ${path.relative(root, options.baseline)}`);
+    return 0;
+  }
+
+  let comparison;
+  if (fs.existsSync(options.baseline)) {
+    comparison = compareWithBaseline(report, JSON.parse(fs.readFileSync(options.baseline, 'utf8')));
+    if (comparison.promptVersionChanged) {
+      const { baseline, report: current } = comparison.promptVersionChanged;
+      console.warn(`Warning: the baseline was recorded with prompt version ${baseline}, not ${current}; differences may come from the prompt rather than this change. Pass --prompt-version ${baseline} to compare like with like, or --update-baseline to record a new one.`);
+    }
+    const delta = (comparison.scoreDelta * 100).toFixed(1);
+    console.log(`Against the baseline: ${comparison.scoreDelta >= 0 ? '+' : ''}${delta} points, ${comparison.regressions.length} regressions, ${comparison.improvements.length} improvements`);
+    comparison.regressions.forEach(regression => console.log(`  regressed: ${regression}`));
+  } else {
+    console.log(`No baseline at ${path.relative(root, options.baseline)}; run with --update-baseline to create one`);
+  }
+
+  fs.mkdirSync(options.out, { recursive: true });
+  fs.writeFileSync(path.join(options.out, 'report.json'), `${JSON.stringify({ ...report, ...(comparison ? { comparison } : {}) }, null, 2)}\n`);
+  fs.writeFileSync(path.join(options.out, 'report.html'), renderEvalReportHtml(report, comparison));
+  console.log(`Reports written to ${path.relative(root, options.out)}/report.{json,html}`);
+
+  return comparison && comparison.regressions.length > 0 ? 1 : 0;
+}
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    console.error(error.message);
+    process.exitCode = 2;
+  }
+);